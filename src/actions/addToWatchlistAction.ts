@@ -0,0 +1,204 @@
+import {
+    type Action,
+    type ActionResult,
+    type IAgentRuntime,
+    type Memory,
+    type State,
+    elizaLogger,
+    parseKeyValueXml,
+    type HandlerCallback,
+    ModelType,
+} from "@elizaos/core";
+
+import { WATCHLIST } from "../constants/index.js";
+import { getReyaService } from "../services/reyaService.js";
+import { getSmartDispatchData } from "../providers/dispatchProvider.js";
+import { splitSymbolList } from "../services/symbolResolver.js";
+import { formatResolutionNotes } from "../services/marketTable.js";
+import { classifyWatchlistRequest, addToWatchlist } from "../services/watchlist.js";
+import type { Market } from "../types/index.js";
+
+/**
+ * The markets a watchlist message names, plus notes for names that didn't
+ * resolve and whether it means the whole list ("clear my watchlist").
+ * Shared with REMOVE_FROM_REYA_WATCHLIST.
+ */
+export async function extractWatchlistMarkets(
+    runtime: IAgentRuntime,
+    text: string
+): Promise<{ markets: Market[]; notes: string; all: boolean }> {
+    const extractionPrompt = `
+You are extracting watchlist parameters from a user message.
+
+EXTRACTION RULES:
+1. symbols: every market or coin named (BTC, ETH, SOL...), in order, separated by commas, or empty
+2. all: "true" if the user means their whole watchlist ("clear my watchlist", "remove everything"), otherwise "false"
+
+EXAMPLES:
+- "add SOL, ETH and HYPE to my watchlist" → symbols: SOL,ETH,HYPE, all: false
+- "remove dogecoin from my watchlist" → symbols: DOGE, all: false
+- "clear my watchlist" → symbols: "", all: true
+- "добавь биткоин в избранное" → symbols: BTC, all: false
+
+FORMAT: Return ONLY this XML structure:
+<response>
+  <symbols>SYMBOLS_OR_EMPTY</symbols>
+  <all>true_or_false</all>
+</response>
+
+USER MESSAGE: "${text}"
+
+EXTRACT NOW:`;
+
+    let extractedData: Record<string, string> = {};
+    try {
+        const llmResponse = await runtime.useModel(ModelType.TEXT_SMALL, {
+            prompt: extractionPrompt,
+        });
+        extractedData = parseKeyValueXml(llmResponse) || {};
+    } catch (extractionError) {
+        // The message itself usually says enough
+        elizaLogger.warn(`Watchlist extraction failed, reading the message directly: ${extractionError}`);
+    }
+
+    const symbolService = getReyaService(runtime).symbols;
+    const symbols = splitSymbolList(extractedData.symbols);
+    const all = String(extractedData.all ?? "").trim().toLowerCase() === "true" || /\b(all|everything|clear)\b|(?<!\p{L})вс[её](?!\p{L})|очисти/u.test(text.toLowerCase());
+
+    if (symbols.length === 0) {
+        return { markets: await symbolService.findMarketMentions(text), notes: "", all };
+    }
+    const resolution = await symbolService.resolveMarketList(symbols);
+    return { markets: resolution.markets, notes: formatResolutionNotes(resolution), all };
+}
+
+const tickers = (markets: Market[]) => markets.map(m => `**${m.ticker}**`).join(", ");
+
+export const addToWatchlistAction: Action = {
+    name: "ADD_TO_REYA_WATCHLIST",
+    similes: [
+        "REYA_WATCHLIST_ADD",
+        "WATCH_REYA_MARKET"
+    ],
+    description: "Add Reya Network markets to this user's watchlist, kept across chats, so SHOW_REYA_WATCHLIST can show them together",
+
+    validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+        elizaLogger.info(`⭐ Add to Watchlist Action Validate: Checking message: "${message.content.text}"`);
+
+        // Check Smart Dispatch flags from provider first, fallback to executed actions
+        const smartDispatchData = getSmartDispatchData(state);
+
+        if (smartDispatchData?.allowReyaActions) {
+            if (classifyWatchlistRequest(message.content.text || "") === "add") {
+                elizaLogger.info("✅ Add to Watchlist Action: Approved by Smart Dispatch");
+                return true;
+            }
+            elizaLogger.info("🚫 Add to Watchlist Action: Not a request to add to the watchlist");
+            return false;
+        }
+
+        elizaLogger.info("🚫 Add to Watchlist Action: No approval from Smart Dispatch, rejecting");
+        return false;
+    },
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state: State,
+        _options: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ): Promise<ActionResult> => {
+        try {
+            elizaLogger.info("Executing ADD_TO_REYA_WATCHLIST action");
+            const text = message.content.text || "";
+            const { markets, notes } = await extractWatchlistMarkets(runtime, text);
+
+            let response: string;
+            let count: number | undefined;
+            if (markets.length === 0) {
+                response = `Which markets should I add? For example "add SOL and ETH to my watchlist".${notes ? `\n\n${notes}` : ""}`;
+            } else {
+                const { watchlist, added, already, overLimit } = await addToWatchlist(runtime, message.entityId, markets);
+                count = watchlist.markets.length;
+                const lines = [
+                    added.length > 0
+                        ? `⭐ Added ${tickers(added)} to your watchlist (${count} ${count === 1 ? "market" : "markets"}). Say "show my watchlist" to see them together.`
+                        : `Nothing new to add; your watchlist has ${count} ${count === 1 ? "market" : "markets"}.`,
+                ];
+                if (already.length > 0) {
+                    lines.push(`Already watching: ${tickers(already)}.`);
+                }
+                if (overLimit.length > 0) {
+                    lines.push(`⚠️ A watchlist holds at most ${WATCHLIST.MAX_MARKETS} markets, so ${tickers(overLimit)} ${overLimit.length === 1 ? "wasn't" : "weren't"} added. Remove some first.`);
+                }
+                if (notes) {
+                    lines.push(notes);
+                }
+                response = lines.join("\n");
+            }
+
+            if (callback) {
+                await callback({ text: response, action: "ADD_TO_REYA_WATCHLIST" });
+            }
+
+            return {
+                success: true,
+                text: response,
+                values: {
+                    watchlistCount: count
+                },
+                data: {
+                    actionName: "ADD_TO_REYA_WATCHLIST",
+                    marketIds: markets.map(m => m.id)
+                }
+            };
+        } catch (error) {
+            elizaLogger.error({ err: error }, "Error in ADD_TO_REYA_WATCHLIST action");
+
+            const errorMsg = "Sorry, I couldn't update your watchlist right now. Please try again in a moment.";
+            if (callback) {
+                await callback({ text: errorMsg, error: true });
+            }
+
+            return {
+                success: false,
+                error: error instanceof Error ? error : new Error(String(error))
+            };
+        }
+    },
+
+    examples: [
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "add SOL, ETH and HYPE to my watchlist"
+                }
+            },
+            {
+                name: "Aira",
+                content: {
+                    text: "Adding SOL, ETH and HYPE to your watchlist.",
+                    actions: ["ADD_TO_REYA_WATCHLIST"]
+                }
+            }
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "добавь биткоин в избранное"
+                }
+            },
+            {
+                name: "Aira",
+                content: {
+                    text: "Добавляю BTC в ваш список наблюдения.",
+                    actions: ["ADD_TO_REYA_WATCHLIST"]
+                }
+            }
+        ]
+    ]
+};
+
+export default addToWatchlistAction;
@@ -7,7 +7,8 @@ import {
     elizaLogger,
 } from "@elizaos/core";
 
-import { initAssetService } from "../providers/assetProvider.js";
+import { getReyaService } from "../services/reyaService.js";
+import { getSmartDispatchData } from "../providers/dispatchProvider.js";
 
 export const getAssetsAction: Action = {
     name: "GET_REYA_ASSETS",
@@ -17,8 +18,7 @@ export const getAssetsAction: Action = {
         elizaLogger.info(`🪙 Asset Action Validate: Checking message: "${message.content.text}"`);
         
         // Check Smart Dispatch flags from provider first, fallback to executed actions
-        const smartDispatchData = (state as any)?.values?.smartDispatch ??
-            state?.recentActions?.find((action: any) => action.actionName === "SMART_REYA_DISPATCH")?.data;
+        const smartDispatchData = getSmartDispatchData(state);
         
         if (smartDispatchData?.allowReyaActions) {
             elizaLogger.info("✅ Asset Action: Smart Dispatch approved API action");
@@ -48,29 +48,19 @@ export const getAssetsAction: Action = {
         try {
             elizaLogger.info("Executing GET_REYA_ASSETS action");
             
-            const assetService = await initAssetService(runtime);
+            const reyaService = getReyaService(runtime);
+            const assetService = reyaService.assets;
             const assets = await assetService.getAssets();
             const summary = await assetService.getAssetsSummary();
             
             // Check if user asked for specific asset
-            const text = message.content.text.toLowerCase();
-            let specificAsset = null;
-            
-            if (text.includes("usdc")) {
-                specificAsset = "USDC";
-            } else if (text.includes("usdt")) {
-                specificAsset = "USDT";
-            } else if (text.includes("eth") || text.includes("ethereum")) {
-                specificAsset = "ETH";
-            }
+            const [asset] = await reyaService.symbols.findAssetMentions(message.content.text || "");
+            const specificAsset = asset?.short ?? null;
             
             let response = "";
             
-            if (specificAsset) {
-                // Find specific asset
-                const asset = await assetService.getAssetBySymbol(specificAsset);
-                if (asset) {
-                    response = `**${asset.name} (${asset.short})** Details:
+            if (asset) {
+                response = `**${asset.name} (${asset.short})** Details:
 
 • **Contract:** \`${asset.address}\`
 • **Decimals:** ${asset.decimals}
@@ -78,9 +68,6 @@ export const getAssetsAction: Action = {
 • **Last Updated:** ${new Date(asset.updatedAt).toLocaleDateString()}
 
 This asset is supported for trading and collateral on Reya Network.`;
-                } else {
-                    response = `I couldn't find ${specificAsset} in the supported assets. Let me show you what's available.`;
-                }
             } else {
                 // General asset overview
                 const majorAssets = assets.filter(a => 
@@ -119,7 +106,7 @@ All assets support cross-collateralization and unified margin on Reya Network.`;
                 }
             };
         } catch (error) {
-            elizaLogger.error("Error in GET_REYA_ASSETS action:", error);
+            elizaLogger.error({ err: error }, "Error in GET_REYA_ASSETS action");
             
             const errorMsg = "Sorry, I couldn't fetch the asset data from Reya Network right now. Please try again in a moment.";
             await callback({
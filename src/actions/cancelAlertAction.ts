@@ -0,0 +1,149 @@
+import {
+    type Action,
+    type ActionResult,
+    type IAgentRuntime,
+    type Memory,
+    type State,
+    elizaLogger,
+    type HandlerCallback,
+} from "@elizaos/core";
+
+import { getReyaService } from "../services/reyaService.js";
+import { getSmartDispatchData } from "../providers/dispatchProvider.js";
+import { getAlertService, classifyAlertRequest } from "../services/alertService.js";
+import { formatAlertList } from "./listAlertsAction.js";
+import type { MarketAlert } from "../types/index.js";
+
+export const cancelAlertAction: Action = {
+    name: "CANCEL_REYA_ALERT",
+    similes: [
+        "REMOVE_REYA_ALERT",
+        "DELETE_REYA_ALERT"
+    ],
+    description: "Cancel Reya Network price, funding and premium alerts this user set in this room, by number, by market, or all of them",
+
+    validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+        elizaLogger.info(`🗑️ Cancel Alert Action Validate: Checking message: "${message.content.text}"`);
+
+        // Check Smart Dispatch flags from provider first, fallback to executed actions
+        const smartDispatchData = getSmartDispatchData(state);
+
+        if (smartDispatchData?.allowReyaActions) {
+            if (classifyAlertRequest(message.content.text || "") === "cancel") {
+                elizaLogger.info("✅ Cancel Alert Action: Approved by Smart Dispatch");
+                return true;
+            }
+            elizaLogger.info("🚫 Cancel Alert Action: Not a request to cancel alerts");
+            return false;
+        }
+
+        elizaLogger.info("🚫 Cancel Alert Action: No approval from Smart Dispatch, rejecting");
+        return false;
+    },
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state: State,
+        _options: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ): Promise<ActionResult> => {
+        try {
+            elizaLogger.info("Executing CANCEL_REYA_ALERT action");
+            const text = message.content.text || "";
+            const lower = text.toLowerCase();
+
+            const alertService = getAlertService(runtime);
+            const reyaService = getReyaService(runtime);
+            const formatPrice = (price: number) => reyaService.prices.formatPrice(price);
+            const own = alertService ? await alertService.listAlerts(message.entityId, message.roomId) : [];
+
+            // "all", alert numbers ("#3", "alert 3 and 5"), or the markets named
+            const all = /\ball\b|(?<!\p{L})вс[её](?!\p{L})/u.test(lower);
+            const ids = new Set([...lower.matchAll(/(?<![\p{L}\d])#?(\d+)(?![\p{L}\d])/gu)].map(m => parseInt(m[1], 10)));
+            const marketIds = all || ids.size > 0
+                ? new Set<string>()
+                : new Set((await reyaService.symbols.findMarketMentions(text)).map(m => m.id));
+
+            let removed: MarketAlert[] = [];
+            let response: string;
+
+            if (!alertService || own.length === 0) {
+                response = "You have no Reya alerts in this chat to cancel.";
+            } else if (!all && ids.size === 0 && marketIds.size === 0) {
+                response = `Which alert should I cancel? Say "cancel alert #${own[0].id}", "cancel my ${(own.find(a => a.ticker)?.ticker ?? "ETH-rUSD").split("-")[0]} alerts" or "cancel all alerts".\n\n${formatAlertList(own, formatPrice, reyaService.fundingRatePeriodHours)}`;
+            } else {
+                removed = await alertService.cancelAlerts(message.entityId, message.roomId, a =>
+                    all || ids.has(a.id) || marketIds.has(a.marketId)
+                );
+                const left = own.length - removed.length;
+                response = removed.length === 0
+                    ? `None of your alerts in this chat match that. You have:\n${formatAlertList(own, formatPrice, reyaService.fundingRatePeriodHours)}`
+                    : `🗑️ Cancelled ${removed.length === 1 ? "alert" : `${removed.length} alerts`}:\n${formatAlertList(removed, formatPrice, reyaService.fundingRatePeriodHours)}\n\n${left === 0 ? "You have no alerts left in this chat." : `${left} alert${left === 1 ? "" : "s"} still active.`}`;
+            }
+
+            if (callback) {
+                await callback({ text: response, action: "CANCEL_REYA_ALERT" });
+            }
+
+            return {
+                success: true,
+                text: response,
+                values: {
+                    cancelledCount: removed.length
+                },
+                data: {
+                    actionName: "CANCEL_REYA_ALERT",
+                    cancelled: removed
+                }
+            };
+        } catch (error) {
+            elizaLogger.error({ err: error }, "Error in CANCEL_REYA_ALERT action");
+
+            const errorMsg = "Sorry, I couldn't cancel that alert right now. Please try again in a moment.";
+            if (callback) {
+                await callback({ text: errorMsg, error: true });
+            }
+
+            return {
+                success: false,
+                error: error instanceof Error ? error : new Error(String(error))
+            };
+        }
+    },
+
+    examples: [
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "cancel alert #3"
+                }
+            },
+            {
+                name: "Aira",
+                content: {
+                    text: "Cancelled alert #3.",
+                    actions: ["CANCEL_REYA_ALERT"]
+                }
+            }
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "удали все оповещения"
+                }
+            },
+            {
+                name: "Aira",
+                content: {
+                    text: "Удаляю все ваши оповещения.",
+                    actions: ["CANCEL_REYA_ALERT"]
+                }
+            }
+        ]
+    ]
+};
+
+export default cancelAlertAction;
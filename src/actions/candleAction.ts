@@ -0,0 +1,256 @@
+import {
+    type Action,
+    type ActionResult,
+    type IAgentRuntime,
+    type Memory,
+    type State,
+    elizaLogger,
+    parseKeyValueXml,
+    type HandlerCallback,
+    ModelType,
+} from "@elizaos/core";
+
+import { CANDLES } from "../constants/index.js";
+import { getReyaService } from "../services/reyaService.js";
+import { getSmartDispatchData } from "../providers/dispatchProvider.js";
+import { IntentType } from "../services/intentAnalyzer.js";
+import { getHistoryService, formatDuration } from "../services/historyService.js";
+import { isCandleRequest, parseCandleInterval } from "../services/candles.js";
+import { formatTable, formatCompact } from "../services/marketTable.js";
+import type { Candle, CandleInterval, CandleSource } from "../types/index.js";
+
+const SOURCE_LABELS: Record<CandleSource, string> = {
+    price: "mark price",
+    oraclePrice: "oracle price",
+    poolPrice: "pool price",
+};
+
+function parseCandleSource(value: string | undefined): CandleSource {
+    const lower = (value || "").toLowerCase();
+    if (lower.includes("oracle") || lower.includes("оракул")) return "oraclePrice";
+    if (lower.includes("pool") || lower.includes("пул")) return "poolPrice";
+    return "price";
+}
+
+// "10-18 14:00" for intraday bars, "10-18" for daily ones (UTC)
+const formatOpenTime = (candle: Candle): string => {
+    const iso = new Date(candle.openTime).toISOString();
+    return candle.interval === "1d" ? iso.slice(5, 10) : `${iso.slice(5, 10)} ${iso.slice(11, 16)}`;
+};
+
+export const getCandlesAction: Action = {
+    name: "GET_REYA_CANDLES",
+    similes: [
+        "REYA_OHLC",
+        "REYA_CANDLESTICKS",
+        "REYA_PRICE_CANDLES"
+    ],
+    description: "Build OHLCV candles (1m/5m/1h/1d) for a Reya Network market from locally recorded price history",
+
+    validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+        elizaLogger.info(`🕯️ Candle Action Validate: Checking message: "${message.content.text}"`);
+
+        // Check Smart Dispatch flags from provider first, fallback to executed actions
+        const smartDispatchData = getSmartDispatchData(state);
+
+        // History questions don't open the API actions, but candles are ours to answer
+        if (smartDispatchData?.allowReyaActions || smartDispatchData?.intent === IntentType.HISTORICAL_DATA_QUERY) {
+            if (isCandleRequest(message.content.text || "")) {
+                elizaLogger.info("✅ Candle Action: Approved candle request by Smart Dispatch");
+                return true;
+            }
+            elizaLogger.info("🚫 Candle Action: No candle keywords found");
+            return false;
+        }
+
+        elizaLogger.info("🚫 Candle Action: No approval from Smart Dispatch, rejecting");
+        return false;
+    },
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state: State,
+        _options: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ): Promise<ActionResult> => {
+        try {
+            elizaLogger.info("Executing GET_REYA_CANDLES action");
+            const text = message.content.text || "";
+
+            const history = getHistoryService(runtime);
+            if (!history) {
+                const response = "Candles are built from prices this agent records itself, and the Reya history recorder isn't running here.";
+                if (callback) {
+                    await callback({ text: response, action: "GET_REYA_CANDLES" });
+                }
+                return {
+                    success: false,
+                    text: response,
+                    data: { actionName: "GET_REYA_CANDLES", reason: "history_unavailable" }
+                };
+            }
+
+            const extractionPrompt = `
+You are extracting candle chart parameters from a user message.
+
+EXTRACTION RULES:
+1. symbol: the market or coin the user wants candles for (BTC, ETH, SOL...), or empty
+2. interval: one of 1m, 5m, 1h, 1d ("hourly" → 1h, "daily" → 1d), or empty if not said
+3. count: how many candles the user asked for, or empty
+4. source: "oracle" or "pool" if the user asks for those prices, otherwise "mark"
+
+EXAMPLES:
+- "give me BTC hourly candles" → symbol: BTC, interval: 1h
+- "last 20 5m candles for SOL" → symbol: SOL, interval: 5m, count: 20
+- "дневные свечи ETH по оракулу" → symbol: ETH, interval: 1d, source: oracle
+
+FORMAT: Return ONLY this XML structure:
+<response>
+  <symbol>SYMBOL_OR_EMPTY</symbol>
+  <interval>INTERVAL_OR_EMPTY</interval>
+  <count>COUNT_OR_EMPTY</count>
+  <source>mark_or_oracle_or_pool</source>
+</response>
+
+USER MESSAGE: "${text}"
+
+EXTRACT NOW:`;
+
+            let extractedData: Record<string, string> = {};
+            try {
+                const llmResponse = await runtime.useModel(ModelType.TEXT_SMALL, {
+                    prompt: extractionPrompt,
+                });
+                extractedData = parseKeyValueXml(llmResponse) || {};
+            } catch (extractionError) {
+                // The message itself usually says enough
+                elizaLogger.warn(`Candle extraction failed, reading the message directly: ${extractionError}`);
+            }
+
+            const reyaService = getReyaService(runtime);
+            const interval: CandleInterval = parseCandleInterval(extractedData.interval || "") ?? parseCandleInterval(text) ?? "1h";
+            const source = parseCandleSource(extractedData.source || text);
+            const requestedCount = parseInt(extractedData.count || "", 10);
+            const limit = Number.isFinite(requestedCount) && requestedCount > 0
+                ? Math.min(requestedCount, CANDLES.MAX_LIMIT)
+                : CANDLES.DEFAULT_LIMIT;
+
+            const resolution = extractedData.symbol
+                ? await reyaService.symbols.resolveMarket(extractedData.symbol)
+                : null;
+            const market = resolution?.best && !resolution.ambiguous
+                ? resolution.best.item
+                : resolution ? null : (await reyaService.symbols.findMarketMentions(text))[0] ?? null;
+
+            elizaLogger.info(`Candle request: market=${market?.ticker ?? "none"} interval=${interval} source=${source} limit=${limit}`);
+
+            let response: string;
+            let candles: Candle[] = [];
+
+            if (!market) {
+                response = resolution?.candidates.length
+                    ? `"${extractedData.symbol}" matches more than one market: ${resolution.candidates.map(c => `**${c.item.ticker}**`).join(", ")}. Ask again with the full ticker, e.g. "${resolution.candidates[0].item.ticker} ${interval} candles".`
+                    : `Which market do you want candles for? For example "BTC hourly candles" or "SOL 5m candles".`;
+            } else {
+                candles = await history.getCandles(market.id, interval, { source, limit });
+
+                if (candles.length === 0) {
+                    response = `I haven't recorded any ${market.ticker} prices for the last ${limit} ${interval} candles yet. Candles are built from prices sampled locally${history.sampleIntervalMs > 0 ? ` every ${formatDuration(history.sampleIntervalMs)}` : ""}, so ask again once some have been collected.`;
+                } else {
+                    const priceService = reyaService.prices;
+                    const table = formatTable(
+                        ["Time (UTC)", "Open", "High", "Low", "Close", "Volume"],
+                        candles.map(c => [
+                            formatOpenTime(c),
+                            `$${priceService.formatPrice(c.open)}`,
+                            `$${priceService.formatPrice(c.high)}`,
+                            `$${priceService.formatPrice(c.low)}`,
+                            `$${priceService.formatPrice(c.close)}`,
+                            `$${formatCompact(c.volume)}`,
+                        ]),
+                        ["left", "right", "right", "right", "right", "right"]
+                    );
+                    const coarseSampling = history.sampleIntervalMs > CANDLES.INTERVAL_MS[interval]
+                        ? ` Samples are taken every ${formatDuration(history.sampleIntervalMs)}, so some ${interval} bars are missing.`
+                        : "";
+
+                    response = `**${market.ticker} ${interval} candles** (${SOURCE_LABELS[source]}, last ${candles.length})
+
+${table}
+
+Built from locally recorded prices. Volume comes from changes in 24h volume and may undercount.${coarseSampling}`;
+                }
+            }
+
+            if (callback) {
+                await callback({ text: response, action: "GET_REYA_CANDLES" });
+            }
+
+            return {
+                success: true,
+                text: response,
+                values: {
+                    marketId: market?.id,
+                    interval,
+                    source,
+                    candleCount: candles.length
+                },
+                data: {
+                    actionName: "GET_REYA_CANDLES",
+                    market: market?.ticker,
+                    interval,
+                    source,
+                    candles
+                }
+            };
+        } catch (error) {
+            elizaLogger.error({ err: error }, "Error in GET_REYA_CANDLES action");
+
+            const errorMsg = "Sorry, I couldn't build candles from the recorded Reya Network prices right now. Please try again in a moment.";
+            if (callback) {
+                await callback({ text: errorMsg, error: true });
+            }
+
+            return {
+                success: false,
+                error: error instanceof Error ? error : new Error(String(error))
+            };
+        }
+    },
+
+    examples: [
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "give me BTC hourly candles"
+                }
+            },
+            {
+                name: "Aira",
+                content: {
+                    text: "Here are the latest BTC-rUSD hourly candles from recorded prices.",
+                    actions: ["GET_REYA_CANDLES"]
+                }
+            }
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "покажи 5-минутные свечи SOL"
+                }
+            },
+            {
+                name: "Aira",
+                content: {
+                    text: "Собираю 5-минутные свечи SOL-rUSD из записанных цен.",
+                    actions: ["GET_REYA_CANDLES"]
+                }
+            }
+        ]
+    ]
+};
+
+export default getCandlesAction;
@@ -0,0 +1,243 @@
+import {
+    type Action,
+    type ActionResult,
+    type IAgentRuntime,
+    type Memory,
+    type State,
+    elizaLogger,
+    parseKeyValueXml,
+    type HandlerCallback,
+    ModelType,
+} from "@elizaos/core";
+
+import { CAPACITY } from "../constants/index.js";
+import { getReyaService } from "../services/reyaService.js";
+import { getSmartDispatchData } from "../providers/dispatchProvider.js";
+import { classifyAlertRequest } from "../services/alertService.js";
+import { isFundingRequest } from "../services/funding.js";
+import { splitSymbolList } from "../services/symbolResolver.js";
+import { formatResolutionNotes, formatCompact } from "../services/marketTable.js";
+import { parsePositionSize, parsePositionSide, type PositionSide } from "../services/position.js";
+import {
+    isCapacityRequest,
+    buildCapacities,
+    buildCapacityTable,
+    checkCapacity,
+    rankByCapacity,
+    describeCapacityCheck,
+    describeCapacitySide,
+} from "../services/capacity.js";
+import { parseVolumeAmount } from "./feeCalculatorAction.js";
+
+export const getCapacityAction: Action = {
+    name: "GET_REYA_CAPACITY",
+    similes: [
+        "REYA_POSITION_CAPACITY",
+        "REYA_MAX_POSITION",
+        "REYA_CAN_I_OPEN"
+    ],
+    description: "Check whether a position size fits in a Reya Network market's remaining long or short capacity (maxAmountBase/maxAmountSize), and rank markets by how much capacity is left",
+
+    validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+        elizaLogger.info(`📏 Capacity Action Validate: Checking message: "${message.content.text}"`);
+
+        // Check Smart Dispatch flags from provider first, fallback to executed actions
+        const smartDispatchData = getSmartDispatchData(state);
+
+        if (smartDispatchData?.allowReyaActions) {
+            const text = message.content.text || "";
+            if (isCapacityRequest(text) && !isFundingRequest(text) && !classifyAlertRequest(text)) {
+                elizaLogger.info("✅ Capacity Action: Approved capacity query by Smart Dispatch");
+                return true;
+            }
+            elizaLogger.info("🚫 Capacity Action: No capacity keywords found");
+            return false;
+        }
+
+        elizaLogger.info("🚫 Capacity Action: No approval from Smart Dispatch, rejecting");
+        return false;
+    },
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state: State,
+        _options: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ): Promise<ActionResult> => {
+        try {
+            elizaLogger.info("Executing GET_REYA_CAPACITY action");
+            const text = message.content.text || "";
+
+            const extractionPrompt = `
+You are extracting capacity query parameters from a user message.
+
+EXTRACTION RULES:
+1. symbols: markets or coins the user named (BTC, ETH, SOL...), comma-separated, or empty for all markets
+2. size: the position size in rUSD/USD, like "2000000" or "2m", or empty
+3. side: "long" or "short", or empty if not said
+
+EXAMPLES:
+- "can I open a $2M long on ETH right now?" → symbols: ETH, size: 2m, side: long
+- "which markets have the deepest short capacity for $500k?" → symbols: , size: 500k, side: short
+- "могу ли я открыть шорт BTC на 1 млн $?" → symbols: BTC, size: 1m, side: short
+
+FORMAT: Return ONLY this XML structure:
+<response>
+  <symbols>SYMBOLS_OR_EMPTY</symbols>
+  <size>SIZE_OR_EMPTY</size>
+  <side>long_or_short_or_empty</side>
+</response>
+
+USER MESSAGE: "${text}"
+
+EXTRACT NOW:`;
+
+            let extractedData: Record<string, string> = {};
+            try {
+                const llmResponse = await runtime.useModel(ModelType.TEXT_SMALL, {
+                    prompt: extractionPrompt,
+                });
+                extractedData = parseKeyValueXml(llmResponse) || {};
+            } catch (extractionError) {
+                // The message itself usually says enough
+                elizaLogger.warn(`Capacity extraction failed, reading the message directly: ${extractionError}`);
+            }
+
+            const notional = parseVolumeAmount(extractedData.size) ?? parsePositionSize(text)?.notional ?? null;
+            const namedSide: PositionSide | null = extractedData.side === "short" || extractedData.side === "long"
+                ? extractedData.side
+                : parsePositionSide(text);
+            // A size without a side is read as a long, the same as funding estimates
+            const query = notional && notional > 0 ? { notional, side: namedSide ?? "long" as PositionSide } : undefined;
+
+            const reyaService = getReyaService(runtime);
+            const priceService = reyaService.prices;
+            const markets = await reyaService.markets.getMarkets();
+            const marketsData = await reyaService.markets.getMarketsData();
+            const prices = await priceService.getPrices();
+
+            const symbols = splitSymbolList(extractedData.symbols);
+            const resolution = symbols.length > 0 ? await reyaService.symbols.resolveMarketList(symbols) : null;
+            const named = resolution ? resolution.markets : await reyaService.symbols.findMarketMentions(text);
+            const active = buildCapacities(markets.filter(m => m.isActive), marketsData, prices);
+            const capacities = named.length > 0 ? buildCapacities(named, marketsData, prices) : active;
+            const notes = resolution ? formatResolutionNotes(resolution) : "";
+            const formatPrice = (price: number) => priceService.formatPrice(price);
+
+            elizaLogger.info(`Capacity request: markets=${named.map(m => m.ticker).join(",") || "all"} query=${JSON.stringify(query)}`);
+
+            let response: string;
+
+            if (capacities.length === 0) {
+                response = symbols.length > 0 && named.length === 0
+                    ? `I couldn't find ${symbols.map(s => `**${s.toUpperCase()}**`).join(", ")} on Reya Network.${notes ? `\n\n${notes}` : ""}`
+                    : "I can't get capacity data from Reya Network right now. Please try again in a moment.";
+            } else {
+                const side = query?.side ?? namedSide;
+                const lines = [
+                    query
+                        ? `**Reya capacity for a $${formatCompact(query.notional)} ${query.side}**, deepest first`
+                        : `**Reya capacity${named.length > 0 ? "" : ", all markets"}**, deepest${side ? ` ${side}` : ""} first`,
+                    "",
+                    buildCapacityTable(capacities, side, query?.notional),
+                    "",
+                ];
+
+                if (named.length > 0 && query) {
+                    for (const capacity of capacities) {
+                        lines.push(describeCapacityCheck(capacity, checkCapacity(capacity, query.notional, query.side), formatPrice));
+                    }
+                } else if (capacities.length === 1) {
+                    lines.push(describeCapacitySide(capacities[0], "long"), describeCapacitySide(capacities[0], "short"));
+                }
+
+                if (query) {
+                    // Where the size fits, looking past the markets that were named
+                    const deepest = rankByCapacity(active, query.side)
+                        .map(capacity => ({ capacity, check: checkCapacity(capacity, query.notional, query.side) }))
+                        .filter(({ check }) => check.fits)
+                        .slice(0, CAPACITY.TOP_DEEPEST);
+                    lines.push(deepest.length > 0
+                        ? `Deepest for a $${formatCompact(query.notional)} ${query.side}: ${deepest.map(({ capacity, check }) => `**${capacity.ticker}** ($${formatCompact(capacity[query.side].notional)} left${check.orders && check.orders > 1 ? `, ${check.orders} orders` : ""})`).join(", ")}.`
+                        : `No market has room for a $${formatCompact(query.notional)} ${query.side} right now.`);
+                }
+
+                if (notes) {
+                    lines.push("", notes);
+                }
+                lines.push(
+                    "",
+                    "Capacity left is maxAmountBaseLong/Short from markets/data at the current mark price, and a single order is capped at maxAmountSizeLong/Short. Both move with every trade, so this is a snapshot."
+                );
+                response = lines.join("\n");
+            }
+
+            if (callback) {
+                await callback({ text: response, action: "GET_REYA_CAPACITY" });
+            }
+
+            return {
+                success: true,
+                text: response,
+                values: {
+                    marketCount: capacities.length,
+                    notional: query?.notional,
+                    side: query?.side
+                },
+                data: {
+                    actionName: "GET_REYA_CAPACITY",
+                    capacities,
+                    query
+                }
+            };
+        } catch (error) {
+            elizaLogger.error({ err: error }, "Error in GET_REYA_CAPACITY action");
+
+            const errorMsg = "Sorry, I couldn't check Reya Network capacity right now. Please try again in a moment.";
+            if (callback) {
+                await callback({ text: errorMsg, error: true });
+            }
+
+            return {
+                success: false,
+                error: error instanceof Error ? error : new Error(String(error))
+            };
+        }
+    },
+
+    examples: [
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "can I open a $2M long on ETH right now?"
+                }
+            },
+            {
+                name: "Aira",
+                content: {
+                    text: "Checking ETH-rUSD's long capacity against a $2M position.",
+                    actions: ["GET_REYA_CAPACITY"]
+                }
+            }
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "на каком рынке больше всего ёмкости для шорта?"
+                }
+            },
+            {
+                name: "Aira",
+                content: {
+                    text: "Сравниваю оставшуюся ёмкость по шортам на всех рынках.",
+                    actions: ["GET_REYA_CAPACITY"]
+                }
+            }
+        ]
+    ]
+};
+
+export default getCapacityAction;
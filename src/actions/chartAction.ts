@@ -0,0 +1,257 @@
+import { randomUUID } from "node:crypto";
+import {
+    type Action,
+    type ActionResult,
+    type IAgentRuntime,
+    type Memory,
+    type State,
+    elizaLogger,
+    parseKeyValueXml,
+    type HandlerCallback,
+    type Media,
+    ContentType,
+    ModelType,
+} from "@elizaos/core";
+
+import { HISTORY } from "../constants/index.js";
+import { getReyaService } from "../services/reyaService.js";
+import { getSmartDispatchData } from "../providers/dispatchProvider.js";
+import { IntentType } from "../services/intentAnalyzer.js";
+import { getHistoryService, parseTimeWindow, formatDuration } from "../services/historyService.js";
+import { isChartRequest, parseChartMetric, metricSeries, sparkline, renderSvgChart, svgDataUrl } from "../services/charts.js";
+import { formatCompact, formatSignedPercent } from "../services/marketTable.js";
+import type { ChartMetric, ChartPoint } from "../types/index.js";
+
+const METRIC_LABELS: Record<ChartMetric, string> = {
+    price: "price",
+    funding: "funding rate",
+    openInterest: "open interest",
+};
+
+export const getChartAction: Action = {
+    name: "GET_REYA_CHART",
+    similes: [
+        "REYA_PRICE_CHART",
+        "REYA_SPARKLINE",
+        "REYA_FUNDING_CHART",
+        "REYA_OI_CHART"
+    ],
+    description: "Chart a Reya Network market's price, funding rate or open interest over a time window from locally recorded history, as a text sparkline plus an SVG image",
+
+    validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+        elizaLogger.info(`📉 Chart Action Validate: Checking message: "${message.content.text}"`);
+
+        // Check Smart Dispatch flags from provider first, fallback to executed actions
+        const smartDispatchData = getSmartDispatchData(state);
+
+        // "график" is classed as a history question, which doesn't open the API actions
+        if (smartDispatchData?.allowReyaActions || smartDispatchData?.intent === IntentType.HISTORICAL_DATA_QUERY) {
+            if (isChartRequest(message.content.text || "")) {
+                elizaLogger.info("✅ Chart Action: Approved chart request by Smart Dispatch");
+                return true;
+            }
+            elizaLogger.info("🚫 Chart Action: No chart keywords found");
+            return false;
+        }
+
+        elizaLogger.info("🚫 Chart Action: No approval from Smart Dispatch, rejecting");
+        return false;
+    },
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state: State,
+        _options: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ): Promise<ActionResult> => {
+        try {
+            elizaLogger.info("Executing GET_REYA_CHART action");
+            const text = message.content.text || "";
+
+            const history = getHistoryService(runtime);
+            if (!history) {
+                const response = "Charts are drawn from prices this agent records itself, and the Reya history recorder isn't running here.";
+                if (callback) {
+                    await callback({ text: response, action: "GET_REYA_CHART" });
+                }
+                return {
+                    success: false,
+                    text: response,
+                    data: { actionName: "GET_REYA_CHART", reason: "history_unavailable" }
+                };
+            }
+
+            const extractionPrompt = `
+You are extracting chart parameters from a user message.
+
+EXTRACTION RULES:
+1. symbol: the market or coin to chart (BTC, ETH, SOL...), or empty
+2. metric: "funding" for funding rate, "open_interest" for open interest / OI, otherwise "price"
+3. timeframe: the window the user asked for, like "6h", "3d", "1w", or empty if not said
+
+EXAMPLES:
+- "chart SOL over the last 6 hours" → symbol: SOL, metric: price, timeframe: 6h
+- "график фандинга BTC за неделю" → symbol: BTC, metric: funding, timeframe: 1w
+- "ETH open interest chart" → symbol: ETH, metric: open_interest
+
+FORMAT: Return ONLY this XML structure:
+<response>
+  <symbol>SYMBOL_OR_EMPTY</symbol>
+  <metric>price_or_funding_or_open_interest</metric>
+  <timeframe>TIMEFRAME_OR_EMPTY</timeframe>
+</response>
+
+USER MESSAGE: "${text}"
+
+EXTRACT NOW:`;
+
+            let extractedData: Record<string, string> = {};
+            try {
+                const llmResponse = await runtime.useModel(ModelType.TEXT_SMALL, {
+                    prompt: extractionPrompt,
+                });
+                extractedData = parseKeyValueXml(llmResponse) || {};
+            } catch (extractionError) {
+                // The message itself usually says enough
+                elizaLogger.warn(`Chart extraction failed, reading the message directly: ${extractionError}`);
+            }
+
+            const reyaService = getReyaService(runtime);
+            const metric = extractedData.metric ? parseChartMetric(extractedData.metric.replace("_", " ")) : parseChartMetric(text);
+            const retentionMs = history.retentionDays * 24 * 60 * 60 * 1000;
+            const window = parseTimeWindow(extractedData.timeframe || "")
+                ?? parseTimeWindow(text)
+                ?? { ms: HISTORY.DEFAULT_WINDOW_HOURS * 60 * 60 * 1000, label: `${HISTORY.DEFAULT_WINDOW_HOURS}h` };
+            const windowMs = Math.min(window.ms, retentionMs);
+            const label = windowMs < window.ms ? formatDuration(windowMs) : window.label;
+
+            const resolution = extractedData.symbol
+                ? await reyaService.symbols.resolveMarket(extractedData.symbol)
+                : null;
+            const market = resolution?.best && !resolution.ambiguous
+                ? resolution.best.item
+                : resolution ? null : (await reyaService.symbols.findMarketMentions(text))[0] ?? null;
+
+            elizaLogger.info(`Chart request: market=${market?.ticker ?? "none"} metric=${metric} window=${label}`);
+
+            const priceService = reyaService.prices;
+            const format = (value: number): string =>
+                metric === "price" ? `$${priceService.formatPrice(value)}`
+                    : metric === "funding" ? `${value.toFixed(4)}%`
+                        : formatCompact(value);
+
+            let response: string;
+            let attachments: Media[] = [];
+            let points: ChartPoint[] = [];
+
+            if (!market) {
+                response = resolution?.candidates.length
+                    ? `"${extractedData.symbol}" matches more than one market: ${resolution.candidates.map(c => `**${c.item.ticker}**`).join(", ")}. Ask again with the full ticker, e.g. "${resolution.candidates[0].item.ticker} chart".`
+                    : `Which market should I chart? For example "SOL chart for 6h" or "BTC funding chart this week".`;
+            } else {
+                const to = Date.now();
+                points = metricSeries(await history.query(market.id, to - windowMs, to), metric);
+
+                if (points.length < 2) {
+                    response = `I don't have enough recorded ${METRIC_LABELS[metric]} data for **${market.ticker}** in the last ${label} to draw a chart yet. Prices are sampled locally${history.sampleIntervalMs > 0 ? ` every ${formatDuration(history.sampleIntervalMs)}` : ""}, so ask again once a few samples have been collected.`;
+                } else {
+                    const values = points.map(p => p.value);
+                    const first = values[0];
+                    const last = values[values.length - 1];
+                    // Percent change means little for a rate that crosses zero
+                    const change = metric !== "funding" && first !== 0
+                        ? ` (${formatSignedPercent(((last - first) / first) * 100)})`
+                        : "";
+                    const title = `${market.ticker} ${METRIC_LABELS[metric]}, last ${label}`;
+                    const line = sparkline(values);
+                    const svg = renderSvgChart(points, { title, formatValue: format });
+
+                    response = `**${title}**
+\`${line}\`
+${format(first)} → ${format(last)}${change} · low ${format(Math.min(...values))} · high ${format(Math.max(...values))}`;
+
+                    attachments = [{
+                        id: randomUUID(),
+                        url: svgDataUrl(svg),
+                        title,
+                        source: "Reya Network",
+                        description: `${points.length} locally recorded samples`,
+                        text: line,
+                        contentType: ContentType.IMAGE,
+                    }];
+                }
+            }
+
+            if (callback) {
+                await callback({ text: response, action: "GET_REYA_CHART", attachments });
+            }
+
+            return {
+                success: true,
+                text: response,
+                values: {
+                    marketId: market?.id,
+                    metric,
+                    window: label,
+                    pointCount: points.length
+                },
+                data: {
+                    actionName: "GET_REYA_CHART",
+                    market: market?.ticker,
+                    metric,
+                    window: label,
+                    points,
+                    attachments
+                }
+            };
+        } catch (error) {
+            elizaLogger.error({ err: error }, "Error in GET_REYA_CHART action");
+
+            const errorMsg = "Sorry, I couldn't draw a chart from the recorded Reya Network data right now. Please try again in a moment.";
+            if (callback) {
+                await callback({ text: errorMsg, error: true });
+            }
+
+            return {
+                success: false,
+                error: error instanceof Error ? error : new Error(String(error))
+            };
+        }
+    },
+
+    examples: [
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "chart SOL over the last 6 hours"
+                }
+            },
+            {
+                name: "Aira",
+                content: {
+                    text: "Here's SOL-rUSD over the last 6 hours from recorded prices.",
+                    actions: ["GET_REYA_CHART"]
+                }
+            }
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "график фандинга BTC за неделю"
+                }
+            },
+            {
+                name: "Aira",
+                content: {
+                    text: "Рисую график ставки фандинга BTC-rUSD за неделю.",
+                    actions: ["GET_REYA_CHART"]
+                }
+            }
+        ]
+    ]
+};
+
+export default getChartAction;
@@ -0,0 +1,157 @@
+import {
+    type Action,
+    type ActionResult,
+    type IAgentRuntime,
+    type Memory,
+    type State,
+    elizaLogger,
+    type HandlerCallback,
+} from "@elizaos/core";
+
+import { getReyaService } from "../services/reyaService.js";
+import { getSmartDispatchData } from "../providers/dispatchProvider.js";
+
+export const getFeesAction: Action = {
+    name: "GET_REYA_FEES",
+    similes: [
+        "REYA_FEE_TIERS",
+        "REYA_TRADING_FEES",
+        "CHECK_REYA_FEES"
+    ],
+    description: "Get Reya Network trading fees: maker/taker fee tiers by volume, OG and referee discounts, and referrer rebates",
+
+    validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+        elizaLogger.info(`💸 Fee Action Validate: Checking message: "${message.content.text}"`);
+
+        // Check Smart Dispatch flags from provider first, fallback to executed actions
+        const smartDispatchData = getSmartDispatchData(state);
+
+        if (smartDispatchData?.allowReyaActions) {
+            const text = message.content.text?.toLowerCase() || "";
+            const feeKeywords = [
+                // English keywords
+                "fee", "maker", "taker", "rebate", "discount", "commission",
+                // Russian keywords
+                "комисси", "ребейт", "скидк", "мейкер", "тейкер"
+            ];
+
+            const hasFeeKeyword = feeKeywords.some(keyword => text.includes(keyword));
+
+            if (hasFeeKeyword) {
+                elizaLogger.info("✅ Fee Action: Approved fee query by Smart Dispatch");
+                return true;
+            } else {
+                elizaLogger.info("🚫 Fee Action: No fee keywords found");
+                return false;
+            }
+        } else {
+            elizaLogger.info("🚫 Fee Action: No approval from Smart Dispatch, rejecting");
+            return false;
+        }
+    },
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state: State,
+        _options: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ): Promise<ActionResult> => {
+        try {
+            elizaLogger.info("Executing GET_REYA_FEES action");
+
+            const feeService = getReyaService(runtime).fees;
+            const feeTiers = await feeService.getFeeTiers();
+            const globalFees = await feeService.getGlobalFeeParameters();
+
+            const tierLines = feeTiers.map((tier, idx) =>
+                `${idx + 1}. **Tier ${tier.tier_id}** (from ${feeService.formatVolume(tier.volume)} volume): maker ${feeService.formatFeeRate(tier.maker_fee)}, taker ${feeService.formatFeeRate(tier.taker_fee)}`
+            );
+
+            const response = `**Reya Network Trading Fees:**
+
+**Fee Tiers (by trading volume):**
+${tierLines.length > 0 ? tierLines.join('\n') : 'No fee tiers are currently published.'}
+
+**Discounts & Rebates:**
+• 🏅 **OG Discount**: ${feeService.formatFeeRate(globalFees.og_discount, 2)} off trading fees
+• 🤝 **Referee Discount**: ${feeService.formatFeeRate(globalFees.referee_discount, 2)} off trading fees
+• 💰 **Referrer Rebate**: ${feeService.formatFeeRate(globalFees.referrer_rebate, 2)} of referees' fees
+• 🏢 **Affiliate Referrer Rebate**: ${feeService.formatFeeRate(globalFees.affiliate_referrer_rebate, 2)} of referees' fees
+
+Higher tiers unlock as your trading volume grows.`;
+
+            if (callback) {
+                await callback({
+                    text: response,
+                    action: "GET_REYA_FEES"
+                });
+            }
+
+            return {
+                success: true,
+                text: response,
+                values: {
+                    feeTierCount: feeTiers.length,
+                    timestamp: Date.now()
+                },
+                data: {
+                    actionName: "GET_REYA_FEES",
+                    feeTiers,
+                    globalFees
+                }
+            };
+        } catch (error) {
+            elizaLogger.error(`Error in GET_REYA_FEES action: ${error instanceof Error ? error.message : String(error)}`);
+
+            const errorMsg = "Sorry, I couldn't fetch the fee data from Reya Network right now. Please try again in a moment.";
+            if (callback) {
+                await callback({
+                    text: errorMsg,
+                    error: true
+                });
+            }
+
+            return {
+                success: false,
+                text: errorMsg,
+                error: error instanceof Error ? error : new Error(String(error))
+            };
+        }
+    },
+
+    examples: [
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "What are Reya's trading fees?"
+                }
+            },
+            {
+                name: "Aira",
+                content: {
+                    text: "I'll pull the current fee tiers and discounts from Reya Network.",
+                    actions: ["GET_REYA_FEES"]
+                }
+            }
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "какие комиссии мейкер и тейкер на Reya?"
+                }
+            },
+            {
+                name: "Aira",
+                content: {
+                    text: "Сейчас покажу таблицу комиссий Reya Network.",
+                    actions: ["GET_REYA_FEES"]
+                }
+            }
+        ]
+    ]
+};
+
+export default getFeesAction;
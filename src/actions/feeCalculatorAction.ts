@@ -0,0 +1,252 @@
+import {
+    type Action,
+    type ActionResult,
+    type IAgentRuntime,
+    type Memory,
+    type State,
+    elizaLogger,
+    parseKeyValueXml,
+    type HandlerCallback,
+    ModelType,
+} from "@elizaos/core";
+
+import { getReyaService } from "../services/reyaService.js";
+import { getSmartDispatchData } from "../providers/dispatchProvider.js";
+import { isTradeCostRequest } from "../services/tradeCost.js";
+
+/**
+ * Parses amounts like "3M", "$2.5m", "500k", "1,200,000" or "3 млн" into a number.
+ */
+export function parseVolumeAmount(value: string | null | undefined): number | null {
+    if (!value) {
+        return null;
+    }
+
+    const match = value
+        .toLowerCase()
+        .replace(/[$,\s]/g, "")
+        .match(/^(\d+(?:\.\d+)?)(k|m|b|тыс|млн|млрд)?/);
+    if (!match) {
+        return null;
+    }
+
+    const multipliers: Record<string, number> = {
+        k: 1e3, "тыс": 1e3,
+        m: 1e6, "млн": 1e6,
+        b: 1e9, "млрд": 1e9,
+    };
+    const amount = parseFloat(match[1]) * (match[2] ? multipliers[match[2]] : 1);
+    return Number.isFinite(amount) ? amount : null;
+}
+
+const parseFlag = (value: unknown) => String(value ?? "").trim().toLowerCase() === "true";
+
+export const calculateFeeTierAction: Action = {
+    name: "CALCULATE_REYA_FEE_TIER",
+    similes: [
+        "REYA_FEE_CALCULATOR",
+        "REYA_MY_FEES",
+        "REYA_FEE_TIER_FOR_VOLUME"
+    ],
+    description: "Calculate a trader's Reya Network fee tier, effective maker/taker fees and rebates from their trading volume and OG/referee status",
+
+    validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+        elizaLogger.info(`🧮 Fee Calculator Validate: Checking message: "${message.content.text}"`);
+
+        // Check Smart Dispatch flags from provider first, fallback to executed actions
+        const smartDispatchData = getSmartDispatchData(state);
+
+        if (smartDispatchData?.allowReyaActions) {
+            const text = message.content.text?.toLowerCase() || "";
+            const feeKeywords = [
+                "fee", "pay", "tier", "maker", "taker", "rebate",
+                "комисси", "плачу", "заплачу", "уровень", "тир"
+            ];
+
+            const hasFeeKeyword = feeKeywords.some(keyword => text.includes(keyword));
+            // A calculation needs a volume figure to work with
+            const hasAmount = /\d/.test(text);
+
+            // Fees on one trade, with premium and funding, are ESTIMATE_REYA_TRADE_COST's
+            if (hasFeeKeyword && hasAmount && !isTradeCostRequest(text)) {
+                elizaLogger.info("✅ Fee Calculator: Approved fee calculation by Smart Dispatch");
+                return true;
+            } else {
+                elizaLogger.info("🚫 Fee Calculator: No fee keywords or volume found");
+                return false;
+            }
+        } else {
+            elizaLogger.info("🚫 Fee Calculator: No approval from Smart Dispatch, rejecting");
+            return false;
+        }
+    },
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state: State,
+        _options: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ): Promise<ActionResult> => {
+        try {
+            elizaLogger.info("Executing CALCULATE_REYA_FEE_TIER action");
+
+            const extractionPrompt = `
+You are extracting trading fee calculator inputs from a user message.
+
+EXTRACTION RULES:
+1. volume: the trading volume in USD the user mentions, as written (e.g. "3M", "500k", "1200000")
+2. og: "true" if the user says they are an OG / early user, otherwise "false"
+3. referee: "true" if the user was referred / used a referral code / is a referee, otherwise "false"
+4. referrer: "true" if the user refers other traders, otherwise "false"
+5. affiliate: "true" if the user is an affiliate referrer, otherwise "false"
+
+EXAMPLES:
+- "I trade $3M a month, I'm a referee, what do I pay?" → volume: 3M, referee: true
+- "what fee tier is 500k volume?" → volume: 500k
+- "я OG, торгую на 10 млн, какая у меня комиссия?" → volume: 10M, og: true
+
+FORMAT: Return ONLY this XML structure:
+<response>
+  <volume>VOLUME_OR_EMPTY</volume>
+  <og>true_or_false</og>
+  <referee>true_or_false</referee>
+  <referrer>true_or_false</referrer>
+  <affiliate>true_or_false</affiliate>
+</response>
+
+USER MESSAGE: "${message.content.text}"
+
+EXTRACT NOW:`;
+
+            const llmResponse = await runtime.useModel(ModelType.TEXT_SMALL, {
+                prompt: extractionPrompt,
+            });
+
+            const extractedData = parseKeyValueXml(llmResponse) || {};
+            const volume = parseVolumeAmount(extractedData.volume);
+            const options = {
+                isOg: parseFlag(extractedData.og),
+                isReferee: parseFlag(extractedData.referee),
+                isReferrer: parseFlag(extractedData.referrer),
+                isAffiliate: parseFlag(extractedData.affiliate),
+            };
+
+            elizaLogger.info(`Fee calculator extracted volume=${volume} og=${options.isOg} referee=${options.isReferee} referrer=${options.isReferrer} affiliate=${options.isAffiliate}`);
+
+            if (volume === null) {
+                const response = "Tell me your trading volume (for example \"I trade $3M a month\") and I'll work out your Reya fee tier.";
+                if (callback) {
+                    await callback({ text: response, action: "CALCULATE_REYA_FEE_TIER" });
+                }
+                return {
+                    success: false,
+                    text: response,
+                    data: { actionName: "CALCULATE_REYA_FEE_TIER", reason: "missing_volume" }
+                };
+            }
+
+            const feeService = getReyaService(runtime).fees;
+            const feeTiers = await feeService.getFeeTiers();
+            const globalFees = await feeService.getGlobalFeeParameters();
+            const result = feeService.calculateFeeTier(feeTiers, globalFees, volume, options);
+
+            const discountLine = result.discountSource
+                ? `🎟️ **${result.discountSource === "og" ? "OG" : "Referee"} Discount**: ${feeService.formatFeeRate(result.discount, 2)} applied`
+                : "🎟️ **Discount**: none (no OG or referee status)";
+            const rebateLine = result.referrerRebate > 0
+                ? `\n💰 **${options.isAffiliate ? "Affiliate Referrer" : "Referrer"} Rebate**: ${feeService.formatFeeRate(result.referrerRebate, 2)} of your referees' fees`
+                : "";
+            const makerRebateLine = result.effectiveMakerFee < 0
+                ? `\n🔄 Maker orders earn a rebate of ${feeService.formatFeeRate(Math.abs(result.effectiveMakerFee))}`
+                : "";
+            const nextTierLine = result.nextTier
+                ? `⬆️ **Next Tier**: Tier ${result.nextTier.tier_id} (maker ${feeService.formatFeeRate(result.nextTier.maker_fee)}, taker ${feeService.formatFeeRate(result.nextTier.taker_fee)}) needs ${feeService.formatVolume(result.volumeToNextTier ?? 0)} more volume`
+                : "🏆 You're already in the highest fee tier.";
+
+            const response = `**Your Reya Network Fee Tier:**
+
+📊 **Volume**: ${feeService.formatVolume(volume)}
+🎯 **Tier**: ${result.tier.tier_id} (from ${feeService.formatVolume(result.tier.volume)})
+• Maker: ${feeService.formatFeeRate(result.effectiveMakerFee)}${result.discount > 0 && result.baseMakerFee > 0 ? ` (base ${feeService.formatFeeRate(result.baseMakerFee)})` : ""}
+• Taker: ${feeService.formatFeeRate(result.effectiveTakerFee)}${result.discount > 0 && result.baseTakerFee > 0 ? ` (base ${feeService.formatFeeRate(result.baseTakerFee)})` : ""}
+${discountLine}${rebateLine}${makerRebateLine}
+
+${nextTierLine}`;
+
+            if (callback) {
+                await callback({
+                    text: response,
+                    action: "CALCULATE_REYA_FEE_TIER"
+                });
+            }
+
+            return {
+                success: true,
+                text: response,
+                values: {
+                    tierId: result.tier.tier_id,
+                    effectiveMakerFee: result.effectiveMakerFee,
+                    effectiveTakerFee: result.effectiveTakerFee,
+                    timestamp: Date.now()
+                },
+                data: {
+                    actionName: "CALCULATE_REYA_FEE_TIER",
+                    options,
+                    calculation: result
+                }
+            };
+        } catch (error) {
+            elizaLogger.error(`Error in CALCULATE_REYA_FEE_TIER action: ${error instanceof Error ? error.message : String(error)}`);
+
+            const errorMsg = "Sorry, I couldn't calculate your fee tier from Reya Network right now. Please try again in a moment.";
+            if (callback) {
+                await callback({
+                    text: errorMsg,
+                    error: true
+                });
+            }
+
+            return {
+                success: false,
+                text: errorMsg,
+                error: error instanceof Error ? error : new Error(String(error))
+            };
+        }
+    },
+
+    examples: [
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "I trade $3M a month, I'm a referee, what do I pay on Reya?"
+                }
+            },
+            {
+                name: "Aira",
+                content: {
+                    text: "Let me work out your fee tier and effective fees on Reya Network.",
+                    actions: ["CALCULATE_REYA_FEE_TIER"]
+                }
+            }
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "какая комиссия при объеме 500k?"
+                }
+            },
+            {
+                name: "Aira",
+                content: {
+                    text: "Посчитаю ваш уровень комиссий на Reya Network.",
+                    actions: ["CALCULATE_REYA_FEE_TIER"]
+                }
+            }
+        ]
+    ]
+};
+
+export default calculateFeeTierAction;
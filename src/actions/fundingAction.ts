@@ -0,0 +1,251 @@
+import {
+    type Action,
+    type ActionResult,
+    type IAgentRuntime,
+    type Memory,
+    type State,
+    elizaLogger,
+    parseKeyValueXml,
+    type HandlerCallback,
+    ModelType,
+} from "@elizaos/core";
+
+import { FUNDING } from "../constants/index.js";
+import { getReyaService } from "../services/reyaService.js";
+import { getSmartDispatchData } from "../providers/dispatchProvider.js";
+import { classifyAlertRequest } from "../services/alertService.js";
+import { splitSymbolList } from "../services/symbolResolver.js";
+import { formatResolutionNotes } from "../services/marketTable.js";
+import {
+    isFundingRequest,
+    parseFundingQuery,
+    parseFundingSide,
+    buildFundingTable,
+    describeFunding,
+    estimateFundingPayment,
+    explainFundingRates,
+} from "../services/funding.js";
+import { parseTimeWindow } from "../services/historyService.js";
+import { isTradeCostRequest } from "../services/tradeCost.js";
+import { isPnlRequest } from "../services/pnl.js";
+import { parseVolumeAmount } from "./feeCalculatorAction.js";
+
+export const getFundingAction: Action = {
+    name: "GET_REYA_FUNDING",
+    similes: [
+        "REYA_FUNDING_RATES",
+        "REYA_FUNDING_RANKING",
+        "REYA_FUNDING_PROJECTION",
+        "REYA_CARRY"
+    ],
+    description: "Rank Reya Network markets by current funding with hourly, daily and annualized rates, project funding ahead from fundingRateVelocity, and estimate funding cost or income for a position size",
+
+    validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+        elizaLogger.info(`💸 Funding Action Validate: Checking message: "${message.content.text}"`);
+
+        // Check Smart Dispatch flags from provider first, fallback to executed actions
+        const smartDispatchData = getSmartDispatchData(state);
+
+        if (smartDispatchData?.allowReyaActions) {
+            const text = message.content.text || "";
+            // "alert me when funding..." belongs to the alert actions, whole-trade costs to ESTIMATE_REYA_TRADE_COST
+            if (isFundingRequest(text) && !classifyAlertRequest(text) && !isTradeCostRequest(text) && !isPnlRequest(text)) {
+                elizaLogger.info("✅ Funding Action: Approved funding query by Smart Dispatch");
+                return true;
+            }
+            elizaLogger.info("🚫 Funding Action: No funding keywords found");
+            return false;
+        }
+
+        elizaLogger.info("🚫 Funding Action: No approval from Smart Dispatch, rejecting");
+        return false;
+    },
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state: State,
+        _options: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ): Promise<ActionResult> => {
+        try {
+            elizaLogger.info("Executing GET_REYA_FUNDING action");
+            const text = message.content.text || "";
+
+            const extractionPrompt = `
+You are extracting funding query parameters from a user message.
+
+EXTRACTION RULES:
+1. symbols: markets or coins the user named (BTC, ETH, SOL...), comma-separated, or empty for all markets
+2. hours: how far ahead to project funding, like "8h", "24h" or "3d", or empty if not said
+3. size: a position size in rUSD/USD, like "10000" or "2.5m", or empty
+4. side: "long" or "short" for the position, or empty
+
+EXAMPLES:
+- "rank Reya markets by funding" → symbols: , hours: , size: , side:
+- "what will a $10k ETH short pay in funding over 24h?" → symbols: ETH, hours: 24h, size: 10000, side: short
+- "фандинг BTC и SOL на 8 часов вперёд" → symbols: BTC,SOL, hours: 8h
+
+FORMAT: Return ONLY this XML structure:
+<response>
+  <symbols>SYMBOLS_OR_EMPTY</symbols>
+  <hours>HOURS_OR_EMPTY</hours>
+  <size>SIZE_OR_EMPTY</size>
+  <side>long_or_short_or_empty</side>
+</response>
+
+USER MESSAGE: "${text}"
+
+EXTRACT NOW:`;
+
+            let extractedData: Record<string, string> = {};
+            try {
+                const llmResponse = await runtime.useModel(ModelType.TEXT_SMALL, {
+                    prompt: extractionPrompt,
+                });
+                extractedData = parseKeyValueXml(llmResponse) || {};
+            } catch (extractionError) {
+                // The message itself usually says enough
+                elizaLogger.warn(`Funding extraction failed, reading the message directly: ${extractionError}`);
+            }
+
+            const parsed = parseFundingQuery(text);
+            const extractedWindow = parseTimeWindow(extractedData.hours || "");
+            const requestedHours = extractedWindow ? extractedWindow.ms / (60 * 60 * 1000) : parsed.hours;
+            const hours = Math.min(requestedHours ?? FUNDING.DEFAULT_PROJECTION_HOURS, FUNDING.MAX_PROJECTION_HOURS);
+            const notional = parseVolumeAmount(extractedData.size) ?? parsed.position?.notional ?? null;
+            const side = extractedData.side === "short" || extractedData.side === "long"
+                ? extractedData.side
+                : parseFundingSide(text);
+            const position = notional && notional > 0 ? { notional, side } : undefined;
+
+            const reyaService = getReyaService(runtime);
+            const markets = await reyaService.markets.getMarkets();
+            const marketsData = await reyaService.markets.getMarketsData();
+            const periodHours = reyaService.fundingRatePeriodHours;
+
+            const symbols = splitSymbolList(extractedData.symbols);
+            const resolution = symbols.length > 0 ? await reyaService.symbols.resolveMarketList(symbols) : null;
+            const named = resolution ? resolution.markets : await reyaService.symbols.findMarketMentions(text);
+            const selected = named.length > 0 ? named : markets.filter(m => m.isActive);
+            const rows = selected.flatMap(market => {
+                const data = marketsData.find(d => d.marketId === market.id);
+                return data ? [{ ticker: market.ticker, data }] : [];
+            });
+            const notes = resolution ? formatResolutionNotes(resolution) : "";
+
+            elizaLogger.info(`Funding request: markets=${named.map(m => m.ticker).join(",") || "all"} hours=${hours} position=${JSON.stringify(position)}`);
+
+            let response: string;
+
+            if (rows.length === 0) {
+                response = symbols.length > 0 && named.length === 0
+                    ? `I couldn't find ${symbols.map(s => `**${s.toUpperCase()}**`).join(", ")} on Reya Network.${notes ? `\n\n${notes}` : ""}`
+                    : "I can't get funding data from Reya Network right now. Please try again in a moment.";
+            } else {
+                const cappedNote = requestedHours !== null && requestedHours > FUNDING.MAX_PROJECTION_HOURS
+                    ? ` (projections are capped at ${FUNDING.MAX_PROJECTION_HOURS}h)`
+                    : "";
+                const lines = [
+                    `**Reya funding${named.length > 0 ? "" : ", all markets"}**, highest first`,
+                    "",
+                    buildFundingTable(rows, hours, periodHours, position),
+                ];
+
+                if (rows.length === 1) {
+                    const [{ ticker, data }] = rows;
+                    lines.push("", `Now: ${describeFunding(ticker, data, periodHours)}.`);
+                    if (position) {
+                        const amount = estimateFundingPayment(data, position.notional, hours, position.side, periodHours);
+                        lines.push(`A $${position.notional.toLocaleString("en-US")} ${position.side} would ${amount >= 0 ? "receive" : "pay"} about **$${Math.abs(amount).toFixed(2)}** in funding over ${hours}h.`);
+                    }
+                } else {
+                    const ranked = [...rows].sort((a, b) => b.data.fundingRate - a.data.fundingRate);
+                    const top = ranked[0];
+                    const bottom = ranked[ranked.length - 1];
+                    lines.push("", `Longs pay the most on ${describeFunding(top.ticker, top.data, periodHours)}.`);
+                    if (bottom.data.fundingRate < 0) {
+                        lines.push(`Shorts pay the most on ${describeFunding(bottom.ticker, bottom.data, periodHours)}.`);
+                    }
+                }
+
+                if (notes) {
+                    lines.push("", notes);
+                }
+                lines.push(
+                    "",
+                    `Positive funding: longs pay shorts. ${explainFundingRates(periodHours)} "APR in ${hours}h"${position ? " and the position column" : ""} assume funding keeps changing at its current velocity${cappedNote}.`
+                );
+                response = lines.join("\n");
+            }
+
+            if (callback) {
+                await callback({ text: response, action: "GET_REYA_FUNDING" });
+            }
+
+            return {
+                success: true,
+                text: response,
+                values: {
+                    marketCount: rows.length,
+                    hours,
+                    notional: position?.notional,
+                    side: position?.side
+                },
+                data: {
+                    actionName: "GET_REYA_FUNDING",
+                    markets: rows.map(r => r.ticker),
+                    hours,
+                    position
+                }
+            };
+        } catch (error) {
+            elizaLogger.error({ err: error }, "Error in GET_REYA_FUNDING action");
+
+            const errorMsg = "Sorry, I couldn't get Reya Network funding rates right now. Please try again in a moment.";
+            if (callback) {
+                await callback({ text: errorMsg, error: true });
+            }
+
+            return {
+                success: false,
+                error: error instanceof Error ? error : new Error(String(error))
+            };
+        }
+    },
+
+    examples: [
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "rank Reya markets by funding"
+                }
+            },
+            {
+                name: "Aira",
+                content: {
+                    text: "Here's every market's funding, highest first, with daily and annualized rates.",
+                    actions: ["GET_REYA_FUNDING"]
+                }
+            }
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "сколько заплатит шорт ETH на $10k по фандингу за сутки?"
+                }
+            },
+            {
+                name: "Aira",
+                content: {
+                    text: "Считаю фандинг для шорта ETH-rUSD на $10,000 за 24 часа.",
+                    actions: ["GET_REYA_FUNDING"]
+                }
+            }
+        ]
+    ]
+};
+
+export default getFundingAction;
@@ -0,0 +1,261 @@
+import {
+    type Action,
+    type ActionResult,
+    type IAgentRuntime,
+    type Memory,
+    type State,
+    elizaLogger,
+    parseKeyValueXml,
+    type HandlerCallback,
+    ModelType,
+} from "@elizaos/core";
+
+import { ALERTS } from "../constants/index.js";
+import { getReyaService } from "../services/reyaService.js";
+import { getSmartDispatchData } from "../providers/dispatchProvider.js";
+import {
+    getAlertService,
+    classifyAlertRequest,
+    isFundingAlertRequest,
+    isAnyMarketRequest,
+    parseFundingAlertCondition,
+    fundingConditionMet,
+    describeAlert,
+} from "../services/alertService.js";
+import { describeFunding } from "../services/funding.js";
+import type { FundingAlertCondition, MarketAlert } from "../types/index.js";
+
+// The extraction prompt's trigger/apr fields as a condition
+function conditionFromExtraction(trigger: string | undefined, apr: string | undefined): FundingAlertCondition | null {
+    const aprPercent = parseFloat((apr || "").replace("%", "").replace(",", "."));
+    switch ((trigger || "").toLowerCase()) {
+        case "apr":
+            return Number.isFinite(aprPercent) && aprPercent > 0 ? { kind: "fundingApr", aprPercent } : null;
+        case "negative":
+        case "positive":
+            return { kind: "fundingFlip", to: trigger!.toLowerCase() as "negative" | "positive" };
+        case "flip":
+            return { kind: "fundingFlip", to: "either" };
+        default:
+            return null;
+    }
+}
+
+export const setFundingAlertAction: Action = {
+    name: "SET_REYA_FUNDING_ALERT",
+    similes: [
+        "REYA_FUNDING_ALERT",
+        "WATCH_REYA_FUNDING",
+        "NOTIFY_REYA_FUNDING"
+    ],
+    description: "Set an alert that posts to this room when funding on a Reya Network market (or any market) flips sign or goes above an annualized rate",
+
+    validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+        elizaLogger.info(`💸 Funding Alert Action Validate: Checking message: "${message.content.text}"`);
+
+        // Check Smart Dispatch flags from provider first, fallback to executed actions
+        const smartDispatchData = getSmartDispatchData(state);
+
+        if (smartDispatchData?.allowReyaActions) {
+            const text = message.content.text || "";
+            if (classifyAlertRequest(text) === "set" && isFundingAlertRequest(text)) {
+                elizaLogger.info("✅ Funding Alert Action: Approved funding alert request by Smart Dispatch");
+                return true;
+            }
+            elizaLogger.info("🚫 Funding Alert Action: Not a request to set a funding alert");
+            return false;
+        }
+
+        elizaLogger.info("🚫 Funding Alert Action: No approval from Smart Dispatch, rejecting");
+        return false;
+    },
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state: State,
+        _options: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ): Promise<ActionResult> => {
+        try {
+            elizaLogger.info("Executing SET_REYA_FUNDING_ALERT action");
+            const text = message.content.text || "";
+
+            const alerts = getAlertService(runtime);
+            if (!alerts) {
+                const response = "Funding alerts need the Reya alert watcher, and it isn't running on this agent.";
+                if (callback) {
+                    await callback({ text: response, action: "SET_REYA_FUNDING_ALERT" });
+                }
+                return {
+                    success: false,
+                    text: response,
+                    data: { actionName: "SET_REYA_FUNDING_ALERT", reason: "alerts_unavailable" }
+                };
+            }
+
+            const extractionPrompt = `
+You are extracting funding alert parameters from a user message.
+
+EXTRACTION RULES:
+1. symbol: the market or coin to watch (BTC, ETH, SOL...), "ANY" for any/all markets, or empty
+2. trigger: "negative" or "positive" when funding should flip to that sign, "flip" for either way, "apr" for a rate threshold
+3. apr: the annualized rate threshold in percent for "apr" triggers, digits only, or empty
+
+EXAMPLES:
+- "alert me when funding on BTC flips negative" → symbol: BTC, trigger: negative
+- "notify me if any market's funding goes above 50% APR" → symbol: ANY, trigger: apr, apr: 50
+- "сообщи, когда фандинг ETH сменит знак" → symbol: ETH, trigger: flip
+
+FORMAT: Return ONLY this XML structure:
+<response>
+  <symbol>SYMBOL_ANY_OR_EMPTY</symbol>
+  <trigger>negative_positive_flip_or_apr</trigger>
+  <apr>APR_OR_EMPTY</apr>
+</response>
+
+USER MESSAGE: "${text}"
+
+EXTRACT NOW:`;
+
+            let extractedData: Record<string, string> = {};
+            try {
+                const llmResponse = await runtime.useModel(ModelType.TEXT_SMALL, {
+                    prompt: extractionPrompt,
+                });
+                extractedData = parseKeyValueXml(llmResponse) || {};
+            } catch (extractionError) {
+                // The message itself usually says enough
+                elizaLogger.warn(`Funding alert extraction failed, reading the message directly: ${extractionError}`);
+            }
+
+            const condition = conditionFromExtraction(extractedData.trigger, extractedData.apr) ?? parseFundingAlertCondition(text);
+            const symbol = (extractedData.symbol || "").trim();
+            const anyMarket = symbol.toUpperCase() === "ANY" || (!symbol && isAnyMarketRequest(text));
+
+            const reyaService = getReyaService(runtime);
+            const resolution = symbol && !anyMarket
+                ? await reyaService.symbols.resolveMarket(symbol)
+                : null;
+            const market = anyMarket ? null
+                : resolution?.best && !resolution.ambiguous ? resolution.best.item
+                    : resolution ? null : (await reyaService.symbols.findMarketMentions(text))[0] ?? null;
+
+            elizaLogger.info(`Funding alert request: market=${anyMarket ? "any" : market?.ticker ?? "none"} condition=${JSON.stringify(condition)}`);
+
+            let response: string;
+            let alert: MarketAlert | null = null;
+
+            if (!anyMarket && !market) {
+                response = resolution?.candidates.length
+                    ? `"${symbol}" matches more than one market: ${resolution.candidates.map(c => `**${c.item.ticker}**`).join(", ")}. Ask again with the full ticker, e.g. "alert me when ${resolution.candidates[0].item.ticker} funding flips negative".`
+                    : `Which market's funding should I watch? For example "alert me when funding on BTC flips negative" or "notify me if any market goes above 50% APR".`;
+            } else if (!condition) {
+                response = `What should trigger the funding alert? Say "flips negative", "flips positive", "changes sign" or "above 50% APR".`;
+            } else {
+                const marketsData = await reyaService.markets.getMarketsData();
+                const markets = await reyaService.markets.getMarkets();
+                const periodHours = reyaService.fundingRatePeriodHours;
+                const tickerOf = (marketId: string) => markets.find(m => m.id === marketId)?.ticker ?? `Market ${marketId}`;
+                const data = market ? marketsData.find(d => d.marketId === market.id) : undefined;
+                const existing = await alerts.listAlerts(message.entityId, message.roomId);
+
+                if (market && !data) {
+                    response = `I can't get funding data for **${market.ticker}** right now, so I can't set an alert on it. Please try again in a moment.`;
+                } else if (data && fundingConditionMet(condition, data.fundingRate, periodHours)) {
+                    const already = condition.kind === "fundingApr" ? `past ${condition.aprPercent}% APR` : condition.to;
+                    response = `${describeFunding(market!.ticker, data, periodHours)}. That's already ${already}, so the alert would fire straight away. Pick a condition it doesn't meet yet.`;
+                } else if (existing.length >= ALERTS.MAX_PER_USER) {
+                    response = `You already have ${existing.length} alerts in this chat, the most I keep per person. Cancel some first ("cancel alert #${existing[0].id}").`;
+                } else {
+                    alert = await alerts.addAlert({
+                        marketId: market?.id ?? null,
+                        ticker: market?.ticker ?? null,
+                        condition,
+                        entityId: message.entityId,
+                        roomId: message.roomId,
+                        source: message.content.source || "unknown",
+                        reference: data?.fundingRate ?? null,
+                    });
+
+                    // Every-market alerts only fire on markets that cross in from now on
+                    const alreadyMet = market ? [] : marketsData.filter(d => fundingConditionMet(condition, d.fundingRate, periodHours));
+                    const now = data
+                        ? `\nNow: ${describeFunding(market!.ticker, data, periodHours)}.`
+                        : alreadyMet.length > 0
+                            ? `\nAlready there, so not counted:\n${alreadyMet.map(d => `• ${describeFunding(tickerOf(d.marketId), d, periodHours)}`).join("\n")}`
+                            : "";
+                    const watcherOff = alerts.checkIntervalMs > 0
+                        ? ""
+                        : "\n⚠️ The alert watcher is switched off on this agent (REYA_ALERT_CHECK_INTERVAL_SEC=0), so it won't trigger until it's turned on.";
+                    response = `🔔 Alert #${alert.id} set: ${describeAlert(alert, p => reyaService.prices.formatPrice(p))}. I'll post here when it triggers.${now}${watcherOff}`;
+                }
+            }
+
+            if (callback) {
+                await callback({ text: response, action: "SET_REYA_FUNDING_ALERT" });
+            }
+
+            return {
+                success: true,
+                text: response,
+                values: {
+                    alertId: alert?.id,
+                    marketId: market?.id
+                },
+                data: {
+                    actionName: "SET_REYA_FUNDING_ALERT",
+                    market: anyMarket ? "any" : market?.ticker,
+                    alert
+                }
+            };
+        } catch (error) {
+            elizaLogger.error({ err: error }, "Error in SET_REYA_FUNDING_ALERT action");
+
+            const errorMsg = "Sorry, I couldn't set that funding alert right now. Please try again in a moment.";
+            if (callback) {
+                await callback({ text: errorMsg, error: true });
+            }
+
+            return {
+                success: false,
+                error: error instanceof Error ? error : new Error(String(error))
+            };
+        }
+    },
+
+    examples: [
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "alert me when funding on BTC flips negative"
+                }
+            },
+            {
+                name: "Aira",
+                content: {
+                    text: "Setting an alert for BTC-rUSD funding turning negative.",
+                    actions: ["SET_REYA_FUNDING_ALERT"]
+                }
+            }
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "уведоми, если фандинг на любом рынке превысит 50% годовых"
+                }
+            },
+            {
+                name: "Aira",
+                content: {
+                    text: "Ставлю оповещение на фандинг выше 50% годовых по всем рынкам.",
+                    actions: ["SET_REYA_FUNDING_ALERT"]
+                }
+            }
+        ]
+    ]
+};
+
+export default setFundingAlertAction;
@@ -0,0 +1,233 @@
+import {
+    type Action,
+    type ActionResult,
+    type IAgentRuntime,
+    type Memory,
+    type State,
+    elizaLogger,
+    parseKeyValueXml,
+    type HandlerCallback,
+    ModelType,
+} from "@elizaos/core";
+
+import { getReyaService } from "../services/reyaService.js";
+import { getSmartDispatchData } from "../providers/dispatchProvider.js";
+import { classifyAlertRequest } from "../services/alertService.js";
+import {
+    parsePositionSize,
+    parsePositionSide,
+    parseLeverage,
+    parseBaseSize,
+    parseEntryPrice,
+    type PositionSide,
+} from "../services/position.js";
+import { isLiquidationRequest, estimateLiquidation, formatLiquidation } from "../services/liquidation.js";
+import { marketBaseSymbol } from "../services/symbolResolver.js";
+import { parseVolumeAmount } from "./feeCalculatorAction.js";
+import type { LiquidationEstimate } from "../types/index.js";
+
+const parsePositive = (value: unknown): number | null => {
+    const parsed = parseFloat(String(value ?? "").replace(/[$,]/g, ""));
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+export const calculateLiquidationAction: Action = {
+    name: "CALCULATE_REYA_LIQUIDATION",
+    similes: [
+        "REYA_LIQUIDATION_PRICE",
+        "REYA_MARGIN_REQUIREMENT",
+        "REYA_LEVERAGE_CALCULATOR"
+    ],
+    description: "Estimate the liquidation price and margin requirement of a hypothetical Reya Network position from its entry price (the mark price by default), side, size and leverage, rejecting leverage above the market's maxLeverage, with a table of how the liquidation price moves with leverage",
+
+    validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+        elizaLogger.info(`🧮 Liquidation Action Validate: Checking message: "${message.content.text}"`);
+
+        // Check Smart Dispatch flags from provider first, fallback to executed actions
+        const smartDispatchData = getSmartDispatchData(state);
+
+        if (smartDispatchData?.allowReyaActions) {
+            const text = message.content.text || "";
+            if (isLiquidationRequest(text) && !classifyAlertRequest(text)) {
+                elizaLogger.info("✅ Liquidation Action: Approved liquidation estimate by Smart Dispatch");
+                return true;
+            }
+            elizaLogger.info("🚫 Liquidation Action: No liquidation or margin keywords found");
+            return false;
+        }
+
+        elizaLogger.info("🚫 Liquidation Action: No approval from Smart Dispatch, rejecting");
+        return false;
+    },
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state: State,
+        _options: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ): Promise<ActionResult> => {
+        try {
+            elizaLogger.info("Executing CALCULATE_REYA_LIQUIDATION action");
+            const text = message.content.text || "";
+
+            const extractionPrompt = `
+You are extracting liquidation parameters from a user message.
+
+EXTRACTION RULES:
+1. symbol: the market or coin traded (BTC, ETH, SOL...), or empty
+2. entry: the entry price, digits only (e.g. "3800"), or empty when not given
+3. base: the size in units of the coin, digits only (e.g. "5" for "5 ETH"), or empty
+4. size: the size in rUSD/USD if given instead, like "10000" or "2.5m", or empty
+5. side: "long" or "short", or empty
+6. leverage: the leverage, digits only (e.g. "10" for "10x"), or empty
+
+EXAMPLES:
+- "liquidation price for a 10x long 5 ETH at 3800?" → symbol: ETH, entry: 3800, base: 5, side: long, leverage: 10
+- "where does a $20k BTC short at 20x get liquidated?" → symbol: BTC, size: 20000, side: short, leverage: 20
+- "цена ликвидации шорта SOL с плечом 5" → symbol: SOL, side: short, leverage: 5
+
+FORMAT: Return ONLY this XML structure:
+<response>
+  <symbol>SYMBOL_OR_EMPTY</symbol>
+  <entry>ENTRY_OR_EMPTY</entry>
+  <base>BASE_OR_EMPTY</base>
+  <size>SIZE_OR_EMPTY</size>
+  <side>long_or_short_or_empty</side>
+  <leverage>LEVERAGE_OR_EMPTY</leverage>
+</response>
+
+USER MESSAGE: "${text}"
+
+EXTRACT NOW:`;
+
+            let extractedData: Record<string, string> = {};
+            try {
+                const llmResponse = await runtime.useModel(ModelType.TEXT_SMALL, {
+                    prompt: extractionPrompt,
+                });
+                extractedData = parseKeyValueXml(llmResponse) || {};
+            } catch (extractionError) {
+                // The message itself usually says enough
+                elizaLogger.warn(`Liquidation extraction failed, reading the message directly: ${extractionError}`);
+            }
+
+            const reyaService = getReyaService(runtime);
+            const priceService = reyaService.prices;
+            const symbol = (extractedData.symbol || "").trim();
+            const resolution = symbol ? await reyaService.symbols.resolveMarket(symbol) : null;
+            const market = resolution?.best && !resolution.ambiguous
+                ? resolution.best.item
+                : (await reyaService.symbols.findMarketMentions(text))[0] ?? null;
+
+            // Leverage and the entry price come out first: "at $3800" isn't a size
+            const leverageMatch = parseLeverage(text);
+            let rest = leverageMatch ? text.toLowerCase().replace(leverageMatch.match, " ") : text.toLowerCase();
+            const entryMatch = parseEntryPrice(rest);
+            rest = entryMatch ? rest.replace(entryMatch.match, " ") : rest;
+            const sizeMatch = parsePositionSize(rest);
+            const baseMatch = market ? parseBaseSize(rest, marketBaseSymbol(market)) : null;
+
+            const leverage = parsePositive(extractedData.leverage) ?? leverageMatch?.leverage ?? null;
+            const entry = parsePositive(extractedData.entry) ?? entryMatch?.price ?? null;
+            const base = parsePositive(extractedData.base) ?? baseMatch?.base ?? null;
+            const size = parseVolumeAmount(extractedData.size) ?? sizeMatch?.notional ?? null;
+            const side: PositionSide = extractedData.side === "short" || extractedData.side === "long"
+                ? extractedData.side
+                : parsePositionSide(text) ?? "long";
+
+            elizaLogger.info(`Liquidation request: market=${market?.ticker ?? "none"} entry=${entry} base=${base} size=${size} side=${side} leverage=${leverage}`);
+
+            let response: string;
+            let estimate: LiquidationEstimate | null = null;
+
+            if (!market) {
+                response = `Which market is the position on? For example "liquidation price for a 10x long 5 ETH at 3800".`;
+            } else if (leverage === null) {
+                response = `What leverage? **${market.ticker}** allows up to ${market.maxLeverage}x, for example "liquidation price for a 10x ${side} ${marketBaseSymbol(market)}".`;
+            } else if (leverage > market.maxLeverage) {
+                response = `❌ **${market.ticker}** allows at most ${market.maxLeverage}x, so a position can't be opened at ${leverage}x. Pick a leverage of ${market.maxLeverage}x or less.`;
+            } else {
+                let entryPrice = entry;
+                if (entryPrice === null) {
+                    const prices = await priceService.getPrices();
+                    const markPrice = parseFloat(prices.find(p => String(p.marketId) === market.id)?.price ?? "");
+                    entryPrice = Number.isFinite(markPrice) ? markPrice : market.markPrice;
+                }
+                const notional = base !== null ? base * entryPrice : size;
+
+                estimate = estimateLiquidation({ market, entryPrice, entryIsMark: entry === null, side, leverage, notional });
+                response = [
+                    formatLiquidation(estimate, p => priceService.formatPrice(p)),
+                    "",
+                    `Assumptions: an isolated position liquidated when its margin plus PnL at the mark price falls to the maintenance margin. Initial margin is the size divided by the leverage. Maintenance margin is taken as half the initial margin at ${estimate.ticker}'s ${estimate.maxLeverage}x max, ${(estimate.maintenanceMarginRatio * 100).toFixed(2)}% of the size; Reya's own requirement comes from its risk parameters and can differ. Fees and funding, which move the liquidation price over time, and other positions sharing a cross-margin account aren't included.${notional === null ? ` Give a size ("5 ${estimate.baseAsset}" or "$10k") to see the margin in rUSD.` : ""}`,
+                ].join("\n");
+            }
+
+            if (callback) {
+                await callback({ text: response, action: "CALCULATE_REYA_LIQUIDATION" });
+            }
+
+            return {
+                success: true,
+                text: response,
+                values: {
+                    marketId: market?.id,
+                    liquidationPrice: estimate?.liquidationPrice,
+                    initialMargin: estimate?.initialMargin
+                },
+                data: {
+                    actionName: "CALCULATE_REYA_LIQUIDATION",
+                    estimate
+                }
+            };
+        } catch (error) {
+            elizaLogger.error({ err: error }, "Error in CALCULATE_REYA_LIQUIDATION action");
+
+            const errorMsg = "Sorry, I couldn't estimate that liquidation price right now. Please try again in a moment.";
+            if (callback) {
+                await callback({ text: errorMsg, error: true });
+            }
+
+            return {
+                success: false,
+                error: error instanceof Error ? error : new Error(String(error))
+            };
+        }
+    },
+
+    examples: [
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "liquidation price for a 10x long 5 ETH at 3800?"
+                }
+            },
+            {
+                name: "Aira",
+                content: {
+                    text: "Working out where a 10x ETH long from $3,800 gets liquidated and the margin it needs.",
+                    actions: ["CALCULATE_REYA_LIQUIDATION"]
+                }
+            }
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "цена ликвидации шорта SOL с плечом 5"
+                }
+            },
+            {
+                name: "Aira",
+                content: {
+                    text: "Считаю цену ликвидации шорта SOL с плечом 5 от текущей цены.",
+                    actions: ["CALCULATE_REYA_LIQUIDATION"]
+                }
+            }
+        ]
+    ]
+};
+
+export default calculateLiquidationAction;
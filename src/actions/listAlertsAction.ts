@@ -0,0 +1,141 @@
+import {
+    type Action,
+    type ActionResult,
+    type IAgentRuntime,
+    type Memory,
+    type State,
+    elizaLogger,
+    type HandlerCallback,
+} from "@elizaos/core";
+
+import { getReyaService } from "../services/reyaService.js";
+import { getSmartDispatchData } from "../providers/dispatchProvider.js";
+import { getAlertService, classifyAlertRequest, describeAlert, describeAlertReference } from "../services/alertService.js";
+import { formatDuration } from "../services/historyService.js";
+import type { MarketAlert } from "../types/index.js";
+
+/**
+ * One line per alert, "#3 **SOL-rUSD** drops 5% within 1h · set 10m ago at
+ * $148.37", shared with CANCEL_REYA_ALERT.
+ */
+export function formatAlertList(
+    alerts: MarketAlert[],
+    formatPrice: (price: number) => string,
+    fundingPeriodHours: number,
+    now: number = Date.now()
+): string {
+    return alerts
+        .map(a => `#${a.id} ${describeAlert(a, formatPrice)} · set ${formatDuration(Math.max(0, now - a.createdAt))} ago${describeAlertReference(a, formatPrice, fundingPeriodHours)}`)
+        .join("\n");
+}
+
+export const listAlertsAction: Action = {
+    name: "LIST_REYA_ALERTS",
+    similes: [
+        "SHOW_REYA_ALERTS",
+        "MY_REYA_ALERTS"
+    ],
+    description: "List the Reya Network price, funding and premium alerts this user has set in this room",
+
+    validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+        elizaLogger.info(`📋 List Alerts Action Validate: Checking message: "${message.content.text}"`);
+
+        // Check Smart Dispatch flags from provider first, fallback to executed actions
+        const smartDispatchData = getSmartDispatchData(state);
+
+        if (smartDispatchData?.allowReyaActions) {
+            if (classifyAlertRequest(message.content.text || "") === "list") {
+                elizaLogger.info("✅ List Alerts Action: Approved by Smart Dispatch");
+                return true;
+            }
+            elizaLogger.info("🚫 List Alerts Action: Not a request to list alerts");
+            return false;
+        }
+
+        elizaLogger.info("🚫 List Alerts Action: No approval from Smart Dispatch, rejecting");
+        return false;
+    },
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state: State,
+        _options: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ): Promise<ActionResult> => {
+        try {
+            elizaLogger.info("Executing LIST_REYA_ALERTS action");
+
+            const alertService = getAlertService(runtime);
+            const alerts = alertService ? await alertService.listAlerts(message.entityId, message.roomId) : [];
+            const reyaService = getReyaService(runtime);
+
+            const response = alerts.length === 0
+                ? `You have no Reya alerts in this chat. Set one with "tell me when ETH crosses 4000" or "alert me if SOL drops 5% in an hour".`
+                : `**Your Reya alerts** (${alerts.length})\n${formatAlertList(alerts, p => reyaService.prices.formatPrice(p), reyaService.fundingRatePeriodHours)}\n\nCancel one with "cancel alert #${alerts[0].id}".`;
+
+            if (callback) {
+                await callback({ text: response, action: "LIST_REYA_ALERTS" });
+            }
+
+            return {
+                success: true,
+                text: response,
+                values: {
+                    alertCount: alerts.length
+                },
+                data: {
+                    actionName: "LIST_REYA_ALERTS",
+                    alerts
+                }
+            };
+        } catch (error) {
+            elizaLogger.error({ err: error }, "Error in LIST_REYA_ALERTS action");
+
+            const errorMsg = "Sorry, I couldn't load your alerts right now. Please try again in a moment.";
+            if (callback) {
+                await callback({ text: errorMsg, error: true });
+            }
+
+            return {
+                success: false,
+                error: error instanceof Error ? error : new Error(String(error))
+            };
+        }
+    },
+
+    examples: [
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "show my alerts"
+                }
+            },
+            {
+                name: "Aira",
+                content: {
+                    text: "Here are your active Reya alerts.",
+                    actions: ["LIST_REYA_ALERTS"]
+                }
+            }
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "какие у меня оповещения?"
+                }
+            },
+            {
+                name: "Aira",
+                content: {
+                    text: "Вот ваши активные оповещения Reya.",
+                    actions: ["LIST_REYA_ALERTS"]
+                }
+            }
+        ]
+    ]
+};
+
+export default listAlertsAction;
@@ -9,7 +9,14 @@ import {
     ModelType,
 } from "@elizaos/core";
 
-import { initMarketService } from "../providers/marketProvider.js";
+import { getReyaService } from "../services/reyaService.js";
+import { getSmartDispatchData } from "../providers/dispatchProvider.js";
+import { takeChoiceSelection, savePendingChoice, formatChoiceList } from "../services/pendingChoice.js";
+import { splitSymbolList } from "../services/symbolResolver.js";
+import { classifyWatchlistRequest } from "../services/watchlist.js";
+import { buildMarketTable, formatResolutionNotes } from "../services/marketTable.js";
+import { annualizeFundingRate, fundingDirection } from "../services/funding.js";
+import { FUNDING } from "../constants/index.js";
 
 export const getMarketsAction: Action = {
     name: "GET_REYA_MARKETS",
@@ -19,11 +26,15 @@ export const getMarketsAction: Action = {
         elizaLogger.info(`🏪 Market Action Validate: Checking message: "${message.content.text}"`);
         
         // Check Smart Dispatch flags from provider first, fallback to executed actions
-        const smartDispatchData = (state as any)?.values?.smartDispatch ??
-            state?.recentActions?.find((action: any) => action.actionName === "SMART_REYA_DISPATCH")?.data;
+        const smartDispatchData = getSmartDispatchData(state);
         
         if (smartDispatchData?.allowReyaActions) {
             elizaLogger.info("✅ Market Action: Smart Dispatch approved API action");
+
+            if (smartDispatchData.choiceAction === "GET_REYA_MARKETS") {
+                elizaLogger.info("✅ Market Action: Message answers a pending market choice");
+                return true;
+            }
             
             // When Smart Dispatch approves, validate for market-related content
             const text = message.content.text.toLowerCase();
@@ -43,7 +54,8 @@ export const getMarketsAction: Action = {
             
             const hasMarketKeyword = marketKeywords.some(keyword => text.includes(keyword));
             
-            if (hasMarketKeyword) {
+            // "watchlist" contains "list"; the watchlist actions answer those
+            if (hasMarketKeyword && !classifyWatchlistRequest(text)) {
                 elizaLogger.info("✅ Market Action: Approved market query by Smart Dispatch");
                 return true;
             } else {
@@ -69,15 +81,24 @@ export const getMarketsAction: Action = {
         try {
             elizaLogger.info("Executing GET_REYA_MARKETS action");
             
-            // First check if user is asking for specific token volume/market data
-            const extractionPrompt = `
+            // A reply to an earlier "which market?" list finishes that request
+            const selection = await takeChoiceSelection(runtime, message, "GET_REYA_MARKETS");
+            let symbol = "";
+            let queryType = "general";
+
+            if (selection) {
+                symbol = selection.ticker;
+                queryType = selection.choice.params?.queryType ?? "market";
+            } else {
+                // First check if user is asking for specific token volume/market data
+                const extractionPrompt = `
 You are an expert at extracting cryptocurrency trading and market information from user messages.
 
 EXTRACTION RULES:
 1. Look for cryptocurrency symbols (BTC, ETH, SOL, UNI, etc.)
 2. Look for market/volume queries about specific tokens
 3. Look for general market overview requests
-4. If MULTIPLE symbols found, extract the FIRST ONE mentioned
+4. If MULTIPLE symbols found, list ALL of them in the order mentioned, separated by commas
 5. If NO specific symbol found, treat as general market query
 
 QUERY TYPES:
@@ -89,6 +110,7 @@ EXAMPLES:
 - "BTC volume on Reya" → symbol: BTC, type: volume
 - "SOL trading activity" → symbol: SOL, type: volume
 - "объем торгов ETH за сутки" → symbol: ETH, type: volume
+- "BTC and ETH market data" → symbol: BTC,ETH, type: market
 - "market overview" → symbol: "", type: general
 - "show me markets" → symbol: "", type: general
 
@@ -102,44 +124,55 @@ USER MESSAGE: "${message.content.text}"
 
 EXTRACT NOW:`;
 
-            const llmResponse = await runtime.useModel(ModelType.TEXT_SMALL, {
-                prompt: extractionPrompt,
-            });
+                const llmResponse = await runtime.useModel(ModelType.TEXT_SMALL, {
+                    prompt: extractionPrompt,
+                });
 
-            elizaLogger.info("Market LLM response:", llmResponse);
-            const extractedData = parseKeyValueXml(llmResponse);
-            const symbol = extractedData.symbol || "";
-            const queryType = extractedData.type || "general";
-            
-            elizaLogger.info("Market extracted symbol:", symbol, "Type:", queryType);
+                elizaLogger.info(`Market LLM response: ${llmResponse}`);
+                const extractedData = parseKeyValueXml(llmResponse);
+                symbol = extractedData.symbol || "";
+                queryType = extractedData.type || "general";
+            }
+
+            // Several symbols get one table; the intent analyzer's asset list
+            // covers an extractor that only kept the first
+            let symbols = splitSymbolList(symbol);
+            const dispatchAssets = splitSymbolList(getSmartDispatchData(state)?.extractedEntities?.assets);
+            if ((queryType === "volume" || queryType === "market") && symbols.length <= 1 && dispatchAssets.length > 1) {
+                symbols = dispatchAssets;
+            }
+            if (symbols.length === 1) {
+                symbol = symbols[0];
+            }
+
+            elizaLogger.info(`Market extracted symbols: ${symbols.join(", ") || "none"} Type: ${queryType}`);
             
-            const marketService = await initMarketService(runtime);
+            const marketService = getReyaService(runtime).markets;
             const markets = await marketService.getMarkets();
             const marketsData = await marketService.getMarketsData();
             
             let response = "";
             
-            if (symbol && (queryType === "volume" || queryType === "market")) {
-                // Find specific market for the token
-                const assetSymbol = symbol.toUpperCase();
-                elizaLogger.info("🔍 Searching for market volume for symbol:", assetSymbol);
-                
-                let targetMarket = null;
-                
-                // Find market using the same fuzzy matching as in price action
-                targetMarket = markets.find(m => 
-                    m.ticker.toUpperCase().startsWith(assetSymbol + '-') || 
-                    m.ticker.toUpperCase() === assetSymbol
-                );
-                
-                if (!targetMarket) {
-                    targetMarket = markets.find(m => 
-                        m.ticker.toUpperCase().includes(assetSymbol)
-                    );
+            if (symbols.length > 1 && (queryType === "volume" || queryType === "market")) {
+                const listResolution = await getReyaService(runtime).symbols.resolveMarketList(symbols);
+                const notes = formatResolutionNotes(listResolution);
+
+                if (listResolution.markets.length > 0) {
+                    response = `**Reya Network Markets - ${queryType === "volume" ? "24h Trading Volume" : "Market Data"}:**
+
+${buildMarketTable(listResolution.markets, marketsData)}${notes ? `\n\n${notes}` : ""}
+
+Funding is the current rate; Long/Short shows how open interest is split.`;
+                } else {
+                    response = `I couldn't find any of ${symbols.map(s => `**${s.toUpperCase()}**`).join(", ")} on Reya Network.
+
+${notes}`;
                 }
-                
-                elizaLogger.info("🎯 Found market for volume query:", targetMarket ? targetMarket.ticker : "Not found");
-                
+            } else if (symbol && (queryType === "volume" || queryType === "market")) {
+                const resolution = await getReyaService(runtime).symbols.resolveMarket(symbol);
+                const targetMarket = resolution.best && !resolution.ambiguous ? resolution.best.item : null;
+                const assetSymbol = resolution.best?.symbol ?? symbol.toUpperCase();
+
                 if (targetMarket) {
                     try {
                         // Get detailed market data using specific endpoint
@@ -156,6 +189,7 @@ EXTRACT NOW:`;
                         const priceChangeEmoji = priceChange24h >= 0 ? "📈" : "📉";
                         
                         const fundingRateFormatted = (detailedMarketData.fundingRate * 100).toFixed(4);
+                        const fundingApr = annualizeFundingRate(detailedMarketData.fundingRate, getReyaService(runtime).fundingRatePeriodHours);
                         const fundingEmoji = detailedMarketData.fundingRate >= 0 ? "🔵" : "🔴";
                         
                         const openInterestFormatted = detailedMarketData.openInterest.toLocaleString('en-US', {
@@ -181,7 +215,7 @@ This represents the total dollar value of ${assetSymbol} traded in the last 24 h
 💰 **24h Volume**: $${volumeFormatted}
 ${priceChangeEmoji} **24h Price Change**: ${priceChangeFormatted}%
 📊 **Open Interest**: ${openInterestFormatted} (Long: ${longSkew}%, Short: ${shortSkew}%)
-${fundingEmoji} **Funding Rate**: ${fundingRateFormatted}% (${detailedMarketData.fundingRate >= 0 ? 'paying longs' : 'paying shorts'})
+${fundingEmoji} **Funding Rate**: ${fundingRateFormatted}% (${fundingApr.toFixed(2)}% APR, ${fundingDirection(detailedMarketData.fundingRate)})
 🏛️ **Oracle Price**: $${detailedMarketData.oraclePrice?.toFixed(2)}
 🏊 **Pool Price**: $${detailedMarketData.poolPrice?.toFixed(2)}
 🎯 **Max Leverage**: ${targetMarket.maxLeverage}x
@@ -189,12 +223,12 @@ ${fundingEmoji} **Funding Rate**: ${fundingRateFormatted}% (${detailedMarketData
 
 **Market Activity Analysis:**
 • ${longSkew > 55 ? 'Long-biased market' : shortSkew > 55 ? 'Short-biased market' : 'Balanced market'}
-• ${Math.abs(detailedMarketData.fundingRate) > 0.01 ? 'High funding rate indicates strong directional bias' : 'Low funding rate shows balanced market'}
+• ${Math.abs(fundingApr) >= FUNDING.HIGH_APR_PERCENT ? 'High funding rate indicates strong directional bias' : 'Low funding rate shows balanced market'}
 • Last updated: ${new Date(detailedMarketData.updatedAt).toLocaleTimeString()}`;
                         }
                         
                     } catch (error) {
-                        elizaLogger.error("Error fetching detailed market data:", error);
+                        elizaLogger.error({ err: error }, "Error fetching detailed market data");
                         // Fallback to basic data from marketsData
                         const marketData = marketsData.find(md => md.marketId === targetMarket.id);
                         const volume24h = marketData?.last24hVolume || 0;
@@ -211,19 +245,19 @@ ${fundingEmoji} **Funding Rate**: ${fundingRateFormatted}% (${detailedMarketData
 
 (Detailed market data temporarily unavailable)`;
                     }
+                } else if (resolution.candidates.length > 0) {
+                    await savePendingChoice(runtime, message.roomId, "GET_REYA_MARKETS", resolution, { queryType });
+                    response = `"${symbol}" matches more than one market on Reya Network. Which one did you mean?
+
+${formatChoiceList(resolution)}
+
+Reply with a number, e.g. "1".`;
                 } else {
-                    // Show available markets with similar names
-                    const similarMarkets = markets.filter(m => {
-                        const ticker = m.ticker.toUpperCase();
-                        return ticker.includes(assetSymbol.substring(0, 2)) || 
-                               ticker.includes(assetSymbol.substring(0, 3));
-                    });
-                    
                     const topMarkets = await marketService.getTopMarketsByVolume(5);
                     
                     response = `I couldn't find **${assetSymbol}** market on Reya Network.
 
-${similarMarkets.length > 0 ? `**Similar markets**: ${similarMarkets.map(m => m.ticker).join(', ')}\n\n` : ''}**Top markets by volume**:
+**Top markets by volume**:
 ${topMarkets.map((md, idx) => {
                         const market = markets.find(m => m.id === md.marketId);
                         const volume = md.last24hVolume?.toLocaleString() || 'N/A';
@@ -268,12 +302,13 @@ Reya DEX features cross-margining, unified liquidity pools, and 100ms block time
                     markets,
                     marketsData,
                     symbol,
+                    symbols,
                     queryType,
                     activeMarketsCount: markets.filter(m => m.isActive).length
                 }
             };
         } catch (error) {
-            elizaLogger.error("Error in GET_REYA_MARKETS action:", error);
+            elizaLogger.error({ err: error }, "Error in GET_REYA_MARKETS action");
             
             const errorMsg = "Sorry, I couldn't fetch the market data from Reya Network right now. Please try again in a moment.";
             await callback({
@@ -0,0 +1,153 @@
+import {
+    type Action,
+    type ActionResult,
+    type IAgentRuntime,
+    type Memory,
+    type State,
+    elizaLogger,
+    type HandlerCallback,
+} from "@elizaos/core";
+
+import { getReyaService } from "../services/reyaService.js";
+import { getSmartDispatchData } from "../providers/dispatchProvider.js";
+import { classifyAlertRequest } from "../services/alertService.js";
+import { isChartRequest } from "../services/charts.js";
+import {
+    isOpenInterestRequest,
+    buildOpenInterestReport,
+    formatOpenInterestReport,
+    loadOpenInterestSnapshot,
+    saveOpenInterestSnapshot,
+} from "../services/openInterest.js";
+
+export const getOpenInterestAction: Action = {
+    name: "GET_REYA_OPEN_INTEREST",
+    similes: [
+        "REYA_OI_REPORT",
+        "REYA_LONG_SHORT_SKEW",
+        "REYA_CROWDED_TRADES"
+    ],
+    description: "Report Reya Network open interest across all markets: total, each market's share, long/short skew, the most long- and short-crowded markets, and changes since the last report",
+
+    validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+        elizaLogger.info(`📊 Open Interest Action Validate: Checking message: "${message.content.text}"`);
+
+        // Check Smart Dispatch flags from provider first, fallback to executed actions
+        const smartDispatchData = getSmartDispatchData(state);
+
+        if (smartDispatchData?.allowReyaActions) {
+            const text = message.content.text || "";
+            // OI charts go to GET_REYA_CHART
+            if (isOpenInterestRequest(text) && !isChartRequest(text) && !classifyAlertRequest(text)) {
+                elizaLogger.info("✅ Open Interest Action: Approved open interest query by Smart Dispatch");
+                return true;
+            }
+            elizaLogger.info("🚫 Open Interest Action: No open interest keywords found");
+            return false;
+        }
+
+        elizaLogger.info("🚫 Open Interest Action: No approval from Smart Dispatch, rejecting");
+        return false;
+    },
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state: State,
+        _options: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ): Promise<ActionResult> => {
+        try {
+            elizaLogger.info("Executing GET_REYA_OPEN_INTEREST action");
+
+            const reyaService = getReyaService(runtime);
+            const markets = await reyaService.markets.getMarkets();
+            const marketsData = await reyaService.markets.getMarketsData();
+            const prices = await reyaService.prices.getPrices();
+            const previous = await loadOpenInterestSnapshot(runtime);
+
+            const report = buildOpenInterestReport(markets, marketsData, prices, previous);
+            if (report.entries.length === 0) {
+                const response = "I can't get open interest data from Reya Network right now. Please try again in a moment.";
+                if (callback) {
+                    await callback({ text: response, action: "GET_REYA_OPEN_INTEREST" });
+                }
+                return {
+                    success: false,
+                    text: response,
+                    data: { actionName: "GET_REYA_OPEN_INTEREST", reason: "no_data" }
+                };
+            }
+
+            // This report is the baseline the next one is compared with
+            await saveOpenInterestSnapshot(runtime, report);
+            const response = formatOpenInterestReport(report);
+
+            if (callback) {
+                await callback({ text: response, action: "GET_REYA_OPEN_INTEREST" });
+            }
+
+            return {
+                success: true,
+                text: response,
+                values: {
+                    totalNotional: report.totalNotional,
+                    marketCount: report.entries.length,
+                    mostLongCrowded: report.longCrowded[0]?.ticker,
+                    mostShortCrowded: report.shortCrowded[0]?.ticker
+                },
+                data: {
+                    actionName: "GET_REYA_OPEN_INTEREST",
+                    report
+                }
+            };
+        } catch (error) {
+            elizaLogger.error({ err: error }, "Error in GET_REYA_OPEN_INTEREST action");
+
+            const errorMsg = "Sorry, I couldn't build the Reya Network open interest report right now. Please try again in a moment.";
+            if (callback) {
+                await callback({ text: errorMsg, error: true });
+            }
+
+            return {
+                success: false,
+                error: error instanceof Error ? error : new Error(String(error))
+            };
+        }
+    },
+
+    examples: [
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "show me open interest across Reya markets"
+                }
+            },
+            {
+                name: "Aira",
+                content: {
+                    text: "Here's total open interest, each market's share and where positioning is most crowded.",
+                    actions: ["GET_REYA_OPEN_INTEREST"]
+                }
+            }
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "где сейчас самый большой перекос в лонг?"
+                }
+            },
+            {
+                name: "Aira",
+                content: {
+                    text: "Смотрю открытый интерес и перекос лонг/шорт по всем рынкам.",
+                    actions: ["GET_REYA_OPEN_INTEREST"]
+                }
+            }
+        ]
+    ]
+};
+
+export default getOpenInterestAction;
@@ -0,0 +1,276 @@
+import {
+    type Action,
+    type ActionResult,
+    type IAgentRuntime,
+    type Memory,
+    type State,
+    elizaLogger,
+    parseKeyValueXml,
+    type HandlerCallback,
+    ModelType,
+} from "@elizaos/core";
+
+import { getReyaService } from "../services/reyaService.js";
+import { getSmartDispatchData } from "../providers/dispatchProvider.js";
+import { getHistoryService, parseSinceDate, parseTimeWindow } from "../services/historyService.js";
+import { classifyAlertRequest } from "../services/alertService.js";
+import {
+    parsePositionSize,
+    parsePositionSide,
+    parseLeverage,
+    parseBaseSize,
+    parseEntryPrice,
+    type PositionSide,
+} from "../services/position.js";
+import { isPnlRequest, estimateFundingSince, simulatePnl, formatPnl, describeFundingAccrual } from "../services/pnl.js";
+import { marketBaseSymbol } from "../services/symbolResolver.js";
+import { parseVolumeAmount } from "./feeCalculatorAction.js";
+import type { FundingAccrual, PnlSimulation } from "../types/index.js";
+
+const parsePositive = (value: unknown): number | null => {
+    const parsed = parseFloat(String(value ?? "").replace(/[$,]/g, ""));
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+export const simulatePnlAction: Action = {
+    name: "SIMULATE_REYA_PNL",
+    similes: [
+        "REYA_PNL",
+        "REYA_POSITION_PNL",
+        "REYA_WHAT_IF_PNL"
+    ],
+    description: "Simulate a hypothetical Reya Network position's unrealized PnL at the current mark price, the funding it paid or received since it was opened (from local price history when recorded), and its return on margin at a chosen leverage",
+
+    validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+        elizaLogger.info(`📒 PnL Action Validate: Checking message: "${message.content.text}"`);
+
+        // Check Smart Dispatch flags from provider first, fallback to executed actions
+        const smartDispatchData = getSmartDispatchData(state);
+
+        if (smartDispatchData?.allowReyaActions) {
+            const text = message.content.text || "";
+            // A simulation needs a size to work with
+            if (isPnlRequest(text) && /\d/.test(text) && !classifyAlertRequest(text)) {
+                elizaLogger.info("✅ PnL Action: Approved PnL simulation by Smart Dispatch");
+                return true;
+            }
+            elizaLogger.info("🚫 PnL Action: No PnL keywords or size found");
+            return false;
+        }
+
+        elizaLogger.info("🚫 PnL Action: No approval from Smart Dispatch, rejecting");
+        return false;
+    },
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state: State,
+        _options: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ): Promise<ActionResult> => {
+        try {
+            elizaLogger.info("Executing SIMULATE_REYA_PNL action");
+            const text = message.content.text || "";
+
+            const extractionPrompt = `
+You are extracting PnL simulation parameters from a user message.
+
+EXTRACTION RULES:
+1. symbol: the market or coin traded (BTC, ETH, SOL...), or empty
+2. entry: the entry price, digits only (e.g. "60000" for "60k"), or empty when not given
+3. base: the size in units of the coin, digits only (e.g. "2" for "2 BTC"), or empty
+4. size: the size in rUSD/USD if given instead, like "10000" or "2.5m", or empty
+5. side: "long" or "short", or empty
+6. leverage: the leverage, digits only (e.g. "10" for "10x"), or empty
+7. since: when the position was opened, as a date like "2026-10-01" or how long ago like "3d", or empty
+
+EXAMPLES:
+- "if I longed 2 BTC at 60k, what's my PnL now?" → symbol: BTC, entry: 60000, base: 2, side: long
+- "PnL of a 10x $50k ETH short from 4100 since Oct 1" → symbol: ETH, entry: 4100, size: 50000, side: short, leverage: 10, since: Oct 1
+- "какая прибыль, если бы я купил 100 SOL 3 дня назад?" → symbol: SOL, base: 100, side: long, since: 3d
+
+FORMAT: Return ONLY this XML structure:
+<response>
+  <symbol>SYMBOL_OR_EMPTY</symbol>
+  <entry>ENTRY_OR_EMPTY</entry>
+  <base>BASE_OR_EMPTY</base>
+  <size>SIZE_OR_EMPTY</size>
+  <side>long_or_short_or_empty</side>
+  <leverage>LEVERAGE_OR_EMPTY</leverage>
+  <since>SINCE_OR_EMPTY</since>
+</response>
+
+USER MESSAGE: "${text}"
+
+EXTRACT NOW:`;
+
+            let extractedData: Record<string, string> = {};
+            try {
+                const llmResponse = await runtime.useModel(ModelType.TEXT_SMALL, {
+                    prompt: extractionPrompt,
+                });
+                extractedData = parseKeyValueXml(llmResponse) || {};
+            } catch (extractionError) {
+                // The message itself usually says enough
+                elizaLogger.warn(`PnL extraction failed, reading the message directly: ${extractionError}`);
+            }
+
+            const reyaService = getReyaService(runtime);
+            const priceService = reyaService.prices;
+            const symbol = (extractedData.symbol || "").trim();
+            const resolution = symbol ? await reyaService.symbols.resolveMarket(symbol) : null;
+            const market = resolution?.best && !resolution.ambiguous
+                ? resolution.best.item
+                : (await reyaService.symbols.findMarketMentions(text))[0] ?? null;
+
+            // Leverage and the entry price come out first: "at 60k" isn't a size
+            const leverageMatch = parseLeverage(text);
+            let rest = leverageMatch ? text.toLowerCase().replace(leverageMatch.match, " ") : text.toLowerCase();
+            const entryMatch = parseEntryPrice(rest);
+            rest = entryMatch ? rest.replace(entryMatch.match, " ") : rest;
+            const sizeMatch = parsePositionSize(rest);
+            const baseMatch = market ? parseBaseSize(rest, marketBaseSymbol(market)) : null;
+            for (const match of [sizeMatch?.match, baseMatch?.match]) {
+                rest = match ? rest.replace(match, " ") : rest;
+            }
+
+            const now = Date.now();
+            const extractedWindow = parseTimeWindow(extractedData.since || "");
+            const since = parseSinceDate(extractedData.since || "", now)
+                ?? (extractedWindow ? { timestamp: now - extractedWindow.ms, label: `${extractedWindow.label} ago` } : null)
+                ?? parseSinceDate(rest, now);
+
+            const chosenLeverage = parsePositive(extractedData.leverage) ?? leverageMatch?.leverage ?? null;
+            const leverage = chosenLeverage ?? 1;
+            const entry = parsePositive(extractedData.entry) ?? entryMatch?.price ?? null;
+            const base = parsePositive(extractedData.base) ?? baseMatch?.base ?? null;
+            const size = parseVolumeAmount(extractedData.size) ?? sizeMatch?.notional ?? null;
+            const side: PositionSide = extractedData.side === "short" || extractedData.side === "long"
+                ? extractedData.side
+                : parsePositionSide(text) ?? (/\bsold\b|продал/.test(text.toLowerCase()) ? "short" : "long");
+
+            elizaLogger.info(`PnL request: market=${market?.ticker ?? "none"} entry=${entry} base=${base} size=${size} side=${side} leverage=${leverage} since=${since?.label ?? "none"}`);
+
+            let response: string;
+            let simulation: PnlSimulation | null = null;
+
+            if (!market) {
+                response = `Which market is the position on? For example "if I longed 2 BTC at 60k, what's my PnL now?"`;
+            } else if (leverage > market.maxLeverage) {
+                response = `❌ **${market.ticker}** allows at most ${market.maxLeverage}x, so a position couldn't have been opened at ${leverage}x. Pick a leverage of ${market.maxLeverage}x or less.`;
+            } else {
+                const prices = await priceService.getPrices();
+                const markPrice = parseFloat(prices.find(p => String(p.marketId) === market.id)?.price ?? "");
+                const mark = Number.isFinite(markPrice) ? markPrice : market.markPrice;
+
+                // Without an entry price, the recorded mark price when it was opened
+                const history = getHistoryService(runtime);
+                const samples = since && history ? await history.query(market.id, since.timestamp, now) : [];
+                const recordedEntry = entry === null ? samples.find(s => s.price !== null) ?? null : null;
+                const entryPrice = entry ?? recordedEntry?.price ?? null;
+                const positionBase = base ?? (size !== null && entryPrice ? size / entryPrice : null);
+                const asset = marketBaseSymbol(market);
+
+                if (entryPrice === null) {
+                    response = since
+                        ? `What price was the position opened at? I don't have recorded prices for **${market.ticker}** from ${since.label}, for example "${side} 2 ${asset} at ${priceService.formatPrice(mark)}".`
+                        : `What price was the position opened at? For example "if I ${side === "long" ? "longed" : "shorted"} 2 ${asset} at ${priceService.formatPrice(mark)}".`;
+                } else if (positionBase === null) {
+                    response = `How big is the position? Give a size in ${asset} or rUSD, for example "2 ${asset}" or "$10k".`;
+                } else {
+                    let funding: FundingAccrual | null = null;
+                    const data = since ? (await reyaService.markets.getMarketsData()).find(d => d.marketId === market.id) : undefined;
+                    if (since && data) {
+                        funding = estimateFundingSince(samples, {
+                            base: positionBase,
+                            side,
+                            from: since.timestamp,
+                            to: now,
+                            markPrice: mark,
+                            fundingRate: data.fundingRate,
+                        }, reyaService.fundingRatePeriodHours);
+                    }
+
+                    simulation = simulatePnl({ market, side, base: positionBase, entryPrice, markPrice: mark, leverage, funding });
+                    const notes = [
+                        recordedEntry ? `The entry is the locally recorded mark price at ${new Date(recordedEntry.timestamp).toISOString().slice(0, 16).replace("T", " ")} UTC.` : "",
+                        funding
+                            ? describeFundingAccrual(funding, reyaService.fundingRatePeriodHours)
+                            : since
+                                ? `I can't get **${market.ticker}**'s funding rate right now, so funding isn't included.`
+                                : `Funding isn't included: say when it was opened ("since Oct 1" or "3 days ago") to add it.`,
+                        chosenLeverage === null ? "No leverage was given, so the return is on the full size (1x)." : "",
+                        "Positive amounts are gains. Fees and slippage aren't included, and neither is the path the price took, such as a liquidation along the way.",
+                    ].filter(Boolean);
+                    response = [formatPnl(simulation, p => priceService.formatPrice(p)), "", notes.join(" ")].join("\n");
+                }
+            }
+
+            if (callback) {
+                await callback({ text: response, action: "SIMULATE_REYA_PNL" });
+            }
+
+            return {
+                success: true,
+                text: response,
+                values: {
+                    marketId: market?.id,
+                    totalPnl: simulation?.totalPnl,
+                    roePercent: simulation?.roePercent
+                },
+                data: {
+                    actionName: "SIMULATE_REYA_PNL",
+                    simulation
+                }
+            };
+        } catch (error) {
+            elizaLogger.error({ err: error }, "Error in SIMULATE_REYA_PNL action");
+
+            const errorMsg = "Sorry, I couldn't work out that position's PnL right now. Please try again in a moment.";
+            if (callback) {
+                await callback({ text: errorMsg, error: true });
+            }
+
+            return {
+                success: false,
+                error: error instanceof Error ? error : new Error(String(error))
+            };
+        }
+    },
+
+    examples: [
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "if I longed 2 BTC at 60k, what's my PnL now?"
+                }
+            },
+            {
+                name: "Aira",
+                content: {
+                    text: "Marking that BTC long to the current price and working out its return.",
+                    actions: ["SIMULATE_REYA_PNL"]
+                }
+            }
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "какая прибыль, если бы я купил 100 SOL 3 дня назад?"
+                }
+            },
+            {
+                name: "Aira",
+                content: {
+                    text: "Считаю PnL лонга 100 SOL за три дня, вместе с фандингом.",
+                    actions: ["SIMULATE_REYA_PNL"]
+                }
+            }
+        ]
+    ]
+};
+
+export default simulatePnlAction;
@@ -0,0 +1,168 @@
+import {
+    type Action,
+    type ActionResult,
+    type IAgentRuntime,
+    type Memory,
+    type State,
+    elizaLogger,
+    type HandlerCallback,
+} from "@elizaos/core";
+
+import { PREMIUM } from "../constants/index.js";
+import { getReyaService } from "../services/reyaService.js";
+import { getSmartDispatchData } from "../providers/dispatchProvider.js";
+import { classifyAlertRequest } from "../services/alertService.js";
+import { isPremiumRequest, buildPremiumTable, rankPremiums, describePremium } from "../services/premium.js";
+
+export const getPremiumAction: Action = {
+    name: "GET_REYA_PREMIUM",
+    similes: [
+        "REYA_POOL_PREMIUM",
+        "REYA_BASIS",
+        "REYA_ORACLE_DIVERGENCE"
+    ],
+    description: "Show each Reya Network market's pool price premium or discount to the oracle price in bps, ranked by which pools trade furthest from the oracle",
+
+    validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+        elizaLogger.info(`⚖️ Premium Action Validate: Checking message: "${message.content.text}"`);
+
+        // Check Smart Dispatch flags from provider first, fallback to executed actions
+        const smartDispatchData = getSmartDispatchData(state);
+
+        if (smartDispatchData?.allowReyaActions) {
+            const text = message.content.text || "";
+            // "alert me when the premium..." belongs to SET_REYA_PREMIUM_ALERT
+            if (isPremiumRequest(text) && !classifyAlertRequest(text)) {
+                elizaLogger.info("✅ Premium Action: Approved premium query by Smart Dispatch");
+                return true;
+            }
+            elizaLogger.info("🚫 Premium Action: No premium keywords found");
+            return false;
+        }
+
+        elizaLogger.info("🚫 Premium Action: No approval from Smart Dispatch, rejecting");
+        return false;
+    },
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state: State,
+        _options: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ): Promise<ActionResult> => {
+        try {
+            elizaLogger.info("Executing GET_REYA_PREMIUM action");
+            const text = message.content.text || "";
+
+            const reyaService = getReyaService(runtime);
+            const priceService = reyaService.prices;
+            const markets = await reyaService.markets.getMarkets();
+            const prices = await priceService.getPrices();
+
+            const named = await reyaService.symbols.findMarketMentions(text);
+            const selected = named.length > 0 ? named : markets.filter(m => m.isActive);
+            const rows = selected.flatMap(market => {
+                const price = prices.find(p => String(p.marketId) === market.id);
+                return price ? [{ ticker: market.ticker, price }] : [];
+            });
+            const ranked = rankPremiums(rows);
+            const formatPrice = (price: number) => priceService.formatPrice(price);
+
+            elizaLogger.info(`Premium request: markets=${named.map(m => m.ticker).join(",") || "all"} ranked=${ranked.length}`);
+
+            let response: string;
+
+            if (ranked.length === 0) {
+                response = "I can't get oracle and pool prices from Reya Network right now. Please try again in a moment.";
+            } else {
+                const lines = [
+                    `**Reya pool vs oracle${named.length > 0 ? "" : ", all markets"}**, widest gap first`,
+                    "",
+                    buildPremiumTable(rows, formatPrice),
+                    "",
+                ];
+                const widest = ranked[0];
+                if (ranked.length === 1) {
+                    lines.push(`Now: ${describePremium(widest.ticker, widest.price, formatPrice)}.`);
+                } else {
+                    lines.push(`Widest gap: ${describePremium(widest.ticker, widest.price, formatPrice)}.`);
+                }
+                const wide = ranked.filter(r => Math.abs(r.bps) >= PREMIUM.WIDE_BPS);
+                if (wide.length > 0) {
+                    lines.push(`⚠️ ${wide.length === 1 ? "1 pool is" : `${wide.length} pools are`} ${PREMIUM.WIDE_BPS} bps or more from the oracle.`);
+                }
+                lines.push(
+                    "",
+                    `Premium is (pool − oracle) / oracle in bps (1 bp = 0.01%); positive means the pool trades above the oracle. Say "alert me when BTC pool is 30 bps from oracle" to be told when a gap opens.`
+                );
+                response = lines.join("\n");
+            }
+
+            if (callback) {
+                await callback({ text: response, action: "GET_REYA_PREMIUM" });
+            }
+
+            return {
+                success: true,
+                text: response,
+                values: {
+                    marketCount: ranked.length,
+                    widest: ranked[0]?.ticker,
+                    widestBps: ranked[0]?.bps
+                },
+                data: {
+                    actionName: "GET_REYA_PREMIUM",
+                    premiums: ranked.map(r => ({ ticker: r.ticker, bps: r.bps }))
+                }
+            };
+        } catch (error) {
+            elizaLogger.error({ err: error }, "Error in GET_REYA_PREMIUM action");
+
+            const errorMsg = "Sorry, I couldn't compare Reya Network pool and oracle prices right now. Please try again in a moment.";
+            if (callback) {
+                await callback({ text: errorMsg, error: true });
+            }
+
+            return {
+                success: false,
+                error: error instanceof Error ? error : new Error(String(error))
+            };
+        }
+    },
+
+    examples: [
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "which Reya pools trade furthest from the oracle?"
+                }
+            },
+            {
+                name: "Aira",
+                content: {
+                    text: "Here's every market's pool premium to the oracle in bps, widest gap first.",
+                    actions: ["GET_REYA_PREMIUM"]
+                }
+            }
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "какая премия пула к оракулу по BTC?"
+                }
+            },
+            {
+                name: "Aira",
+                content: {
+                    text: "Сравниваю цену пула BTC-rUSD с оракулом.",
+                    actions: ["GET_REYA_PREMIUM"]
+                }
+            }
+        ]
+    ]
+};
+
+export default getPremiumAction;
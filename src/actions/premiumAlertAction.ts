@@ -0,0 +1,247 @@
+import {
+    type Action,
+    type ActionResult,
+    type IAgentRuntime,
+    type Memory,
+    type State,
+    elizaLogger,
+    parseKeyValueXml,
+    type HandlerCallback,
+    ModelType,
+} from "@elizaos/core";
+
+import { ALERTS, PREMIUM } from "../constants/index.js";
+import { getReyaService } from "../services/reyaService.js";
+import { getSmartDispatchData } from "../providers/dispatchProvider.js";
+import {
+    getAlertService,
+    classifyAlertRequest,
+    isFundingAlertRequest,
+    isAnyMarketRequest,
+    premiumConditionMet,
+    describeAlert,
+} from "../services/alertService.js";
+import { isPremiumRequest, parsePremiumThreshold, premiumBps, describePremium } from "../services/premium.js";
+import type { MarketAlert, PremiumAlertCondition } from "../types/index.js";
+
+export const setPremiumAlertAction: Action = {
+    name: "SET_REYA_PREMIUM_ALERT",
+    similes: [
+        "REYA_PREMIUM_ALERT",
+        "REYA_DIVERGENCE_ALERT",
+        "REYA_BASIS_ALERT"
+    ],
+    description: "Set an alert that posts to this room when a Reya Network market's pool price (or any market's) moves a number of bps away from the oracle price",
+
+    validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+        elizaLogger.info(`⚖️ Premium Alert Action Validate: Checking message: "${message.content.text}"`);
+
+        // Check Smart Dispatch flags from provider first, fallback to executed actions
+        const smartDispatchData = getSmartDispatchData(state);
+
+        if (smartDispatchData?.allowReyaActions) {
+            const text = message.content.text || "";
+            if (classifyAlertRequest(text) === "set" && isPremiumRequest(text) && !isFundingAlertRequest(text)) {
+                elizaLogger.info("✅ Premium Alert Action: Approved premium alert request by Smart Dispatch");
+                return true;
+            }
+            elizaLogger.info("🚫 Premium Alert Action: Not a request to set a premium alert");
+            return false;
+        }
+
+        elizaLogger.info("🚫 Premium Alert Action: No approval from Smart Dispatch, rejecting");
+        return false;
+    },
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state: State,
+        _options: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ): Promise<ActionResult> => {
+        try {
+            elizaLogger.info("Executing SET_REYA_PREMIUM_ALERT action");
+            const text = message.content.text || "";
+
+            const alerts = getAlertService(runtime);
+            if (!alerts) {
+                const response = "Premium alerts need the Reya alert watcher, and it isn't running on this agent.";
+                if (callback) {
+                    await callback({ text: response, action: "SET_REYA_PREMIUM_ALERT" });
+                }
+                return {
+                    success: false,
+                    text: response,
+                    data: { actionName: "SET_REYA_PREMIUM_ALERT", reason: "alerts_unavailable" }
+                };
+            }
+
+            const extractionPrompt = `
+You are extracting premium alert parameters from a user message.
+
+EXTRACTION RULES:
+1. symbol: the market or coin to watch (BTC, ETH, SOL...), "ANY" for any/all markets, or empty
+2. bps: how far the pool price may move from the oracle price before alerting, in basis points, digits only (0.5% is 50), or empty
+
+EXAMPLES:
+- "alert me when BTC pool diverges more than 30 bps from oracle" → symbol: BTC, bps: 30
+- "notify me if any market's premium goes over 0.5%" → symbol: ANY, bps: 50
+- "уведоми, если расхождение ETH превысит 20 б.п." → symbol: ETH, bps: 20
+
+FORMAT: Return ONLY this XML structure:
+<response>
+  <symbol>SYMBOL_ANY_OR_EMPTY</symbol>
+  <bps>BPS_OR_EMPTY</bps>
+</response>
+
+USER MESSAGE: "${text}"
+
+EXTRACT NOW:`;
+
+            let extractedData: Record<string, string> = {};
+            try {
+                const llmResponse = await runtime.useModel(ModelType.TEXT_SMALL, {
+                    prompt: extractionPrompt,
+                });
+                extractedData = parseKeyValueXml(llmResponse) || {};
+            } catch (extractionError) {
+                // The message itself usually says enough
+                elizaLogger.warn(`Premium alert extraction failed, reading the message directly: ${extractionError}`);
+            }
+
+            const extractedBps = parseFloat((extractedData.bps || "").replace(",", "."));
+            const bps = Number.isFinite(extractedBps) && extractedBps > 0
+                ? extractedBps
+                : parsePremiumThreshold(text) ?? PREMIUM.DEFAULT_ALERT_BPS;
+            const condition: PremiumAlertCondition = { kind: "premium", bps };
+            const symbol = (extractedData.symbol || "").trim();
+            const anyMarket = symbol.toUpperCase() === "ANY" || (!symbol && isAnyMarketRequest(text));
+
+            const reyaService = getReyaService(runtime);
+            const priceService = reyaService.prices;
+            const resolution = symbol && !anyMarket
+                ? await reyaService.symbols.resolveMarket(symbol)
+                : null;
+            const market = anyMarket ? null
+                : resolution?.best && !resolution.ambiguous ? resolution.best.item
+                    : resolution ? null : (await reyaService.symbols.findMarketMentions(text))[0] ?? null;
+
+            elizaLogger.info(`Premium alert request: market=${anyMarket ? "any" : market?.ticker ?? "none"} bps=${bps}`);
+
+            let response: string;
+            let alert: MarketAlert | null = null;
+
+            if (!anyMarket && !market) {
+                response = resolution?.candidates.length
+                    ? `"${symbol}" matches more than one market: ${resolution.candidates.map(c => `**${c.item.ticker}**`).join(", ")}. Ask again with the full ticker, e.g. "alert me when ${resolution.candidates[0].item.ticker} pool is 30 bps from oracle".`
+                    : `Which market should I watch? For example "alert me when BTC pool diverges more than 30 bps from oracle" or "notify me if any market's premium goes over 50 bps".`;
+            } else {
+                const prices = await priceService.getPrices();
+                const markets = await reyaService.markets.getMarkets();
+                const tickerOf = (marketId: number) => markets.find(m => m.id === String(marketId))?.ticker ?? `Market ${marketId}`;
+                const price = market ? prices.find(p => String(p.marketId) === market.id) : undefined;
+                const current = price ? premiumBps(price) : null;
+                const existing = await alerts.listAlerts(message.entityId, message.roomId);
+
+                if (market && current === null) {
+                    response = `I can't get oracle and pool prices for **${market.ticker}** right now, so I can't set an alert on it. Please try again in a moment.`;
+                } else if (price && current !== null && premiumConditionMet(condition, current)) {
+                    response = `${describePremium(market!.ticker, price, p => priceService.formatPrice(p))}. That's already ${bps} bps or more, so the alert would fire straight away. Pick a wider threshold.`;
+                } else if (existing.length >= ALERTS.MAX_PER_USER) {
+                    response = `You already have ${existing.length} alerts in this chat, the most I keep per person. Cancel some first ("cancel alert #${existing[0].id}").`;
+                } else {
+                    alert = await alerts.addAlert({
+                        marketId: market?.id ?? null,
+                        ticker: market?.ticker ?? null,
+                        condition,
+                        entityId: message.entityId,
+                        roomId: message.roomId,
+                        source: message.content.source || "unknown",
+                        reference: current,
+                    });
+
+                    // Every-market alerts only fire on markets that cross in from now on
+                    const alreadyMet = market ? [] : prices.filter(p => {
+                        const pBps = premiumBps(p);
+                        return pBps !== null && premiumConditionMet(condition, pBps);
+                    });
+                    const now = price
+                        ? `\nNow: ${describePremium(market!.ticker, price, p => priceService.formatPrice(p))}.`
+                        : alreadyMet.length > 0
+                            ? `\nAlready there, so not counted:\n${alreadyMet.map(p => `• ${describePremium(tickerOf(p.marketId), p, v => priceService.formatPrice(v))}`).join("\n")}`
+                            : "";
+                    const watcherOff = alerts.checkIntervalMs > 0
+                        ? ""
+                        : "\n⚠️ The alert watcher is switched off on this agent (REYA_ALERT_CHECK_INTERVAL_SEC=0), so it won't trigger until it's turned on.";
+                    response = `🔔 Alert #${alert.id} set: ${describeAlert(alert, p => priceService.formatPrice(p))}. I'll post here when it triggers.${now}${watcherOff}`;
+                }
+            }
+
+            if (callback) {
+                await callback({ text: response, action: "SET_REYA_PREMIUM_ALERT" });
+            }
+
+            return {
+                success: true,
+                text: response,
+                values: {
+                    alertId: alert?.id,
+                    marketId: market?.id
+                },
+                data: {
+                    actionName: "SET_REYA_PREMIUM_ALERT",
+                    market: anyMarket ? "any" : market?.ticker,
+                    alert
+                }
+            };
+        } catch (error) {
+            elizaLogger.error({ err: error }, "Error in SET_REYA_PREMIUM_ALERT action");
+
+            const errorMsg = "Sorry, I couldn't set that premium alert right now. Please try again in a moment.";
+            if (callback) {
+                await callback({ text: errorMsg, error: true });
+            }
+
+            return {
+                success: false,
+                error: error instanceof Error ? error : new Error(String(error))
+            };
+        }
+    },
+
+    examples: [
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "alert me when BTC pool diverges more than 30 bps from oracle"
+                }
+            },
+            {
+                name: "Aira",
+                content: {
+                    text: "Setting an alert for BTC-rUSD's pool moving 30 bps from the oracle.",
+                    actions: ["SET_REYA_PREMIUM_ALERT"]
+                }
+            }
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "уведоми, если премия на любом рынке превысит 50 б.п."
+                }
+            },
+            {
+                name: "Aira",
+                content: {
+                    text: "Ставлю оповещение на расхождение пула и оракула от 50 б.п. по всем рынкам.",
+                    actions: ["SET_REYA_PREMIUM_ALERT"]
+                }
+            }
+        ]
+    ]
+};
+
+export default setPremiumAlertAction;
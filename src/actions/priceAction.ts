@@ -12,8 +12,12 @@ import {
 } from "@elizaos/core";
 import { z } from "zod";
 
-import { initPriceService } from "../providers/priceProvider.js";
-import { initMarketService } from "../providers/marketProvider.js";
+import { getReyaService } from "../services/reyaService.js";
+import { getSmartDispatchData } from "../providers/dispatchProvider.js";
+import { takeChoiceSelection, savePendingChoice, formatChoiceList } from "../services/pendingChoice.js";
+import { splitSymbolList } from "../services/symbolResolver.js";
+import { buildPriceTable, formatResolutionNotes } from "../services/marketTable.js";
+import type { Market, MarketData } from "../types/index.js";
 
 const priceTemplate = `
 Extract the following parameters for Reya Network price data:
@@ -105,11 +109,15 @@ export const getPricesAction: Action = {
         elizaLogger.info(`💰 Price Action Validate: Checking message: "${message.content.text}"`);
         
         // Check Smart Dispatch flags from provider first, fallback to executed actions
-        const smartDispatchData = (state as any)?.values?.smartDispatch ??
-            state?.recentActions?.find((action: any) => action.actionName === "SMART_REYA_DISPATCH")?.data;
+        const smartDispatchData = getSmartDispatchData(state);
         
         if (smartDispatchData?.allowReyaActions) {
             elizaLogger.info("✅ Price Action: Smart Dispatch approved API action");
+
+            if (smartDispatchData.choiceAction === "GET_REYA_PRICES") {
+                elizaLogger.info("✅ Price Action: Message answers a pending market choice");
+                return true;
+            }
             
             // When Smart Dispatch approves, validate for price-related content
             const messageText = message.content.text?.toLowerCase() || "";
@@ -157,17 +165,26 @@ export const getPricesAction: Action = {
                 currentState = (await runtime.composeState(message)) as State;
             }
 
-            // Extract price query using AI
-            elizaLogger.info("Using AI to extract cryptocurrency from message...");
+            // A reply to an earlier "which market?" list finishes that request
+            const selection = await takeChoiceSelection(runtime, message, "GET_REYA_PRICES");
+            let symbol = "";
+            let queryType = "general";
+
+            if (selection) {
+                symbol = selection.ticker;
+                queryType = "specific";
+            } else {
+                // Extract price query using AI
+                elizaLogger.info("Using AI to extract cryptocurrency from message...");
             
-            const extractionPrompt = `
+                const extractionPrompt = `
 You are a cryptocurrency symbol extraction expert. Your task is to identify ANY cryptocurrency symbol or token mentioned in user messages.
 
 EXTRACTION RULES:
 1. Look for ANY 2-5 character uppercase combinations (BTC, ETH, UNI, SOL, AAVE, etc.)
 2. Look for common cryptocurrency names (Bitcoin, Ethereum, Uniswap, etc.)
 3. Look for mixed case tokens (Uni, Btc, Eth, etc.) - normalize to uppercase
-4. If MULTIPLE symbols found, extract the FIRST ONE mentioned
+4. If MULTIPLE symbols found, list ALL of them in the order mentioned, separated by commas
 5. If NO specific symbol found, use type="general"
 
 EXAMPLES:
@@ -175,6 +192,7 @@ EXAMPLES:
 - "BTC price please" → symbol: BTC, type: specific  
 - "what is Bitcoin worth" → symbol: BTC, type: specific
 - "Ethereum price on Reya" → symbol: ETH, type: specific
+- "BTC, ETH and SOL prices" → symbol: BTC,ETH,SOL, type: specific
 - "цена HYPE" → symbol: HYPE, type: specific
 - "show me prices" → symbol: "", type: general
 - "market overview" → symbol: "", type: general
@@ -194,81 +212,72 @@ USER MESSAGE: "${message.content.text}"
 
 EXTRACT NOW:`;
 
-            const llmResponse = await runtime.useModel(ModelType.TEXT_SMALL, {
-                prompt: extractionPrompt,
-            });
+                const llmResponse = await runtime.useModel(ModelType.TEXT_SMALL, {
+                    prompt: extractionPrompt,
+                });
 
-            elizaLogger.info("LLM response:", llmResponse);
-            
-            // Parse the XML response
-            const extractedData = parseKeyValueXml(llmResponse);
-            elizaLogger.info("Extracted data:", extractedData);
+                elizaLogger.info(`LLM response: ${llmResponse}`);
             
-            const symbol = extractedData.symbol || "";
-            const queryType = extractedData.type || "general";
+                // Parse the XML response
+                const extractedData = parseKeyValueXml(llmResponse);
+                elizaLogger.info({ extractedData }, "Extracted data");
             
-            elizaLogger.info("Extracted symbol:", symbol, "Type:", queryType);
+                symbol = extractedData.symbol || "";
+                queryType = extractedData.type || "general";
+            }
+
+            // "BTC, ETH and SOL" → one table; fall back to the intent analyzer's
+            // asset list when the extractor only kept one of them
+            let symbols = splitSymbolList(symbol);
+            const dispatchAssets = splitSymbolList(getSmartDispatchData(currentState)?.extractedEntities?.assets);
+            if (queryType === "specific" && symbols.length <= 1 && dispatchAssets.length > 1) {
+                symbols = dispatchAssets;
+            }
+            if (symbols.length === 1) {
+                symbol = symbols[0];
+            }
+
+            elizaLogger.info(`Extracted symbols: ${symbols.join(", ") || "none"} Type: ${queryType}`);
             
-            const priceService = await initPriceService(runtime);
-            const marketService = await initMarketService(runtime);
+            const reyaService = getReyaService(runtime);
+            const priceService = reyaService.prices;
+            const marketService = reyaService.markets;
             
             const prices = await priceService.getPrices();
             const markets = await marketService.getMarkets();
             
             let responseText = "";
-            
-            if (symbol && queryType === "specific") {
-                // Find specific asset price using fuzzy matching
-                const assetSymbol = symbol.toUpperCase();
-                elizaLogger.info("🔍 Searching for market with symbol:", assetSymbol);
-                
-                // Log available markets for debugging
-                elizaLogger.info("📋 Available markets tickers:", markets.map(m => m.ticker).join(', '));
-                
-                // Try multiple matching strategies
-                let assetMarket = null;
-                
-                // 1. Exact ticker match (e.g., "UNI-rUSD")
-                assetMarket = markets.find(m => m.ticker.toUpperCase() === assetSymbol);
-                elizaLogger.info(`1️⃣ Exact ticker match for "${assetSymbol}":`, assetMarket?.ticker || "❌ Not found");
-                
-                // 2. Ticker starts with symbol (e.g., "UNI" matches "UNI-rUSD")
-                if (!assetMarket) {
-                    assetMarket = markets.find(m => 
-                        m.ticker.toUpperCase().startsWith(assetSymbol + '-') || 
-                        m.ticker.toUpperCase() === assetSymbol
-                    );
-                    elizaLogger.info(`2️⃣ Ticker starts with "${assetSymbol}":`, assetMarket?.ticker || "❌ Not found");
-                }
-                
-                // 3. Ticker contains symbol (fuzzy match)
-                if (!assetMarket) {
-                    assetMarket = markets.find(m => 
-                        m.ticker.toUpperCase().includes(assetSymbol)
-                    );
-                    elizaLogger.info(`3️⃣ Ticker contains "${assetSymbol}":`, assetMarket?.ticker || "❌ Not found");
-                }
-                
-                // 4. Base asset match 
-                if (!assetMarket) {
-                    assetMarket = markets.find(m => 
-                        m.baseAsset && m.baseAsset.toUpperCase() === assetSymbol
-                    );
-                    elizaLogger.info(`4️⃣ Base asset match for "${assetSymbol}":`, assetMarket?.ticker || "❌ Not found");
-                }
-                
-                // 5. Try partial matches on ticker components
-                if (!assetMarket) {
-                    assetMarket = markets.find(m => {
-                        const tickerParts = m.ticker.toUpperCase().split('-');
-                        return tickerParts.some(part => part === assetSymbol || part.includes(assetSymbol));
+            let matchedMarkets: Market[] = [];
+
+            if (queryType === "specific" && symbols.length > 1) {
+                const listResolution = await reyaService.symbols.resolveMarketList(symbols);
+                const notes = formatResolutionNotes(listResolution);
+                matchedMarkets = listResolution.markets;
+
+                if (matchedMarkets.length > 0) {
+                    // 24h change is a nice-to-have; the table still works without it
+                    const marketsData = await marketService.getMarketsData().catch((marketDataError): MarketData[] => {
+                        elizaLogger.warn(`Could not fetch 24h change data: ${marketDataError}`);
+                        return [];
                     });
-                    elizaLogger.info(`5️⃣ Ticker component match for "${assetSymbol}":`, assetMarket?.ticker || "❌ Not found");
+
+                    responseText = `Current prices on Reya Network:
+
+${buildPriceTable(matchedMarkets, prices, marketsData, priceService)}${notes ? `\n\n${notes}` : ""}
+
+The mark price is what you'll trade at, while oracle and pool prices show market dynamics.`;
+                } else {
+                    responseText = `I couldn't find any of ${symbols.map(s => `**${s.toUpperCase()}**`).join(", ")} on Reya Network.
+
+${notes}`;
                 }
-                
-                elizaLogger.info("🎯 Final selected market:", assetMarket ? assetMarket.ticker : "❌ No matches found");
-                
+            } else if (symbol && queryType === "specific") {
+                const resolution = await reyaService.symbols.resolveMarket(symbol);
+                const assetMarket = resolution.best && !resolution.ambiguous ? resolution.best.item : null;
+                const assetSymbol = resolution.best?.symbol ?? symbol.toUpperCase();
+
                 if (assetMarket) {
+                    matchedMarkets = [assetMarket];
                     const assetPrice = await priceService.getPriceByMarketId(parseInt(assetMarket.id));
                     if (assetPrice) {
                         try {
@@ -290,7 +299,7 @@ ${priceChangeEmoji} **24h Change**: ${priceChangeText}${priceChangeFormatted}%
 
 The mark price is what you'll trade at, while oracle and pool prices show market dynamics.`;
                         } catch (marketDataError) {
-                            elizaLogger.warn("Could not fetch 24h change data:", marketDataError);
+                            elizaLogger.warn({ err: marketDataError }, "Could not fetch 24h change data");
                             // Fallback without 24h change
                             responseText = `Current ${assetSymbol} price on Reya Network:
 
@@ -305,35 +314,23 @@ The mark price is what you'll trade at, while oracle and pool prices show market
                     } else {
                         responseText = `I found the ${assetMarket.ticker} market but couldn't get the current price. Please try again.`;
                     }
+                } else if (resolution.candidates.length > 0) {
+                    await savePendingChoice(runtime, message.roomId, "GET_REYA_PRICES", resolution);
+                    responseText = `"${symbol}" matches more than one market on Reya Network. Which one did you mean?
+
+${formatChoiceList(resolution)}
+
+Reply with a number, e.g. "1".`;
                 } else {
-                    elizaLogger.info(`❌ ${assetSymbol} not found. Analyzing available markets...`);
-                    
-                    // Show available similar markets with detailed analysis
-                    const activeMarkets = markets.filter(m => m.isActive);
-                    const similarMarkets = activeMarkets.filter(m => {
-                        const ticker = m.ticker.toUpperCase();
-                        const symbol = assetSymbol.toUpperCase();
-                        
-                        // Check for partial matches
-                        return ticker.includes(symbol.substring(0, 2)) || 
-                               ticker.includes(symbol.substring(0, 3)) ||
-                               symbol.includes(ticker.split('-')[0].substring(0, 2));
-                    });
-                    
-                    elizaLogger.info(`🔍 Found ${similarMarkets.length} similar markets:`, 
-                        similarMarkets.map(m => m.ticker).join(', '));
-                    
-                    const availableMarkets = activeMarkets
+                    elizaLogger.info(`❌ ${assetSymbol} not found on Reya Network`);
+
+                    const availableMarkets = markets
+                        .filter(m => m.isActive)
                         .slice(0, 15)
                         .map(m => m.ticker)
                         .join(', ');
-                    
-                    let suggestionText = "";
-                    if (similarMarkets.length > 0) {
-                        suggestionText = `\n\n🤔 **Did you mean one of these?**\n${similarMarkets.map(m => m.ticker).join(', ')}\n`;
-                    }
-                    
-                    responseText = `I couldn't find a **${assetSymbol}** market on Reya Network. ${suggestionText}
+
+                    responseText = `I couldn't find a **${assetSymbol}** market on Reya Network.
 
 📋 **Available markets** (first 15): ${availableMarkets}
 
@@ -364,16 +361,17 @@ ${topPrices.map((p, i) => {
 All prices are real-time and sourced from Reya Network's oracle system.`;
             }
 
+            const matchedPrices = matchedMarkets.length > 0
+                ? prices.filter(p => matchedMarkets.some(m => parseInt(m.id) === p.marketId))
+                : symbol ? [] : prices.slice(0, 10);
+
             if (callback) {
                 callback({
                     text: responseText,
                     content: {
                         symbol: symbol,
                         type: symbol ? "specific_price" : "general_overview",
-                        prices: symbol ? prices.filter(p => {
-                            const market = markets.find(m => parseInt(m.id) === p.marketId);
-                            return market?.ticker.toUpperCase().includes(symbol.toUpperCase());
-                        }) : prices.slice(0, 10)
+                        prices: matchedPrices
                     }
                 });
             }
@@ -383,6 +381,7 @@ All prices are real-time and sourced from Reya Network's oracle system.`;
                 text: responseText,
                 values: {
                     symbol: symbol,
+                    symbols,
                     type: symbol ? "specific_price" : "general_overview",
                     pricesFetched: true,
                     timestamp: Date.now()
@@ -390,15 +389,13 @@ All prices are real-time and sourced from Reya Network's oracle system.`;
                 data: {
                     actionName: "GET_REYA_PRICES",
                     symbol: symbol,
-                    prices: symbol ? prices.filter(p => {
-                        const market = markets.find(m => parseInt(m.id) === p.marketId);
-                        return market?.ticker.toUpperCase().includes(symbol.toUpperCase());
-                    }) : prices.slice(0, 10),
+                    symbols,
+                    prices: matchedPrices,
                     markets: markets.length
                 }
             };
         } catch (error) {
-            elizaLogger.error("Error in GET_REYA_PRICES handler:", error);
+            elizaLogger.error({ err: error }, "Error in GET_REYA_PRICES handler");
 
             const errorMessage = "Sorry, I couldn't fetch the price data from Reya Network right now. Please try again in a moment.";
             
@@ -0,0 +1,247 @@
+import {
+    type Action,
+    type ActionResult,
+    type IAgentRuntime,
+    type Memory,
+    type State,
+    elizaLogger,
+    parseKeyValueXml,
+    type HandlerCallback,
+    ModelType,
+} from "@elizaos/core";
+
+import { ALERTS } from "../constants/index.js";
+import { getReyaService } from "../services/reyaService.js";
+import { getSmartDispatchData } from "../providers/dispatchProvider.js";
+import {
+    getAlertService,
+    classifyAlertRequest,
+    isFundingAlertRequest,
+    parseAlertFields,
+    buildAlertCondition,
+    describeAlert,
+    type AlertFields,
+} from "../services/alertService.js";
+import { isPremiumRequest } from "../services/premium.js";
+import type { MarketAlert } from "../types/index.js";
+
+// Extracted numbers arrive as strings like "4,000" or "5%"
+const toNumber = (value: string | undefined): number | undefined => {
+    const parsed = parseFloat((value || "").replace(/[$%\s]/g, "").replace(/,(?=\d{3}(?!\d))/g, "").replace(",", "."));
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+export const setPriceAlertAction: Action = {
+    name: "SET_REYA_PRICE_ALERT",
+    similes: [
+        "REYA_PRICE_ALERT",
+        "CREATE_REYA_ALERT",
+        "NOTIFY_REYA_PRICE"
+    ],
+    description: "Set an alert that posts to this room when a Reya Network market crosses a price level or moves by a percentage within a time window",
+
+    validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+        elizaLogger.info(`🔔 Price Alert Action Validate: Checking message: "${message.content.text}"`);
+
+        // Check Smart Dispatch flags from provider first, fallback to executed actions
+        const smartDispatchData = getSmartDispatchData(state);
+
+        if (smartDispatchData?.allowReyaActions) {
+            const text = message.content.text || "";
+            if (classifyAlertRequest(text) === "set" && !isFundingAlertRequest(text) && !isPremiumRequest(text)) {
+                elizaLogger.info("✅ Price Alert Action: Approved alert request by Smart Dispatch");
+                return true;
+            }
+            elizaLogger.info("🚫 Price Alert Action: Not a request to set a price alert");
+            return false;
+        }
+
+        elizaLogger.info("🚫 Price Alert Action: No approval from Smart Dispatch, rejecting");
+        return false;
+    },
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state: State,
+        _options: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ): Promise<ActionResult> => {
+        try {
+            elizaLogger.info("Executing SET_REYA_PRICE_ALERT action");
+            const text = message.content.text || "";
+
+            const alerts = getAlertService(runtime);
+            if (!alerts) {
+                const response = "Price alerts need the Reya alert watcher, and it isn't running on this agent.";
+                if (callback) {
+                    await callback({ text: response, action: "SET_REYA_PRICE_ALERT" });
+                }
+                return {
+                    success: false,
+                    text: response,
+                    data: { actionName: "SET_REYA_PRICE_ALERT", reason: "alerts_unavailable" }
+                };
+            }
+
+            const extractionPrompt = `
+You are extracting price alert parameters from a user message.
+
+EXTRACTION RULES:
+1. symbol: the market or coin to watch (BTC, ETH, SOL...), or empty
+2. level: the price level for "crosses", "above", "below", "hits" alerts, digits only, or empty
+3. percent: the size of a move for "moves/drops/rises X%" alerts, digits only, or empty
+4. direction: "above" or "below" for a level, "up", "down" or "any" for a move, or empty if not said
+5. window: the time window of a move, like "1h" or "30m", or empty
+
+EXAMPLES:
+- "tell me when ETH crosses 4000" → symbol: ETH, level: 4000
+- "alert me if SOL drops 5% in an hour" → symbol: SOL, percent: 5, direction: down, window: 1h
+- "уведоми, если BTC упадёт ниже 60000" → symbol: BTC, level: 60000, direction: below
+
+FORMAT: Return ONLY this XML structure:
+<response>
+  <symbol>SYMBOL_OR_EMPTY</symbol>
+  <level>LEVEL_OR_EMPTY</level>
+  <percent>PERCENT_OR_EMPTY</percent>
+  <direction>DIRECTION_OR_EMPTY</direction>
+  <window>WINDOW_OR_EMPTY</window>
+</response>
+
+USER MESSAGE: "${text}"
+
+EXTRACT NOW:`;
+
+            let extractedData: Record<string, string> = {};
+            try {
+                const llmResponse = await runtime.useModel(ModelType.TEXT_SMALL, {
+                    prompt: extractionPrompt,
+                });
+                extractedData = parseKeyValueXml(llmResponse) || {};
+            } catch (extractionError) {
+                // The message itself usually says enough
+                elizaLogger.warn(`Alert extraction failed, reading the message directly: ${extractionError}`);
+            }
+
+            const extractedFields: AlertFields = {
+                level: toNumber(extractedData.level),
+                percent: toNumber(extractedData.percent),
+                direction: extractedData.direction || undefined,
+                window: extractedData.window || undefined,
+            };
+            const fields = extractedFields.level || extractedFields.percent ? extractedFields : parseAlertFields(text);
+
+            const reyaService = getReyaService(runtime);
+            const priceService = reyaService.prices;
+            const resolution = extractedData.symbol
+                ? await reyaService.symbols.resolveMarket(extractedData.symbol)
+                : null;
+            const market = resolution?.best && !resolution.ambiguous
+                ? resolution.best.item
+                : resolution ? null : (await reyaService.symbols.findMarketMentions(text))[0] ?? null;
+
+            let response: string;
+            let alert: MarketAlert | null = null;
+
+            if (!market) {
+                response = resolution?.candidates.length
+                    ? `"${extractedData.symbol}" matches more than one market: ${resolution.candidates.map(c => `**${c.item.ticker}**`).join(", ")}. Ask again with the full ticker, e.g. "alert me when ${resolution.candidates[0].item.ticker} crosses ...".`
+                    : `Which market should I watch? For example "tell me when ETH crosses 4000" or "alert me if SOL drops 5% in an hour".`;
+            } else {
+                const price = parseFloat((await priceService.getPriceByMarketId(Number(market.id)))?.price ?? "");
+                const condition = Number.isFinite(price) ? buildAlertCondition(fields, price) : null;
+                const existing = await alerts.listAlerts(message.entityId, message.roomId);
+                elizaLogger.info(`Alert request: market=${market.ticker} price=${price} condition=${JSON.stringify(condition)}`);
+
+                if (!Number.isFinite(price)) {
+                    response = `I can't get a current price for **${market.ticker}** right now, so I can't set an alert on it. Please try again in a moment.`;
+                } else if (!condition) {
+                    response = `What should trigger the **${market.ticker}** alert? Give a price level ("when ${market.ticker.split("-")[0]} crosses ${priceService.formatPrice(price * 1.05)}") or a move ("if it drops 5% in an hour").`;
+                } else if (condition.kind === "cross" && (condition.direction === "above" ? price >= condition.level : price <= condition.level)) {
+                    response = `**${market.ticker}** is already ${condition.direction} $${priceService.formatPrice(condition.level)} (mark price $${priceService.formatPrice(price)}), so that alert would fire straight away. Pick a level it hasn't reached yet.`;
+                } else if (existing.length >= ALERTS.MAX_PER_USER) {
+                    response = `You already have ${existing.length} alerts in this chat, the most I keep per person. Cancel some first ("cancel alert #${existing[0].id}").`;
+                } else {
+                    alert = await alerts.addAlert({
+                        marketId: market.id,
+                        ticker: market.ticker,
+                        condition,
+                        entityId: message.entityId,
+                        roomId: message.roomId,
+                        source: message.content.source || "unknown",
+                        reference: price,
+                    });
+                    const watcherOff = alerts.checkIntervalMs > 0
+                        ? ""
+                        : "\n⚠️ The alert watcher is switched off on this agent (REYA_ALERT_CHECK_INTERVAL_SEC=0), so it won't trigger until it's turned on.";
+                    response = `🔔 Alert #${alert.id} set: ${describeAlert(alert, p => priceService.formatPrice(p))} (mark price now $${priceService.formatPrice(price)}). I'll post here when it triggers.${watcherOff}`;
+                }
+            }
+
+            if (callback) {
+                await callback({ text: response, action: "SET_REYA_PRICE_ALERT" });
+            }
+
+            return {
+                success: true,
+                text: response,
+                values: {
+                    alertId: alert?.id,
+                    marketId: market?.id
+                },
+                data: {
+                    actionName: "SET_REYA_PRICE_ALERT",
+                    market: market?.ticker,
+                    alert
+                }
+            };
+        } catch (error) {
+            elizaLogger.error({ err: error }, "Error in SET_REYA_PRICE_ALERT action");
+
+            const errorMsg = "Sorry, I couldn't set that price alert right now. Please try again in a moment.";
+            if (callback) {
+                await callback({ text: errorMsg, error: true });
+            }
+
+            return {
+                success: false,
+                error: error instanceof Error ? error : new Error(String(error))
+            };
+        }
+    },
+
+    examples: [
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "tell me when ETH crosses 4000"
+                }
+            },
+            {
+                name: "Aira",
+                content: {
+                    text: "Setting an alert for ETH-rUSD crossing $4,000.",
+                    actions: ["SET_REYA_PRICE_ALERT"]
+                }
+            }
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "уведоми, если SOL упадёт на 5% за час"
+                }
+            },
+            {
+                name: "Aira",
+                content: {
+                    text: "Ставлю оповещение на падение SOL-rUSD на 5% за час.",
+                    actions: ["SET_REYA_PRICE_ALERT"]
+                }
+            }
+        ]
+    ]
+};
+
+export default setPriceAlertAction;
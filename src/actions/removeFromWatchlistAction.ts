@@ -0,0 +1,145 @@
+import {
+    type Action,
+    type ActionResult,
+    type IAgentRuntime,
+    type Memory,
+    type State,
+    elizaLogger,
+    type HandlerCallback,
+} from "@elizaos/core";
+
+import { getSmartDispatchData } from "../providers/dispatchProvider.js";
+import { classifyWatchlistRequest, removeFromWatchlist } from "../services/watchlist.js";
+import { extractWatchlistMarkets } from "./addToWatchlistAction.js";
+
+export const removeFromWatchlistAction: Action = {
+    name: "REMOVE_FROM_REYA_WATCHLIST",
+    similes: [
+        "REYA_WATCHLIST_REMOVE",
+        "UNWATCH_REYA_MARKET",
+        "CLEAR_REYA_WATCHLIST"
+    ],
+    description: "Remove Reya Network markets from this user's watchlist, or clear it",
+
+    validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+        elizaLogger.info(`🗑️ Remove from Watchlist Action Validate: Checking message: "${message.content.text}"`);
+
+        // Check Smart Dispatch flags from provider first, fallback to executed actions
+        const smartDispatchData = getSmartDispatchData(state);
+
+        if (smartDispatchData?.allowReyaActions) {
+            if (classifyWatchlistRequest(message.content.text || "") === "remove") {
+                elizaLogger.info("✅ Remove from Watchlist Action: Approved by Smart Dispatch");
+                return true;
+            }
+            elizaLogger.info("🚫 Remove from Watchlist Action: Not a request to remove from the watchlist");
+            return false;
+        }
+
+        elizaLogger.info("🚫 Remove from Watchlist Action: No approval from Smart Dispatch, rejecting");
+        return false;
+    },
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state: State,
+        _options: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ): Promise<ActionResult> => {
+        try {
+            elizaLogger.info("Executing REMOVE_FROM_REYA_WATCHLIST action");
+            const text = message.content.text || "";
+            const { markets, notes, all } = await extractWatchlistMarkets(runtime, text);
+
+            let response: string;
+            let removed: string[] = [];
+            let count: number | undefined;
+            if (markets.length === 0 && !all) {
+                response = `Which markets should I remove? For example "remove DOGE from my watchlist", or "clear my watchlist" for all of them.${notes ? `\n\n${notes}` : ""}`;
+            } else {
+                const result = await removeFromWatchlist(runtime, message.entityId, markets.length > 0 ? markets : "all");
+                removed = result.removed;
+                count = result.watchlist.markets.length;
+                const left = `${count} ${count === 1 ? "market" : "markets"} left`;
+                const lines = [
+                    removed.length === 0
+                        ? count === 0 ? "Your watchlist is already empty." : `Nothing to remove; your watchlist has ${count} ${count === 1 ? "market" : "markets"}.`
+                        : markets.length === 0
+                            ? `🗑️ Cleared your watchlist (${removed.length} ${removed.length === 1 ? "market" : "markets"}).`
+                            : `🗑️ Removed ${removed.map(t => `**${t}**`).join(", ")} from your watchlist (${left}).`,
+                ];
+                if (result.missing.length > 0) {
+                    lines.push(`Not on your watchlist: ${result.missing.map(m => `**${m.ticker}**`).join(", ")}.`);
+                }
+                if (notes) {
+                    lines.push(notes);
+                }
+                response = lines.join("\n");
+            }
+
+            if (callback) {
+                await callback({ text: response, action: "REMOVE_FROM_REYA_WATCHLIST" });
+            }
+
+            return {
+                success: true,
+                text: response,
+                values: {
+                    watchlistCount: count
+                },
+                data: {
+                    actionName: "REMOVE_FROM_REYA_WATCHLIST",
+                    removed
+                }
+            };
+        } catch (error) {
+            elizaLogger.error({ err: error }, "Error in REMOVE_FROM_REYA_WATCHLIST action");
+
+            const errorMsg = "Sorry, I couldn't update your watchlist right now. Please try again in a moment.";
+            if (callback) {
+                await callback({ text: errorMsg, error: true });
+            }
+
+            return {
+                success: false,
+                error: error instanceof Error ? error : new Error(String(error))
+            };
+        }
+    },
+
+    examples: [
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "remove DOGE from my watchlist"
+                }
+            },
+            {
+                name: "Aira",
+                content: {
+                    text: "Taking DOGE off your watchlist.",
+                    actions: ["REMOVE_FROM_REYA_WATCHLIST"]
+                }
+            }
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "очисти мой список наблюдения"
+                }
+            },
+            {
+                name: "Aira",
+                content: {
+                    text: "Очищаю ваш список наблюдения.",
+                    actions: ["REMOVE_FROM_REYA_WATCHLIST"]
+                }
+            }
+        ]
+    ]
+};
+
+export default removeFromWatchlistAction;
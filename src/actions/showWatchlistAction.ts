@@ -0,0 +1,147 @@
+import {
+    type Action,
+    type ActionResult,
+    type IAgentRuntime,
+    type Memory,
+    type State,
+    elizaLogger,
+    type HandlerCallback,
+} from "@elizaos/core";
+
+import { getReyaService } from "../services/reyaService.js";
+import { getSmartDispatchData } from "../providers/dispatchProvider.js";
+import { classifyWatchlistRequest, getWatchlist, buildWatchlistTable } from "../services/watchlist.js";
+import { fundingPeriodName } from "../services/funding.js";
+
+export const showWatchlistAction: Action = {
+    name: "SHOW_REYA_WATCHLIST",
+    similes: [
+        "REYA_WATCHLIST",
+        "MY_REYA_WATCHLIST"
+    ],
+    description: "Show this user's Reya Network watchlist as one table of mark price, 24h change, funding and 24h volume, built from the batch prices and markets/data endpoints",
+
+    validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+        elizaLogger.info(`👀 Show Watchlist Action Validate: Checking message: "${message.content.text}"`);
+
+        // Check Smart Dispatch flags from provider first, fallback to executed actions
+        const smartDispatchData = getSmartDispatchData(state);
+
+        if (smartDispatchData?.allowReyaActions) {
+            if (classifyWatchlistRequest(message.content.text || "") === "show") {
+                elizaLogger.info("✅ Show Watchlist Action: Approved by Smart Dispatch");
+                return true;
+            }
+            elizaLogger.info("🚫 Show Watchlist Action: Not a request to show the watchlist");
+            return false;
+        }
+
+        elizaLogger.info("🚫 Show Watchlist Action: No approval from Smart Dispatch, rejecting");
+        return false;
+    },
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state: State,
+        _options: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ): Promise<ActionResult> => {
+        try {
+            elizaLogger.info("Executing SHOW_REYA_WATCHLIST action");
+
+            const watchlist = await getWatchlist(runtime, message.entityId);
+            let response: string;
+
+            if (watchlist.markets.length === 0) {
+                response = `Your watchlist is empty. Add markets with "add SOL and ETH to my watchlist".`;
+            } else {
+                const reyaService = getReyaService(runtime);
+                const priceService = reyaService.prices;
+                // Three batch calls however long the list is
+                const [markets, prices, marketsData] = await Promise.all([
+                    reyaService.markets.getMarkets(),
+                    priceService.getPrices(),
+                    reyaService.markets.getMarketsData(),
+                ]);
+
+                const delisted = watchlist.markets.filter(w => !markets.some(m => m.id === w.marketId));
+                const count = watchlist.markets.length;
+                const lines = [
+                    `**Your Reya watchlist** (${count} ${count === 1 ? "market" : "markets"})`,
+                    "",
+                    buildWatchlistTable(watchlist, markets, prices, marketsData, priceService, reyaService.fundingRatePeriodHours),
+                    "",
+                    `Funding is the ${fundingPeriodName(reyaService.fundingRatePeriodHours)} rate; positive means longs pay shorts.`,
+                ];
+                if (delisted.length > 0) {
+                    lines.push(`⚠️ No longer listed on Reya Network: ${delisted.map(w => w.ticker).join(", ")}. Remove ${delisted.length === 1 ? "it" : "them"} with "remove ${delisted[0].ticker} from my watchlist".`);
+                }
+                response = lines.join("\n");
+            }
+
+            if (callback) {
+                await callback({ text: response, action: "SHOW_REYA_WATCHLIST" });
+            }
+
+            return {
+                success: true,
+                text: response,
+                values: {
+                    watchlistCount: watchlist.markets.length
+                },
+                data: {
+                    actionName: "SHOW_REYA_WATCHLIST",
+                    watchlist
+                }
+            };
+        } catch (error) {
+            elizaLogger.error({ err: error }, "Error in SHOW_REYA_WATCHLIST action");
+
+            const errorMsg = "Sorry, I couldn't load your watchlist right now. Please try again in a moment.";
+            if (callback) {
+                await callback({ text: errorMsg, error: true });
+            }
+
+            return {
+                success: false,
+                error: error instanceof Error ? error : new Error(String(error))
+            };
+        }
+    },
+
+    examples: [
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "show my watchlist"
+                }
+            },
+            {
+                name: "Aira",
+                content: {
+                    text: "Here's your watchlist with prices, funding and volume.",
+                    actions: ["SHOW_REYA_WATCHLIST"]
+                }
+            }
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "покажи моё избранное"
+                }
+            },
+            {
+                name: "Aira",
+                content: {
+                    text: "Вот ваш список наблюдения с ценами, фандингом и объёмом.",
+                    actions: ["SHOW_REYA_WATCHLIST"]
+                }
+            }
+        ]
+    ]
+};
+
+export default showWatchlistAction;
@@ -34,6 +34,7 @@ export const smartDispatchAction: Action = {
             // Trading/DeFi concepts
             "цена", "price", "стоимость", "market", "рынок", "торги",
             "актив", "asset", "токен", "token",
+            "fee", "комисси", "rebate", "ребейт",
             
             // Knowledge queries about DeFi/trading
             "что такое", "what is", "как работает", "how does",
@@ -75,7 +76,7 @@ export const smartDispatchAction: Action = {
             
             elizaLogger.info("🎯 Calling dispatcher.dispatch...");
             const result = await dispatcher.dispatch(message, state, callback);
-            elizaLogger.info(`📋 Dispatch result:`, result);
+            elizaLogger.info({ result }, "📋 Dispatch result");
             
             if (result.response) {
                 // Dispatcher handled the request completely
@@ -136,7 +137,7 @@ export const smartDispatchAction: Action = {
             }
 
         } catch (error) {
-            elizaLogger.error("❌ Smart Dispatch Action Error:", error);
+            elizaLogger.error({ err: error }, "❌ Smart Dispatch Action Error");
             
             // On error, let other handlers try
             return {
@@ -0,0 +1,270 @@
+import {
+    type Action,
+    type ActionResult,
+    type IAgentRuntime,
+    type Memory,
+    type State,
+    elizaLogger,
+    parseKeyValueXml,
+    type HandlerCallback,
+    ModelType,
+} from "@elizaos/core";
+
+import { FUNDING, TRADE_COST } from "../constants/index.js";
+import { getReyaService } from "../services/reyaService.js";
+import { getSmartDispatchData } from "../providers/dispatchProvider.js";
+import { classifyAlertRequest } from "../services/alertService.js";
+import { parseTimeWindow, formatDuration } from "../services/historyService.js";
+import {
+    parsePositionSize,
+    parsePositionSide,
+    parseLeverage,
+    parseBaseSize,
+    type PositionSide,
+} from "../services/position.js";
+import { isTradeCostRequest, estimateTradeCost, formatTradeCost } from "../services/tradeCost.js";
+import { isPnlRequest } from "../services/pnl.js";
+import { marketBaseSymbol } from "../services/symbolResolver.js";
+import { parseVolumeAmount } from "./feeCalculatorAction.js";
+import type { TradeCostEstimate } from "../types/index.js";
+
+const parseFlag = (value: unknown) => String(value ?? "").trim().toLowerCase() === "true";
+
+export const estimateTradeCostAction: Action = {
+    name: "ESTIMATE_REYA_TRADE_COST",
+    similes: [
+        "REYA_TRADE_COST",
+        "REYA_ALL_IN_COST",
+        "REYA_HOLDING_COST"
+    ],
+    description: "Estimate what a hypothetical Reya Network trade costs in rUSD: entry premium (pool vs oracle), taker fees from the fee tiers, and funding over the holding period from fundingRate/fundingRateVelocity",
+
+    validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+        elizaLogger.info(`🧾 Trade Cost Action Validate: Checking message: "${message.content.text}"`);
+
+        // Check Smart Dispatch flags from provider first, fallback to executed actions
+        const smartDispatchData = getSmartDispatchData(state);
+
+        if (smartDispatchData?.allowReyaActions) {
+            const text = message.content.text || "";
+            // An estimate needs a size to work with
+            if (isTradeCostRequest(text) && /\d/.test(text) && !classifyAlertRequest(text) && !isPnlRequest(text)) {
+                elizaLogger.info("✅ Trade Cost Action: Approved trade cost estimate by Smart Dispatch");
+                return true;
+            }
+            elizaLogger.info("🚫 Trade Cost Action: No trade cost keywords or size found");
+            return false;
+        }
+
+        elizaLogger.info("🚫 Trade Cost Action: No approval from Smart Dispatch, rejecting");
+        return false;
+    },
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state: State,
+        _options: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ): Promise<ActionResult> => {
+        try {
+            elizaLogger.info("Executing ESTIMATE_REYA_TRADE_COST action");
+            const text = message.content.text || "";
+
+            const extractionPrompt = `
+You are extracting trade cost parameters from a user message.
+
+EXTRACTION RULES:
+1. symbol: the market or coin traded (BTC, ETH, SOL...), or empty
+2. base: the size in units of the coin, digits only (e.g. "5" for "5 ETH"), or empty
+3. size: the size in rUSD/USD if given instead, like "10000" or "2.5m", or empty
+4. side: "long" or "short", or empty
+5. leverage: the leverage, digits only (e.g. "10" for "10x"), or empty
+6. hold: how long the position is held, like "8h", "3d" or "1w", or empty
+7. volume: the user's trading volume for the fee tier, like "3M", or empty
+8. og: "true" if the user says they are an OG / early user, otherwise "false"
+9. referee: "true" if the user was referred / is a referee, otherwise "false"
+
+EXAMPLES:
+- "what would a 10x long 5 ETH held for 3 days cost?" → symbol: ETH, base: 5, side: long, leverage: 10, hold: 3d
+- "all-in cost of a $50k BTC short for a week, I'm an OG" → symbol: BTC, size: 50000, side: short, hold: 1w, og: true
+- "во сколько обойдётся шорт 100 SOL с плечом 5 на сутки?" → symbol: SOL, base: 100, side: short, leverage: 5, hold: 1d
+
+FORMAT: Return ONLY this XML structure:
+<response>
+  <symbol>SYMBOL_OR_EMPTY</symbol>
+  <base>BASE_OR_EMPTY</base>
+  <size>SIZE_OR_EMPTY</size>
+  <side>long_or_short_or_empty</side>
+  <leverage>LEVERAGE_OR_EMPTY</leverage>
+  <hold>HOLD_OR_EMPTY</hold>
+  <volume>VOLUME_OR_EMPTY</volume>
+  <og>true_or_false</og>
+  <referee>true_or_false</referee>
+</response>
+
+USER MESSAGE: "${text}"
+
+EXTRACT NOW:`;
+
+            let extractedData: Record<string, string> = {};
+            try {
+                const llmResponse = await runtime.useModel(ModelType.TEXT_SMALL, {
+                    prompt: extractionPrompt,
+                });
+                extractedData = parseKeyValueXml(llmResponse) || {};
+            } catch (extractionError) {
+                // The message itself usually says enough
+                elizaLogger.warn(`Trade cost extraction failed, reading the message directly: ${extractionError}`);
+            }
+
+            const reyaService = getReyaService(runtime);
+            const priceService = reyaService.prices;
+            const symbol = (extractedData.symbol || "").trim();
+            const resolution = symbol ? await reyaService.symbols.resolveMarket(symbol) : null;
+            const market = resolution?.best && !resolution.ambiguous
+                ? resolution.best.item
+                : (await reyaService.symbols.findMarketMentions(text))[0] ?? null;
+
+            // Take sizes and leverage out before reading the holding period: "$2m" isn't two minutes
+            const leverageMatch = parseLeverage(text);
+            const sizeMatch = parsePositionSize(text);
+            const baseMatch = market ? parseBaseSize(text, marketBaseSymbol(market)) : null;
+            let rest = text.toLowerCase();
+            for (const match of [leverageMatch?.match, sizeMatch?.match, baseMatch?.match]) {
+                rest = match ? rest.replace(match, " ") : rest;
+            }
+
+            const extractedLeverage = parseFloat(extractedData.leverage || "");
+            const leverage = Number.isFinite(extractedLeverage) && extractedLeverage > 0 ? extractedLeverage : leverageMatch?.leverage ?? null;
+            const extractedBase = parseFloat((extractedData.base || "").replace(/,/g, ""));
+            const base = Number.isFinite(extractedBase) && extractedBase > 0 ? extractedBase : baseMatch?.base ?? null;
+            const size = parseVolumeAmount(extractedData.size) ?? sizeMatch?.notional ?? null;
+            const side: PositionSide = extractedData.side === "short" || extractedData.side === "long"
+                ? extractedData.side
+                : parsePositionSide(text) ?? "long";
+            const window = parseTimeWindow(extractedData.hold || "") ?? parseTimeWindow(rest);
+            const requestedHours = window ? window.ms / (60 * 60 * 1000) : null;
+            const holdHours = Math.min(requestedHours ?? TRADE_COST.DEFAULT_HOLD_HOURS, FUNDING.MAX_PROJECTION_HOURS);
+            const volume = parseVolumeAmount(extractedData.volume) ?? 0;
+            const feeOptions = {
+                isOg: parseFlag(extractedData.og) || /\bog\b/.test(text.toLowerCase()),
+                isReferee: parseFlag(extractedData.referee) || /\breferee\b|\breferred\b/.test(text.toLowerCase()),
+            };
+
+            elizaLogger.info(`Trade cost request: market=${market?.ticker ?? "none"} base=${base} size=${size} side=${side} leverage=${leverage} hold=${holdHours}h`);
+
+            let response: string;
+            let estimate: TradeCostEstimate | null = null;
+
+            if (!market) {
+                response = `Which market is the trade on? For example "what would a 10x long 5 ETH held for 3 days cost?"`;
+            } else {
+                const marketsData = await reyaService.markets.getMarketsData();
+                const prices = await priceService.getPrices();
+                const data = marketsData.find(d => d.marketId === market.id);
+                const price = prices.find(p => String(p.marketId) === market.id);
+                const markPrice = parseFloat(price?.price ?? "");
+                const mark = Number.isFinite(markPrice) ? markPrice : market.markPrice;
+                const notional = base !== null ? base * mark : size;
+                const asset = marketBaseSymbol(market);
+
+                if (notional === null || !(notional > 0)) {
+                    response = `How big is the trade? Give a size in ${asset} or rUSD, for example "10x long 5 ${asset} held for 3 days" or "$10k ${asset} short for a week".`;
+                } else if (!data) {
+                    response = `I can't get funding data for **${market.ticker}** right now, so I can't estimate the cost. Please try again in a moment.`;
+                } else {
+                    const feeService = reyaService.fees;
+                    const fees = feeService.calculateFeeTier(
+                        await feeService.getFeeTiers(),
+                        await feeService.getGlobalFeeParameters(),
+                        volume,
+                        feeOptions
+                    );
+                    estimate = estimateTradeCost({
+                        market, data, price, notional, side, holdHours, leverage, fees,
+                        fundingPeriodHours: reyaService.fundingRatePeriodHours,
+                    });
+
+                    const lines = [formatTradeCost(estimate, p => priceService.formatPrice(p))];
+                    if (leverage !== null && leverage > market.maxLeverage) {
+                        lines.push(`⚠️ **${market.ticker}** allows at most ${market.maxLeverage}×, so this trade can't be opened at ${leverage}×.`);
+                    }
+                    const cappedNote = requestedHours !== null && requestedHours > FUNDING.MAX_PROJECTION_HOURS
+                        ? ` Funding is projected at most ${formatDuration(FUNDING.MAX_PROJECTION_HOURS * 60 * 60 * 1000)} ahead, so the holding period was shortened to that.`
+                        : "";
+                    lines.push(
+                        "",
+                        `Assumptions: taker fees on opening and closing at the same size, tier ${fees.tier.tier_id}${volume > 0 ? ` for ${feeService.formatVolume(volume)} volume` : " (no trading volume given)"}${fees.discountSource ? ` with the ${fees.discountSource === "og" ? "OG" : "referee"} discount` : ""}. The entry premium is the pool's gap to the oracle now: longs pay it when the pool is above the oracle, shorts when it's below. Funding assumes it keeps changing at its current velocity.${cappedNote} Negative amounts are income. Price moves and slippage aren't included.`
+                    );
+                    response = lines.join("\n");
+                }
+            }
+
+            if (callback) {
+                await callback({ text: response, action: "ESTIMATE_REYA_TRADE_COST" });
+            }
+
+            return {
+                success: true,
+                text: response,
+                values: {
+                    marketId: market?.id,
+                    total: estimate?.total,
+                    notional: estimate?.notional
+                },
+                data: {
+                    actionName: "ESTIMATE_REYA_TRADE_COST",
+                    estimate
+                }
+            };
+        } catch (error) {
+            elizaLogger.error({ err: error }, "Error in ESTIMATE_REYA_TRADE_COST action");
+
+            const errorMsg = "Sorry, I couldn't estimate that trade's cost right now. Please try again in a moment.";
+            if (callback) {
+                await callback({ text: errorMsg, error: true });
+            }
+
+            return {
+                success: false,
+                error: error instanceof Error ? error : new Error(String(error))
+            };
+        }
+    },
+
+    examples: [
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "what would a 10x long 5 ETH held for 3 days cost?"
+                }
+            },
+            {
+                name: "Aira",
+                content: {
+                    text: "Adding up the entry premium, taker fees and three days of funding for that ETH long.",
+                    actions: ["ESTIMATE_REYA_TRADE_COST"]
+                }
+            }
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "во сколько обойдётся шорт 100 SOL с плечом 5 на сутки?"
+                }
+            },
+            {
+                name: "Aira",
+                content: {
+                    text: "Считаю премию входа, комиссии тейкера и фандинг за сутки для шорта SOL.",
+                    actions: ["ESTIMATE_REYA_TRADE_COST"]
+                }
+            }
+        ]
+    ]
+};
+
+export default estimateTradeCostAction;
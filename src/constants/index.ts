@@ -17,4 +17,139 @@ export const CACHE_TTL = {
     ASSETS: 30,          // 30 seconds for testing new tokens
     PRICES: 10,          // 10 seconds
     FEE_PARAMETERS: 3600, // 1 hour
-} as const;
\ No newline at end of file
+} as const;
+
+export const HTTP_CONFIG = {
+    TIMEOUT_MS: 10000,          // per attempt
+    MAX_RETRIES: 3,             // retries on 429/5xx/timeouts, not counting the first attempt
+    RETRY_BASE_DELAY_MS: 500,   // doubled on every retry
+    RETRY_MAX_DELAY_MS: 10000,  // cap for backoff and Retry-After
+} as const;
+
+// Names people use for a coin, lowercased, mapped to the base symbol Reya
+// lists it under. Tickers themselves don't need an entry.
+export const SYMBOL_ALIASES: Record<string, string> = {
+    "bitcoin": "BTC", "xbt": "BTC", "биткоин": "BTC", "биткойн": "BTC", "биток": "BTC",
+    "ethereum": "ETH", "ether": "ETH", "эфир": "ETH", "эфириум": "ETH", "етх": "ETH",
+    "solana": "SOL", "солана": "SOL", "сол": "SOL",
+    "jito": "JITOSOL", "jito sol": "JITOSOL",
+    "hyperliquid": "HYPE", "хайп": "HYPE",
+    "dogecoin": "DOGE", "доги": "DOGE", "догикоин": "DOGE", "догекоин": "DOGE",
+    "ripple": "XRP", "рипл": "XRP",
+    "cardano": "ADA", "кардано": "ADA",
+    "litecoin": "LTC", "лайткоин": "LTC",
+    "chainlink": "LINK", "чейнлинк": "LINK",
+    "avalanche": "AVAX", "аваланч": "AVAX",
+    "polkadot": "DOT", "полкадот": "DOT",
+    "binance coin": "BNB",
+    "toncoin": "TON", "тон": "TON",
+    "tron": "TRX", "трон": "TRX",
+    "uniswap": "UNI", "arbitrum": "ARB", "optimism": "OP",
+    "polygon": "POL", "matic": "POL", "near protocol": "NEAR",
+    "usd coin": "USDC", "tether": "USDT", "reya usd": "RUSD", "staked reya usd": "SRUSD",
+    "wrapped ether": "WETH", "wrapped bitcoin": "WBTC",
+};
+
+export const SYMBOL_MATCH = {
+    MAX_CANDIDATES: 5,
+    // Runner-up candidates within this score of the best make a non-exact query ambiguous
+    AMBIGUITY_MARGIN: 0.25,
+    // Lowest score an asset mention found in free text must reach
+    MIN_MENTION_SCORE: 0.9,
+} as const;
+
+export const PENDING_CHOICE = {
+    TTL_MS: 10 * 60 * 1000,  // a numbered choice list is answerable for 10 minutes
+    MAX_REPLY_WORDS: 4,      // longer messages are new questions, not answers
+} as const;
+
+export const COMPARISON = {
+    MAX_MARKETS: 4,             // columns that still fit a chat message
+    MIN_CHANGE_GAP_PCT: 1,      // 24h change gap (percentage points) worth calling out
+    MIN_RATIO: 1.5,             // volume / OI ratio worth calling out
+    CROWDED_SKEW_PCT: 55,       // one side holding more than this share of OI
+} as const;
+
+export const HISTORY = {
+    ENABLED: false,             // opt-in: about 0.8 MB per market per day at the default interval
+    DIR: "data/reya-history",   // relative to the agent's working directory
+    SAMPLE_INTERVAL_SEC: 60,    // 0 turns the background sampler off
+    RETENTION_DAYS: 7,
+    DEFAULT_WINDOW_HOURS: 24,   // window for "how did SOL move" without a timeframe
+} as const;
+
+export const CANDLES = {
+    INTERVAL_MS: {
+        "1m": 60 * 1000,
+        "5m": 5 * 60 * 1000,
+        "1h": 60 * 60 * 1000,
+        "1d": 24 * 60 * 60 * 1000,
+    },
+    DEFAULT_LIMIT: 12,
+    MAX_LIMIT: 48,
+} as const;
+
+export const CHARTS = {
+    SPARKLINE_WIDTH: 24,    // characters; longer series are averaged down to this
+    SVG_WIDTH: 640,
+    SVG_HEIGHT: 280,
+} as const;
+
+export const ALERTS = {
+    CACHE_KEY: "reya-alerts",
+    CHECK_INTERVAL_SEC: 60,     // 0 turns the background watcher off
+    MAX_PER_USER: 20,           // per user and room
+    DEFAULT_MOVE_WINDOW_HOURS: 1,
+    MAX_MOVE_WINDOW_HOURS: 24,
+} as const;
+
+export const FUNDING = {
+    // Hours one markets/data fundingRate covers. The API doesn't state it; hourly
+    // is assumed and REYA_FUNDING_RATE_PERIOD_HOURS overrides it
+    RATE_PERIOD_HOURS: 1,
+    HIGH_APR_PERCENT: 25,       // annualized funding worth calling a strong bias
+    DEFAULT_PROJECTION_HOURS: 8,
+    MAX_PROJECTION_HOURS: 24 * 7,
+} as const;
+
+export const OPEN_INTEREST = {
+    SNAPSHOT_CACHE_KEY: "reya-oi-snapshot",
+    TOP_CROWDED: 3,             // markets listed per crowded side
+} as const;
+
+export const PREMIUM = {
+    DEFAULT_ALERT_BPS: 50,      // premium alert threshold when none is given
+    WIDE_BPS: 25,               // pool/oracle gap worth pointing out
+} as const;
+
+export const CAPACITY = {
+    TOP_DEEPEST: 3,             // markets named as deepest for a size
+} as const;
+
+export const TRADE_COST = {
+    DEFAULT_HOLD_HOURS: 24,     // holding period when none is given
+} as const;
+
+export const LIQUIDATION = {
+    // Maintenance margin as a share of the initial margin at the market's max leverage
+    MAINTENANCE_FRACTION: 0.5,
+    LADDER: [1, 2, 3, 5, 10, 15, 20, 25, 50, 100],  // leverages shown in the ladder, up to the max
+} as const;
+
+export const WATCHLIST = {
+    CACHE_KEY_PREFIX: "reya-watchlist",  // one entry per user
+    MAX_MARKETS: 20,
+} as const;
+
+export const DIGEST = {
+    CACHE_KEY_PREFIX: "reya-digest",  // one entry per room
+    CHECK_INTERVAL_SEC: 60,     // 0 turns the scheduler off
+    DEFAULT_HOUR_UTC: 9,        // when daily digests go out
+    DEFAULT_TOP: 3,             // markets per section
+    SECTIONS: ["movers", "volume", "funding", "listings", "openInterest"],
+} as const;
+
+export const PNL = {
+    // Longest a recorded funding rate is taken to hold; gaps beyond it use the current rate
+    MAX_SAMPLE_SPAN_MINUTES: 60,
+} as const;
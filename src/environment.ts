@@ -1,9 +1,36 @@
 import { type IAgentRuntime } from "@elizaos/core";
-import { REYA_API_BASE_URL } from "./constants/index.js";
+import { REYA_API_BASE_URL, HTTP_CONFIG, HISTORY, ALERTS, FUNDING, DIGEST } from "./constants/index.js";
+
+function parseNumberSetting(value: unknown, fallback: number): number {
+    if (value === null || value === undefined || value === "") {
+        return fallback;
+    }
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+function parseBooleanSetting(value: unknown, fallback: boolean): boolean {
+    if (value === null || value === undefined || value === "") {
+        return fallback;
+    }
+    if (typeof value === "boolean") {
+        return value;
+    }
+    return !["false", "0", "no", "off"].includes(String(value).trim().toLowerCase());
+}
 
 export function getReyaConfig(runtime: IAgentRuntime) {
     return {
         REYA_API_BASE_URL: runtime.getSetting("REYA_API_BASE_URL") || REYA_API_BASE_URL,
+        REYA_REQUEST_TIMEOUT_MS: parseNumberSetting(runtime.getSetting("REYA_REQUEST_TIMEOUT_MS"), HTTP_CONFIG.TIMEOUT_MS),
+        REYA_MAX_RETRIES: parseNumberSetting(runtime.getSetting("REYA_MAX_RETRIES"), HTTP_CONFIG.MAX_RETRIES),
+        REYA_HISTORY_ENABLED: parseBooleanSetting(runtime.getSetting("REYA_HISTORY_ENABLED"), HISTORY.ENABLED),
+        REYA_HISTORY_DIR: String(runtime.getSetting("REYA_HISTORY_DIR") || HISTORY.DIR),
+        REYA_HISTORY_SAMPLE_INTERVAL_SEC: parseNumberSetting(runtime.getSetting("REYA_HISTORY_SAMPLE_INTERVAL_SEC"), HISTORY.SAMPLE_INTERVAL_SEC),
+        REYA_HISTORY_RETENTION_DAYS: parseNumberSetting(runtime.getSetting("REYA_HISTORY_RETENTION_DAYS"), HISTORY.RETENTION_DAYS),
+        REYA_ALERT_CHECK_INTERVAL_SEC: parseNumberSetting(runtime.getSetting("REYA_ALERT_CHECK_INTERVAL_SEC"), ALERTS.CHECK_INTERVAL_SEC),
+        REYA_FUNDING_RATE_PERIOD_HOURS: parseNumberSetting(runtime.getSetting("REYA_FUNDING_RATE_PERIOD_HOURS"), FUNDING.RATE_PERIOD_HOURS),
+        REYA_DIGEST_CHECK_INTERVAL_SEC: parseNumberSetting(runtime.getSetting("REYA_DIGEST_CHECK_INTERVAL_SEC"), DIGEST.CHECK_INTERVAL_SEC),
     };
 }
 
@@ -20,4 +47,32 @@ export async function validateReyaConfig(runtime: IAgentRuntime): Promise<void>
     } catch (error) {
         throw new Error("REYA_API_BASE_URL must be a valid URL");
     }
-}
\ No newline at end of file
+
+    if (config.REYA_REQUEST_TIMEOUT_MS <= 0) {
+        throw new Error("REYA_REQUEST_TIMEOUT_MS must be a positive number");
+    }
+
+    if (config.REYA_MAX_RETRIES < 0) {
+        throw new Error("REYA_MAX_RETRIES must not be negative");
+    }
+
+    if (config.REYA_HISTORY_SAMPLE_INTERVAL_SEC < 0) {
+        throw new Error("REYA_HISTORY_SAMPLE_INTERVAL_SEC must not be negative");
+    }
+
+    if (config.REYA_HISTORY_RETENTION_DAYS <= 0) {
+        throw new Error("REYA_HISTORY_RETENTION_DAYS must be a positive number");
+    }
+
+    if (config.REYA_ALERT_CHECK_INTERVAL_SEC < 0) {
+        throw new Error("REYA_ALERT_CHECK_INTERVAL_SEC must not be negative");
+    }
+
+    if (config.REYA_FUNDING_RATE_PERIOD_HOURS <= 0) {
+        throw new Error("REYA_FUNDING_RATE_PERIOD_HOURS must be a positive number");
+    }
+
+    if (config.REYA_DIGEST_CHECK_INTERVAL_SEC < 0) {
+        throw new Error("REYA_DIGEST_CHECK_INTERVAL_SEC must not be negative");
+    }
+}
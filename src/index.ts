@@ -2,29 +2,80 @@ import { Plugin } from "@elizaos/core";
 import { reyaMarketProvider } from "./providers/marketProvider.js";
 import { reyaPriceProvider } from "./providers/priceProvider.js";
 import { reyaAssetProvider } from "./providers/assetProvider.js";
+import { reyaFeeProvider } from "./providers/feeProvider.js";
+import { reyaOpenInterestProvider } from "./providers/openInterestProvider.js";
 import { smartDispatchProvider } from "./providers/dispatchProvider.js";
 import { smartDispatchAction } from "./actions/smartDispatchAction.js";
 import { getMarketsAction } from "./actions/marketAction.js";
 import { getPricesAction } from "./actions/priceAction.js";
 import { getAssetsAction } from "./actions/assetAction.js";
+import { getFeesAction } from "./actions/feeAction.js";
+import { calculateFeeTierAction } from "./actions/feeCalculatorAction.js";
+import { getCandlesAction } from "./actions/candleAction.js";
+import { getChartAction } from "./actions/chartAction.js";
+import { getFundingAction } from "./actions/fundingAction.js";
+import { getOpenInterestAction } from "./actions/openInterestAction.js";
+import { getPremiumAction } from "./actions/premiumAction.js";
+import { getCapacityAction } from "./actions/capacityAction.js";
+import { estimateTradeCostAction } from "./actions/tradeCostAction.js";
+import { calculateLiquidationAction } from "./actions/liquidationAction.js";
+import { simulatePnlAction } from "./actions/pnlAction.js";
+import { addToWatchlistAction } from "./actions/addToWatchlistAction.js";
+import { removeFromWatchlistAction } from "./actions/removeFromWatchlistAction.js";
+import { showWatchlistAction } from "./actions/showWatchlistAction.js";
+import { setPriceAlertAction } from "./actions/priceAlertAction.js";
+import { setFundingAlertAction } from "./actions/fundingAlertAction.js";
+import { setPremiumAlertAction } from "./actions/premiumAlertAction.js";
+import { listAlertsAction } from "./actions/listAlertsAction.js";
+import { cancelAlertAction } from "./actions/cancelAlertAction.js";
+import { ReyaService } from "./services/reyaService.js";
+import { ReyaHistoryService } from "./services/historyService.js";
+import { ReyaAlertService } from "./services/alertService.js";
+import { ReyaDigestService } from "./services/digestService.js";
+import { validateReyaConfig } from "./environment.js";
 
 export const reyaPlugin: Plugin = {
     name: "reya",
     description: "Reya Network Plugin for Eliza - provides market data, price information, and asset details from Reya Network DEX",
+    // Rejects bad settings before the services read them
+    init: async (_config, runtime) => {
+        await validateReyaConfig(runtime);
+    },
     providers: [
         // Run Smart Dispatch first to populate state flags
         smartDispatchProvider,
         reyaMarketProvider,
         reyaPriceProvider,
-        reyaAssetProvider
+        reyaAssetProvider,
+        reyaFeeProvider,
+        reyaOpenInterestProvider
     ],
     evaluators: [],
-    services: [],
+    services: [ReyaService, ReyaHistoryService, ReyaAlertService, ReyaDigestService],
     actions: [
         smartDispatchAction,  // Smart dispatcher must be first
         getMarketsAction,
         getPricesAction,  
-        getAssetsAction
+        getAssetsAction,
+        getFeesAction,
+        calculateFeeTierAction,
+        getCandlesAction,
+        getChartAction,
+        getFundingAction,
+        getOpenInterestAction,
+        getPremiumAction,
+        getCapacityAction,
+        estimateTradeCostAction,
+        calculateLiquidationAction,
+        simulatePnlAction,
+        addToWatchlistAction,
+        removeFromWatchlistAction,
+        showWatchlistAction,
+        setPriceAlertAction,
+        setFundingAlertAction,
+        setPremiumAlertAction,
+        listAlertsAction,
+        cancelAlertAction
     ],
 };
 
@@ -38,11 +89,49 @@ export type {
     Price,
     FeeTierParameter,
     GlobalFeeParameters,
+    FeeTierOptions,
+    FeeTierCalculation,
+    SymbolMatch,
+    SymbolMatchType,
+    SymbolResolution,
+    MarketListResolution,
+    PendingMarketChoice,
+    HistorySample,
+    HistorySummary,
+    Candle,
+    CandleInterval,
+    CandleSource,
+    ChartMetric,
+    ChartPoint,
+    MarketAlert,
+    AlertCondition,
+    PriceAlertCondition,
+    FundingAlertCondition,
+    PremiumAlertCondition,
+    OpenInterestEntry,
+    OpenInterestReport,
+    OpenInterestSnapshot,
+    CapacitySide,
+    MarketCapacity,
+    TradeCostEstimate,
+    LiquidationEstimate,
+    FundingAccrual,
+    PnlSimulation,
+    Watchlist,
+    DigestSection,
+    DigestSchedule,
+    DigestRoomConfig,
+    DigestState,
     ReyaApiResponse,
     ReyaProviderResponse
 } from "./types/index.js";
 
 // Re-export services for external use
+export {
+    ReyaService,
+    getReyaService
+} from "./services/reyaService.js";
+
 export {
     ReyaMarketService,
     initMarketService
@@ -58,11 +147,184 @@ export {
     initAssetService
 } from "./providers/assetProvider.js";
 
+export { ReyaFeeService } from "./providers/feeProvider.js";
+
+export { reyaOpenInterestProvider } from "./providers/openInterestProvider.js";
+
+export {
+    SymbolResolver,
+    rankMarkets,
+    rankAssets,
+    editDistance,
+    splitSymbolList
+} from "./services/symbolResolver.js";
+
+export {
+    formatTable,
+    buildPriceTable,
+    buildMarketTable
+} from "./services/marketTable.js";
+
+export { compareMarkets } from "./services/marketComparison.js";
+
+export { PriceHistoryStore } from "./services/historyStore.js";
+
+export {
+    ReyaHistoryService,
+    getHistoryService,
+    summarizeHistory,
+    parseTimeWindow,
+    parseSinceDate
+} from "./services/historyService.js";
+
+export {
+    buildCandles,
+    parseCandleInterval,
+    CANDLE_INTERVALS
+} from "./services/candles.js";
+
+export {
+    sparkline,
+    renderSvgChart,
+    svgDataUrl,
+    metricSeries,
+    parseChartMetric
+} from "./services/charts.js";
+
+export {
+    ReyaAlertService,
+    getAlertService,
+    parseAlertCondition,
+    parseFundingAlertCondition,
+    evaluateAlert,
+    evaluateFundingAlert,
+    evaluatePremiumAlert
+} from "./services/alertService.js";
+export type { AlertTrigger } from "./services/alertService.js";
+export type { ComparisonEntry, MarketComparison } from "./services/marketComparison.js";
+
+export {
+    ReyaDigestService,
+    getDigestService,
+    parseDigestRooms,
+    digestPeriodStart,
+    isDigestDue,
+    buildMarketDigest
+} from "./services/digestService.js";
+export type { DigestInput, DigestPost } from "./services/digestService.js";
+
+export {
+    annualizeFundingRate,
+    fundingDirection,
+    formatFundingRate,
+    fundingPeriodName,
+    explainFundingRates,
+    describeFunding,
+    projectFundingRate,
+    estimateFundingPayment,
+    buildFundingTable,
+    parseFundingQuery
+} from "./services/funding.js";
+
+export {
+    buildOpenInterestReport,
+    formatOpenInterestReport,
+    toOpenInterestSnapshot
+} from "./services/openInterest.js";
+
+export {
+    premiumBps,
+    describePremium,
+    parsePremiumThreshold,
+    rankPremiums,
+    buildPremiumTable
+} from "./services/premium.js";
+
+export {
+    buildCapacities,
+    checkCapacity,
+    rankByCapacity,
+    buildCapacityTable
+} from "./services/capacity.js";
+export type { CapacityCheck } from "./services/capacity.js";
+
+export { estimateTradeCost, formatTradeCost } from "./services/tradeCost.js";
+
+export {
+    maintenanceMarginRatio,
+    liquidationPrice,
+    estimateLiquidation,
+    formatLiquidation
+} from "./services/liquidation.js";
+
+export { estimateFundingSince, simulatePnl, formatPnl } from "./services/pnl.js";
+
+export {
+    classifyWatchlistRequest,
+    getWatchlist,
+    addToWatchlist,
+    removeFromWatchlist,
+    buildWatchlistTable
+} from "./services/watchlist.js";
+export type { WatchlistCommand } from "./services/watchlist.js";
+
+export { parsePositionSize, parsePositionSide, parseLeverage, parseBaseSize, parseEntryPrice } from "./services/position.js";
+export type { PositionSide } from "./services/position.js";
+
+export {
+    parseChoiceReply,
+    savePendingChoice,
+    getPendingChoice,
+    clearPendingChoice,
+    findChoiceSelection,
+    takeChoiceSelection
+} from "./services/pendingChoice.js";
+
+export {
+    ReyaHttpClient,
+    ReyaHttpError,
+    ReyaApiError,
+    ReyaTimeoutError,
+    ReyaNetworkError,
+    ReyaInvalidResponseError,
+    ReyaValidationError,
+    createReyaHttpClient
+} from "./services/httpClient.js";
+
+export type { ReyaHttpClientOptions } from "./services/httpClient.js";
+
+export {
+    MarketSchema,
+    MarketDataSchema,
+    AssetSchema,
+    PriceSchema,
+    FeeTierParameterSchema,
+    GlobalFeeParametersSchema
+} from "./types/schemas.js";
+
 // Re-export constants
 export {
     REYA_API_BASE_URL,
     API_ENDPOINTS,
-    CACHE_TTL
+    CACHE_TTL,
+    HTTP_CONFIG,
+    SYMBOL_ALIASES,
+    SYMBOL_MATCH,
+    PENDING_CHOICE,
+    COMPARISON,
+    HISTORY,
+    CANDLES,
+    CHARTS,
+    ALERTS,
+    FUNDING,
+    OPEN_INTEREST,
+    PREMIUM,
+    CAPACITY,
+    TRADE_COST,
+    LIQUIDATION,
+    WATCHLIST,
+    DIGEST,
+    PNL
 } from "./constants/index.js";
 
 // Re-export configuration utilities
@@ -7,17 +7,19 @@ import {
 } from "@elizaos/core";
 
 import NodeCache from "node-cache";
-import { getReyaConfig } from "../environment.js";
+import { ReyaHttpClient } from "../services/httpClient.js";
+import { getReyaService } from "../services/reyaService.js";
 import { API_ENDPOINTS, CACHE_TTL } from "../constants/index.js";
+import { AssetSchema } from "../types/schemas.js";
 import type { Asset, ReyaProviderResponse } from "../types/index.js";
 
 export class ReyaAssetService {
     private cache: NodeCache;
-    private baseUrl: string;
+    private client: ReyaHttpClient;
 
-    constructor(baseUrl: string) {
-        this.baseUrl = baseUrl;
-        this.cache = new NodeCache({ stdTTL: CACHE_TTL.ASSETS });
+    constructor(baseUrl: string, client?: ReyaHttpClient, cache?: NodeCache) {
+        this.client = client ?? new ReyaHttpClient({ baseUrl });
+        this.cache = cache ?? new NodeCache({ stdTTL: CACHE_TTL.ASSETS });
     }
 
     async getAssets(): Promise<Asset[]> {
@@ -30,18 +32,11 @@ export class ReyaAssetService {
             }
             elizaLogger.info("Cache miss for getAssets");
 
-            const fetchUrl = `${this.baseUrl}${API_ENDPOINTS.ASSETS}`;
-            const response = await fetch(fetchUrl);
-            
-            if (!response.ok) {
-                throw new Error(`HTTP error! status: ${response.status}`);
-            }
-
-            const assets: Asset[] = await response.json();
+            const assets = await this.client.getList(API_ENDPOINTS.ASSETS, AssetSchema);
             this.cache.set(cacheKey, assets, CACHE_TTL.ASSETS);
             return assets;
         } catch (error) {
-            elizaLogger.error("Error fetching assets:", error);
+            elizaLogger.error({ err: error }, "Error fetching assets");
             throw error;
         }
     }
@@ -100,9 +95,9 @@ export class ReyaAssetService {
     }
 }
 
+// Kept for backwards compatibility; returns the runtime's shared instance.
 export const initAssetService = async (runtime: IAgentRuntime): Promise<ReyaAssetService> => {
-    const config = getReyaConfig(runtime);
-    return new ReyaAssetService(config.REYA_API_BASE_URL);
+    return getReyaService(runtime).assets;
 };
 
 export const reyaAssetProvider: Provider = {
@@ -113,7 +108,7 @@ export const reyaAssetProvider: Provider = {
         state?: State
     ): Promise<ReyaProviderResponse> => {
         try {
-            const assetService = await initAssetService(runtime);
+            const assetService = getReyaService(runtime).assets;
             const assets = await assetService.getAssets();
             const summary = await assetService.getAssetsSummary();
 
@@ -126,7 +121,7 @@ export const reyaAssetProvider: Provider = {
                 message: `Reya Network supports ${summary.totalAssets} assets for trading and collateral. Major assets include: ${topAssets}. All assets support cross-collateralization and unified margin. Decimal precision: ${summary.uniqueDecimals.join(', ')}.`
             };
         } catch (error) {
-            elizaLogger.error("Error in Reya Asset provider:", error);
+            elizaLogger.error({ err: error }, "Error in Reya Asset provider");
             return {
                 message: "Failed to fetch asset data from Reya Network",
                 error: error instanceof Error ? error.message : "Unknown error"
@@ -6,7 +6,42 @@ import {
   elizaLogger,
 } from "@elizaos/core";
 
-import { IntentAnalyzer, IntentType } from "../services/intentAnalyzer.js";
+import { IntentAnalyzer, IntentType, type IntentAnalysisResult } from "../services/intentAnalyzer.js";
+import { findChoiceSelection } from "../services/pendingChoice.js";
+
+// Intent reported for a message that answers an action's choice list
+const CHOICE_INTENTS: Record<string, IntentType> = {
+  GET_REYA_PRICES: IntentType.PRICE_QUERY,
+  GET_REYA_MARKETS: IntentType.MARKET_QUERY,
+};
+
+/**
+ * Gating flags the provider puts in state.values.smartDispatch. The
+ * SMART_REYA_DISPATCH action's result data carries a subset of them.
+ */
+export interface SmartDispatchData {
+  intent?: IntentType;
+  confidence?: number;
+  reasoning?: string;
+  shouldUseAPI?: boolean;
+  shouldUseKnowledge?: boolean;
+  allowReyaActions?: boolean;
+  blockOtherActions?: boolean;
+  usedSource?: string;
+  choiceAction?: string;
+  extractedEntities?: IntentAnalysisResult["extractedEntities"];
+  timestamp?: number;
+}
+
+/**
+ * Smart Dispatch flags for action validators: the provider's values, or
+ * failing that the data of a SMART_REYA_DISPATCH action that already ran.
+ */
+export function getSmartDispatchData(state: State | undefined): SmartDispatchData | undefined {
+  const recentActions: Array<{ actionName?: string; data?: SmartDispatchData }> | undefined = state?.recentActions;
+  return (state?.values?.smartDispatch as SmartDispatchData | undefined) ??
+    recentActions?.find(action => action.actionName === "SMART_REYA_DISPATCH")?.data;
+}
 
 /**
  * Smart Dispatch Provider
@@ -31,6 +66,36 @@ export const smartDispatchProvider: Provider = {
     elizaLogger.info(`🔎 Smart Dispatch Provider: analyzing message: "${text}"`);
 
     try {
+      // A reply like "2" to a "which market?" list goes straight back to the
+      // action that asked, without another round of intent analysis
+      const selection = await findChoiceSelection(runtime, message);
+      if (selection) {
+        const { actionName } = selection.choice;
+        elizaLogger.info(`✅ Smart Dispatch Provider: answer "${selection.ticker}" to pending ${actionName} choice`);
+
+        return {
+          values: {
+            smartDispatch: {
+              intent: CHOICE_INTENTS[actionName] ?? IntentType.LIVE_DATA_QUERY,
+              confidence: 1,
+              reasoning: `Answer to the pending ${actionName} choice`,
+              shouldUseAPI: true,
+              shouldUseKnowledge: false,
+              allowReyaActions: true,
+              blockOtherActions: true,
+              usedSource: "pending_choice",
+              choiceAction: actionName,
+              extractedEntities: { assets: [selection.ticker] },
+              timestamp: Date.now(),
+            },
+          },
+          data: {
+            pendingChoice: selection,
+          },
+          text: undefined,
+        };
+      }
+
       const analysis = await analyzer.analyzeIntent(message);
 
       // Default flags
@@ -51,6 +116,11 @@ export const smartDispatchProvider: Provider = {
           blockOtherActions = false;
           usedSource = "reya_api";
           break;
+        case IntentType.ALERT_REQUEST:
+          allowReyaActions = true;  // alert actions pick set/list/cancel themselves
+          blockOtherActions = false;
+          usedSource = "reya_alerts";
+          break;
         case IntentType.COMPARISON_QUERY:
         case IntentType.HISTORICAL_DATA_QUERY:
         case IntentType.GENERAL_CHAT:
@@ -61,9 +131,7 @@ export const smartDispatchProvider: Provider = {
       }
 
       elizaLogger.info(
-        "✅ Smart Dispatch Provider: intent=", analysis.intent,
-        " allowReyaActions=", allowReyaActions,
-        " blockOtherActions=", blockOtherActions
+        `✅ Smart Dispatch Provider: intent=${analysis.intent} allowReyaActions=${allowReyaActions} blockOtherActions=${blockOtherActions}`
       );
 
       return {
@@ -88,7 +156,7 @@ export const smartDispatchProvider: Provider = {
         text: undefined,
       };
     } catch (error) {
-      elizaLogger.error("❌ Smart Dispatch Provider error:", error);
+      elizaLogger.error({ err: error }, "❌ Smart Dispatch Provider error");
       // On error, do not gate; return no-op
       return { values: {}, data: { smartDispatchError: String(error) } };
     }
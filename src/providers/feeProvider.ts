@@ -0,0 +1,186 @@
+import {
+    type Provider,
+    type IAgentRuntime,
+    type Memory,
+    type State,
+    elizaLogger,
+} from "@elizaos/core";
+
+import NodeCache from "node-cache";
+import { ReyaHttpClient } from "../services/httpClient.js";
+import { getReyaService } from "../services/reyaService.js";
+import { API_ENDPOINTS, CACHE_TTL } from "../constants/index.js";
+import type {
+    FeeTierCalculation,
+    FeeTierOptions,
+    FeeTierParameter,
+    GlobalFeeParameters,
+    ReyaProviderResponse
+} from "../types/index.js";
+import { FeeTierParameterSchema, GlobalFeeParametersSchema } from "../types/schemas.js";
+
+export class ReyaFeeService {
+    private cache: NodeCache;
+    private client: ReyaHttpClient;
+
+    constructor(baseUrl: string, client?: ReyaHttpClient, cache?: NodeCache) {
+        this.client = client ?? new ReyaHttpClient({ baseUrl });
+        this.cache = cache ?? new NodeCache({ stdTTL: CACHE_TTL.FEE_PARAMETERS });
+    }
+
+    /**
+     * Fee tiers sorted by their volume threshold, lowest first.
+     */
+    async getFeeTiers(): Promise<FeeTierParameter[]> {
+        try {
+            const cacheKey = 'reya-fee-tiers';
+            const cachedValue = this.cache.get<FeeTierParameter[]>(cacheKey);
+            if (cachedValue) {
+                elizaLogger.info("Cache hit for getFeeTiers");
+                return cachedValue;
+            }
+            elizaLogger.info("Cache miss for getFeeTiers");
+
+            const feeTiers = await this.client.getList(API_ENDPOINTS.FEE_TIER_PARAMETERS, FeeTierParameterSchema);
+            const sortedTiers = [...feeTiers].sort((a, b) => parseFloat(a.volume) - parseFloat(b.volume));
+            this.cache.set(cacheKey, sortedTiers, CACHE_TTL.FEE_PARAMETERS);
+            return sortedTiers;
+        } catch (error) {
+            elizaLogger.error(`Error fetching fee tiers: ${error instanceof Error ? error.message : String(error)}`);
+            throw error;
+        }
+    }
+
+    async getGlobalFeeParameters(): Promise<GlobalFeeParameters> {
+        try {
+            const cacheKey = 'reya-global-fee-parameters';
+            const cachedValue = this.cache.get<GlobalFeeParameters>(cacheKey);
+            if (cachedValue) {
+                elizaLogger.info("Cache hit for getGlobalFeeParameters");
+                return cachedValue;
+            }
+            elizaLogger.info("Cache miss for getGlobalFeeParameters");
+
+            const globalFees = await this.client.getValidated(API_ENDPOINTS.GLOBAL_FEE_PARAMETERS, GlobalFeeParametersSchema);
+            this.cache.set(cacheKey, globalFees, CACHE_TTL.FEE_PARAMETERS);
+            return globalFees;
+        } catch (error) {
+            elizaLogger.error(`Error fetching global fee parameters: ${error instanceof Error ? error.message : String(error)}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Works out which tier a trading volume falls into and what the trader
+     * effectively pays. OG and referee discounts do not stack: the larger one
+     * applies, and only to positive fees (maker rebates are left untouched).
+     */
+    calculateFeeTier(
+        feeTiers: FeeTierParameter[],
+        globalFees: GlobalFeeParameters,
+        volume: number,
+        options: FeeTierOptions = {}
+    ): FeeTierCalculation {
+        if (feeTiers.length === 0) {
+            throw new Error("No fee tiers available");
+        }
+
+        const sortedTiers = [...feeTiers].sort((a, b) => parseFloat(a.volume) - parseFloat(b.volume));
+        const tierIndex = sortedTiers.reduce(
+            (current, tier, idx) => (volume >= parseFloat(tier.volume) ? idx : current),
+            0
+        );
+        const tier = sortedTiers[tierIndex];
+        const nextTier = sortedTiers[tierIndex + 1] || null;
+
+        const ogDiscount = options.isOg ? parseFloat(globalFees.og_discount) || 0 : 0;
+        const refereeDiscount = options.isReferee ? parseFloat(globalFees.referee_discount) || 0 : 0;
+        const discount = Math.max(ogDiscount, refereeDiscount);
+        const discountSource = discount === 0 ? null : ogDiscount >= refereeDiscount ? "og" : "referee";
+
+        const applyDiscount = (fee: number) => (fee > 0 ? fee * (1 - discount) : fee);
+        const baseMakerFee = parseFloat(tier.maker_fee);
+        const baseTakerFee = parseFloat(tier.taker_fee);
+
+        const referrerRebate = options.isAffiliate
+            ? parseFloat(globalFees.affiliate_referrer_rebate) || 0
+            : options.isReferrer
+                ? parseFloat(globalFees.referrer_rebate) || 0
+                : 0;
+
+        return {
+            volume,
+            tier,
+            nextTier,
+            volumeToNextTier: nextTier ? Math.max(0, parseFloat(nextTier.volume) - volume) : null,
+            baseMakerFee,
+            baseTakerFee,
+            discount,
+            discountSource,
+            effectiveMakerFee: applyDiscount(baseMakerFee),
+            effectiveTakerFee: applyDiscount(baseTakerFee),
+            referrerRebate
+        };
+    }
+
+    /**
+     * Formats a fee/discount given as a decimal fraction ("0.0004") as a percentage ("0.0400%").
+     */
+    formatFeeRate(rate: string | number | null | undefined, fractionDigits: number = 4): string {
+        const num = typeof rate === 'string' ? parseFloat(rate) : rate;
+        if (num === null || num === undefined || !Number.isFinite(num)) {
+            return 'N/A';
+        }
+        return `${(num * 100).toFixed(fractionDigits)}%`;
+    }
+
+    formatVolume(volume: string | number): string {
+        const num = typeof volume === 'string' ? parseFloat(volume) : volume;
+        if (!Number.isFinite(num)) {
+            return 'N/A';
+        }
+        return `$${num.toLocaleString('en-US', { maximumFractionDigits: 0 })}`;
+    }
+}
+
+export const reyaFeeProvider: Provider = {
+    name: "reyaFeeProvider",
+    get: async (
+        runtime: IAgentRuntime,
+        _message: Memory,
+        state?: State
+    ): Promise<ReyaProviderResponse> => {
+        // Only fetch fee parameters when the user is talking about fees
+        const messageText = _message.content?.text?.toLowerCase() || "";
+        const feeKeywords = [
+            'fee', 'maker', 'taker', 'rebate', 'discount', 'referral', 'referee',
+            'комисси', 'ребейт', 'скидк', 'реферал'
+        ];
+
+        const isFeeRelated = feeKeywords.some(keyword => messageText.includes(keyword));
+
+        if (!isFeeRelated) {
+            elizaLogger.debug("Message not fee-related, skipping fee provider");
+            return { message: "" };
+        }
+
+        try {
+            const feeService = getReyaService(runtime).fees;
+            const feeTiers = await feeService.getFeeTiers();
+            const globalFees = await feeService.getGlobalFeeParameters();
+
+            const baseTier = feeTiers[0];
+            const topTier = feeTiers[feeTiers.length - 1];
+
+            const message = `Reya Network has ${feeTiers.length} volume-based fee tiers. ${baseTier ? `Base tier: maker ${feeService.formatFeeRate(baseTier.maker_fee)}, taker ${feeService.formatFeeRate(baseTier.taker_fee)}.` : ''} ${topTier && topTier !== baseTier ? `Top tier (from ${feeService.formatVolume(topTier.volume)} volume): maker ${feeService.formatFeeRate(topTier.maker_fee)}, taker ${feeService.formatFeeRate(topTier.taker_fee)}.` : ''} OG discount: ${feeService.formatFeeRate(globalFees.og_discount, 2)}, referee discount: ${feeService.formatFeeRate(globalFees.referee_discount, 2)}, referrer rebate: ${feeService.formatFeeRate(globalFees.referrer_rebate, 2)}.`;
+
+            return { message: message.replace(/\s+/g, ' ').trim() };
+        } catch (error) {
+            elizaLogger.error(`Error in Reya Fee provider: ${error instanceof Error ? error.message : String(error)}`);
+            return {
+                message: "Failed to fetch fee data from Reya Network",
+                error: error instanceof Error ? error.message : "Unknown error"
+            };
+        }
+    },
+};
@@ -7,17 +7,19 @@ import {
 } from "@elizaos/core";
 
 import NodeCache from "node-cache";
-import { getReyaConfig } from "../environment.js";
+import { ReyaHttpClient } from "../services/httpClient.js";
+import { getReyaService } from "../services/reyaService.js";
 import { API_ENDPOINTS, CACHE_TTL } from "../constants/index.js";
+import { MarketSchema, MarketDataSchema } from "../types/schemas.js";
 import type { Market, MarketData, ReyaProviderResponse } from "../types/index.js";
 
 export class ReyaMarketService {
     private cache: NodeCache;
-    private baseUrl: string;
+    private client: ReyaHttpClient;
 
-    constructor(baseUrl: string) {
-        this.baseUrl = baseUrl;
-        this.cache = new NodeCache({ stdTTL: CACHE_TTL.MARKETS });
+    constructor(baseUrl: string, client?: ReyaHttpClient, cache?: NodeCache) {
+        this.client = client ?? new ReyaHttpClient({ baseUrl });
+        this.cache = cache ?? new NodeCache({ stdTTL: CACHE_TTL.MARKETS });
     }
 
     async getMarkets(): Promise<Market[]> {
@@ -30,18 +32,11 @@ export class ReyaMarketService {
             }
             elizaLogger.info("Cache miss for getMarkets");
 
-            const fetchUrl = `${this.baseUrl}${API_ENDPOINTS.MARKETS}`;
-            const response = await fetch(fetchUrl);
-            
-            if (!response.ok) {
-                throw new Error(`HTTP error! status: ${response.status}`);
-            }
-
-            const markets: Market[] = await response.json();
+            const markets = await this.client.getList(API_ENDPOINTS.MARKETS, MarketSchema);
             this.cache.set(cacheKey, markets, CACHE_TTL.MARKETS);
             return markets;
         } catch (error) {
-            elizaLogger.error("Error fetching markets:", error);
+            elizaLogger.error({ err: error }, "Error fetching markets");
             throw error;
         }
     }
@@ -56,18 +51,11 @@ export class ReyaMarketService {
             }
             elizaLogger.info("Cache miss for getMarketsData");
 
-            const fetchUrl = `${this.baseUrl}${API_ENDPOINTS.MARKETS_DATA}`;
-            const response = await fetch(fetchUrl);
-            
-            if (!response.ok) {
-                throw new Error(`HTTP error! status: ${response.status}`);
-            }
-
-            const marketsData: MarketData[] = await response.json();
+            const marketsData = await this.client.getList(API_ENDPOINTS.MARKETS_DATA, MarketDataSchema);
             this.cache.set(cacheKey, marketsData, CACHE_TTL.MARKET_DATA);
             return marketsData;
         } catch (error) {
-            elizaLogger.error("Error fetching markets data:", error);
+            elizaLogger.error({ err: error }, "Error fetching markets data");
             throw error;
         }
     }
@@ -82,18 +70,11 @@ export class ReyaMarketService {
             }
             elizaLogger.info(`Cache miss for getMarketData ${marketId}`);
 
-            const fetchUrl = `${this.baseUrl}${API_ENDPOINTS.MARKET_DATA(marketId)}`;
-            const response = await fetch(fetchUrl);
-            
-            if (!response.ok) {
-                throw new Error(`HTTP error! status: ${response.status}`);
-            }
-
-            const marketData: MarketData = await response.json();
+            const marketData = await this.client.getValidated(API_ENDPOINTS.MARKET_DATA(marketId), MarketDataSchema);
             this.cache.set(cacheKey, marketData, CACHE_TTL.MARKET_DATA);
             return marketData;
         } catch (error) {
-            elizaLogger.error(`Error fetching market data for ${marketId}:`, error);
+            elizaLogger.error({ err: error }, `Error fetching market data for ${marketId}`);
             throw error;
         }
     }
@@ -111,9 +92,9 @@ export class ReyaMarketService {
     }
 }
 
+// Kept for backwards compatibility; returns the runtime's shared instance.
 export const initMarketService = async (runtime: IAgentRuntime): Promise<ReyaMarketService> => {
-    const config = getReyaConfig(runtime);
-    return new ReyaMarketService(config.REYA_API_BASE_URL);
+    return getReyaService(runtime).markets;
 };
 
 export const reyaMarketProvider: Provider = {
@@ -140,34 +121,13 @@ export const reyaMarketProvider: Provider = {
             return { message: "" }; // Return empty response
         }
         
-        console.log("🚨 REYA MARKET PROVIDER CALLED! 🚨");
-        elizaLogger.info("🚨 REYA MARKET PROVIDER STARTED");
+        elizaLogger.debug("Reya market provider started");
         
         try {
-            const marketService = await initMarketService(runtime);
+            const marketService = getReyaService(runtime).markets;
             const markets = await marketService.getMarkets();
             const marketsData = await marketService.getMarketsData();
 
-            console.log(`✅ Fetched ${markets.length} markets`);
-            
-            // Look for SOL markets
-            const solMarkets = markets.filter(m => 
-                m.ticker.toUpperCase().includes('SOL') || 
-                m.name.toUpperCase().includes('SOL')
-            );
-            
-            if (solMarkets.length > 0) {
-                console.log("💰 SOL MARKETS FOUND:", solMarkets.map(m => ({
-                    id: m.id,
-                    ticker: m.ticker,
-                    name: m.name,
-                    isActive: m.isActive
-                })));
-            } else {
-                console.log("❌ No SOL markets found");
-                console.log("📋 Sample market tickers:", markets.slice(0, 10).map(m => m.ticker));
-            }
-
             const activeMarkets = markets.filter(m => m.isActive);
             const topMarkets = await marketService.getTopMarketsByVolume(3);
 
@@ -176,13 +136,11 @@ export const reyaMarketProvider: Provider = {
                 return `${market?.ticker || m.marketId} ($${m.last24hVolume.toLocaleString()})`;
             }).join(', ')}. Platform offers cross-margining, unified liquidity, and 100ms block times.`;
 
-            console.log("🎯 MARKET MESSAGE:", message);
-            elizaLogger.info("🎯 REYA MARKET PROVIDER COMPLETED");
+            elizaLogger.debug(`Reya market provider completed: ${message}`);
 
             return { message };
         } catch (error) {
-            console.error("💥 ERROR in Reya Market provider:", error);
-            elizaLogger.error("Error in Reya Market provider:", error);
+            elizaLogger.error({ err: error }, "Error in Reya Market provider");
             return {
                 message: "Failed to fetch market data from Reya Network",
                 error: error instanceof Error ? error.message : "Unknown error"
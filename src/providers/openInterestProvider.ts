@@ -0,0 +1,65 @@
+import {
+    type IAgentRuntime,
+    type Memory,
+    type Provider,
+    type State,
+    elizaLogger,
+} from "@elizaos/core";
+
+import { getReyaService } from "../services/reyaService.js";
+import { formatCompact, formatSignedPercent } from "../services/marketTable.js";
+import {
+    isOpenInterestRequest,
+    buildOpenInterestReport,
+    loadOpenInterestSnapshot,
+} from "../services/openInterest.js";
+import type { ReyaProviderResponse } from "../types/index.js";
+
+/**
+ * Platform-wide open interest and skew as structured data (the full
+ * OpenInterestReport) plus a one-line summary. It reads the last report's
+ * snapshot but doesn't replace it, so only GET_REYA_OPEN_INTEREST moves the
+ * baseline changes are measured from.
+ */
+export const reyaOpenInterestProvider: Provider = {
+    name: "reyaOpenInterestProvider",
+    get: async (
+        runtime: IAgentRuntime,
+        _message: Memory,
+        state?: State
+    ): Promise<ReyaProviderResponse> => {
+        // Only fetch when the user is talking about open interest or skew
+        const messageText = _message.content?.text || "";
+
+        if (!isOpenInterestRequest(messageText)) {
+            elizaLogger.debug("Message not about open interest, skipping open interest provider");
+            return { message: "" };
+        }
+
+        try {
+            const reyaService = getReyaService(runtime);
+            const report = buildOpenInterestReport(
+                await reyaService.markets.getMarkets(),
+                await reyaService.markets.getMarketsData(),
+                await reyaService.prices.getPrices(),
+                await loadOpenInterestSnapshot(runtime)
+            );
+
+            const top = report.entries[0];
+            const long = report.longCrowded[0];
+            const short = report.shortCrowded[0];
+            const message = `Reya Network open interest is $${formatCompact(report.totalNotional)} across ${report.entries.length} markets${report.previous?.totalChangePercent != null ? ` (${formatSignedPercent(report.previous.totalChangePercent)} since the last report)` : ""}. ${top ? `Largest: ${top.ticker} with ${top.share.toFixed(1)}%.` : ""} ${long ? `Most long-heavy: ${long.ticker} (${long.longSkewPercentage.toFixed(0)}% long).` : ""} ${short ? `Most short-heavy: ${short.ticker} (${short.shortSkewPercentage.toFixed(0)}% short).` : ""}`;
+
+            return {
+                message: message.replace(/\s+/g, ' ').trim(),
+                data: report
+            };
+        } catch (error) {
+            elizaLogger.error(`Error in Reya open interest provider: ${error instanceof Error ? error.message : String(error)}`);
+            return {
+                message: "Failed to fetch open interest data from Reya Network",
+                error: error instanceof Error ? error.message : "Unknown error"
+            };
+        }
+    },
+};
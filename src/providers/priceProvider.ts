@@ -7,17 +7,19 @@ import {
 } from "@elizaos/core";
 
 import NodeCache from "node-cache";
-import { getReyaConfig } from "../environment.js";
+import { ReyaHttpClient } from "../services/httpClient.js";
+import { getReyaService } from "../services/reyaService.js";
 import { API_ENDPOINTS, CACHE_TTL } from "../constants/index.js";
-import type { Price, PricesResponse, ReyaProviderResponse } from "../types/index.js";
+import { PriceSchema } from "../types/schemas.js";
+import type { Price, ReyaProviderResponse } from "../types/index.js";
 
 export class ReyaPriceService {
     private cache: NodeCache;
-    private baseUrl: string;
+    private client: ReyaHttpClient;
 
-    constructor(baseUrl: string) {
-        this.baseUrl = baseUrl;
-        this.cache = new NodeCache({ stdTTL: CACHE_TTL.PRICES });
+    constructor(baseUrl: string, client?: ReyaHttpClient, cache?: NodeCache) {
+        this.client = client ?? new ReyaHttpClient({ baseUrl });
+        this.cache = cache ?? new NodeCache({ stdTTL: CACHE_TTL.PRICES });
     }
 
     async getPrices(): Promise<Price[]> {
@@ -30,14 +32,7 @@ export class ReyaPriceService {
             }
             elizaLogger.info("Cache miss for getPrices");
 
-            const fetchUrl = `${this.baseUrl}${API_ENDPOINTS.PRICES}`;
-            const response = await fetch(fetchUrl);
-            
-            if (!response.ok) {
-                throw new Error(`HTTP error! status: ${response.status}`);
-            }
-
-            const pricesResponse: PricesResponse = await response.json();
+            const pricesResponse = await this.client.getRecord(API_ENDPOINTS.PRICES, PriceSchema);
             // Convert object to array with assetPairId
             const prices: Price[] = Object.entries(pricesResponse).map(([assetPairId, price]) => ({
                 ...price,
@@ -47,7 +42,7 @@ export class ReyaPriceService {
             this.cache.set(cacheKey, prices, CACHE_TTL.PRICES);
             return prices;
         } catch (error) {
-            elizaLogger.error("Error fetching prices:", error);
+            elizaLogger.error({ err: error }, "Error fetching prices");
             throw error;
         }
     }
@@ -62,18 +57,11 @@ export class ReyaPriceService {
             }
             elizaLogger.info(`Cache miss for getPrice ${assetPairId}`);
 
-            const fetchUrl = `${this.baseUrl}${API_ENDPOINTS.PRICE_BY_PAIR(assetPairId)}`;
-            const response = await fetch(fetchUrl);
-            
-            if (!response.ok) {
-                throw new Error(`HTTP error! status: ${response.status}`);
-            }
-
-            const price: Price = await response.json();
+            const price = await this.client.getValidated(API_ENDPOINTS.PRICE_BY_PAIR(assetPairId), PriceSchema);
             this.cache.set(cacheKey, price, CACHE_TTL.PRICES);
             return price;
         } catch (error) {
-            elizaLogger.error(`Error fetching price for ${assetPairId}:`, error);
+            elizaLogger.error({ err: error }, `Error fetching price for ${assetPairId}`);
             throw error;
         }
     }
@@ -177,9 +165,9 @@ export class ReyaPriceService {
     }
 }
 
+// Kept for backwards compatibility; returns the runtime's shared instance.
 export const initPriceService = async (runtime: IAgentRuntime): Promise<ReyaPriceService> => {
-    const config = getReyaConfig(runtime);
-    return new ReyaPriceService(config.REYA_API_BASE_URL);
+    return getReyaService(runtime).prices;
 };
 
 export const reyaPriceProvider: Provider = {
@@ -228,18 +216,12 @@ export const reyaPriceProvider: Provider = {
             return { message: "" }; // Return empty response
         }
         
-        console.log("🚨 REYA PRICE PROVIDER CALLED! 🚨");
-        elizaLogger.info("🚨 REYA PRICE PROVIDER STARTED");
+        elizaLogger.debug("Reya price provider started");
         
         try {
-            const priceService = await initPriceService(runtime);
-            console.log("✅ Price service initialized");
-            
+            const priceService = getReyaService(runtime).prices;
             const prices = await priceService.getPrices();
-            console.log(`✅ Fetched ${prices.length} prices from API`);
-            
             const summary = await priceService.getPricesSummary();
-            console.log("✅ Generated price summary:", summary);
 
             const valid = prices.filter(p => p?.price != null && Number.isFinite(parseFloat(p.price)));
             const topPrices = valid
@@ -247,36 +229,11 @@ export const reyaPriceProvider: Provider = {
                 .map(p => `Market ${p.marketId}: $${priceService.formatPrice(p.price)}`)
                 .join(', ');
 
-            console.log("🔥 TOP 3 PRICES:", topPrices);
-            
-            // Log detailed info about SOL if present
             const solPrice = prices.find(p => {
                 // Try to find SOL-related market (might need to check market data too)
                 return String(p.marketId).includes("SOL") || p.assetPairId?.includes("SOL");
             });
             
-            if (solPrice) {
-                console.log("💰 SOL PRICE FOUND:", {
-                    marketId: solPrice.marketId,
-                    price: solPrice.price,
-                    oraclePrice: solPrice.oraclePrice,
-                    poolPrice: solPrice.poolPrice,
-                    formatted: {
-                        price: priceService.formatPrice(solPrice.price),
-                        oracle: priceService.formatPrice(solPrice.oraclePrice),
-                        pool: priceService.formatPrice(solPrice.poolPrice)
-                    }
-                });
-            } else {
-                console.log("❌ SOL price not found in", prices.length, "prices");
-                // Log first few prices to see structure
-                console.log("📋 Sample prices:", prices.slice(0, 3).map(p => ({
-                    marketId: p.marketId,
-                    price: p.price,
-                    assetPairId: p.assetPairId
-                })));
-            }
-
             // Create detailed SOL price info if found
             let solPriceInfo = "";
             if (solPrice) {
@@ -285,13 +242,11 @@ export const reyaPriceProvider: Provider = {
 
             const message = `REYA NETWORK LIVE PRICE DATA: ${summary.totalMarkets} active price feeds.${solPriceInfo} Top markets: ${topPrices}. Last update: ${summary.lastUpdate ? new Date(summary.lastUpdate).toLocaleTimeString() : 'N/A'}.`;
             
-            console.log("🎯 FINAL MESSAGE:", message);
-            elizaLogger.info("🎯 REYA PRICE PROVIDER COMPLETED - MESSAGE:", message);
+            elizaLogger.debug(`Reya price provider completed: ${message}`);
 
             return { message };
         } catch (error) {
-            console.error("💥 ERROR in Reya Price provider:", error);
-            elizaLogger.error("Error in Reya Price provider:", error);
+            elizaLogger.error({ err: error }, "Error in Reya Price provider");
             return {
                 message: "Failed to fetch price data from Reya Network",
                 error: error instanceof Error ? error.message : "Unknown error"
@@ -0,0 +1,603 @@
+import { type IAgentRuntime, type UUID, Service, elizaLogger } from "@elizaos/core";
+
+import { getReyaConfig } from "../environment.js";
+import { ALERTS } from "../constants/index.js";
+import { getReyaService } from "./reyaService.js";
+import { parseTimeWindow, formatDuration } from "./historyService.js";
+import { annualizeFundingRate, describeFunding, formatFundingRate } from "./funding.js";
+import { premiumBps, describePremium, formatBps } from "./premium.js";
+import type {
+    AlertCondition,
+    ChartPoint,
+    FundingAlertCondition,
+    MarketAlert,
+    MarketData,
+    PremiumAlertCondition,
+    Price,
+    PriceAlertCondition,
+} from "../types/index.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// What's stored under ALERTS.CACHE_KEY
+interface AlertBook {
+    nextId: number;
+    alerts: MarketAlert[];
+}
+
+export type AlertCommand = "set" | "list" | "cancel";
+
+const ALERT_WORDS = /alert|notify|notification|tell me when|let me know|ping me|warn me|subscribe|уведом|оповест|оповещ|сообщи|напиши,? когда|алерт|предупреди|подпиш/;
+const LIST_WORDS = /\b(list|show|my|what|which|active|pending)\b|покажи|мои|какие|список|активн/;
+const CANCEL_WORDS = /\b(cancel|remove|delete|stop|clear|disable|unsubscribe)\b|отмени|удали|убери|сними|выключи|отпиш/;
+const FUNDING_WORDS = /funding|фандинг/;
+
+/**
+ * Whether a message sets, lists or cancels alerts. Null when it doesn't
+ * talk about alerts at all.
+ */
+export function classifyAlertRequest(text: string): AlertCommand | null {
+    const lower = text.toLowerCase();
+    if (!ALERT_WORDS.test(lower)) {
+        return null;
+    }
+    if (CANCEL_WORDS.test(lower)) return "cancel";
+    // "alert me if..." has a condition; "show my alerts" doesn't
+    if (LIST_WORDS.test(lower) && !/\d|negative|positive|отрицат|положит/.test(lower)) return "list";
+    return "set";
+}
+
+// Funding alerts go to SET_REYA_FUNDING_ALERT, premium alerts (isPremiumRequest)
+// to SET_REYA_PREMIUM_ALERT, everything else is a price alert
+export const isFundingAlertRequest = (text: string): boolean =>
+    FUNDING_WORDS.test(text.toLowerCase());
+
+// Words that say which way the price should go
+const UP_WORDS = /rises?|rising|pumps?|jumps?|gains?|rall(y|ies)|soars?|above|exceeds?|(?<!\p{L})up(?!\p{L})|выше|выраст|раст[её]т|подним|подорож|превыс/u;
+const DOWN_WORDS = /drops?|dropping|falls?|fell|dumps?|declines?|loses|crash|below|under|(?<!\p{L})down(?!\p{L})|ниже|упад|пада|сниз|просяд|опуст|подешев/u;
+
+const PERCENT = /(\d+(?:[.,]\d+)?)\s*(?:%|percent|процент\p{L}*)/u;
+// "4000", "4,000", "$4,000.50", "0,25", "4k"; not digits inside tickers like 1000PEPE
+const LEVEL = /(?<![\p{L}\d.,])\$?(\d+(?:,\d{3})+(?:\.\d+)?|\d+(?:[.,]\d+)?)\s*(k|к)?(?![\p{L}\d%])/u;
+
+/**
+ * The parts of an alert condition, as the extraction prompt returns them or
+ * as parseAlertFields reads them from text.
+ */
+export interface AlertFields {
+    level?: number;
+    percent?: number;
+    // up/down/any, or above/below for a level
+    direction?: string;
+    // "1h", "30 minutes"...; only used with a percent
+    window?: string;
+}
+
+export function parseAlertFields(text: string): AlertFields {
+    const lower = text.toLowerCase();
+    const direction = UP_WORDS.test(lower) ? "up" : DOWN_WORDS.test(lower) ? "down" : undefined;
+
+    const percent = lower.match(PERCENT);
+    if (percent) {
+        return {
+            percent: parseFloat(percent[1].replace(",", ".")),
+            direction: direction ?? "any",
+            window: lower.replace(percent[0], " "),
+        };
+    }
+
+    const level = lower.match(LEVEL);
+    if (level) {
+        const digits = /,\d{3}(?!\d)/.test(level[1]) ? level[1].replace(/,/g, "") : level[1].replace(",", ".");
+        return {
+            level: parseFloat(digits) * (level[2] ? 1000 : 1),
+            direction,
+        };
+    }
+    return {};
+}
+
+/**
+ * Turns fields into a condition against the current mark price. A level
+ * without a direction is watched from whichever side the price is on now.
+ * Null when neither a level nor a percent is given.
+ */
+export function buildAlertCondition(fields: AlertFields, currentPrice: number): PriceAlertCondition | null {
+    const direction = (fields.direction || "").toLowerCase();
+
+    if (fields.percent !== undefined && fields.percent > 0) {
+        const window = parseTimeWindow(fields.window || "");
+        return {
+            kind: "move",
+            percent: fields.percent,
+            direction: /up|above|rise/.test(direction) ? "up" : /down|below|drop|fall/.test(direction) ? "down" : "any",
+            windowMs: Math.min(window?.ms ?? ALERTS.DEFAULT_MOVE_WINDOW_HOURS * HOUR_MS, ALERTS.MAX_MOVE_WINDOW_HOURS * HOUR_MS),
+        };
+    }
+
+    if (fields.level !== undefined && fields.level > 0) {
+        const above = /up|above|rise/.test(direction) ? true
+            : /down|below|drop|fall/.test(direction) ? false
+                : fields.level > currentPrice;
+        return { kind: "cross", level: fields.level, direction: above ? "above" : "below" };
+    }
+    return null;
+}
+
+export const parseAlertCondition = (text: string, currentPrice: number): PriceAlertCondition | null =>
+    buildAlertCondition(parseAlertFields(text), currentPrice);
+
+const ANY_MARKET = /\b(any|all|every)\b|(?<!\p{L})(любо\p{L}*|все\p{L}*|кажд\p{L}*)\s+рын/u;
+
+export const isAnyMarketRequest = (text: string): boolean => ANY_MARKET.test(text.toLowerCase());
+
+/**
+ * Reads a funding condition: an APR threshold ("above 50% APR"; any percent
+ * in a funding alert is taken as annualized) or a sign flip ("flips
+ * negative", "turns positive", "flips"). Null when neither is given.
+ */
+export function parseFundingAlertCondition(text: string): FundingAlertCondition | null {
+    const lower = text.toLowerCase();
+
+    const percent = lower.match(PERCENT) ?? lower.match(/(\d+(?:[.,]\d+)?)\s*(?:apr|apy|annual\p{L}*|годов\p{L}*)/u);
+    if (percent) {
+        return { kind: "fundingApr", aprPercent: parseFloat(percent[1].replace(",", ".")) };
+    }
+    if (/negative|below zero|отрицат|минус/.test(lower)) {
+        return { kind: "fundingFlip", to: "negative" };
+    }
+    if (/positive|above zero|положит|плюс/.test(lower)) {
+        return { kind: "fundingFlip", to: "positive" };
+    }
+    if (/flip|turn|chang|sign|смен|переверн|измен/.test(lower)) {
+        return { kind: "fundingFlip", to: "either" };
+    }
+    return null;
+}
+
+// Whether `rate` (per `periodHours`) is on the side a funding condition waits for
+export function fundingConditionMet(condition: FundingAlertCondition, rate: number, periodHours: number): boolean {
+    if (condition.kind === "fundingApr") {
+        return Math.abs(annualizeFundingRate(rate, periodHours)) >= condition.aprPercent;
+    }
+    return condition.to === "negative" ? rate < 0 : condition.to === "positive" ? rate > 0 : false;
+}
+
+type FormatPrice = (price: number) => string;
+
+// "ETH-rUSD crosses above $4,000", "SOL-rUSD drops 5% within 1h", "BTC-rUSD funding flips negative"
+export function describeAlert(alert: Pick<MarketAlert, "ticker" | "condition">, formatPrice: FormatPrice): string {
+    const condition = alert.condition;
+    const subject = alert.ticker ? `**${alert.ticker}**` : "Any market";
+
+    switch (condition.kind) {
+        case "cross":
+            return `${subject} crosses ${condition.direction} $${formatPrice(condition.level)}`;
+        case "move": {
+            const verb = condition.direction === "up" ? "rises" : condition.direction === "down" ? "drops" : "moves";
+            return `${subject} ${verb} ${condition.direction === "any" ? "±" : ""}${condition.percent}% within ${formatDuration(condition.windowMs)}`;
+        }
+        case "fundingFlip":
+            return `${subject} funding flips ${condition.to === "either" ? "sign" : condition.to}`;
+        case "fundingApr":
+            return `${subject} funding above ${condition.aprPercent}% APR`;
+        case "premium":
+            return `${subject} pool ${condition.bps} bps or more from oracle`;
+    }
+}
+
+// " at $3,850.00", " at +0.0025%/h" or " at +4.4 bps"; empty for every-market alerts
+export function describeAlertReference(alert: MarketAlert, formatPrice: FormatPrice, fundingPeriodHours: number): string {
+    if (alert.reference === null) {
+        return "";
+    }
+    return isFundingCondition(alert.condition) ? ` at ${formatFundingRate(alert.reference, fundingPeriodHours)}`
+        : alert.condition.kind === "premium" ? ` at ${formatBps(alert.reference)}`
+            : ` at $${formatPrice(alert.reference)}`;
+}
+
+export interface AlertTrigger {
+    alert: MarketAlert;
+    timestamp: number;
+    // Price alerts: the mark price that triggered, and for moves the price
+    // the move is measured from
+    price?: number;
+    baseline?: ChartPoint;
+    changePercent?: number;
+    // Funding and premium alerts: the markets that triggered
+    funding?: MarketData[];
+    premium?: Price[];
+}
+
+/**
+ * Checks one price alert against the current price. For moves,
+ * `observations` are the market's recent prices (oldest first); only those
+ * inside the window and after the alert was set count, along with the price
+ * it was set at.
+ */
+export function evaluateAlert(
+    alert: MarketAlert,
+    price: number,
+    observations: ChartPoint[],
+    now: number = Date.now()
+): AlertTrigger | null {
+    const condition = alert.condition;
+
+    if (condition.kind === "cross") {
+        const crossed = condition.direction === "above" ? price >= condition.level : price <= condition.level;
+        return crossed ? { alert, price, timestamp: now } : null;
+    }
+    if (condition.kind !== "move") {
+        return null;
+    }
+
+    const since = Math.max(now - condition.windowMs, alert.createdAt);
+    const window = [
+        ...(alert.reference !== null && alert.createdAt >= now - condition.windowMs ? [{ timestamp: alert.createdAt, value: alert.reference }] : []),
+        ...observations.filter(o => o.timestamp >= since && o.timestamp <= now),
+    ].filter(o => o.value > 0);
+
+    let best: AlertTrigger | null = null;
+    for (const baseline of window) {
+        const changePercent = ((price - baseline.value) / baseline.value) * 100;
+        const moved = condition.direction === "up" ? changePercent >= condition.percent
+            : condition.direction === "down" ? -changePercent >= condition.percent
+                : Math.abs(changePercent) >= condition.percent;
+        if (moved && (!best || Math.abs(changePercent) > Math.abs(best.changePercent!))) {
+            best = { alert, price, timestamp: now, baseline, changePercent };
+        }
+    }
+    return best;
+}
+
+/**
+ * Checks one funding alert against markets/data. A single-market alert is
+ * compared with the rate it was set at, so it fires once the condition
+ * starts to hold. An every-market alert fires for markets that cross into
+ * the condition between `previous` (rates at the last check) and now;
+ * markets without a previous rate are skipped, so markets that already
+ * qualified when it was set don't fire it.
+ */
+export function evaluateFundingAlert(
+    alert: MarketAlert,
+    marketsData: MarketData[],
+    previous: Map<string, number>,
+    periodHours: number,
+    now: number = Date.now()
+): AlertTrigger | null {
+    const condition = alert.condition;
+    if (!isFundingCondition(condition)) {
+        return null;
+    }
+
+    const crossed = (rate: number, before: number): boolean =>
+        condition.kind === "fundingFlip" && condition.to === "either"
+            ? rate !== 0 && Math.sign(before) !== Math.sign(rate)
+            : fundingConditionMet(condition, rate, periodHours) && !fundingConditionMet(condition, before, periodHours);
+
+    const hits = crossingMarkets(alert, marketsData.map(data => [data.marketId, data.fundingRate, data] as const), previous, crossed);
+    return hits.length > 0 ? { alert, timestamp: now, funding: hits } : null;
+}
+
+/**
+ * Checks one premium alert against the batch prices, the same way as
+ * evaluateFundingAlert: a single market against the premium it was set
+ * at, every market against `previous` (premiums at the last check).
+ */
+export function evaluatePremiumAlert(
+    alert: MarketAlert,
+    prices: Price[],
+    previous: Map<string, number>,
+    now: number = Date.now()
+): AlertTrigger | null {
+    const condition = alert.condition;
+    if (condition.kind !== "premium") {
+        return null;
+    }
+
+    const crossed = (bps: number, before: number): boolean =>
+        premiumConditionMet(condition, bps) && !premiumConditionMet(condition, before);
+    const premiums = prices.flatMap(price => {
+        const bps = premiumBps(price);
+        return bps === null ? [] : [[String(price.marketId), bps, price] as const];
+    });
+
+    const hits = crossingMarkets(alert, premiums, previous, crossed);
+    return hits.length > 0 ? { alert, timestamp: now, premium: hits } : null;
+}
+
+// Whether a premium in bps is past a premium alert's threshold, either side
+export const premiumConditionMet = (condition: PremiumAlertCondition, bps: number): boolean =>
+    Math.abs(bps) >= condition.bps;
+
+// The items whose value crossed into the condition: a single-market alert
+// against its reference, an every-market alert against the previous check
+function crossingMarkets<T>(
+    alert: MarketAlert,
+    values: ReadonlyArray<readonly [string, number, T]>,
+    previous: Map<string, number>,
+    crossed: (value: number, before: number) => boolean
+): T[] {
+    return values.flatMap(([marketId, value, item]) => {
+        const before = alert.marketId !== null
+            ? (marketId === alert.marketId ? alert.reference ?? undefined : undefined)
+            : previous.get(marketId);
+        return before !== undefined && crossed(value, before) ? [item] : [];
+    });
+}
+
+export function formatAlertTrigger(
+    trigger: AlertTrigger,
+    formatPrice: FormatPrice,
+    fundingPeriodHours: number,
+    tickerOf: (marketId: string) => string = marketId => trigger.alert.ticker ?? `Market ${marketId}`
+): string {
+    const { alert, price = 0, baseline, changePercent } = trigger;
+    const condition = alert.condition;
+
+    switch (condition.kind) {
+        case "cross":
+            return `🔔 **${alert.ticker}** crossed ${condition.direction} $${formatPrice(condition.level)}: mark price is now $${formatPrice(price)}.`;
+        case "move": {
+            const change = changePercent ?? 0;
+            return `🔔 **${alert.ticker}** ${change >= 0 ? "rose" : "dropped"} ${Math.abs(change).toFixed(2)}% in ${formatDuration(trigger.timestamp - (baseline?.timestamp ?? alert.createdAt))}: $${formatPrice(baseline?.value ?? alert.reference ?? 0)} → $${formatPrice(price)}.`;
+        }
+        case "premium": {
+            const lines = (trigger.premium ?? []).map(price => `• ${describePremium(tickerOf(String(price.marketId)), price, formatPrice)}`);
+            return `🔔 Pool ${condition.bps} bps or more from oracle:\n${lines.join("\n")}`;
+        }
+        default: {
+            const what = condition.kind === "fundingApr"
+                ? `Funding above ${condition.aprPercent}% APR`
+                : `Funding flipped ${condition.to === "either" ? "sign" : condition.to}`;
+            const lines = (trigger.funding ?? []).map(data => `• ${describeFunding(tickerOf(data.marketId), data, fundingPeriodHours)}`);
+            return `🔔 ${what}:\n${lines.join("\n")}`;
+        }
+    }
+}
+
+function isFundingCondition(condition: AlertCondition): condition is FundingAlertCondition {
+    return condition.kind === "fundingFlip" || condition.kind === "fundingApr";
+}
+
+/**
+ * Keeps users' price, premium and funding alerts in the runtime cache, so
+ * they outlive a restart, and checks them against the batch prices and
+ * markets/data endpoints on an interval. A triggered alert is posted back
+ * to the room it was set in and removed.
+ */
+export class ReyaAlertService extends Service {
+    static serviceType = "reya-alerts";
+
+    capabilityDescription = "Watches Reya Network prices, pool premiums and funding and notifies rooms when users' alerts trigger";
+
+    readonly checkIntervalMs: number;
+    private timer: NodeJS.Timeout | null = null;
+    private checking: Promise<AlertTrigger[]> | null = null;
+    private writes: Promise<unknown> = Promise.resolve();
+    // Recent mark prices per market for move alerts, and each market's
+    // premium and funding rate at the last check; kept in memory only
+    private observations = new Map<string, ChartPoint[]>();
+    private premiumSeen = new Map<string, number>();
+    private fundingSeen = new Map<string, number>();
+
+    constructor(runtime: IAgentRuntime) {
+        super(runtime);
+        this.checkIntervalMs = getReyaConfig(runtime).REYA_ALERT_CHECK_INTERVAL_SEC * 1000;
+    }
+
+    static async start(runtime: IAgentRuntime): Promise<ReyaAlertService> {
+        const service = new ReyaAlertService(runtime);
+        const { alerts } = await service.load();
+
+        if (service.checkIntervalMs > 0) {
+            elizaLogger.info(`Starting Reya alert watcher: ${alerts.length} alert(s), checked every ${formatDuration(service.checkIntervalMs)}`);
+            service.timer = setInterval(() => void service.tick(), service.checkIntervalMs);
+            // Never keep the process alive just to check alerts
+            service.timer.unref();
+        } else {
+            elizaLogger.info(`Reya alert watcher is off; ${alerts.length} alert(s) stored`);
+        }
+        return service;
+    }
+
+    static async stop(runtime: IAgentRuntime): Promise<void> {
+        const service = runtime.getService<ReyaAlertService>(ReyaAlertService.serviceType);
+        if (service) {
+            await service.stop();
+        }
+    }
+
+    async stop(): Promise<void> {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+        await this.checking?.catch(() => undefined);
+        await this.writes;
+    }
+
+    private async tick(): Promise<void> {
+        if (this.checking) {
+            return;
+        }
+        try {
+            await this.check();
+        } catch (error) {
+            elizaLogger.warn(`⚠️ Alert check failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    private async load(): Promise<AlertBook> {
+        return (await this.runtime.getCache<AlertBook>(ALERTS.CACHE_KEY)) ?? { nextId: 1, alerts: [] };
+    }
+
+    // Read-modify-write of the stored alerts, one at a time
+    private update<T>(change: (book: AlertBook) => T): Promise<T> {
+        const run = this.writes.then(async () => {
+            const book = await this.load();
+            const result = change(book);
+            await this.runtime.setCache(ALERTS.CACHE_KEY, book);
+            return result;
+        });
+        this.writes = run.catch(() => undefined);
+        return run;
+    }
+
+    async addAlert(alert: Omit<MarketAlert, "id" | "createdAt">): Promise<MarketAlert> {
+        return this.update(book => {
+            const created: MarketAlert = { ...alert, id: book.nextId++, createdAt: Date.now() };
+            book.alerts.push(created);
+            elizaLogger.info(`🔔 Alert #${created.id} set for ${created.ticker ?? "every market"} in room ${created.roomId}`);
+            return created;
+        });
+    }
+
+    async listAlerts(entityId?: string, roomId?: string): Promise<MarketAlert[]> {
+        const { alerts } = await this.load();
+        return alerts.filter(a => (!entityId || a.entityId === entityId) && (!roomId || a.roomId === roomId));
+    }
+
+    /**
+     * Removes this user's alerts in this room that `match` selects, and
+     * returns them.
+     */
+    async cancelAlerts(entityId: string, roomId: string, match: (alert: MarketAlert) => boolean): Promise<MarketAlert[]> {
+        return this.update(book => {
+            const removed = book.alerts.filter(a => a.entityId === entityId && a.roomId === roomId && match(a));
+            book.alerts = book.alerts.filter(a => !removed.includes(a));
+            return removed;
+        });
+    }
+
+    /**
+     * Checks every alert against the latest prices, premiums and funding,
+     * posts the ones that triggered and removes them. Returns what triggered.
+     */
+    async check(now: number = Date.now()): Promise<AlertTrigger[]> {
+        const run = (async () => {
+            const { alerts } = await this.load();
+            const priceAlerts = alerts.filter(a => a.condition.kind === "cross" || a.condition.kind === "move");
+            const premiumAlerts = alerts.filter(a => a.condition.kind === "premium");
+            const fundingAlerts = alerts.filter(a => isFundingCondition(a.condition));
+            if (priceAlerts.length === 0) {
+                this.observations.clear();
+            }
+            if (premiumAlerts.length === 0) {
+                this.premiumSeen.clear();
+            }
+            if (fundingAlerts.length === 0) {
+                this.fundingSeen.clear();
+            }
+
+            const reya = getReyaService(this.runtime);
+            const triggers: AlertTrigger[] = [];
+            const prices = priceAlerts.length > 0 || premiumAlerts.length > 0 ? await reya.prices.getPrices() : [];
+
+            if (priceAlerts.length > 0) {
+                const longestWindow = Math.max(0, ...priceAlerts.map(a => a.condition.kind === "move" ? a.condition.windowMs : 0));
+
+                for (const marketId of new Set(priceAlerts.map(a => a.marketId!))) {
+                    const price = parseFloat(prices.find(p => String(p.marketId) === marketId)?.price ?? "");
+                    if (!Number.isFinite(price) || price <= 0) {
+                        continue;
+                    }
+
+                    const observed = this.observations.get(marketId) ?? [];
+                    for (const alert of priceAlerts.filter(a => a.marketId === marketId)) {
+                        const trigger = evaluateAlert(alert, price, observed, now);
+                        if (trigger) {
+                            triggers.push(trigger);
+                        }
+                    }
+                    this.observations.set(marketId, [...observed, { timestamp: now, value: price }].filter(o => o.timestamp >= now - longestWindow));
+                }
+            }
+
+            if (premiumAlerts.length > 0) {
+                for (const alert of premiumAlerts) {
+                    const trigger = evaluatePremiumAlert(alert, prices, this.premiumSeen, now);
+                    if (trigger) {
+                        triggers.push(trigger);
+                    }
+                }
+                this.premiumSeen = new Map(prices.flatMap(price => {
+                    const bps = premiumBps(price);
+                    return bps === null ? [] : [[String(price.marketId), bps] as const];
+                }));
+            }
+
+            if (fundingAlerts.length > 0) {
+                const marketsData = await reya.markets.getMarketsData();
+                for (const alert of fundingAlerts) {
+                    const trigger = evaluateFundingAlert(alert, marketsData, this.fundingSeen, reya.fundingRatePeriodHours, now);
+                    if (trigger) {
+                        triggers.push(trigger);
+                    }
+                }
+                this.fundingSeen = new Map(marketsData.map(data => [data.marketId, data.fundingRate]));
+            }
+
+            if (triggers.length > 0) {
+                const fired = new Set(triggers.map(t => t.alert.id));
+                await this.update(book => {
+                    book.alerts = book.alerts.filter(a => !fired.has(a.id));
+                });
+
+                const tickers = triggers.some(t => t.funding || t.premium)
+                    ? new Map((await reya.markets.getMarkets()).map(m => [m.id, m.ticker]))
+                    : new Map<string, string>();
+                for (const trigger of triggers) {
+                    await this.notify(trigger, formatAlertTrigger(
+                        trigger,
+                        price => reya.prices.formatPrice(price),
+                        reya.fundingRatePeriodHours,
+                        marketId => tickers.get(marketId) ?? `Market ${marketId}`
+                    ));
+                }
+            }
+            return triggers;
+        })();
+
+        this.checking = run;
+        try {
+            return await run;
+        } finally {
+            if (this.checking === run) {
+                this.checking = null;
+            }
+        }
+    }
+
+    private async notify(trigger: AlertTrigger, text: string): Promise<void> {
+        const { alert } = trigger;
+        const content = {
+            text: `${text}\nAlert #${alert.id} is now removed.`,
+            source: alert.source,
+        };
+
+        try {
+            await this.runtime.sendMessageToTarget({
+                source: alert.source,
+                roomId: alert.roomId as UUID,
+                entityId: alert.entityId as UUID,
+            }, content);
+        } catch (error) {
+            // No send handler for this source; leave it in the room's history instead
+            elizaLogger.warn(`⚠️ Couldn't send alert #${alert.id} to ${alert.source}, saving it to room ${alert.roomId}: ${error instanceof Error ? error.message : String(error)}`);
+            await this.runtime.createMemory({
+                entityId: this.runtime.agentId,
+                agentId: this.runtime.agentId,
+                roomId: alert.roomId as UUID,
+                content,
+                createdAt: trigger.timestamp,
+            }, "messages");
+        }
+    }
+}
+
+/**
+ * The registered alert service, or null when the plugin runs without it.
+ */
+export const getAlertService = (runtime: IAgentRuntime): ReyaAlertService | null =>
+    runtime.getService<ReyaAlertService>(ReyaAlertService.serviceType) ?? null;
@@ -0,0 +1,95 @@
+import { CANDLES } from "../constants/index.js";
+import type { Candle, CandleInterval, CandleSource, HistorySample } from "../types/index.js";
+
+export const CANDLE_INTERVALS = Object.keys(CANDLES.INTERVAL_MS) as CandleInterval[];
+
+// "5m", "5-minute", "1h", "hourly", "часовые", "дневные"; plain nouns like
+// "3 days" are a time window, not an interval, so they don't count
+const INTERVAL_PATTERNS: Array<[RegExp, CandleInterval]> = [
+    [/(?<![\p{L}\d])5\s*-?\s*(m|mins?|minutes?|мин\p{L}*)(?!\p{L})|пятиминут/u, "5m"],
+    [/(?<![\p{L}\d])1\s*-?\s*(m|min|minute|мин\p{L}*)(?!\p{L})|\bminute\b|\bminutely\b|(?<!\p{L})минутн/u, "1m"],
+    [/(?<![\p{L}\d])1\s*-?\s*(h|hr|hour|час\p{L}*)(?!\p{L})|\bhourly\b|(?<!\p{L})часов(ые|ых|ой|ая)/u, "1h"],
+    [/(?<![\p{L}\d])1\s*-?\s*(d|day|д\p{L}*)(?!\p{L})|\bdaily\b|дневн|суточн/u, "1d"],
+];
+
+const CANDLE_KEYWORDS = ["candle", "ohlc", "свеч", "кэндл"];
+
+export const isCandleRequest = (text: string): boolean =>
+    CANDLE_KEYWORDS.some(keyword => text.toLowerCase().includes(keyword));
+
+/**
+ * Reads a candle interval from text: "1h", "hourly", "5m", "дневные".
+ * Returns null when none is named.
+ */
+export function parseCandleInterval(text: string): CandleInterval | null {
+    const lower = text.toLowerCase().trim();
+    if ((CANDLE_INTERVALS as string[]).includes(lower)) {
+        return lower as CandleInterval;
+    }
+    return INTERVAL_PATTERNS.find(([pattern]) => pattern.test(lower))?.[1] ?? null;
+}
+
+/**
+ * Buckets samples (oldest first) into OHLC bars of `interval` using one of
+ * the sampled prices. Buckets without samples are left out rather than
+ * filled, so gaps in recording stay visible.
+ *
+ * Volume is the rise in the rolling `last24hVolume` between consecutive
+ * samples, credited to the later sample's bar. Drops are counted as zero:
+ * they come from old trades leaving the 24h window, which the API does not
+ * break out, so volume is a lower bound. The first sample contributes no
+ * volume because there is nothing to diff it against, and volume seen on a
+ * sample without a price is carried into the next bar that gets one.
+ */
+export function buildCandles(
+    samples: HistorySample[],
+    interval: CandleInterval,
+    source: CandleSource = "price"
+): Candle[] {
+    const intervalMs = CANDLES.INTERVAL_MS[interval];
+    const candles: Candle[] = [];
+    let previousVolume: number | null = null;
+    // Volume from samples without a price, not yet credited to a bar
+    let carried = 0;
+
+    for (const sample of samples) {
+        const volume24h = sample.data?.last24hVolume ?? null;
+        carried += volume24h !== null && previousVolume !== null ? Math.max(0, volume24h - previousVolume) : 0;
+        if (volume24h !== null) {
+            previousVolume = volume24h;
+        }
+
+        const price = sample[source];
+        if (price === null || !Number.isFinite(price)) {
+            continue;
+        }
+        const traded = carried;
+        carried = 0;
+
+        const openTime = Math.floor(sample.timestamp / intervalMs) * intervalMs;
+        const current = candles[candles.length - 1];
+        if (current && current.openTime === openTime) {
+            current.high = Math.max(current.high, price);
+            current.low = Math.min(current.low, price);
+            current.close = price;
+            current.volume += traded;
+            current.samples++;
+        } else {
+            candles.push({
+                marketId: sample.marketId,
+                interval,
+                source,
+                openTime,
+                closeTime: openTime + intervalMs - 1,
+                open: price,
+                high: price,
+                low: price,
+                close: price,
+                volume: traded,
+                samples: 1,
+            });
+        }
+    }
+
+    return candles;
+}
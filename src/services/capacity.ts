@@ -0,0 +1,137 @@
+import { formatTable, formatCompact } from "./marketTable.js";
+import { marketBaseSymbol } from "./symbolResolver.js";
+import type { PositionSide } from "./position.js";
+import type { CapacitySide, Market, MarketCapacity, MarketData, Price } from "../types/index.js";
+
+const CAPACITY_KEYWORDS = /capacity|can i (?:open|go|buy|sell|long|short)|how (?:big|large|much) (?:a |of a )?(?:position|long|short|order)|max(?:imum)? (?:position|order|size|long|short)|room left|deepest|ёмкост|могу ли (?:я )?(?:открыть|зайти)|максимальн\p{L}* (?:позици|ордер|размер|лонг|шорт)/u;
+
+export const isCapacityRequest = (text: string): boolean => CAPACITY_KEYWORDS.test(text.toLowerCase());
+
+export interface CapacityCheck {
+    side: PositionSide;
+    notional: number;
+    base: number;               // the size in base units at the mark price
+    fits: boolean;              // within the capacity left on that side
+    orders: number | null;      // orders needed at the per-order cap; null without one
+    percentAvailable: number;   // capacity left as a share of the size asked for
+}
+
+const capacitySide = (base: number, orderBase: number, mark: number): CapacitySide => ({
+    base: Math.max(base, 0),
+    notional: Math.max(base, 0) * mark,
+    orderBase: Math.max(orderBase, 0),
+    orderNotional: Math.max(orderBase, 0) * mark,
+});
+
+/**
+ * Capacity left on each side of every market with data, priced at the mark
+ * from the batch prices (the market's own markPrice when it has none).
+ */
+export function buildCapacities(markets: Market[], marketsData: MarketData[], prices: Price[]): MarketCapacity[] {
+    return markets.flatMap(market => {
+        const data = marketsData.find(d => d.marketId === market.id);
+        if (!data) {
+            return [];
+        }
+        const price = parseFloat(prices.find(p => String(p.marketId) === market.id)?.price ?? "");
+        const mark = Number.isFinite(price) ? price : market.markPrice;
+        return [{
+            marketId: market.id,
+            ticker: market.ticker,
+            baseAsset: marketBaseSymbol(market),
+            markPrice: mark,
+            long: capacitySide(data.maxAmountBaseLong, data.maxAmountSizeLong, mark),
+            short: capacitySide(data.maxAmountBaseShort, data.maxAmountSizeShort, mark),
+        }];
+    });
+}
+
+// Whether a position of `notional` rUSD fits on one side, and in how many orders
+export function checkCapacity(capacity: MarketCapacity, notional: number, side: PositionSide): CapacityCheck {
+    const left = capacity[side];
+    return {
+        side,
+        notional,
+        base: capacity.markPrice > 0 ? notional / capacity.markPrice : 0,
+        fits: left.notional > 0 && notional <= left.notional,
+        orders: left.orderNotional > 0 ? Math.ceil(notional / left.orderNotional) : null,
+        percentAvailable: notional > 0 ? (left.notional / notional) * 100 : 0,
+    };
+}
+
+// Deepest first: on one side when given, otherwise both sides together
+export const rankByCapacity = (capacities: MarketCapacity[], side: PositionSide | null): MarketCapacity[] =>
+    [...capacities].sort((a, b) => side
+        ? b[side].notional - a[side].notional
+        : (b.long.notional + b.short.notional) - (a.long.notional + a.short.notional));
+
+// "501.83 ETH", "0.0311 BTC"
+const formatBase = (base: number, asset: string): string =>
+    `${base.toLocaleString("en-US", { maximumFractionDigits: base >= 1 ? 2 : 4 })} ${asset}`;
+
+// "820.5 ETH ($3.27M)"
+const formatSide = (base: number, notional: number, asset: string): string =>
+    `${formatBase(base, asset)} ($${formatCompact(notional)})`;
+
+/**
+ * One row per market, deepest first (on `side` when given): rUSD capacity
+ * left on each side and the per-order cap. With a size, a column says
+ * whether it fits on that side.
+ */
+export function buildCapacityTable(
+    capacities: MarketCapacity[],
+    side: PositionSide | null,
+    notional?: number
+): string {
+    const query = notional && notional > 0 ? { notional, side: side ?? "long" } : null;
+    const headers = ["Market", "Long left", "Short left", "Max order L/S"];
+    if (query) {
+        headers.push(`$${formatCompact(query.notional)} ${query.side}`);
+    }
+    const rows = rankByCapacity(capacities, side).map(capacity => {
+        const cells = [
+            capacity.ticker,
+            `$${formatCompact(capacity.long.notional)}`,
+            `$${formatCompact(capacity.short.notional)}`,
+            `$${formatCompact(capacity.long.orderNotional)} / $${formatCompact(capacity.short.orderNotional)}`,
+        ];
+        if (query) {
+            const check = checkCapacity(capacity, query.notional, query.side);
+            cells.push(!check.fits ? "❌" : check.orders && check.orders > 1 ? `⚠️ ${check.orders} orders` : "✅");
+        }
+        return cells;
+    });
+    return formatTable(headers, rows, ["left", "right", "right", "right", "left"]);
+}
+
+/**
+ * Answers "can I open it?" for one market: yes, yes but split across
+ * orders, or no with how much is left.
+ */
+export function describeCapacityCheck(
+    capacity: MarketCapacity,
+    check: CapacityCheck,
+    formatPrice: (price: number) => string
+): string {
+    const left = capacity[check.side];
+    const asset = capacity.baseAsset;
+    if (left.notional <= 0) {
+        return `❌ **${capacity.ticker}** has no ${check.side} capacity left right now.`;
+    }
+
+    const size = `A $${formatCompact(check.notional)} ${check.side} on **${capacity.ticker}** is about ${formatBase(check.base, asset)} at $${formatPrice(capacity.markPrice)}`;
+    const remaining = `${formatSide(left.base, left.notional, asset)} of ${check.side} capacity is left`;
+    if (!check.fits) {
+        return `❌ Not right now. ${size}, but only ${remaining}, ${check.percentAvailable.toFixed(0)}% of what you asked. That's the most you can open ${check.side} there now.`;
+    }
+    if (check.orders !== null && check.orders > 1) {
+        return `⚠️ It fits, but not in one order. ${size}. ${remaining}, but a single order is capped at ${formatSide(left.orderBase, left.orderNotional, asset)}, so it takes at least ${check.orders} orders.`;
+    }
+    return `✅ Yes. ${size}. ${remaining}${left.orderNotional > 0 ? `, and a single order can be up to ${formatSide(left.orderBase, left.orderNotional, asset)}` : ""}.`;
+}
+
+// "Long: 820.5 ETH ($3.27M) left, up to 250 ETH ($996.36K) per order"
+export const describeCapacitySide = (capacity: MarketCapacity, side: PositionSide): string => {
+    const left = capacity[side];
+    return `${side === "long" ? "Long" : "Short"}: ${formatSide(left.base, left.notional, capacity.baseAsset)} left, up to ${formatSide(left.orderBase, left.orderNotional, capacity.baseAsset)} per order`;
+};
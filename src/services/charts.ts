@@ -0,0 +1,134 @@
+import { CHARTS } from "../constants/index.js";
+import type { ChartMetric, ChartPoint, HistorySample } from "../types/index.js";
+
+const BLOCKS = "▁▂▃▄▅▆▇█";
+
+const CHART_KEYWORDS = ["chart", "graph", "plot", "sparkline", "график", "граф", "чарт"];
+
+export const isChartRequest = (text: string): boolean =>
+    CHART_KEYWORDS.some(keyword => text.toLowerCase().includes(keyword));
+
+/**
+ * Reads which series to chart from text: funding, open interest, or price
+ * when neither is named.
+ */
+export function parseChartMetric(text: string): ChartMetric {
+    const lower = text.toLowerCase();
+    if (/funding|фандинг|финансир/.test(lower)) return "funding";
+    if (/open interest|\boi\b|открыт\p{L}* интерес|(?<!\p{L})ои(?!\p{L})/u.test(lower)) return "openInterest";
+    return "price";
+}
+
+/**
+ * The series for `metric` from recorded samples: mark price, funding rate
+ * in percent, or open interest in base units. Samples missing the value
+ * are skipped.
+ */
+export function metricSeries(samples: HistorySample[], metric: ChartMetric): ChartPoint[] {
+    const value = (sample: HistorySample): number | null | undefined => {
+        switch (metric) {
+            case "funding":
+                return sample.data ? sample.data.fundingRate * 100 : null;
+            case "openInterest":
+                return sample.data?.openInterest;
+            default:
+                return sample.price;
+        }
+    };
+
+    return samples.flatMap(sample => {
+        const v = value(sample);
+        return v === null || v === undefined || !Number.isFinite(v) ? [] : [{ timestamp: sample.timestamp, value: v }];
+    });
+}
+
+// Averages consecutive values so at most `width` are left
+function downsample(values: number[], width: number): number[] {
+    if (values.length <= width) {
+        return values;
+    }
+    return Array.from({ length: width }, (_, i) => {
+        const bucket = values.slice(Math.floor((i * values.length) / width), Math.floor(((i + 1) * values.length) / width));
+        return bucket.reduce((sum, v) => sum + v, 0) / bucket.length;
+    });
+}
+
+/**
+ * One line of block characters, lowest value ▁ to highest █. A flat series
+ * is drawn mid-height.
+ */
+export function sparkline(values: number[], width: number = CHARTS.SPARKLINE_WIDTH): string {
+    const points = downsample(values.filter(Number.isFinite), width);
+    if (points.length === 0) {
+        return "";
+    }
+    const min = Math.min(...points);
+    const max = Math.max(...points);
+    if (max === min) {
+        return BLOCKS[3].repeat(points.length);
+    }
+    return points
+        .map(v => BLOCKS[Math.round(((v - min) / (max - min)) * (BLOCKS.length - 1))])
+        .join("");
+}
+
+const escapeXml = (text: string): string =>
+    text.replace(/[<>&"']/g, c => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", "\"": "&quot;", "'": "&apos;" })[c]!);
+
+// "10-18 14:05" in UTC
+const formatTime = (timestamp: number): string => {
+    const iso = new Date(timestamp).toISOString();
+    return `${iso.slice(5, 10)} ${iso.slice(11, 16)}`;
+};
+
+export interface SvgChartOptions {
+    title: string;
+    formatValue?: (value: number) => string;
+    width?: number;
+    height?: number;
+}
+
+/**
+ * A standalone SVG line chart of `points` (oldest first) with the title,
+ * min/max value labels and the first/last timestamps in UTC.
+ */
+export function renderSvgChart(points: ChartPoint[], options: SvgChartOptions): string {
+    const width = options.width ?? CHARTS.SVG_WIDTH;
+    const height = options.height ?? CHARTS.SVG_HEIGHT;
+    const format = options.formatValue ?? ((v: number) => v.toFixed(2));
+    const pad = { top: 36, right: 16, bottom: 28, left: 84 };
+    const plotWidth = width - pad.left - pad.right;
+    const plotHeight = height - pad.top - pad.bottom;
+
+    const values = points.map(p => p.value);
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const first = points[0]?.timestamp ?? 0;
+    const last = points[points.length - 1]?.timestamp ?? first;
+
+    const x = (t: number) => pad.left + (last === first ? plotWidth / 2 : ((t - first) / (last - first)) * plotWidth);
+    const y = (v: number) => pad.top + (max === min ? plotHeight / 2 : (1 - (v - min) / (max - min)) * plotHeight);
+    const path = points.map((p, i) => `${i === 0 ? "M" : "L"}${x(p.timestamp).toFixed(1)},${y(p.value).toFixed(1)}`).join(" ");
+    const end = points[points.length - 1];
+    const rising = points.length > 1 && end.value >= points[0].value;
+    const stroke = rising ? "#16a34a" : "#dc2626";
+
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="sans-serif" font-size="12">`,
+        `<rect width="100%" height="100%" fill="#ffffff"/>`,
+        `<text x="${pad.left}" y="22" font-size="15" font-weight="bold" fill="#111827">${escapeXml(options.title)}</text>`,
+        `<line x1="${pad.left}" y1="${pad.top}" x2="${pad.left}" y2="${pad.top + plotHeight}" stroke="#d1d5db"/>`,
+        `<line x1="${pad.left}" y1="${pad.top + plotHeight}" x2="${pad.left + plotWidth}" y2="${pad.top + plotHeight}" stroke="#d1d5db"/>`,
+        `<text x="${pad.left - 8}" y="${pad.top + 4}" text-anchor="end" fill="#6b7280">${escapeXml(format(max))}</text>`,
+        `<text x="${pad.left - 8}" y="${pad.top + plotHeight}" text-anchor="end" fill="#6b7280">${escapeXml(format(min))}</text>`,
+        `<text x="${pad.left}" y="${height - 8}" fill="#6b7280">${formatTime(first)} UTC</text>`,
+        `<text x="${pad.left + plotWidth}" y="${height - 8}" text-anchor="end" fill="#6b7280">${formatTime(last)} UTC</text>`,
+        points.length > 1 ? `<path d="${path}" fill="none" stroke="${stroke}" stroke-width="2" stroke-linejoin="round"/>` : "",
+        end ? `<circle cx="${x(end.timestamp).toFixed(1)}" cy="${y(end.value).toFixed(1)}" r="3" fill="${stroke}"/>` : "",
+        `</svg>`,
+    ].filter(Boolean).join("\n");
+}
+
+// For Media.url, so clients that show attachments can render the chart inline
+export const svgDataUrl = (svg: string): string =>
+    `data:image/svg+xml;base64,${Buffer.from(svg, "utf8").toString("base64")}`;
@@ -0,0 +1,341 @@
+import { type IAgentRuntime, type UUID, Service, elizaLogger } from "@elizaos/core";
+
+import { getReyaConfig } from "../environment.js";
+import { DIGEST } from "../constants/index.js";
+import { getReyaService } from "./reyaService.js";
+import { formatDuration } from "./historyService.js";
+import { describeFunding } from "./funding.js";
+import { buildOpenInterestReport, toOpenInterestSnapshot, formatNotionalChange } from "./openInterest.js";
+import { formatCompact, formatSignedPercent } from "./marketTable.js";
+import { formatIssues } from "./httpClient.js";
+import { DigestRoomEntrySchema } from "../types/schemas.js";
+import type {
+    Asset,
+    DigestRoomConfig,
+    DigestSection,
+    DigestState,
+    Market,
+    MarketData,
+    Price,
+} from "../types/index.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const isSection = (value: unknown): value is DigestSection =>
+    (DIGEST.SECTIONS as readonly unknown[]).includes(value);
+
+/**
+ * Reads REYA_DIGEST_ROOMS: a JSON array (or the array itself, from character
+ * settings) of DigestRoomEntry. Entries that don't match
+ * DigestRoomEntrySchema are skipped with a warning naming the field; fields
+ * left out or null fall back to a daily digest of every section.
+ */
+export function parseDigestRooms(value: unknown): DigestRoomConfig[] {
+    if (value === null || value === undefined || value === "") {
+        return [];
+    }
+
+    let entries: unknown = value;
+    if (typeof value === "string") {
+        try {
+            entries = JSON.parse(value);
+        } catch (error) {
+            elizaLogger.warn(`⚠️ REYA_DIGEST_ROOMS isn't valid JSON, no digests will be posted: ${error instanceof Error ? error.message : String(error)}`);
+            return [];
+        }
+    }
+    if (!Array.isArray(entries)) {
+        elizaLogger.warn("⚠️ REYA_DIGEST_ROOMS should be an array of rooms, no digests will be posted");
+        return [];
+    }
+
+    return entries.flatMap((raw: unknown, idx: number): DigestRoomConfig[] => {
+        const result = DigestRoomEntrySchema.safeParse(raw);
+        if (!result.success) {
+            elizaLogger.warn(`⚠️ Skipping digest room ${idx} in REYA_DIGEST_ROOMS: ${formatIssues(result.error, String(idx)).join("; ")}`);
+            return [];
+        }
+        const entry = result.data;
+        const listed = typeof entry.sections === "string"
+            ? entry.sections.split(",").map(s => s.trim())
+            : entry.sections ?? [];
+        const sections = listed.filter(isSection);
+        if (sections.length < listed.length) {
+            elizaLogger.warn(`⚠️ Unknown digest sections for room ${entry.roomId} ignored; use ${DIGEST.SECTIONS.join(", ")}`);
+        }
+        return [{
+            roomId: entry.roomId,
+            source: entry.source,
+            schedule: entry.schedule ?? "daily",
+            hourUtc: entry.hourUtc ?? DIGEST.DEFAULT_HOUR_UTC,
+            sections: sections.length > 0 ? [...new Set(sections)] : [...DIGEST.SECTIONS],
+            top: entry.top ?? DIGEST.DEFAULT_TOP,
+        }];
+    });
+}
+
+/**
+ * Start of the schedule period `now` falls in: the top of the hour for
+ * hourly digests, the most recent `hourUtc` o'clock for daily ones.
+ */
+export function digestPeriodStart(room: Pick<DigestRoomConfig, "schedule" | "hourUtc">, now: number): number {
+    if (room.schedule === "hourly") {
+        return Math.floor(now / HOUR_MS) * HOUR_MS;
+    }
+    const today = Math.floor(now / DAY_MS) * DAY_MS + room.hourUtc * HOUR_MS;
+    return today <= now ? today : today - DAY_MS;
+}
+
+// A digest is due once per period, the first check after it starts
+export const isDigestDue = (room: DigestRoomConfig, lastRunAt: number, now: number): boolean =>
+    lastRunAt < digestPeriodStart(room, now);
+
+export interface DigestInput {
+    markets: Market[];
+    marketsData: MarketData[];
+    prices: Price[];
+    assets: Asset[];
+}
+
+/**
+ * The digest text for one room and the state the next digest compares
+ * against. Movers, volume and funding come straight from markets/data;
+ * new listings and OI changes are measured against `previous`, the state
+ * the room's last digest left, and are skipped without one.
+ */
+export function buildMarketDigest(
+    input: DigestInput,
+    room: DigestRoomConfig,
+    previous: DigestState | null,
+    formatPrice: (price: number | string) => string,
+    fundingPeriodHours: number,
+    now: number = Date.now()
+): { text: string; state: DigestState } {
+    const { markets, marketsData, prices, assets } = input;
+    const active = markets.filter(m => m.isActive);
+    const rows = active.flatMap(market => {
+        const data = marketsData.find(d => d.marketId === market.id);
+        return data ? [{ market, data }] : [];
+    });
+    const report = buildOpenInterestReport(markets, marketsData, prices, previous?.openInterest ?? null, now);
+    const markOf = (market: Market): number => {
+        const price = parseFloat(prices.find(p => String(p.marketId) === market.id)?.price ?? "");
+        return Number.isFinite(price) ? price : market.markPrice;
+    };
+    const since = previous ? formatDuration(now - previous.lastRunAt) : "";
+
+    const sections: Record<DigestSection, () => string[]> = {
+        movers: () => {
+            const movers = [...rows]
+                .sort((a, b) => Math.abs(b.data.priceChange24HPercentage) - Math.abs(a.data.priceChange24HPercentage))
+                .slice(0, room.top);
+            return [
+                "📈 **Top movers (24h)**",
+                ...movers.map(({ market, data }) => `• **${market.ticker}** ${formatSignedPercent(data.priceChange24HPercentage)} at $${formatPrice(markOf(market))}`),
+            ];
+        },
+        volume: () => {
+            const total = rows.reduce((sum, { data }) => sum + data.last24hVolume, 0);
+            const top = [...rows].sort((a, b) => b.data.last24hVolume - a.data.last24hVolume).slice(0, room.top);
+            return [
+                `💰 **Top volume (24h)**: $${formatCompact(total)} across ${rows.length} markets`,
+                ...top.map(({ market, data }) => `• **${market.ticker}** $${formatCompact(data.last24hVolume)} (${total > 0 ? (data.last24hVolume / total * 100).toFixed(1) : "0.0"}%)`),
+            ];
+        },
+        funding: () => {
+            const byRate = [...rows].sort((a, b) => b.data.fundingRate - a.data.fundingRate);
+            const longsPay = byRate.filter(r => r.data.fundingRate > 0).slice(0, room.top);
+            const shortsPay = byRate.filter(r => r.data.fundingRate < 0).reverse().slice(0, room.top);
+            return [
+                "💸 **Funding extremes**",
+                ...[...longsPay, ...shortsPay].map(({ market, data }) => `• ${describeFunding(market.ticker, data, fundingPeriodHours)}`),
+                ...(longsPay.length + shortsPay.length === 0 ? ["• Every market's funding is flat"] : []),
+            ];
+        },
+        listings: () => {
+            if (!previous) {
+                return [];
+            }
+            const newMarkets = markets.filter(m => !previous.marketIds.includes(m.id));
+            const newAssets = assets.filter(a => Date.parse(a.createdAt) > previous.lastRunAt);
+            return [
+                `🆕 **New listings** in the last ${since}`,
+                ...newMarkets.map(m => `• Market **${m.ticker}**, up to ${m.maxLeverage}x${m.isActive ? "" : " (not active yet)"}`),
+                ...newAssets.map(a => `• Asset **${a.short}** (${a.name})`),
+                ...(newMarkets.length + newAssets.length === 0 ? ["• None"] : []),
+            ];
+        },
+        openInterest: () => {
+            const lines = [
+                `📊 **Open interest**: $${formatCompact(report.totalNotional)}${report.previous ? `, ${formatNotionalChange(report.totalNotional - report.previous.totalNotional, report.previous.totalChangePercent)} in ${since}` : ""}`,
+            ];
+            const changed = report.entries
+                .filter(e => e.change && e.change.notional !== 0)
+                .sort((a, b) => Math.abs(b.change!.notional) - Math.abs(a.change!.notional))
+                .slice(0, room.top);
+            lines.push(...changed.map(e => `• **${e.ticker}** ${formatNotionalChange(e.change!.notional, e.change!.notionalPercent)}`));
+            return lines;
+        },
+    };
+
+    const when = new Date(now).toISOString().slice(0, 16).replace("T", " ");
+    const blocks = room.sections.map(section => sections[section]()).filter(lines => lines.length > 0);
+    const text = [
+        `📰 **Reya Network ${room.schedule} digest**, ${when} UTC`,
+        ...blocks.map(lines => ["", ...lines].join("\n")),
+        "",
+        previous
+            ? `Changes are since this room's last digest, ${since} ago. Prices are mark prices.`
+            : "This is the first digest here, so listings and open interest changes start with the next one. Prices are mark prices.",
+    ].join("\n");
+
+    return {
+        text,
+        state: { lastRunAt: now, marketIds: markets.map(m => m.id), openInterest: toOpenInterestSnapshot(report) },
+    };
+}
+
+export interface DigestPost {
+    room: DigestRoomConfig;
+    text: string;
+}
+
+// Each room keeps its own baseline, so rooms on different schedules don't disturb each other
+const stateKey = (roomId: string) => `${DIGEST.CACHE_KEY_PREFIX}-${roomId}`;
+
+/**
+ * Posts a market digest to the rooms listed in REYA_DIGEST_ROOMS on each
+ * room's schedule. Every REYA_DIGEST_CHECK_INTERVAL_SEC it checks which
+ * rooms are due, fetches markets, markets/data, prices and assets once
+ * through ReyaService and posts each due room its sections. A room's first
+ * check only records a baseline; its first digest goes out at the next
+ * scheduled time.
+ */
+export class ReyaDigestService extends Service {
+    static serviceType = "reya-digest";
+
+    capabilityDescription = "Posts scheduled Reya Network market digests (movers, volume, funding, listings, open interest) to configured rooms";
+
+    readonly checkIntervalMs: number;
+    readonly rooms: DigestRoomConfig[];
+    private timer: NodeJS.Timeout | null = null;
+    private checking: Promise<DigestPost[]> | null = null;
+
+    constructor(runtime: IAgentRuntime) {
+        super(runtime);
+        this.checkIntervalMs = getReyaConfig(runtime).REYA_DIGEST_CHECK_INTERVAL_SEC * 1000;
+        this.rooms = parseDigestRooms(runtime.getSetting("REYA_DIGEST_ROOMS"));
+    }
+
+    static async start(runtime: IAgentRuntime): Promise<ReyaDigestService> {
+        const service = new ReyaDigestService(runtime);
+
+        if (service.checkIntervalMs > 0 && service.rooms.length > 0) {
+            elizaLogger.info(`Starting Reya digest scheduler: ${service.rooms.map(r => `${r.roomId} (${r.schedule})`).join(", ")}`);
+            service.timer = setInterval(() => void service.tick(), service.checkIntervalMs);
+            // Never keep the process alive just to post digests
+            service.timer.unref();
+        } else {
+            elizaLogger.info(`Reya digest scheduler is off; ${service.rooms.length} room(s) configured`);
+        }
+        return service;
+    }
+
+    static async stop(runtime: IAgentRuntime): Promise<void> {
+        const service = runtime.getService<ReyaDigestService>(ReyaDigestService.serviceType);
+        if (service) {
+            await service.stop();
+        }
+    }
+
+    async stop(): Promise<void> {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+        await this.checking?.catch(() => undefined);
+    }
+
+    private async tick(): Promise<void> {
+        if (this.checking) {
+            return;
+        }
+        try {
+            await this.check();
+        } catch (error) {
+            elizaLogger.warn(`⚠️ Digest check failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Posts a digest to every room that's due and records baselines for
+     * rooms seen for the first time. Returns what was posted.
+     */
+    async check(now: number = Date.now()): Promise<DigestPost[]> {
+        const run = (async () => {
+            const states = await Promise.all(this.rooms.map(room => this.runtime.getCache<DigestState>(stateKey(room.roomId))));
+            const due = this.rooms
+                .map((room, i) => ({ room, previous: states[i] ?? null }))
+                .filter(({ room, previous }) => !previous || isDigestDue(room, previous.lastRunAt, now));
+            if (due.length === 0) {
+                return [];
+            }
+
+            const reya = getReyaService(this.runtime);
+            const [markets, marketsData, prices, assets] = await Promise.all([
+                reya.markets.getMarkets(),
+                reya.markets.getMarketsData(),
+                reya.prices.getPrices(),
+                reya.assets.getAssets(),
+            ]);
+
+            const posts: DigestPost[] = [];
+            for (const { room, previous } of due) {
+                const digest = buildMarketDigest({ markets, marketsData, prices, assets }, room, previous, price => reya.prices.formatPrice(price), reya.fundingRatePeriodHours, now);
+                if (previous) {
+                    await this.post(room, digest.text, now);
+                    posts.push({ room, text: digest.text });
+                } else {
+                    elizaLogger.info(`📰 Recorded a digest baseline for room ${room.roomId}; the first ${room.schedule} digest follows on schedule`);
+                }
+                await this.runtime.setCache(stateKey(room.roomId), digest.state);
+            }
+            return posts;
+        })();
+
+        this.checking = run;
+        try {
+            return await run;
+        } finally {
+            if (this.checking === run) {
+                this.checking = null;
+            }
+        }
+    }
+
+    private async post(room: DigestRoomConfig, text: string, now: number): Promise<void> {
+        const content = { text, source: room.source };
+
+        try {
+            await this.runtime.sendMessageToTarget({ source: room.source, roomId: room.roomId as UUID }, content);
+            elizaLogger.info(`📰 Posted the ${room.schedule} digest to room ${room.roomId}`);
+        } catch (error) {
+            // No send handler for this source; leave it in the room's history instead
+            elizaLogger.warn(`⚠️ Couldn't send the digest to ${room.source}, saving it to room ${room.roomId}: ${error instanceof Error ? error.message : String(error)}`);
+            await this.runtime.createMemory({
+                entityId: this.runtime.agentId,
+                agentId: this.runtime.agentId,
+                roomId: room.roomId as UUID,
+                content,
+                createdAt: now,
+            }, "messages");
+        }
+    }
+}
+
+/**
+ * The registered digest service, or null when the plugin runs without it.
+ */
+export const getDigestService = (runtime: IAgentRuntime): ReyaDigestService | null =>
+    runtime.getService<ReyaDigestService>(ReyaDigestService.serviceType) ?? null;
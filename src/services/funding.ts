@@ -0,0 +1,135 @@
+import { formatTable, formatCompact, formatSignedPercent } from "./marketTable.js";
+import { parseTimeWindow } from "./historyService.js";
+import { parsePositionSize, parsePositionSide, type PositionSide } from "./position.js";
+import type { MarketData } from "../types/index.js";
+
+const HOURS_PER_YEAR = 24 * 365;
+
+// `periodHours` below is how many hours one fundingRate covers; callers pass
+// ReyaService.fundingRatePeriodHours (REYA_FUNDING_RATE_PERIOD_HOURS)
+
+// Simple (not compounded) annual rate in percent of a per-period funding rate
+export const annualizeFundingRate = (rate: number, periodHours: number): number =>
+    rate * (HOURS_PER_YEAR / periodHours) * 100;
+
+// "hourly", or "8h" for 8-hour rates
+export const fundingPeriodName = (periodHours: number): string =>
+    periodHours === 1 ? "hourly" : `${periodHours}h`;
+
+// Footnote for funding tables on how the period and APR relate
+export const explainFundingRates = (periodHours: number): string =>
+    periodHours === 1
+        ? "Rates are per hour; APR is the hourly rate × 24 × 365, not compounded."
+        : `Reya rates are per ${periodHours}h and the 1h column spreads them evenly; APR is the ${periodHours}h rate × ${+(24 / periodHours).toFixed(4)} × 365, not compounded.`;
+
+// Positive funding means longs pay shorts
+export const fundingDirection = (rate: number): string =>
+    rate > 0 ? "longs pay shorts" : rate < 0 ? "shorts pay longs" : "no one pays";
+
+// "+0.0025%/h", or "+0.0025%/8h" for 8-hour rates
+export const formatFundingRate = (rate: number, periodHours: number): string =>
+    `${formatSignedPercent(rate * 100, 4)}/${periodHours === 1 ? "h" : `${periodHours}h`}`;
+
+/**
+ * "**BTC-rUSD** +0.0025%/h (+21.90% APR), longs pay shorts, rising", with
+ * the trend taken from fundingRateVelocity.
+ */
+export function describeFunding(
+    ticker: string,
+    data: Pick<MarketData, "fundingRate" | "fundingRateVelocity">,
+    periodHours: number
+): string {
+    const trend = data.fundingRateVelocity > 0 ? ", rising" : data.fundingRateVelocity < 0 ? ", falling" : "";
+    return `**${ticker}** ${formatFundingRate(data.fundingRate, periodHours)} (${formatSignedPercent(annualizeFundingRate(data.fundingRate, periodHours))} APR), ${fundingDirection(data.fundingRate)}${trend}`;
+}
+
+const FUNDING_KEYWORDS = /funding|фандинг|финансир/;
+
+export const isFundingRequest = (text: string): boolean => FUNDING_KEYWORDS.test(text.toLowerCase());
+
+/**
+ * The rate `hours` from now if it keeps changing at fundingRateVelocity,
+ * read as a change in the rate per funding period.
+ */
+export const projectFundingRate = (
+    data: Pick<MarketData, "fundingRate" | "fundingRateVelocity">,
+    hours: number,
+    periodHours: number
+): number =>
+    data.fundingRate + data.fundingRateVelocity * (hours / periodHours);
+
+/**
+ * Funding a position of `notional` rUSD receives over the next `hours`,
+ * with the rate moving linearly at fundingRateVelocity. Positive is income,
+ * negative is cost.
+ */
+export function estimateFundingPayment(
+    data: Pick<MarketData, "fundingRate" | "fundingRateVelocity">,
+    notional: number,
+    hours: number,
+    side: "long" | "short",
+    periodHours: number
+): number {
+    const periods = hours / periodHours;
+    // The area under the projected rate: rate·t + velocity·t²/2
+    const paidByLongs = notional * (data.fundingRate * periods + (data.fundingRateVelocity * periods * periods) / 2);
+    return side === "long" ? -paidByLongs : paidByLongs;
+}
+
+/**
+ * One row per market, highest funding first: hourly, daily and annualized
+ * rate, the APR projected `hours` ahead, and with `position` the funding
+ * it would pay or receive over those hours.
+ */
+export function buildFundingTable(
+    rows: Array<{ ticker: string; data: MarketData }>,
+    hours: number,
+    periodHours: number,
+    position?: { notional: number; side: "long" | "short" }
+): string {
+    const sorted = [...rows].sort((a, b) => b.data.fundingRate - a.data.fundingRate);
+    const perDay = 24 / periodHours;
+    const headers = ["Market", "1h", "1d", "APR", `APR in ${hours}h`];
+    if (position) {
+        headers.push(`${position.side === "long" ? "Long" : "Short"} $${formatCompact(position.notional)}, ${hours}h`);
+    }
+
+    const table = sorted.map(({ ticker, data }) => {
+        const cells = [
+            ticker,
+            formatSignedPercent(data.fundingRate * 100 / periodHours, 4),
+            formatSignedPercent(data.fundingRate * perDay * 100, 3),
+            formatSignedPercent(annualizeFundingRate(data.fundingRate, periodHours)),
+            formatSignedPercent(annualizeFundingRate(projectFundingRate(data, hours, periodHours), periodHours)),
+        ];
+        if (position) {
+            const amount = estimateFundingPayment(data, position.notional, hours, position.side, periodHours);
+            cells.push(`${amount >= 0 ? "+" : "-"}$${Math.abs(amount).toFixed(2)}`);
+        }
+        return cells;
+    });
+    return formatTable(headers, table, ["left", ...headers.slice(1).map(() => "right" as const)]);
+}
+
+export const parseFundingSide = (text: string): PositionSide =>
+    parsePositionSide(text) === "short" ? "short" : "long";
+
+/**
+ * Reads the projection horizon and an optional position from text like
+ * "funding on a $10k short over the next 24 hours". Hours are null when
+ * none are named; the side defaults to long.
+ */
+export function parseFundingQuery(text: string): {
+    hours: number | null;
+    position: { notional: number; side: "long" | "short" } | null;
+} {
+    const lower = text.toLowerCase();
+    const size = parsePositionSize(lower);
+    // "$2m" is a size, not two minutes
+    const window = parseTimeWindow(size ? lower.replace(size.match, " ") : lower);
+
+    return {
+        hours: window ? window.ms / (60 * 60 * 1000) : null,
+        position: size ? { notional: size.notional, side: parseFundingSide(lower) } : null,
+    };
+}
@@ -0,0 +1,310 @@
+import path from "node:path";
+import { type IAgentRuntime, Service, elizaLogger } from "@elizaos/core";
+
+import { getReyaConfig } from "../environment.js";
+import { CANDLES } from "../constants/index.js";
+import { PriceHistoryStore } from "./historyStore.js";
+import { buildCandles } from "./candles.js";
+import { getReyaService } from "./reyaService.js";
+import type {
+    Candle,
+    CandleInterval,
+    CandleSource,
+    HistorySample,
+    HistorySummary,
+    MarketData,
+} from "../types/index.js";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+const toNumber = (value: string | number | null | undefined): number | null => {
+    const parsed = typeof value === "number" ? value : parseFloat(value ?? "");
+    return Number.isFinite(parsed) ? parsed : null;
+};
+
+// Unit words in English and Russian, checked in order
+const WINDOW_UNITS: Array<[RegExp, number, string]> = [
+    [/^(m|mins?|minutes?|мин\p{L}*)$/u, MINUTE_MS, "m"],
+    [/^(h|hrs?|hours?|ч|час\p{L}*)$/u, HOUR_MS, "h"],
+    [/^(d|days?|д|дн\p{L}*|день|сут\p{L}*)$/u, DAY_MS, "d"],
+    [/^(w|wks?|weeks?|нед\p{L}*)$/u, 7 * DAY_MS, "w"],
+];
+
+const WINDOW_WORDS: Array<[RegExp, number, string]> = [
+    [/\bhour\b|(?<!\p{L})час(?!\p{L})/u, HOUR_MS, "1h"],
+    [/\b(today|day)\b|сегодня|сутки|(?<!\p{L})день(?!\p{L})/u, DAY_MS, "24h"],
+    [/\bweek\b|недел/u, 7 * DAY_MS, "7d"],
+    [/\bmonth\b|месяц/u, 30 * DAY_MS, "30d"],
+];
+
+/**
+ * Reads a lookback window from text like "last 6 hours", "за 3 дня", "15m"
+ * or "this week". Returns null when the text names none.
+ */
+export function parseTimeWindow(text: string): { ms: number; label: string } | null {
+    const lower = text.toLowerCase();
+
+    for (const match of lower.matchAll(/(\d+(?:[.,]\d+)?)\s*(\p{L}+)/gu)) {
+        const amount = parseFloat(match[1].replace(",", "."));
+        const unit = WINDOW_UNITS.find(([pattern]) => pattern.test(match[2]));
+        if (unit && amount > 0) {
+            return { ms: amount * unit[1], label: `${amount}${unit[2]}` };
+        }
+    }
+
+    for (const [pattern, ms, label] of WINDOW_WORDS) {
+        if (pattern.test(lower)) {
+            return { ms, label };
+        }
+    }
+    return null;
+}
+
+const MONTHS: RegExp[] = [
+    /^(jan(uary)?|январ\p{L}*)$/u, /^(feb(ruary)?|феврал\p{L}*)$/u, /^(mar(ch)?|март\p{L}*)$/u,
+    /^(apr(il)?|апрел\p{L}*)$/u, /^(may|ма[йя])$/u, /^(june?|июн\p{L}*)$/u,
+    /^(july?|июл\p{L}*)$/u, /^(aug(ust)?|август\p{L}*)$/u, /^(sept?(ember)?|сентябр\p{L}*)$/u,
+    /^(oct(ober)?|октябр\p{L}*)$/u, /^(nov(ember)?|ноябр\p{L}*)$/u, /^(dec(ember)?|декабр\p{L}*)$/u,
+];
+
+const monthIndex = (word: string): number | null => {
+    const index = MONTHS.findIndex(pattern => pattern.test(word));
+    return index >= 0 ? index : null;
+};
+
+/**
+ * Reads a past point in time from text like "since 2026-10-01", "since Oct 1",
+ * "с 1 октября", "3 days ago" or "yesterday". Dates without a year are the
+ * latest one not in the future, at 00:00 UTC. Null when the text names none.
+ */
+export function parseSinceDate(text: string, now: number = Date.now()): { timestamp: number; label: string } | null {
+    const lower = text.toLowerCase();
+
+    const iso = lower.match(/(\d{4})-(\d{2})-(\d{2})/);
+    if (iso) {
+        const timestamp = Date.UTC(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+        return Number.isFinite(timestamp) && timestamp <= now ? { timestamp, label: iso[0] } : null;
+    }
+
+    // "Oct 1", "October 1st", "1 October", "1 октября"
+    for (const named of lower.matchAll(/(?<!\p{L})(\p{L}{3,})\.?\s+(\d{1,2})(?:st|nd|rd|th)?(?![\d\p{L}])|(?<![\d.])(\d{1,2})(?:st|nd|rd|th)?\s+(?:of\s+)?(\p{L}{3,})/gu)) {
+        const month = monthIndex(named[1] ?? named[4]);
+        if (month === null) {
+            continue;
+        }
+        const day = Number(named[2] ?? named[3]);
+        const year = new Date(now).getUTCFullYear();
+        const thisYear = Date.UTC(year, month, day);
+        const timestamp = thisYear <= now ? thisYear : Date.UTC(year - 1, month, day);
+        return { timestamp, label: new Date(timestamp).toISOString().slice(0, 10) };
+    }
+
+    const ago = lower.match(/(\d+(?:[.,]\d+)?\s*\p{L}+)\s+(?:ago|назад)/u);
+    const window = ago ? parseTimeWindow(ago[1]) : null;
+    if (window) {
+        return { timestamp: now - window.ms, label: `${window.label} ago` };
+    }
+
+    if (/\byesterday\b|вчера/u.test(lower)) {
+        return { timestamp: now - DAY_MS, label: "24h ago" };
+    }
+    return null;
+}
+
+// 5400000 → "1h 30m"
+export function formatDuration(ms: number): string {
+    const days = Math.floor(ms / DAY_MS);
+    const hours = Math.floor((ms % DAY_MS) / HOUR_MS);
+    const minutes = Math.round((ms % HOUR_MS) / MINUTE_MS);
+    const parts = [days && `${days}d`, hours && `${hours}h`, minutes && `${minutes}m`].filter(Boolean);
+    return parts.slice(0, 2).join(" ") || "0m";
+}
+
+/**
+ * First/last, high/low and change of the mark price over `samples` (oldest
+ * first). Null when no sample has a price.
+ */
+export function summarizeHistory(samples: HistorySample[]): HistorySummary | null {
+    const priced = samples.filter(s => s.price !== null);
+    if (priced.length === 0) {
+        return null;
+    }
+
+    const first = priced[0];
+    const last = priced[priced.length - 1];
+    let high = { price: first.price!, timestamp: first.timestamp };
+    let low = { ...high };
+    for (const sample of priced) {
+        if (sample.price! > high.price) high = { price: sample.price!, timestamp: sample.timestamp };
+        if (sample.price! < low.price) low = { price: sample.price!, timestamp: sample.timestamp };
+    }
+
+    return {
+        marketId: first.marketId,
+        from: first.timestamp,
+        to: last.timestamp,
+        samples: priced.length,
+        first,
+        last,
+        high,
+        low,
+        changePercentage: first.price ? ((last.price! - first.price) / first.price) * 100 : 0,
+    };
+}
+
+/**
+ * Samples every market's price and markets/data entry on an interval and
+ * keeps them in a PriceHistoryStore, so history questions can be answered
+ * from our own data now that the candle endpoint is gone.
+ */
+export class ReyaHistoryService extends Service {
+    static serviceType = "reya-history";
+
+    capabilityDescription = "Records Reya Network prices and market data to disk for history queries";
+
+    readonly store: PriceHistoryStore;
+    readonly sampleIntervalMs: number;
+    readonly retentionDays: number;
+    private timer: NodeJS.Timeout | null = null;
+    private sampling: Promise<number> | null = null;
+    private lastPrune = 0;
+
+    constructor(runtime: IAgentRuntime) {
+        super(runtime);
+        const config = getReyaConfig(runtime);
+
+        this.store = new PriceHistoryStore(path.resolve(config.REYA_HISTORY_DIR));
+        this.sampleIntervalMs = config.REYA_HISTORY_ENABLED ? config.REYA_HISTORY_SAMPLE_INTERVAL_SEC * 1000 : 0;
+        this.retentionDays = config.REYA_HISTORY_RETENTION_DAYS;
+    }
+
+    static async start(runtime: IAgentRuntime): Promise<ReyaHistoryService> {
+        const service = new ReyaHistoryService(runtime);
+        await service.prune();
+
+        if (service.sampleIntervalMs > 0) {
+            elizaLogger.info(`Starting Reya history recorder: every ${formatDuration(service.sampleIntervalMs)} into ${service.store.dir}`);
+            service.timer = setInterval(() => void service.tick(), service.sampleIntervalMs);
+            // Never keep the process alive just to sample
+            service.timer.unref();
+        } else {
+            elizaLogger.info(`Reya history recorder is off; serving recorded data from ${service.store.dir}`);
+        }
+        return service;
+    }
+
+    static async stop(runtime: IAgentRuntime): Promise<void> {
+        const service = runtime.getService<ReyaHistoryService>(ReyaHistoryService.serviceType);
+        if (service) {
+            await service.stop();
+        }
+    }
+
+    async stop(): Promise<void> {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+        await this.sampling?.catch(() => undefined);
+    }
+
+    private async tick(): Promise<void> {
+        if (this.sampling) {
+            return;
+        }
+        try {
+            await this.sample();
+        } catch (error) {
+            elizaLogger.warn(`⚠️ History sample failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Records one sample per market from the batch prices and markets/data
+     * endpoints. Returns the number of samples written.
+     */
+    async sample(now: number = Date.now()): Promise<number> {
+        const run = (async () => {
+            const reya = getReyaService(this.runtime);
+            const [prices, marketsData] = await Promise.all([
+                reya.prices.getPrices(),
+                reya.markets.getMarketsData().catch((error): MarketData[] => {
+                    elizaLogger.warn(`⚠️ Sampling prices without market data: ${error}`);
+                    return [];
+                }),
+            ]);
+
+            const marketIds = new Set([...prices.map(p => String(p.marketId)), ...marketsData.map(md => md.marketId)]);
+            const samples: HistorySample[] = [...marketIds].map(marketId => {
+                const price = prices.find(p => String(p.marketId) === marketId);
+                return {
+                    timestamp: now,
+                    marketId,
+                    price: toNumber(price?.price),
+                    oraclePrice: toNumber(price?.oraclePrice),
+                    poolPrice: toNumber(price?.poolPrice),
+                    data: marketsData.find(md => md.marketId === marketId) ?? null,
+                };
+            });
+
+            await this.store.append(samples);
+            if (now - this.lastPrune >= DAY_MS) {
+                await this.prune(now);
+            }
+            return samples.length;
+        })();
+
+        this.sampling = run;
+        try {
+            return await run;
+        } finally {
+            if (this.sampling === run) {
+                this.sampling = null;
+            }
+        }
+    }
+
+    async prune(now: number = Date.now()): Promise<number> {
+        this.lastPrune = now;
+        return this.store.prune(this.retentionDays, now);
+    }
+
+    async query(marketId: string, from: number, to: number = Date.now()): Promise<HistorySample[]> {
+        return this.store.query(marketId, from, to);
+    }
+
+    async summarize(marketId: string, from: number, to: number = Date.now()): Promise<HistorySummary | null> {
+        return summarizeHistory(await this.query(marketId, from, to));
+    }
+
+    /**
+     * OHLCV bars for one market from recorded samples, oldest first. Without
+     * `from`, covers the last `limit` intervals up to `to`.
+     */
+    async getCandles(
+        marketId: string,
+        interval: CandleInterval,
+        options: { from?: number; to?: number; source?: CandleSource; limit?: number } = {}
+    ): Promise<Candle[]> {
+        const intervalMs = CANDLES.INTERVAL_MS[interval];
+        const limit = Math.min(options.limit ?? CANDLES.DEFAULT_LIMIT, CANDLES.MAX_LIMIT);
+        const to = options.to ?? Date.now();
+        const firstOpen = Math.floor((options.from ?? to - (limit - 1) * intervalMs) / intervalMs) * intervalMs;
+
+        // One extra interval of samples so the first bar's volume has a baseline
+        const samples = await this.query(marketId, firstOpen - intervalMs, to);
+        return buildCandles(samples, interval, options.source)
+            .filter(candle => candle.openTime >= firstOpen)
+            .slice(-limit);
+    }
+}
+
+/**
+ * The registered history service, or null when the plugin runs without it.
+ * Unlike ReyaService there is no standalone fallback: history only exists
+ * if something has been recording it.
+ */
+export const getHistoryService = (runtime: IAgentRuntime): ReyaHistoryService | null =>
+    runtime.getService<ReyaHistoryService>(ReyaHistoryService.serviceType) ?? null;
@@ -0,0 +1,139 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { elizaLogger } from "@elizaos/core";
+
+import type { HistorySample } from "../types/index.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// UTC day a timestamp falls in, e.g. "2026-10-18"
+const dayKey = (timestamp: number): string => new Date(timestamp).toISOString().slice(0, 10);
+
+const dayStart = (key: string): number => Date.parse(`${key}T00:00:00.000Z`);
+
+/**
+ * Append-only time series of market samples on disk: one JSON line per
+ * sample in `<dir>/<marketId>/<YYYY-MM-DD>.jsonl`. Day files make retention
+ * a matter of deleting whole files, and a line cut short by a crash only
+ * loses that one sample.
+ */
+export class PriceHistoryStore {
+    // Appends to one file run one after another so lines never interleave
+    private writes = new Map<string, Promise<void>>();
+
+    constructor(readonly dir: string) {}
+
+    private marketDir(marketId: string): string {
+        return path.join(this.dir, encodeURIComponent(marketId));
+    }
+
+    async append(samples: HistorySample[]): Promise<void> {
+        const byFile = new Map<string, string[]>();
+        for (const sample of samples) {
+            const file = path.join(this.marketDir(sample.marketId), `${dayKey(sample.timestamp)}.jsonl`);
+            byFile.set(file, [...(byFile.get(file) ?? []), JSON.stringify(sample)]);
+        }
+
+        await Promise.all([...byFile].map(([file, lines]) => {
+            const previous = this.writes.get(file) ?? Promise.resolve();
+            const write = previous
+                .catch(() => undefined)
+                .then(async () => {
+                    await fs.mkdir(path.dirname(file), { recursive: true });
+                    await fs.appendFile(file, `${lines.join("\n")}\n`, "utf8");
+                });
+            this.writes.set(file, write);
+            return write.finally(() => {
+                if (this.writes.get(file) === write) {
+                    this.writes.delete(file);
+                }
+            });
+        }));
+    }
+
+    private async dayFiles(marketId: string): Promise<string[]> {
+        try {
+            const files = await fs.readdir(this.marketDir(marketId));
+            return files.filter(f => /^\d{4}-\d{2}-\d{2}\.jsonl$/.test(f)).sort();
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+                return [];
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Samples for one market with `from <= timestamp <= to`, oldest first.
+     */
+    async query(marketId: string, from: number, to: number = Date.now()): Promise<HistorySample[]> {
+        const first = dayKey(from);
+        const last = dayKey(to);
+        const files = (await this.dayFiles(marketId)).filter(f => {
+            const key = f.slice(0, 10);
+            return key >= first && key <= last;
+        });
+
+        const samples: HistorySample[] = [];
+        for (const file of files) {
+            const content = await fs.readFile(path.join(this.marketDir(marketId), file), "utf8");
+            for (const line of content.split("\n")) {
+                if (!line.trim()) {
+                    continue;
+                }
+                try {
+                    const sample = JSON.parse(line) as HistorySample;
+                    if (sample.timestamp >= from && sample.timestamp <= to) {
+                        samples.push(sample);
+                    }
+                } catch {
+                    elizaLogger.warn(`⚠️ Skipping unreadable history line in ${marketId}/${file}`);
+                }
+            }
+        }
+
+        return samples.sort((a, b) => a.timestamp - b.timestamp);
+    }
+
+    /**
+     * Start of the oldest day on record for a market, or null when nothing
+     * was recorded yet.
+     */
+    async earliestDay(marketId: string): Promise<number | null> {
+        const [first] = await this.dayFiles(marketId);
+        return first ? dayStart(first.slice(0, 10)) : null;
+    }
+
+    /**
+     * Deletes day files that ended more than `retentionDays` before `now`.
+     * Returns how many files were removed.
+     */
+    async prune(retentionDays: number, now: number = Date.now()): Promise<number> {
+        let markets: string[];
+        try {
+            markets = await fs.readdir(this.dir);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+                return 0;
+            }
+            throw error;
+        }
+
+        const cutoff = now - retentionDays * DAY_MS;
+        let removed = 0;
+        for (const market of markets) {
+            const marketId = decodeURIComponent(market);
+            for (const file of await this.dayFiles(marketId)) {
+                if (dayStart(file.slice(0, 10)) + DAY_MS <= cutoff) {
+                    await fs.rm(path.join(this.marketDir(marketId), file), { force: true });
+                    removed++;
+                }
+            }
+        }
+
+        if (removed > 0) {
+            elizaLogger.info(`🧹 Pruned ${removed} history files older than ${retentionDays} days`);
+        }
+        return removed;
+    }
+}
@@ -0,0 +1,304 @@
+import { type IAgentRuntime, elizaLogger } from "@elizaos/core";
+import type { z } from "zod";
+
+import { getReyaConfig } from "../environment.js";
+import { HTTP_CONFIG } from "../constants/index.js";
+
+/**
+ * Base class for every error raised by ReyaHttpClient.
+ * Carries the URL that failed so callers can log something useful.
+ */
+export class ReyaHttpError extends Error {
+    constructor(message: string, public readonly url: string) {
+        super(message);
+        this.name = "ReyaHttpError";
+    }
+}
+
+/**
+ * The API answered, but with a non-2xx status.
+ */
+export class ReyaApiError extends ReyaHttpError {
+    constructor(
+        url: string,
+        public readonly status: number,
+        public readonly statusText: string,
+        public readonly body?: string,
+        public readonly retryAfterMs?: number
+    ) {
+        super(`Reya API request failed with ${status}${statusText ? ` ${statusText}` : ""}: ${url}`, url);
+        this.name = "ReyaApiError";
+    }
+
+    get isRetryable(): boolean {
+        return this.status === 429 || this.status >= 500;
+    }
+}
+
+/**
+ * The API did not answer within the configured timeout.
+ */
+export class ReyaTimeoutError extends ReyaHttpError {
+    constructor(url: string, public readonly timeoutMs: number) {
+        super(`Reya API request timed out after ${timeoutMs}ms: ${url}`, url);
+        this.name = "ReyaTimeoutError";
+    }
+}
+
+/**
+ * The request never reached the API (DNS failure, connection reset...).
+ */
+export class ReyaNetworkError extends ReyaHttpError {
+    constructor(url: string, public readonly cause?: unknown) {
+        super(`Reya API request failed: ${url} (${cause instanceof Error ? cause.message : String(cause)})`, url);
+        this.name = "ReyaNetworkError";
+    }
+}
+
+/**
+ * The API answered 2xx but the body could not be used (e.g. not JSON).
+ */
+export class ReyaInvalidResponseError extends ReyaHttpError {
+    constructor(url: string, reason: string) {
+        super(`Reya API returned an invalid response for ${url}: ${reason}`, url);
+        this.name = "ReyaInvalidResponseError";
+    }
+}
+
+/**
+ * The API answered with JSON that does not match the expected schema.
+ * `issues` lists every offending field as "path: message".
+ */
+export class ReyaValidationError extends ReyaInvalidResponseError {
+    constructor(url: string, public readonly issues: string[]) {
+        super(
+            url,
+            `schema validation failed (${issues.slice(0, 5).join("; ")}${issues.length > 5 ? `; and ${issues.length - 5} more` : ""})`
+        );
+        this.name = "ReyaValidationError";
+    }
+}
+
+export const formatIssues = (error: z.ZodError, prefix: string = ""): string[] =>
+    error.issues.map(issue => {
+        const path = [prefix, ...issue.path.map(String)].filter(Boolean).join(".");
+        return `${path || "(root)"}: ${issue.message}`;
+    });
+
+export interface ReyaHttpClientOptions {
+    baseUrl: string;
+    timeoutMs?: number;
+    maxRetries?: number;
+    retryBaseDelayMs?: number;
+    retryMaxDelayMs?: number;
+    fetchImpl?: typeof fetch;
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Thin wrapper around fetch shared by all Reya services.
+ * Adds a per-request timeout and retries 429/5xx/timeouts with exponential
+ * backoff, honouring Retry-After when the API sends one.
+ */
+export class ReyaHttpClient {
+    readonly baseUrl: string;
+    private timeoutMs: number;
+    private maxRetries: number;
+    private retryBaseDelayMs: number;
+    private retryMaxDelayMs: number;
+    private fetchImpl: typeof fetch;
+
+    constructor(options: ReyaHttpClientOptions) {
+        this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+        this.timeoutMs = options.timeoutMs ?? HTTP_CONFIG.TIMEOUT_MS;
+        this.maxRetries = options.maxRetries ?? HTTP_CONFIG.MAX_RETRIES;
+        this.retryBaseDelayMs = options.retryBaseDelayMs ?? HTTP_CONFIG.RETRY_BASE_DELAY_MS;
+        this.retryMaxDelayMs = options.retryMaxDelayMs ?? HTTP_CONFIG.RETRY_MAX_DELAY_MS;
+        this.fetchImpl = options.fetchImpl ?? fetch;
+    }
+
+    async get<T>(path: string): Promise<T> {
+        const url = `${this.baseUrl}${path}`;
+
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await this.request<T>(url);
+            } catch (error) {
+                const retryDelay = this.getRetryDelay(error, attempt);
+                if (retryDelay === null) {
+                    throw error;
+                }
+
+                elizaLogger.warn(
+                    `Reya API request failed (${error instanceof Error ? error.message : String(error)}), retrying in ${retryDelay}ms (attempt ${attempt + 1}/${this.maxRetries})`
+                );
+                await sleep(retryDelay);
+            }
+        }
+    }
+
+    /**
+     * GET a single object and validate it; any mismatch throws ReyaValidationError.
+     */
+    async getValidated<T>(path: string, schema: z.ZodType<T>): Promise<T> {
+        const payload = await this.get<unknown>(path);
+        const result = schema.safeParse(payload);
+        if (!result.success) {
+            throw new ReyaValidationError(`${this.baseUrl}${path}`, formatIssues(result.error));
+        }
+        return result.data;
+    }
+
+    /**
+     * GET an array and validate each entry. Malformed entries are dropped and
+     * logged; the call only fails when the payload is not an array or when
+     * every entry is malformed (which means the schema itself drifted).
+     */
+    async getList<T>(path: string, itemSchema: z.ZodType<T>): Promise<T[]> {
+        const url = `${this.baseUrl}${path}`;
+        const payload = await this.get<unknown>(path);
+        if (!Array.isArray(payload)) {
+            throw new ReyaValidationError(url, [`(root): Expected array, received ${typeof payload}`]);
+        }
+
+        return this.collectValid(url, payload.map((item, idx) => [String(idx), item] as const), itemSchema)
+            .map(([, item]) => item);
+    }
+
+    /**
+     * GET an object keyed by id and validate each value, with the same
+     * drop-and-log behaviour as getList.
+     */
+    async getRecord<T>(path: string, itemSchema: z.ZodType<T>): Promise<Record<string, T>> {
+        const url = `${this.baseUrl}${path}`;
+        const payload = await this.get<unknown>(path);
+        if (payload === null || typeof payload !== "object" || Array.isArray(payload)) {
+            throw new ReyaValidationError(url, [`(root): Expected object, received ${Array.isArray(payload) ? "array" : typeof payload}`]);
+        }
+
+        return Object.fromEntries(this.collectValid(url, Object.entries(payload), itemSchema));
+    }
+
+    private collectValid<T>(
+        url: string,
+        entries: ReadonlyArray<readonly [string, unknown]>,
+        itemSchema: z.ZodType<T>
+    ): Array<[string, T]> {
+        const valid: Array<[string, T]> = [];
+        const issues: string[] = [];
+
+        for (const [key, item] of entries) {
+            const result = itemSchema.safeParse(item);
+            if (result.success) {
+                valid.push([key, result.data]);
+            } else {
+                const entryIssues = formatIssues(result.error, key);
+                issues.push(...entryIssues);
+                elizaLogger.warn(`Dropping malformed entry from ${url}: ${entryIssues.join("; ")}`);
+            }
+        }
+
+        if (entries.length > 0 && valid.length === 0) {
+            throw new ReyaValidationError(url, issues);
+        }
+        return valid;
+    }
+
+    private async request<T>(url: string): Promise<T> {
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+        // A server can send headers and then stall the body, so the timer
+        // stays armed until the body has been read
+        const guarded = async <R>(step: () => Promise<R>): Promise<R> => {
+            try {
+                return await step();
+            } catch (error) {
+                if (controller.signal.aborted) {
+                    throw new ReyaTimeoutError(url, this.timeoutMs);
+                }
+                throw new ReyaNetworkError(url, error);
+            }
+        };
+
+        try {
+            const response = await guarded(() => this.fetchImpl(url, {
+                headers: { Accept: "application/json" },
+                signal: controller.signal,
+            }));
+
+            if (!response.ok) {
+                const body = await response.text().catch(() => undefined);
+                throw new ReyaApiError(
+                    url,
+                    response.status,
+                    response.statusText,
+                    body,
+                    this.parseRetryAfter(response.headers.get("retry-after"))
+                );
+            }
+
+            const body = await guarded(() => response.text());
+            try {
+                return JSON.parse(body) as T;
+            } catch (error) {
+                throw new ReyaInvalidResponseError(url, error instanceof Error ? error.message : String(error));
+            }
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    /**
+     * Returns how long to wait before the next attempt, or null when the
+     * error is final (non-retryable, or out of attempts).
+     */
+    private getRetryDelay(error: unknown, attempt: number): number | null {
+        if (attempt >= this.maxRetries) {
+            return null;
+        }
+
+        const retryable =
+            error instanceof ReyaTimeoutError ||
+            error instanceof ReyaNetworkError ||
+            (error instanceof ReyaApiError && error.isRetryable);
+        if (!retryable) {
+            return null;
+        }
+
+        if (error instanceof ReyaApiError && error.retryAfterMs !== undefined) {
+            return Math.min(error.retryAfterMs, this.retryMaxDelayMs);
+        }
+
+        const backoff = this.retryBaseDelayMs * 2 ** attempt;
+        const jitter = Math.random() * this.retryBaseDelayMs;
+        return Math.round(Math.min(backoff + jitter, this.retryMaxDelayMs));
+    }
+
+    private parseRetryAfter(header: string | null): number | undefined {
+        if (!header) {
+            return undefined;
+        }
+
+        const seconds = Number(header);
+        if (Number.isFinite(seconds)) {
+            return Math.max(0, seconds * 1000);
+        }
+
+        const date = Date.parse(header);
+        if (!Number.isNaN(date)) {
+            return Math.max(0, date - Date.now());
+        }
+
+        return undefined;
+    }
+}
+
+export const createReyaHttpClient = (runtime: IAgentRuntime): ReyaHttpClient => {
+    const config = getReyaConfig(runtime);
+    return new ReyaHttpClient({
+        baseUrl: config.REYA_API_BASE_URL,
+        timeoutMs: config.REYA_REQUEST_TIMEOUT_MS,
+        maxRetries: config.REYA_MAX_RETRIES,
+    });
+};
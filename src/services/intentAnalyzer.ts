@@ -5,6 +5,16 @@ import {
     ModelType,
 } from "@elizaos/core";
 
+import { classifyAlertRequest } from "./alertService.js";
+import { isFundingRequest } from "./funding.js";
+import { isOpenInterestRequest } from "./openInterest.js";
+import { isPremiumRequest } from "./premium.js";
+import { isCapacityRequest } from "./capacity.js";
+import { isTradeCostRequest } from "./tradeCost.js";
+import { isLiquidationRequest } from "./liquidation.js";
+import { isPnlRequest } from "./pnl.js";
+import { classifyWatchlistRequest } from "./watchlist.js";
+
 export enum IntentType {
     KNOWLEDGE_QUERY = "KNOWLEDGE_QUERY",
     LIVE_DATA_QUERY = "LIVE_DATA_QUERY", 
@@ -13,7 +23,8 @@ export enum IntentType {
     GENERAL_CHAT = "GENERAL_CHAT",
     PRICE_QUERY = "PRICE_QUERY",
     MARKET_QUERY = "MARKET_QUERY",
-    ASSET_QUERY = "ASSET_QUERY"
+    ASSET_QUERY = "ASSET_QUERY",
+    ALERT_REQUEST = "ALERT_REQUEST"
 }
 
 export interface IntentAnalysisResult {
@@ -50,8 +61,8 @@ AVAILABLE INTENT TYPES:
 2. PRICE_QUERY - User wants current/live price data for specific assets
    Examples: "цена BTC", "current ETH price", "сколько стоит SOL"
    
-3. MARKET_QUERY - User wants market information, trading data, volumes, etc.
-   Examples: "какие рынки доступны?", "show me markets", "trading volume"
+3. MARKET_QUERY - User wants market information, trading data, volumes, fees, etc.
+   Examples: "какие рынки доступны?", "show me markets", "trading volume", "what are Reya's fees?", "комиссии мейкер/тейкер", "rank markets by funding", "open interest", "pool premium to oracle", "can I open a $2M long on ETH?", "what would a 10x long 5 ETH held for 3 days cost?", "liquidation price for a 10x long ETH", "if I longed 2 BTC at 60k, what's my PnL now?", "add SOL to my watchlist", "show my watchlist"
    
 4. ASSET_QUERY - User wants information about supported assets/tokens
    Examples: "какие активы поддерживаются?", "list all assets", "supported tokens"
@@ -62,16 +73,29 @@ AVAILABLE INTENT TYPES:
 6. COMPARISON_QUERY - User wants to compare multiple assets/markets
    Examples: "сравни BTC и ETH", "compare markets", "which is better"
    
-7. GENERAL_CHAT - General conversation, greetings, unrelated topics
+7. ALERT_REQUEST - User wants to set, list or cancel price, funding or premium alerts / notifications
+   Examples: "tell me when ETH crosses 4000", "уведоми, если SOL упадёт на 5%", "alert me when BTC pool is 30 bps from oracle", "show my alerts", "cancel alert #2"
+
+8. GENERAL_CHAT - General conversation, greetings, unrelated topics
    Examples: "hello", "привет", "how are you", "thanks"
 
 ANALYSIS RULES:
 - If user asks "что такое", "what is", "explain", "как работает" → KNOWLEDGE_QUERY
 - If user asks for "цена", "price", "стоимость", "сколько стоит" → PRICE_QUERY  
 - If user asks about "рынки", "markets", "торги" → MARKET_QUERY
+- If user asks about "fees", "комиссии", maker/taker, rebates or discounts → MARKET_QUERY
+- If user asks about funding rates, APR or funding cost ("funding", "фандинг") without asking to be alerted → MARKET_QUERY
+- If user asks about open interest, OI or long/short skew ("открытый интерес", "перекос") → MARKET_QUERY
+- If user asks about pool vs oracle premium, basis or divergence ("премия", "расхождение") without asking to be alerted → MARKET_QUERY
+- If user asks whether a position size fits, about capacity or the maximum position ("can I open", "ёмкость") → MARKET_QUERY
+- If user asks what a trade would cost to open and hold ("cost", "held for", "во сколько обойдётся") → MARKET_QUERY
+- If user asks where a position gets liquidated or how much margin it needs ("liquidation price", "цена ликвидации") → MARKET_QUERY, not PRICE_QUERY
+- If user asks what a past or hypothetical position made ("PnL", "if I longed", "прибыль") → MARKET_QUERY
+- If user asks to add to, remove from or show their watchlist ("watchlist", "избранное") → MARKET_QUERY
 - If user asks about "активы", "assets", "токены" → ASSET_QUERY
 - If user asks for "график", "chart", "история" → HISTORICAL_DATA_QUERY
 - If user asks to "сравни", "compare", "vs" → COMPARISON_QUERY
+- If user asks to be alerted/notified ("alert", "tell me when", "уведоми") or about their alerts → ALERT_REQUEST
 - Otherwise → GENERAL_CHAT
 
 Respond with this JSON format:
@@ -94,6 +118,7 @@ IMPORTANT GUIDELINES:
 - MARKET_QUERY → shouldUseAPI: true, shouldUseKnowledge: false
 - ASSET_QUERY → shouldUseAPI: true, shouldUseKnowledge: false
 - COMPARISON_QUERY → shouldUseAPI: true, shouldUseKnowledge: true
+- ALERT_REQUEST → shouldUseAPI: true, shouldUseKnowledge: false
 - GENERAL_CHAT → shouldUseAPI: false, shouldUseKnowledge: false
 
 Analyze the message and respond with JSON only:`;
@@ -108,18 +133,18 @@ Analyze the message and respond with JSON only:`;
             // Parse JSON response
             const analysisResult = this.parseAnalysisResponse(response);
             
-            elizaLogger.info(`🎯 Intent Analysis Result:`, {
+            elizaLogger.info({
                 intent: analysisResult.intent,
                 confidence: analysisResult.confidence,
                 shouldUseAPI: analysisResult.shouldUseAPI,
                 shouldUseKnowledge: analysisResult.shouldUseKnowledge,
                 reasoning: analysisResult.reasoning
-            });
+            }, "🎯 Intent Analysis Result");
 
             return analysisResult;
 
         } catch (error) {
-            elizaLogger.error("Error in intent analysis:", error);
+            elizaLogger.error({ err: error }, "Error in intent analysis");
             
             // Fallback to simple keyword-based analysis
             return this.fallbackAnalysis(userMessage);
@@ -146,7 +171,7 @@ Analyze the message and respond with JSON only:`;
             };
 
         } catch (parseError) {
-            elizaLogger.warn("Failed to parse LLM response, using fallback:", parseError);
+            elizaLogger.warn({ err: parseError }, "Failed to parse LLM response, using fallback");
             throw parseError;
         }
     }
@@ -165,6 +190,37 @@ Analyze the message and respond with JSON only:`;
             };
         }
         
+        if (classifyAlertRequest(text)) {
+            return {
+                intent: IntentType.ALERT_REQUEST,
+                confidence: 0.7,
+                reasoning: "Fallback: detected alert request",
+                shouldUseAPI: true,
+                shouldUseKnowledge: false
+            };
+        }
+
+        if (classifyWatchlistRequest(text)) {
+            return {
+                intent: IntentType.MARKET_QUERY,
+                confidence: 0.7,
+                reasoning: "Fallback: detected watchlist request",
+                shouldUseAPI: true,
+                shouldUseKnowledge: false
+            };
+        }
+
+        // "liquidation price" or "PnL at today's price" ask about a position, not the market price
+        if (isLiquidationRequest(text) || isPnlRequest(text)) {
+            return {
+                intent: IntentType.MARKET_QUERY,
+                confidence: 0.7,
+                reasoning: "Fallback: detected liquidation or PnL request",
+                shouldUseAPI: true,
+                shouldUseKnowledge: false
+            };
+        }
+
         if (text.includes("цена") || text.includes("price") || text.includes("стоимость")) {
             return {
                 intent: IntentType.PRICE_QUERY,
@@ -175,6 +231,26 @@ Analyze the message and respond with JSON only:`;
             };
         }
         
+        if (isFundingRequest(text) || isOpenInterestRequest(text) || isPremiumRequest(text) || isCapacityRequest(text) || isTradeCostRequest(text)) {
+            return {
+                intent: IntentType.MARKET_QUERY,
+                confidence: 0.7,
+                reasoning: "Fallback: detected funding, open interest, premium, capacity or trade cost request",
+                shouldUseAPI: true,
+                shouldUseKnowledge: false
+            };
+        }
+
+        if (text.includes("fee") || text.includes("комисси")) {
+            return {
+                intent: IntentType.MARKET_QUERY,
+                confidence: 0.7,
+                reasoning: "Fallback: detected fee request",
+                shouldUseAPI: true,
+                shouldUseKnowledge: false
+            };
+        }
+        
         return {
             intent: IntentType.GENERAL_CHAT,
             confidence: 0.5,
@@ -7,9 +7,23 @@ import {
 } from "@elizaos/core";
 
 import { IntentAnalyzer, IntentType, type IntentAnalysisResult } from "./intentAnalyzer.js";
-import { initPriceService } from "../providers/priceProvider.js";
-import { initMarketService } from "../providers/marketProvider.js";
-import { initAssetService } from "../providers/assetProvider.js";
+import { getReyaService } from "./reyaService.js";
+import { splitSymbolList } from "./symbolResolver.js";
+import { compareMarkets } from "./marketComparison.js";
+import { getHistoryService, parseTimeWindow, formatDuration } from "./historyService.js";
+import { isCandleRequest } from "./candles.js";
+import { isChartRequest } from "./charts.js";
+import { isFundingRequest } from "./funding.js";
+import { isOpenInterestRequest } from "./openInterest.js";
+import { isPremiumRequest } from "./premium.js";
+import { isCapacityRequest } from "./capacity.js";
+import { isTradeCostRequest } from "./tradeCost.js";
+import { isLiquidationRequest } from "./liquidation.js";
+import { isPnlRequest } from "./pnl.js";
+import { classifyWatchlistRequest } from "./watchlist.js";
+import { formatResolutionNotes, formatCompact, formatSignedPercent } from "./marketTable.js";
+import { COMPARISON, HISTORY } from "../constants/index.js";
+import type { MarketData } from "../types/index.js";
 
 export class IntentDispatcher {
     private intentAnalyzer: IntentAnalyzer;
@@ -33,25 +47,25 @@ export class IntentDispatcher {
             // Analyze user intent
             const analysis = await this.intentAnalyzer.analyzeIntent(message);
             
-            elizaLogger.info(`📋 Dispatch Decision:`, {
+            elizaLogger.info({
                 intent: analysis.intent,
                 shouldUseAPI: analysis.shouldUseAPI,
                 shouldUseKnowledge: analysis.shouldUseKnowledge,
                 confidence: analysis.confidence
-            });
+            }, "📋 Dispatch Decision");
 
             // Route based on analysis
             const result = await this.routeRequest(analysis, message, state, callback);
             
-            elizaLogger.info(`✅ Dispatch Complete:`, {
+            elizaLogger.info({
                 usedSource: result.usedSource,
                 hasResponse: !!result.response
-            });
+            }, "✅ Dispatch Complete");
 
             return result;
 
         } catch (error) {
-            elizaLogger.error("❌ Intent Dispatcher Error:", error);
+            elizaLogger.error({ err: error }, "❌ Intent Dispatcher Error");
             
             return {
                 shouldProceed: true, // Let other handlers try
@@ -92,6 +106,13 @@ export class IntentDispatcher {
             case IntentType.HISTORICAL_DATA_QUERY:
                 return await this.handleHistoricalQuery(analysis, message, state, callback);
 
+            case IntentType.ALERT_REQUEST:
+                // SET_REYA_PRICE_ALERT, SET_REYA_FUNDING_ALERT, SET_REYA_PREMIUM_ALERT, LIST_REYA_ALERTS and CANCEL_REYA_ALERT answer these
+                return {
+                    shouldProceed: true,
+                    usedSource: "alerts"
+                };
+
             case IntentType.GENERAL_CHAT:
             default:
                 // Let other handlers (like general chat) handle this
@@ -125,23 +146,23 @@ export class IntentDispatcher {
         elizaLogger.info("💰 Handling Price Query via API...");
         
         try {
-            const priceService = await initPriceService(this.runtime);
+            const reyaService = getReyaService(this.runtime);
+            const priceService = reyaService.prices;
             const prices = await priceService.getPrices();
             
             // Extract asset from message if possible
-            const messageText = message.content.text?.toLowerCase() || "";
             const assets = analysis.extractedEntities?.assets || [];
             
-            if (assets.length > 0) {
+            if (assets.length === 1) {
                 // Handle specific asset price request
-                const assetSymbol = assets[0].toUpperCase();
-                const assetPrice = prices.find(p => 
-                    String(p.marketId).includes(assetSymbol) || 
-                    p.assetPairId?.includes(assetSymbol)
-                );
+                const resolution = await reyaService.symbols.resolveMarket(assets[0]);
+                const market = resolution.best && !resolution.ambiguous ? resolution.best.item : null;
+                const assetPrice = market
+                    ? prices.find(p => p.marketId === parseInt(market.id))
+                    : undefined;
                 
-                if (assetPrice) {
-                    const response = `Current ${assetSymbol} price on Reya Network:
+                if (market && assetPrice) {
+                    const response = `Current ${resolution.best!.symbol} price on Reya Network (${market.ticker}):
 • Mark Price: $${priceService.formatPrice(assetPrice.price)}
 • Oracle Price: $${priceService.formatPrice(assetPrice.oraclePrice)}
 • Pool Price: $${priceService.formatPrice(assetPrice.poolPrice)}`;
@@ -158,28 +179,15 @@ export class IntentDispatcher {
                 }
             }
             
-            // General price overview
-            const summary = await priceService.getPricesSummary();
-            const validPrices = prices.filter(p => p.price && Number.isFinite(parseFloat(p.price)));
-            const topPrices = validPrices.slice(0, 3);
-            
-            const response = `Reya Network Price Overview:
-${topPrices.map((p, i) => `${i + 1}. Market ${p.marketId}: $${priceService.formatPrice(p.price)}`).join('\n')}
-
-📊 ${summary.totalMarkets} active markets total`;
-
-            if (callback) {
-                callback({ text: response });
-            }
-
+            // Several assets, an ambiguous or unknown name, or no name at all:
+            // GET_REYA_PRICES builds the table, the numbered choice list or the overview
             return {
-                shouldProceed: false,
-                response,
-                usedSource: "reya_api_price"
+                shouldProceed: true,
+                usedSource: "price_action"
             };
 
         } catch (error) {
-            elizaLogger.error("Price query error:", error);
+            elizaLogger.error({ err: error }, "Price query error");
             return {
                 shouldProceed: true, // Let other handlers try
                 usedSource: "api_error"
@@ -195,8 +203,80 @@ ${topPrices.map((p, i) => `${i + 1}. Market ${p.marketId}: $${priceService.forma
     ): Promise<{ shouldProceed: boolean; response?: string; usedSource: string }> {
         elizaLogger.info("📊 Handling Market Query via API...");
         
+        if (classifyWatchlistRequest(message.content.text || "")) {
+            // ADD_TO_REYA_WATCHLIST, REMOVE_FROM_REYA_WATCHLIST and SHOW_REYA_WATCHLIST answer these
+            return {
+                shouldProceed: true,
+                usedSource: "watchlist"
+            };
+        }
+
+        if (isPnlRequest(message.content.text || "")) {
+            // SIMULATE_REYA_PNL answers these
+            return {
+                shouldProceed: true,
+                usedSource: "pnl"
+            };
+        }
+
+        if (isTradeCostRequest(message.content.text || "")) {
+            // ESTIMATE_REYA_TRADE_COST answers these
+            return {
+                shouldProceed: true,
+                usedSource: "trade_cost"
+            };
+        }
+
+        if (isLiquidationRequest(message.content.text || "")) {
+            // CALCULATE_REYA_LIQUIDATION answers these
+            return {
+                shouldProceed: true,
+                usedSource: "liquidation"
+            };
+        }
+
+        if (isFundingRequest(message.content.text || "")) {
+            // GET_REYA_FUNDING answers these
+            return {
+                shouldProceed: true,
+                usedSource: "funding"
+            };
+        }
+
+        if (isOpenInterestRequest(message.content.text || "")) {
+            // GET_REYA_OPEN_INTEREST answers these
+            return {
+                shouldProceed: true,
+                usedSource: "open_interest"
+            };
+        }
+
+        if (isPremiumRequest(message.content.text || "")) {
+            // GET_REYA_PREMIUM answers these
+            return {
+                shouldProceed: true,
+                usedSource: "premium"
+            };
+        }
+
+        if (isCapacityRequest(message.content.text || "")) {
+            // GET_REYA_CAPACITY answers these
+            return {
+                shouldProceed: true,
+                usedSource: "capacity"
+            };
+        }
+
+        if (analysis.extractedEntities?.assets?.length) {
+            // GET_REYA_MARKETS answers named markets with one row per symbol
+            return {
+                shouldProceed: true,
+                usedSource: "market_action"
+            };
+        }
+
         try {
-            const marketService = await initMarketService(this.runtime);
+            const marketService = getReyaService(this.runtime).markets;
             const markets = await marketService.getMarkets();
             const marketsData = await marketService.getMarketsData();
             
@@ -222,7 +302,7 @@ ${topMarkets.map((m, i) => `${i + 1}. ${m.ticker} (ID: ${m.id})`).join('\n')}
             };
 
         } catch (error) {
-            elizaLogger.error("Market query error:", error);
+            elizaLogger.error({ err: error }, "Market query error");
             return {
                 shouldProceed: true,
                 usedSource: "api_error"
@@ -239,12 +319,12 @@ ${topMarkets.map((m, i) => `${i + 1}. ${m.ticker} (ID: ${m.id})`).join('\n')}
         elizaLogger.info("🪙 Handling Asset Query via API...");
         
         try {
-            const assetService = await initAssetService(this.runtime);
+            const assetService = getReyaService(this.runtime).assets;
             const assets = await assetService.getAssets();
             
             const response = `Reya Network Supported Assets:
 
-${assets.slice(0, 10).map((a, i) => `${i + 1}. ${a.name} (${a.symbol})`).join('\n')}
+${assets.slice(0, 10).map((a, i) => `${i + 1}. ${a.name} (${a.short})`).join('\n')}
 
 📊 Total: ${assets.length} assets supported
 🔗 All assets available for cross-margining`;
@@ -260,7 +340,7 @@ ${assets.slice(0, 10).map((a, i) => `${i + 1}. ${a.name} (${a.symbol})`).join('\
             };
 
         } catch (error) {
-            elizaLogger.error("Asset query error:", error);
+            elizaLogger.error({ err: error }, "Asset query error");
             return {
                 shouldProceed: true,
                 usedSource: "api_error"
@@ -274,14 +354,71 @@ ${assets.slice(0, 10).map((a, i) => `${i + 1}. ${a.name} (${a.symbol})`).join('\
         state: State,
         callback?: HandlerCallback
     ): Promise<{ shouldProceed: boolean; response?: string; usedSource: string }> {
-        elizaLogger.info("🔄 Handling Comparison Query (API + Knowledge)...");
-        
-        // For comparison queries, we might want to combine API data with knowledge
-        // Let other handlers process this for now
-        return {
-            shouldProceed: true,
-            usedSource: "comparison_hybrid"
-        };
+        elizaLogger.info("🔄 Handling Comparison Query via API...");
+
+        try {
+            const reyaService = getReyaService(this.runtime);
+            const resolution = await reyaService.symbols.resolveMarketList(
+                splitSymbolList(analysis.extractedEntities?.assets)
+            );
+
+            // The analyzer sometimes misses a symbol; pick up the rest from the text
+            if (resolution.markets.length < 2) {
+                for (const market of await reyaService.symbols.findMarketMentions(message.content.text || "")) {
+                    if (!resolution.markets.some(m => m.id === market.id)) {
+                        resolution.markets.push(market);
+                    }
+                }
+            }
+
+            if (resolution.markets.length < 2) {
+                // Nothing to put side by side; let other handlers answer
+                return {
+                    shouldProceed: true,
+                    usedSource: "comparison_hybrid"
+                };
+            }
+
+            const markets = resolution.markets.slice(0, COMPARISON.MAX_MARKETS);
+            const prices = await reyaService.prices.getPrices();
+            const marketsData = await reyaService.markets.getMarketsData().catch((error): MarketData[] => {
+                elizaLogger.warn(`Comparison without market data: ${error}`);
+                return [];
+            });
+
+            const { table, highlights } = compareMarkets(markets.map(market => ({
+                market,
+                price: prices.find(p => p.marketId === parseInt(market.id)) ?? null,
+                data: marketsData.find(md => md.marketId === market.id) ?? null,
+            })), reyaService.prices);
+
+            const notes = formatResolutionNotes(resolution);
+            const dropped = resolution.markets.slice(COMPARISON.MAX_MARKETS).map(m => m.ticker);
+
+            const response = `**Reya Network Comparison: ${markets.map(m => m.ticker).join(" vs ")}**
+
+${table}
+
+**Notable differences:**
+${highlights.map(h => `• ${h}`).join('\n') || "• No notable differences right now"}${dropped.length ? `\n\nCompared the first ${COMPARISON.MAX_MARKETS}; left out ${dropped.join(", ")}.` : ""}${notes ? `\n\n${notes}` : ""}`;
+
+            if (callback) {
+                callback({ text: response });
+            }
+
+            return {
+                shouldProceed: false,
+                response,
+                usedSource: "reya_api_comparison"
+            };
+
+        } catch (error) {
+            elizaLogger.error({ err: error }, "Comparison query error");
+            return {
+                shouldProceed: true,
+                usedSource: "api_error"
+            };
+        }
     }
 
     private async handleHistoricalQuery(
@@ -290,12 +427,94 @@ ${assets.slice(0, 10).map((a, i) => `${i + 1}. ${a.name} (${a.symbol})`).join('\
         state: State,
         callback?: HandlerCallback
     ): Promise<{ shouldProceed: boolean; response?: string; usedSource: string }> {
-        elizaLogger.info("📈 Handling Historical Query...");
-        
-        // For now, let chart/historical handlers deal with this
-        return {
-            shouldProceed: true,
-            usedSource: "historical_data"
-        };
+        elizaLogger.info("📈 Handling Historical Query from local history...");
+
+        try {
+            const reyaService = getReyaService(this.runtime);
+            const history = getHistoryService(this.runtime);
+            const text = message.content.text || "";
+
+            if (isCandleRequest(text)) {
+                // GET_REYA_CANDLES answers these
+                return {
+                    shouldProceed: true,
+                    usedSource: "candles"
+                };
+            }
+
+            if (isChartRequest(text)) {
+                // GET_REYA_CHART answers these
+                return {
+                    shouldProceed: true,
+                    usedSource: "chart"
+                };
+            }
+
+            const resolution = await reyaService.symbols.resolveMarketList(
+                splitSymbolList(analysis.extractedEntities?.assets)
+            );
+            const market = resolution.markets[0] ?? (await reyaService.symbols.findMarketMentions(text))[0];
+
+            if (!history || !market) {
+                // No recorder or no market named; let chart/other handlers try
+                return {
+                    shouldProceed: true,
+                    usedSource: "historical_data"
+                };
+            }
+
+            const retentionMs = history.retentionDays * 24 * 60 * 60 * 1000;
+            const window = parseTimeWindow(analysis.extractedEntities?.timeframe || "")
+                ?? parseTimeWindow(text)
+                ?? { ms: HISTORY.DEFAULT_WINDOW_HOURS * 60 * 60 * 1000, label: `${HISTORY.DEFAULT_WINDOW_HOURS}h` };
+            const windowMs = Math.min(window.ms, retentionMs);
+            const label = windowMs < window.ms ? formatDuration(windowMs) : window.label;
+
+            const to = Date.now();
+            const from = to - windowMs;
+            const summary = await history.summarize(market.id, from, to);
+            const priceService = reyaService.prices;
+
+            let response: string;
+            if (!summary) {
+                response = `I don't have recorded history for **${market.ticker}** in the last ${label} yet. Prices are sampled locally${history.sampleIntervalMs > 0 ? ` every ${formatDuration(history.sampleIntervalMs)}` : " only while the recorder is on (REYA_HISTORY_ENABLED)"}, so ask again once some samples have been collected.`;
+            } else {
+                const { first, last } = summary;
+                const lines = [
+                    `• Price: $${priceService.formatPrice(first.price)} → $${priceService.formatPrice(last.price)} (${formatSignedPercent(summary.changePercentage)})`,
+                    `• Range: $${priceService.formatPrice(summary.low.price)} – $${priceService.formatPrice(summary.high.price)} (high at ${new Date(summary.high.timestamp).toUTCString().slice(17, 22)} UTC)`,
+                ];
+                if (first.data && last.data) {
+                    lines.push(`• Funding rate: ${(first.data.fundingRate * 100).toFixed(4)}% → ${(last.data.fundingRate * 100).toFixed(4)}%`);
+                    lines.push(`• Open interest: ${formatCompact(first.data.openInterest)} → ${formatCompact(last.data.openInterest)}`);
+                }
+
+                // Say so when recording started partway through the window
+                const coverage = summary.from - from > Math.max(2 * history.sampleIntervalMs, 5 * 60 * 1000)
+                    ? `\n\nRecording only covers the last ${formatDuration(to - summary.from)} of that window.`
+                    : "";
+
+                response = `**${market.ticker} over the last ${label}** (${summary.samples} samples recorded locally)
+
+${lines.join('\n')}${coverage}`;
+            }
+
+            if (callback) {
+                callback({ text: response });
+            }
+
+            return {
+                shouldProceed: false,
+                response,
+                usedSource: "local_history"
+            };
+
+        } catch (error) {
+            elizaLogger.error({ err: error }, "Historical query error");
+            return {
+                shouldProceed: true,
+                usedSource: "api_error"
+            };
+        }
     }
-}
\ No newline at end of file
+}
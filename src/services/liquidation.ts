@@ -0,0 +1,131 @@
+import { LIQUIDATION } from "../constants/index.js";
+import { formatTable, formatUsd } from "./marketTable.js";
+import { marketBaseSymbol } from "./symbolResolver.js";
+import type { PositionSide } from "./position.js";
+import type { LiquidationEstimate, Market } from "../types/index.js";
+
+const LIQUIDATION_KEYWORDS = /liquidat|\bliq\b|margin (?:requirement|required|needed)|(?:initial|maintenance) margin|how much margin|leverage ladder|ликвидац|сколько маржи|требовани\p{L}* к марже/u;
+
+export const isLiquidationRequest = (text: string): boolean => LIQUIDATION_KEYWORDS.test(text.toLowerCase());
+
+/**
+ * Maintenance margin as a share of the notional. Reya's margin
+ * requirements come from its risk parameters, which the API doesn't expose,
+ * so this takes a fixed fraction of the initial margin at the market's max
+ * leverage: 1/(2 × 25) = 2% on a 25x market.
+ */
+export const maintenanceMarginRatio = (maxLeverage: number): number =>
+    maxLeverage > 0 ? LIQUIDATION.MAINTENANCE_FRACTION / maxLeverage : 0;
+
+/**
+ * Where an isolated position is liquidated: the price at which the margin
+ * posted (notional / leverage) plus the PnL falls to the maintenance margin
+ * at that price. Fees and funding are left out.
+ * - long: entry × (1 − 1/leverage) / (1 − mmr)
+ * - short: entry × (1 + 1/leverage) / (1 + mmr)
+ */
+export function liquidationPrice(entry: number, leverage: number, side: PositionSide, mmr: number): number {
+    return side === "long"
+        ? Math.max(entry * (1 - 1 / leverage) / (1 - mmr), 0)
+        : entry * (1 + 1 / leverage) / (1 + mmr);
+}
+
+// How far the liquidation price is from the entry, as a percentage of the entry
+const distancePercent = (entry: number, liquidation: number): number =>
+    entry > 0 ? (Math.abs(liquidation - entry) / entry) * 100 : 0;
+
+export function estimateLiquidation(input: {
+    market: Market;
+    entryPrice: number;
+    entryIsMark: boolean;
+    side: PositionSide;
+    leverage: number;
+    notional: number | null;
+}): LiquidationEstimate {
+    const { market, entryPrice, entryIsMark, side, leverage, notional } = input;
+    const mmr = maintenanceMarginRatio(market.maxLeverage);
+    const liquidation = liquidationPrice(entryPrice, leverage, side, mmr);
+
+    return {
+        marketId: market.id,
+        ticker: market.ticker,
+        baseAsset: marketBaseSymbol(market),
+        side,
+        entryPrice,
+        entryIsMark,
+        leverage,
+        maxLeverage: market.maxLeverage,
+        maintenanceMarginRatio: mmr,
+        liquidationPrice: liquidation,
+        distancePercent: distancePercent(entryPrice, liquidation),
+        notional,
+        base: notional !== null && entryPrice > 0 ? notional / entryPrice : null,
+        initialMargin: notional !== null ? notional / leverage : null,
+        maintenanceMargin: notional !== null ? notional * mmr : null,
+    };
+}
+
+// The ladder's leverages up to the market's max, plus the one asked about and the max itself
+export function leverageLadder(leverage: number, maxLeverage: number): number[] {
+    const steps = new Set<number>([...LIQUIDATION.LADDER.filter(step => step <= maxLeverage), leverage, maxLeverage]);
+    return [...steps].sort((a, b) => a - b);
+}
+
+/**
+ * One row per leverage from the ladder: where the same entry is liquidated,
+ * how far that is, and the margin it takes when there's a size. The row for
+ * the leverage asked about is bold.
+ */
+export function buildLiquidationLadderTable(estimate: LiquidationEstimate, formatPrice: (price: number) => string): string {
+    const { entryPrice, side, maintenanceMarginRatio: mmr, notional } = estimate;
+    const headers = ["Leverage", "Liq. price", "Distance"];
+    if (notional !== null) {
+        headers.push("Margin");
+    }
+
+    const rows = leverageLadder(estimate.leverage, estimate.maxLeverage).map(leverage => {
+        const liquidation = liquidationPrice(entryPrice, leverage, side, mmr);
+        const cells = [
+            `${leverage}x`,
+            `$${formatPrice(liquidation)}`,
+            `${distancePercent(entryPrice, liquidation).toFixed(2)}%`,
+        ];
+        if (notional !== null) {
+            cells.push(formatUsd(notional / leverage));
+        }
+        return leverage === estimate.leverage ? cells.map(cell => `**${cell}**`) : cells;
+    });
+    return formatTable(headers, rows, ["right", "right", "right", "right"]);
+}
+
+/**
+ * The estimate as a chat message: the liquidation price and its distance,
+ * the margin requirement when there's a size, and the leverage ladder.
+ */
+export function formatLiquidation(estimate: LiquidationEstimate, formatPrice: (price: number) => string): string {
+    const { side, leverage, notional, base } = estimate;
+    const size = base !== null
+        ? `${base.toLocaleString("en-US", { maximumFractionDigits: base >= 1 ? 4 : 6 })} ${estimate.baseAsset}`
+        : estimate.baseAsset;
+    const entry = `$${formatPrice(estimate.entryPrice)}${estimate.entryIsMark ? " (the mark price now)" : ""}`;
+    const direction = side === "long" ? "below" : "above";
+
+    const lines = [
+        `**Liquidation estimate: ${leverage}x ${side} ${size} on ${estimate.ticker}**`,
+        `Entry: ${entry}`,
+        `Liquidation price: **$${formatPrice(estimate.liquidationPrice)}**, ${estimate.distancePercent.toFixed(2)}% ${direction} entry`,
+    ];
+    if (notional !== null && estimate.initialMargin !== null && estimate.maintenanceMargin !== null) {
+        lines.push(
+            `Size: ${formatUsd(notional)}`,
+            `Initial margin: ${formatUsd(estimate.initialMargin)} (1/${leverage} of the size)`,
+            `Maintenance margin: ${formatUsd(estimate.maintenanceMargin)} (${(estimate.maintenanceMarginRatio * 100).toFixed(2)}% of the size)`
+        );
+    }
+    lines.push(
+        "",
+        `How the liquidation price moves with leverage (max ${estimate.maxLeverage}x on ${estimate.ticker}):`,
+        buildLiquidationLadderTable(estimate, formatPrice)
+    );
+    return lines.join("\n");
+}
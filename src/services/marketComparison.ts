@@ -0,0 +1,136 @@
+import { COMPARISON } from "../constants/index.js";
+import type { ReyaPriceService } from "../providers/priceProvider.js";
+import type { Market, MarketData, Price } from "../types/index.js";
+import { formatTable, formatCompact, formatSignedPercent } from "./marketTable.js";
+
+export interface ComparisonEntry {
+    market: Market;
+    price: Price | null;
+    data: MarketData | null;
+}
+
+export interface MarketComparison {
+    // Metrics as rows, one column per market
+    table: string;
+    // One line per notable difference: 24h move, volume, OI, funding, skew, leverage
+    highlights: string[];
+}
+
+const markPrice = (entry: ComparisonEntry): number => {
+    const price = parseFloat(entry.price?.price ?? "");
+    return Number.isFinite(price) ? price : entry.market.markPrice;
+};
+
+// Open interest is reported in base units; comparing markets needs USD
+const openInterestUsd = (entry: ComparisonEntry): number =>
+    (entry.data?.openInterest ?? 0) * markPrice(entry);
+
+const fundingPercent = (rate: number): string => `${(rate * 100).toFixed(4)}%`;
+
+function ratioHighlight(
+    entries: ComparisonEntry[],
+    value: (entry: ComparisonEntry) => number,
+    describe: (high: string, low: string, ratio: string) => string
+): string | null {
+    const sorted = [...entries].sort((a, b) => value(b) - value(a));
+    const high = sorted[0];
+    const low = sorted[sorted.length - 1];
+    if (value(low) <= 0 || value(high) / value(low) < COMPARISON.MIN_RATIO) {
+        return null;
+    }
+    return describe(high.market.ticker, low.market.ticker, (value(high) / value(low)).toFixed(1));
+}
+
+function changeHighlight(entries: ComparisonEntry[]): string {
+    const sorted = [...entries].sort((a, b) => b.data!.priceChange24HPercentage - a.data!.priceChange24HPercentage);
+    const best = sorted[0];
+    const worst = sorted[sorted.length - 1];
+    const gap = best.data!.priceChange24HPercentage - worst.data!.priceChange24HPercentage;
+    if (gap < COMPARISON.MIN_CHANGE_GAP_PCT) {
+        return `↔️ 24h moves are within ${COMPARISON.MIN_CHANGE_GAP_PCT} pt of each other`;
+    }
+    return `📈 ${best.market.ticker} outperformed ${worst.market.ticker} over 24h (${formatSignedPercent(best.data!.priceChange24HPercentage)} vs ${formatSignedPercent(worst.data!.priceChange24HPercentage)})`;
+}
+
+function fundingHighlight(entries: ComparisonEntry[]): string {
+    const longsPay = entries.filter(e => e.data!.fundingRate > 0);
+    const shortsPay = entries.filter(e => e.data!.fundingRate < 0);
+    if (longsPay.length > 0 && shortsPay.length > 0) {
+        return `🔀 Funding points opposite ways: longs pay on ${longsPay.map(e => e.market.ticker).join(", ")}, shorts pay on ${shortsPay.map(e => e.market.ticker).join(", ")}`;
+    }
+    const highest = [...entries].sort((a, b) => Math.abs(b.data!.fundingRate) - Math.abs(a.data!.fundingRate))[0];
+    const rate = highest.data!.fundingRate;
+    return `${rate >= 0 ? "🔵" : "🔴"} Funding is strongest on ${highest.market.ticker} (${fundingPercent(rate)}, ${rate >= 0 ? "longs pay shorts" : "shorts pay longs"})`;
+}
+
+function skewHighlights(entries: ComparisonEntry[]): string[] {
+    return entries.flatMap(({ market, data }) => {
+        if (data!.longSkewPercentage > COMPARISON.CROWDED_SKEW_PCT) {
+            return [`🐂 ${market.ticker} is long-crowded (${data!.longSkewPercentage.toFixed(0)}% of OI long)`];
+        }
+        if (data!.shortSkewPercentage > COMPARISON.CROWDED_SKEW_PCT) {
+            return [`🐻 ${market.ticker} is short-crowded (${data!.shortSkewPercentage.toFixed(0)}% of OI short)`];
+        }
+        return [];
+    });
+}
+
+function leverageHighlight(entries: ComparisonEntry[]): string | null {
+    // First market listed wins ties
+    const low = entries.reduce((min, e) => e.market.maxLeverage < min.market.maxLeverage ? e : min);
+    const high = entries.reduce((max, e) => e.market.maxLeverage > max.market.maxLeverage ? e : max);
+    if (low.market.maxLeverage === high.market.maxLeverage) {
+        return null;
+    }
+    return `🎯 Max leverage ranges from ${low.market.maxLeverage}x on ${low.market.ticker} to ${high.market.maxLeverage}x on ${high.market.ticker}`;
+}
+
+/**
+ * Lines markets up side by side (prices, 24h change, volume, open interest,
+ * funding, skew, max leverage) and picks out the differences worth reading.
+ */
+export function compareMarkets(entries: ComparisonEntry[], priceService: ReyaPriceService): MarketComparison {
+    const cell = (render: (entry: ComparisonEntry) => string) =>
+        entries.map(entry => entry.data || entry.price ? render(entry) : "N/A");
+    const dataCell = (render: (data: MarketData, entry: ComparisonEntry) => string) =>
+        entries.map(entry => entry.data ? render(entry.data, entry) : "N/A");
+
+    const rows = [
+        ["Mark Price", ...cell(e => `$${priceService.formatPrice(e.price?.price)}`)],
+        ["Oracle Price", ...cell(e => `$${priceService.formatPrice(e.price?.oraclePrice)}`)],
+        ["24h Change", ...dataCell(d => formatSignedPercent(d.priceChange24HPercentage))],
+        ["24h Volume", ...dataCell(d => `$${formatCompact(d.last24hVolume)}`)],
+        ["Open Interest", ...dataCell((_, e) => `$${formatCompact(openInterestUsd(e))}`)],
+        ["Funding Rate", ...dataCell(d => fundingPercent(d.fundingRate))],
+        ["Long/Short %", ...dataCell(d => `${d.longSkewPercentage.toFixed(0)}/${d.shortSkewPercentage.toFixed(0)}`)],
+        ["Max Leverage", ...entries.map(e => `${e.market.maxLeverage}x`)],
+    ];
+    const table = formatTable(
+        ["", ...entries.map(e => e.market.ticker)],
+        rows,
+        ["left", ...entries.map((): "right" => "right")]
+    );
+
+    const withData = entries.filter(e => e.data);
+    const highlights: string[] = [];
+    if (withData.length >= 2) {
+        highlights.push(changeHighlight(withData));
+        const volume = ratioHighlight(withData, e => e.data!.last24hVolume,
+            (high, low, ratio) => `💰 ${high} traded ${ratio}x the 24h volume of ${low}`);
+        const openInterest = ratioHighlight(withData, openInterestUsd,
+            (high, low, ratio) => `📊 ${high} has ${ratio}x the open interest of ${low}`);
+        highlights.push(...[volume, openInterest].filter((h): h is string => h !== null));
+        highlights.push(fundingHighlight(withData));
+        highlights.push(...skewHighlights(withData));
+    }
+    const leverage = leverageHighlight(entries);
+    if (leverage) {
+        highlights.push(leverage);
+    }
+    const missing = entries.filter(e => !e.data).map(e => e.market.ticker);
+    if (missing.length > 0) {
+        highlights.push(`⚠️ Live market data unavailable for ${missing.join(", ")}`);
+    }
+
+    return { table, highlights };
+}
@@ -0,0 +1,107 @@
+import type { ReyaPriceService } from "../providers/priceProvider.js";
+import type { Market, MarketData, MarketListResolution, Price } from "../types/index.js";
+
+export type ColumnAlign = "left" | "right";
+
+/**
+ * Renders rows as a Markdown table. Cells are padded to the column width so
+ * the table still lines up where the client shows it as plain text.
+ */
+export function formatTable(headers: string[], rows: string[][], align: ColumnAlign[] = []): string {
+    const widths = headers.map((header, i) =>
+        Math.max(3, header.length, ...rows.map(row => (row[i] ?? "").length))
+    );
+    const pad = (cell: string, i: number) =>
+        align[i] === "right" ? cell.padStart(widths[i]) : cell.padEnd(widths[i]);
+    const line = (cells: string[]) => `| ${cells.map(pad).join(" | ")} |`;
+    const divider = `| ${widths.map((w, i) => align[i] === "right" ? `${"-".repeat(w - 1)}:` : "-".repeat(w)).join(" | ")} |`;
+
+    return [line(headers), divider, ...rows.map(row => line(headers.map((_, i) => row[i] ?? "")))].join("\n");
+}
+
+// 48250000 → "48.25M"
+export function formatCompact(value: number | null | undefined): string {
+    if (value === null || value === undefined || !Number.isFinite(value)) {
+        return "N/A";
+    }
+    const abs = Math.abs(value);
+    const [divisor, suffix] = abs >= 1e9 ? [1e9, "B"] : abs >= 1e6 ? [1e6, "M"] : abs >= 1e3 ? [1e3, "K"] : [1, ""];
+    return `${(value / divisor).toFixed(divisor === 1 ? 0 : 2)}${suffix}`;
+}
+
+// -1234.5 → "-$1,234.50"
+export function formatUsd(value: number): string {
+    const amount = Math.abs(value).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    return `${value < 0 ? "-" : ""}$${amount}`;
+}
+
+export function formatSignedPercent(value: number | null | undefined, digits: number = 2): string {
+    if (value === null || value === undefined || !Number.isFinite(value)) {
+        return "N/A";
+    }
+    return `${value >= 0 ? "+" : ""}${value.toFixed(digits)}%`;
+}
+
+/**
+ * One row per market: mark, oracle and pool price with the 24h change.
+ * Everything comes from the batch prices and markets/data responses.
+ */
+export function buildPriceTable(
+    markets: Market[],
+    prices: Price[],
+    marketsData: MarketData[],
+    priceService: ReyaPriceService
+): string {
+    const rows = markets.map(market => {
+        const price = prices.find(p => p.marketId === parseInt(market.id));
+        const data = marketsData.find(md => md.marketId === market.id);
+        return [
+            market.ticker,
+            `$${priceService.formatPrice(price?.price)}`,
+            `$${priceService.formatPrice(price?.oraclePrice)}`,
+            `$${priceService.formatPrice(price?.poolPrice)}`,
+            formatSignedPercent(data?.priceChange24HPercentage),
+        ];
+    });
+    return formatTable(["Market", "Mark", "Oracle", "Pool", "24h"], rows, ["left", "right", "right", "right", "right"]);
+}
+
+/**
+ * One row per market: 24h volume and change, open interest, funding rate
+ * and long/short skew.
+ */
+export function buildMarketTable(markets: Market[], marketsData: MarketData[]): string {
+    const rows = markets.map(market => {
+        const data = marketsData.find(md => md.marketId === market.id);
+        if (!data) {
+            return [market.ticker, "N/A", "N/A", "N/A", "N/A", "N/A"];
+        }
+        return [
+            market.ticker,
+            `$${formatCompact(data.last24hVolume)}`,
+            formatSignedPercent(data.priceChange24HPercentage),
+            formatCompact(data.openInterest),
+            `${(data.fundingRate * 100).toFixed(4)}%`,
+            `${data.longSkewPercentage.toFixed(0)}/${data.shortSkewPercentage.toFixed(0)}`,
+        ];
+    });
+    return formatTable(
+        ["Market", "24h Volume", "24h", "Open Interest", "Funding", "Long/Short %"],
+        rows,
+        ["left", "right", "right", "right", "right", "right"]
+    );
+}
+
+/**
+ * Lines for the symbols a multi-symbol query couldn't place, e.g.
+ * `❓ "SO" could be SOL-rUSD or JITOSOL-rUSD`. Empty when all resolved.
+ */
+export function formatResolutionNotes(resolution: MarketListResolution): string {
+    const notes = resolution.ambiguous.map(r =>
+        `❓ "${r.query}" could be ${r.candidates.map(c => c.item.ticker).join(" or ")}; ask for it by full ticker`
+    );
+    if (resolution.unknown.length > 0) {
+        notes.push(`⚠️ Not listed on Reya Network: ${resolution.unknown.map(q => q.toUpperCase()).join(", ")}`);
+    }
+    return notes.join("\n");
+}
@@ -0,0 +1,178 @@
+import type { IAgentRuntime } from "@elizaos/core";
+
+import { COMPARISON, OPEN_INTEREST } from "../constants/index.js";
+import { formatDuration } from "./historyService.js";
+import { formatTable, formatCompact, formatSignedPercent } from "./marketTable.js";
+import type {
+    Market,
+    MarketData,
+    OpenInterestEntry,
+    OpenInterestReport,
+    OpenInterestSnapshot,
+    Price,
+} from "../types/index.js";
+
+const OPEN_INTEREST_KEYWORDS = /open interest|\boi\b|skew|crowded|long\/short|long-short|открыт\p{L}* интерес|(?<!\p{L})ои(?!\p{L})|перекос|лонг\p{L}*\s*\/\s*шорт/u;
+
+export const isOpenInterestRequest = (text: string): boolean => OPEN_INTEREST_KEYWORDS.test(text.toLowerCase());
+
+const percentChange = (now: number, before: number): number | null =>
+    before > 0 ? ((now - before) / before) * 100 : null;
+
+/**
+ * Open interest across every market with data: each market's notional at
+ * the mark price and share of the total, the most long- and short-heavy
+ * markets, and changes against `previous` when there is one.
+ */
+export function buildOpenInterestReport(
+    markets: Market[],
+    marketsData: MarketData[],
+    prices: Price[],
+    previous: OpenInterestSnapshot | null,
+    now: number = Date.now()
+): OpenInterestReport {
+    const rows = markets.flatMap(market => {
+        const data = marketsData.find(d => d.marketId === market.id);
+        if (!data) {
+            return [];
+        }
+        const price = parseFloat(prices.find(p => String(p.marketId) === market.id)?.price ?? "");
+        const mark = Number.isFinite(price) ? price : market.markPrice;
+        return [{ market, data, notional: data.openInterest * mark }];
+    });
+    const totalNotional = rows.reduce((sum, row) => sum + row.notional, 0);
+
+    const entries: OpenInterestEntry[] = rows
+        .map(({ market, data, notional }) => {
+            const before = previous?.markets[market.id];
+            return {
+                marketId: market.id,
+                ticker: market.ticker,
+                openInterest: data.openInterest,
+                longOI: data.longOI,
+                shortOI: data.shortOI,
+                notional,
+                share: totalNotional > 0 ? (notional / totalNotional) * 100 : 0,
+                longSkewPercentage: data.longSkewPercentage,
+                shortSkewPercentage: data.shortSkewPercentage,
+                change: before
+                    ? {
+                        notional: notional - before.notional,
+                        notionalPercent: percentChange(notional, before.notional),
+                        longSkewPoints: data.longSkewPercentage - before.longSkewPercentage,
+                    }
+                    : null,
+            };
+        })
+        .sort((a, b) => b.notional - a.notional);
+
+    const withOi = entries.filter(e => e.openInterest > 0);
+    const previousTotal = previous
+        ? Object.values(previous.markets).reduce((sum, m) => sum + m.notional, 0)
+        : 0;
+
+    return {
+        timestamp: now,
+        totalNotional,
+        entries,
+        longCrowded: withOi
+            .filter(e => e.longSkewPercentage > 50)
+            .sort((a, b) => b.longSkewPercentage - a.longSkewPercentage)
+            .slice(0, OPEN_INTEREST.TOP_CROWDED),
+        shortCrowded: withOi
+            .filter(e => e.shortSkewPercentage > 50)
+            .sort((a, b) => b.shortSkewPercentage - a.shortSkewPercentage)
+            .slice(0, OPEN_INTEREST.TOP_CROWDED),
+        previous: previous
+            ? {
+                timestamp: previous.timestamp,
+                totalNotional: previousTotal,
+                totalChangePercent: percentChange(totalNotional, previousTotal),
+            }
+            : null,
+    };
+}
+
+export const toOpenInterestSnapshot = (report: OpenInterestReport): OpenInterestSnapshot => ({
+    timestamp: report.timestamp,
+    markets: Object.fromEntries(report.entries.map(e => [
+        e.marketId,
+        { openInterest: e.openInterest, notional: e.notional, longSkewPercentage: e.longSkewPercentage },
+    ])),
+});
+
+// The snapshot the last report left, kept in the runtime cache so it outlives a restart
+export const loadOpenInterestSnapshot = async (runtime: IAgentRuntime): Promise<OpenInterestSnapshot | null> =>
+    (await runtime.getCache<OpenInterestSnapshot>(OPEN_INTEREST.SNAPSHOT_CACHE_KEY)) ?? null;
+
+export const saveOpenInterestSnapshot = async (runtime: IAgentRuntime, report: OpenInterestReport): Promise<void> => {
+    await runtime.setCache(OPEN_INTEREST.SNAPSHOT_CACHE_KEY, toOpenInterestSnapshot(report));
+};
+
+const crowdedLine = (entries: OpenInterestEntry[], side: "long" | "short"): string => {
+    const list = entries.map(e => {
+        const skew = side === "long" ? e.longSkewPercentage : e.shortSkewPercentage;
+        return `${e.ticker} ${skew.toFixed(1)}% ${side}${skew > COMPARISON.CROWDED_SKEW_PCT ? " (crowded)" : ""}`;
+    });
+    return side === "long"
+        ? `🐂 Most long-heavy: ${list.join(", ") || "none, no market leans long"}`
+        : `🐻 Most short-heavy: ${list.join(", ") || "none, no market leans short"}`;
+};
+
+// "+$1.20M (+4.10%)"
+export const formatNotionalChange = (change: number, percent: number | null): string =>
+    `${change >= 0 ? "+" : "-"}$${formatCompact(Math.abs(change))}${percent !== null ? ` (${formatSignedPercent(percent)})` : ""}`;
+
+/**
+ * The report as a chat message: total, a table of markets by notional with
+ * share, long/short split and change, the crowded sides, and the biggest
+ * movers since the previous snapshot.
+ */
+export function formatOpenInterestReport(report: OpenInterestReport): string {
+    const { previous } = report;
+    const since = previous ? formatDuration(report.timestamp - previous.timestamp) : "";
+    const headers = ["Market", "OI", "Notional", "Share", "Long/Short %"];
+    if (previous) {
+        headers.push(`Δ ${since}`);
+    }
+
+    const rows = report.entries.map(e => {
+        const cells = [
+            e.ticker,
+            formatCompact(e.openInterest),
+            `$${formatCompact(e.notional)}`,
+            `${e.share.toFixed(1)}%`,
+            `${e.longSkewPercentage.toFixed(0)}/${e.shortSkewPercentage.toFixed(0)}`,
+        ];
+        if (previous) {
+            cells.push(e.change ? formatSignedPercent(e.change.notionalPercent) : "new");
+        }
+        return cells;
+    });
+
+    const lines = [
+        `**Reya open interest**: $${formatCompact(report.totalNotional)} across ${report.entries.length} markets${previous ? ` (${formatNotionalChange(report.totalNotional - previous.totalNotional, previous.totalChangePercent)} in ${since})` : ""}`,
+        "",
+        formatTable(headers, rows, ["left", "right", "right", "right", "right", "right"]),
+        "",
+        crowdedLine(report.longCrowded, "long"),
+        crowdedLine(report.shortCrowded, "short"),
+    ];
+
+    if (previous) {
+        const compared = report.entries.filter(e => e.change);
+        const biggest = [...compared].sort((a, b) => Math.abs(b.change!.notional) - Math.abs(a.change!.notional))[0];
+        const skewShift = [...compared].sort((a, b) => Math.abs(b.change!.longSkewPoints) - Math.abs(a.change!.longSkewPoints))[0];
+        if (biggest && biggest.change!.notional !== 0) {
+            lines.push(`📊 Biggest OI change: ${biggest.ticker} ${formatNotionalChange(biggest.change!.notional, biggest.change!.notionalPercent)}`);
+        }
+        if (skewShift && Math.abs(skewShift.change!.longSkewPoints) >= 1) {
+            const before = skewShift.longSkewPercentage - skewShift.change!.longSkewPoints;
+            lines.push(`⚖️ Biggest skew shift: ${skewShift.ticker} ${before.toFixed(0)}% → ${skewShift.longSkewPercentage.toFixed(0)}% long`);
+        }
+        lines.push("", `Changes are against the last report, ${since} ago. Notional is open interest at the current mark price.`);
+    } else {
+        lines.push("", "This is the first report, so there's no earlier snapshot to compare with yet. Notional is open interest at the current mark price.");
+    }
+    return lines.join("\n");
+}
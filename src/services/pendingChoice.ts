@@ -0,0 +1,143 @@
+import { type IAgentRuntime, type Memory, elizaLogger } from "@elizaos/core";
+
+import { PENDING_CHOICE } from "../constants/index.js";
+import { rankMarkets } from "./symbolResolver.js";
+import type { Market, PendingMarketChoice, SymbolResolution } from "../types/index.js";
+
+const cacheKey = (roomId: string) => `reya-pending-choice-${roomId}`;
+
+const ORDINALS: Array<[RegExp, number]> = [
+    [/\b(first|1st)\b|перв/, 1],
+    [/\b(second|2nd)\b|втор/, 2],
+    [/\b(third|3rd)\b|трет/, 3],
+    [/\b(fourth|4th)\b|четв[её]рт/, 4],
+    [/\b(fifth|5th)\b|пят/, 5],
+];
+
+/**
+ * Reads a reply to a numbered choice list: "2", "#2", "option 2", "the
+ * second one", "второй", "last", or one of the listed tickers. Returns the
+ * 0-based index, or null when the message isn't an answer.
+ */
+export function parseChoiceReply(text: string, choice: PendingMarketChoice): number | null {
+    const reply = text.toLowerCase().replace(/[.!?,]/g, " ").trim();
+    const count = choice.candidates.length;
+    if (!reply || reply.split(/\s+/).length > PENDING_CHOICE.MAX_REPLY_WORDS) {
+        return null;
+    }
+
+    const inRange = (position: number) => position >= 1 && position <= count ? position - 1 : null;
+
+    const number = reply.match(/^(?:#|№|no\s*|option\s*|вариант\s*|номер\s*)?(\d+)$/);
+    if (number) {
+        return inRange(parseInt(number[1], 10));
+    }
+
+    if (/\blast\b|последн/.test(reply)) {
+        return count - 1;
+    }
+    for (const [pattern, position] of ORDINALS) {
+        if (pattern.test(reply)) {
+            return inRange(position);
+        }
+    }
+
+    // A ticker from the list, e.g. "JITOSOL" or "sol-rusd"
+    const listed = choice.candidates.map(c =>
+        ({ id: c.marketId, ticker: c.ticker, name: "", isActive: true, priority: 0 }) as Market
+    );
+    const { best, ambiguous } = rankMarkets(reply, listed);
+    if (best && !ambiguous && best.score >= 0.95) {
+        return listed.indexOf(best.item);
+    }
+
+    return null;
+}
+
+export function formatChoiceList(resolution: SymbolResolution<Market>): string {
+    return resolution.candidates
+        .map((c, i) => `${i + 1}. **${c.item.ticker}**${c.item.isActive ? "" : " (inactive)"}`)
+        .join("\n");
+}
+
+/**
+ * Remembers that the agent asked this room to pick one of `resolution`'s
+ * candidates so a follow-up like "2" can finish `actionName`.
+ */
+export async function savePendingChoice(
+    runtime: IAgentRuntime,
+    roomId: string,
+    actionName: string,
+    resolution: SymbolResolution<Market>,
+    params?: Record<string, string>
+): Promise<PendingMarketChoice> {
+    const choice: PendingMarketChoice = {
+        actionName,
+        query: resolution.query,
+        params,
+        candidates: resolution.candidates.map(c => ({ marketId: c.item.id, ticker: c.item.ticker })),
+        createdAt: Date.now(),
+    };
+    await runtime.setCache(cacheKey(roomId), choice);
+    elizaLogger.info(`📝 Saved pending ${actionName} choice for room ${roomId}: ${choice.candidates.map(c => c.ticker).join(", ")}`);
+    return choice;
+}
+
+export async function getPendingChoice(runtime: IAgentRuntime, roomId: string): Promise<PendingMarketChoice | null> {
+    const choice = await runtime.getCache<PendingMarketChoice>(cacheKey(roomId));
+    if (!choice) {
+        return null;
+    }
+    if (Date.now() - choice.createdAt > PENDING_CHOICE.TTL_MS) {
+        await runtime.deleteCache(cacheKey(roomId));
+        return null;
+    }
+    return choice;
+}
+
+export async function clearPendingChoice(runtime: IAgentRuntime, roomId: string): Promise<void> {
+    await runtime.deleteCache(cacheKey(roomId));
+}
+
+export interface ChoiceSelection {
+    choice: PendingMarketChoice;
+    marketId: string;
+    ticker: string;
+}
+
+/**
+ * The room's pending choice and the option this message picks, if the
+ * message answers it. Leaves the choice in place.
+ */
+export async function findChoiceSelection(runtime: IAgentRuntime, message: Memory): Promise<ChoiceSelection | null> {
+    if (!message.roomId) {
+        return null;
+    }
+    const choice = await getPendingChoice(runtime, message.roomId);
+    if (!choice) {
+        return null;
+    }
+    const index = parseChoiceReply(message.content.text || "", choice);
+    if (index === null) {
+        return null;
+    }
+    return { choice, ...choice.candidates[index] };
+}
+
+/**
+ * Like findChoiceSelection, but for the action that asked: returns the pick
+ * for `actionName` and clears the room's choice so it is answered once.
+ */
+export async function takeChoiceSelection(
+    runtime: IAgentRuntime,
+    message: Memory,
+    actionName: string
+): Promise<ChoiceSelection | null> {
+    const selection = await findChoiceSelection(runtime, message);
+    if (!selection || selection.choice.actionName !== actionName) {
+        return null;
+    }
+    await clearPendingChoice(runtime, message.roomId);
+    elizaLogger.info(`✅ Room ${message.roomId} picked ${selection.ticker} for "${selection.choice.query}"`);
+    return selection;
+}
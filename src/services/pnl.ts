@@ -0,0 +1,144 @@
+import { PNL } from "../constants/index.js";
+import { formatDuration } from "./historyService.js";
+import { formatTable, formatUsd, formatSignedPercent } from "./marketTable.js";
+import { formatFundingRate } from "./funding.js";
+import { marketBaseSymbol } from "./symbolResolver.js";
+import { liquidationPrice, maintenanceMarginRatio } from "./liquidation.js";
+import type { PositionSide } from "./position.js";
+import type { FundingAccrual, HistorySample, Market, PnlSimulation } from "../types/index.js";
+
+const PNL_KEYWORDS = /\bpnl\b|p&l|p\/l|\bprofit|\broe\b|unreali[sz]ed|if i(?: had)? (?:longed|shorted|bought|sold|opened|gone long|gone short|went long|went short)|how much (?:would i|have i|am i) (?:have )?(?:made|lost|up|down)|прибыл|убыт|пнл|доходност|если бы я/u;
+
+export const isPnlRequest = (text: string): boolean => PNL_KEYWORDS.test(text.toLowerCase());
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Funding a position of `base` units received from `from` to `to`, positive
+ * when received. Each recorded sample's rate (per `periodHours`) is taken to
+ * hold at its price until the next sample (at most MAX_SAMPLE_SPAN_MINUTES);
+ * time the history doesn't cover is charged at the current rate and mark price.
+ */
+export function estimateFundingSince(
+    samples: HistorySample[],
+    position: { base: number; side: PositionSide; from: number; to: number; markPrice: number; fundingRate: number },
+    periodHours: number
+): FundingAccrual {
+    const { base, side, from, to, markPrice, fundingRate } = position;
+    const maxSpanMs = PNL.MAX_SAMPLE_SPAN_MINUTES * 60 * 1000;
+    const recorded = samples
+        .filter(s => s.data && s.price !== null && s.timestamp >= from && s.timestamp < to)
+        .sort((a, b) => a.timestamp - b.timestamp);
+
+    let paidByLongs = 0;
+    let coveredMs = 0;
+    recorded.forEach((sample, i) => {
+        const next = recorded[i + 1]?.timestamp ?? to;
+        const spanMs = Math.min(next - sample.timestamp, maxSpanMs);
+        coveredMs += spanMs;
+        paidByLongs += base * sample.price! * sample.data!.fundingRate * (spanMs / HOUR_MS / periodHours);
+    });
+
+    const totalMs = Math.max(to - from, 0);
+    const uncoveredMs = Math.max(totalMs - coveredMs, 0);
+    paidByLongs += base * markPrice * fundingRate * (uncoveredMs / HOUR_MS / periodHours);
+
+    return {
+        amount: side === "long" ? -paidByLongs : paidByLongs,
+        from,
+        to,
+        hours: totalMs / HOUR_MS,
+        historyHours: Math.min(coveredMs, totalMs) / HOUR_MS,
+        samples: recorded.length,
+        currentRate: fundingRate,
+    };
+}
+
+// What the position made from the price move alone
+export const unrealizedPnl = (entryPrice: number, markPrice: number, base: number, side: PositionSide): number =>
+    (markPrice - entryPrice) * base * (side === "long" ? 1 : -1);
+
+/**
+ * Unrealized PnL of a hypothetical position at the mark price, plus funding
+ * since it was opened when that's known, and the return on the margin it
+ * would have posted at `leverage`.
+ */
+export function simulatePnl(input: {
+    market: Market;
+    side: PositionSide;
+    base: number;
+    entryPrice: number;
+    markPrice: number;
+    leverage: number;
+    funding: FundingAccrual | null;
+}): PnlSimulation {
+    const { market, side, base, entryPrice, markPrice, leverage, funding } = input;
+    const pricePnl = unrealizedPnl(entryPrice, markPrice, base, side);
+    const totalPnl = pricePnl + (funding?.amount ?? 0);
+    const margin = (base * entryPrice) / leverage;
+
+    return {
+        marketId: market.id,
+        ticker: market.ticker,
+        baseAsset: marketBaseSymbol(market),
+        side,
+        base,
+        entryPrice,
+        markPrice,
+        leverage,
+        margin,
+        pricePnl,
+        funding,
+        totalPnl,
+        roePercent: margin > 0 ? (totalPnl / margin) * 100 : 0,
+        liquidationPrice: liquidationPrice(entryPrice, leverage, side, maintenanceMarginRatio(market.maxLeverage)),
+    };
+}
+
+// "+$8,501.00"
+const formatSignedUsd = (value: number): string => `${value > 0 ? "+" : ""}${formatUsd(value)}`;
+
+/**
+ * The simulation as a chat message: the move from entry to mark, a table of
+ * price and funding PnL, the return on margin, and a warning when the mark
+ * is past the position's estimated liquidation price.
+ */
+export function formatPnl(simulation: PnlSimulation, formatPrice: (price: number) => string): string {
+    const { side, leverage, funding, entryPrice, markPrice } = simulation;
+    const base = simulation.base.toLocaleString("en-US", { maximumFractionDigits: simulation.base >= 1 ? 4 : 6 });
+    const move = entryPrice > 0 ? ((markPrice - entryPrice) / entryPrice) * 100 : 0;
+
+    const rows = [["Price move", formatSignedUsd(simulation.pricePnl)]];
+    if (funding) {
+        rows.push([`Funding over ${formatDuration(funding.hours * HOUR_MS)}`, formatSignedUsd(funding.amount)]);
+    }
+    rows.push(["**Total**", `**${formatSignedUsd(simulation.totalPnl)}**`]);
+
+    const lines = [
+        `**Hypothetical PnL: ${leverage}x ${side} ${base} ${simulation.baseAsset} on ${simulation.ticker}**`,
+        `Entry $${formatPrice(entryPrice)} → mark $${formatPrice(markPrice)} (${formatSignedPercent(move)})`,
+        "",
+        formatTable(["PnL", "rUSD"], rows, ["left", "right"]),
+        "",
+        `Return on margin at ${leverage}x: **${formatSignedPercent(simulation.roePercent)}** on ${formatUsd(simulation.margin)} margin`,
+    ];
+
+    const liquidated = side === "long" ? markPrice <= simulation.liquidationPrice : markPrice >= simulation.liquidationPrice;
+    if (liquidated) {
+        lines.push(`⚠️ At ${leverage}x the mark is past the estimated liquidation price of $${formatPrice(simulation.liquidationPrice)}, so this position would most likely have been liquidated.`);
+    }
+    return lines.join("\n");
+}
+
+// Where the funding figure comes from, for the reply's footnote
+export function describeFundingAccrual(funding: FundingAccrual, periodHours: number): string {
+    const rate = `the current rate of ${formatFundingRate(funding.currentRate, periodHours)}`;
+    const restHours = funding.hours - funding.historyHours;
+    if (funding.samples === 0) {
+        return `Funding uses ${rate} for the whole ${formatDuration(funding.hours * HOUR_MS)}: there's no recorded history for that period.`;
+    }
+    if (restHours * HOUR_MS < 60 * 1000) {
+        return `Funding is summed from ${funding.samples} locally recorded rates.`;
+    }
+    return `Funding is summed from ${funding.samples} locally recorded rates over ${formatDuration(funding.historyHours * HOUR_MS)}, and ${rate} for the other ${formatDuration(restHours * HOUR_MS)}.`;
+}
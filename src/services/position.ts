@@ -0,0 +1,70 @@
+export type PositionSide = "long" | "short";
+
+// "$10k", "$2.5m", "10,000 rUSD", "5000 usd"
+const POSITION_SIZE = /\$\s?(\d[\d,]*(?:\.\d+)?)\s*(k|m|тыс|млн)?(?!\p{L})|(\d[\d,]*(?:\.\d+)?)\s*(k|m|тыс|млн)?\s*(?:rusd|usdc?|\$|долл\p{L}*)/u;
+const SIZE_MULTIPLIERS: Record<string, number> = { k: 1e3, "тыс": 1e3, m: 1e6, "млн": 1e6 };
+
+/**
+ * The first position size in rUSD the text names, with the matched text so
+ * callers can strip it before reading other numbers. Null when there's none.
+ */
+export function parsePositionSize(text: string): { notional: number; match: string } | null {
+    const size = text.toLowerCase().match(POSITION_SIZE);
+    if (!size) {
+        return null;
+    }
+    const notional = parseFloat((size[1] ?? size[3]).replace(/,/g, "")) * (SIZE_MULTIPLIERS[size[2] ?? size[4] ?? ""] ?? 1);
+    return Number.isFinite(notional) && notional > 0 ? { notional, match: size[0] } : null;
+}
+
+// The side the text names, or null when it names neither
+export function parsePositionSide(text: string): PositionSide | null {
+    const lower = text.toLowerCase();
+    if (/\bshort|шорт/.test(lower)) {
+        return "short";
+    }
+    return /\blong|лонг/.test(lower) ? "long" : null;
+}
+
+// "10x", "10×", "x10", "leverage 5", "плечо 3"
+const LEVERAGE = /(?<![\p{L}\d.])(\d+(?:\.\d+)?)\s*[x×х](?!\p{L})|(?<!\p{L})[x×х]\s*(\d+(?:\.\d+)?)(?![\d.])|(?:leverage|плеч\p{L}*)\s*(?:of\s*)?(\d+(?:\.\d+)?)/u;
+
+// The leverage the text names, with the matched text; null when there's none
+export function parseLeverage(text: string): { leverage: number; match: string } | null {
+    const match = text.toLowerCase().match(LEVERAGE);
+    if (!match) {
+        return null;
+    }
+    const leverage = parseFloat(match[1] ?? match[2] ?? match[3]);
+    return Number.isFinite(leverage) && leverage > 0 ? { leverage, match: match[0] } : null;
+}
+
+/**
+ * A size in base units of `asset`, like "5 ETH" or "0.25 btc". Null when
+ * the text gives none.
+ */
+export function parseBaseSize(text: string, asset: string): { base: number; match: string } | null {
+    const escaped = asset.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const match = text.toLowerCase().match(new RegExp(`(?<![\\d.$])(\\d[\\d,]*(?:\\.\\d+)?)\\s*${escaped}(?!\\p{L})`, "u"));
+    if (!match) {
+        return null;
+    }
+    const base = parseFloat(match[1].replace(/,/g, ""));
+    return Number.isFinite(base) && base > 0 ? { base, match: match[0] } : null;
+}
+
+// "entry 3,800", "at $3800", "@ 3800.5", "at 60k", "from 4100", "вход 3800", "по цене 3800"; never "at 10x"
+const ENTRY_PRICE = /(?<!\p{L})(?:entry(?: price)?(?: of| at)?|enter(?:ed)? at|at|from|@|по цене|вход\p{L}*(?: по)?)\s*\$?\s*(\d[\d,]*(?:\.\d+)?)(?![\d.,])\s*(k|тыс)?(?![x×х]|\s*(?:m|млн)(?!\p{L}))(?!\p{L})/u;
+
+/**
+ * The entry price the text names, with the matched text so callers can strip
+ * it before reading sizes. Null when there's none.
+ */
+export function parseEntryPrice(text: string): { price: number; match: string } | null {
+    const match = text.toLowerCase().match(ENTRY_PRICE);
+    if (!match) {
+        return null;
+    }
+    const price = parseFloat(match[1].replace(/,/g, "")) * (SIZE_MULTIPLIERS[match[2] ?? ""] ?? 1);
+    return Number.isFinite(price) && price > 0 ? { price, match: match[0] } : null;
+}
@@ -0,0 +1,78 @@
+import { PREMIUM } from "../constants/index.js";
+import { formatTable } from "./marketTable.js";
+import type { Price } from "../types/index.js";
+
+// Not bare "bps": fee questions are often asked in bps too
+const PREMIUM_KEYWORDS = /premium|basis|diverg|oracle\W+(?:vs\.?|and|versus)\W+pool|pool\W+(?:vs\.?|and|versus)\W+oracle|from (?:the )?oracle|преми|базис|расхожд/u;
+
+export const isPremiumRequest = (text: string): boolean => PREMIUM_KEYWORDS.test(text.toLowerCase());
+
+/**
+ * How far the pool trades from the oracle, in basis points of the oracle
+ * price: positive when the pool is above. Null without both prices.
+ */
+export function premiumBps(price: Pick<Price, "oraclePrice" | "poolPrice">): number | null {
+    const oracle = parseFloat(price.oraclePrice);
+    const pool = parseFloat(price.poolPrice);
+    if (!Number.isFinite(oracle) || !Number.isFinite(pool) || oracle <= 0) {
+        return null;
+    }
+    return ((pool - oracle) / oracle) * 10_000;
+}
+
+// "+28.8 bps"
+export const formatBps = (bps: number): string => `${bps >= 0 ? "+" : ""}${bps.toFixed(1)} bps`;
+
+const premiumSide = (bps: number): string =>
+    bps > 0 ? "pool above oracle" : bps < 0 ? "pool below oracle" : "pool at oracle";
+
+/**
+ * "**HYPE-rUSD** +28.8 bps, pool above oracle ($38.29 vs $38.18)"
+ */
+export function describePremium(ticker: string, price: Price, formatPrice: (price: number) => string): string {
+    const bps = premiumBps(price) ?? 0;
+    return `**${ticker}** ${formatBps(bps)}, ${premiumSide(bps)} ($${formatPrice(parseFloat(price.poolPrice))} vs $${formatPrice(parseFloat(price.oraclePrice))})`;
+}
+
+/**
+ * Reads a premium threshold: "30 bps", "30 б.п." or "0.5%" (as 50 bps).
+ * Null when the text gives none.
+ */
+export function parsePremiumThreshold(text: string): number | null {
+    const lower = text.toLowerCase();
+    const bps = lower.match(/(\d+(?:[.,]\d+)?)\s*(?:bps|bp|basis points?|б\.?\s?п\.?|базисн\p{L}* пункт\p{L}*)(?!\p{L})/u);
+    if (bps) {
+        return parseFloat(bps[1].replace(",", "."));
+    }
+    const percent = lower.match(/(\d+(?:[.,]\d+)?)\s*(?:%|percent|процент\p{L}*)/u);
+    return percent ? parseFloat(percent[1].replace(",", ".")) * 100 : null;
+}
+
+/**
+ * One row per market, widest gap first: oracle, pool and the premium in
+ * bps. Markets missing either price are left out.
+ */
+export function buildPremiumTable(rows: Array<{ ticker: string; price: Price }>, formatPrice: (price: number) => string): string {
+    const ranked = rankPremiums(rows);
+    return formatTable(
+        ["Market", "Oracle", "Pool", "Premium", ""],
+        ranked.map(({ ticker, price, bps }) => [
+            ticker,
+            `$${formatPrice(parseFloat(price.oraclePrice))}`,
+            `$${formatPrice(parseFloat(price.poolPrice))}`,
+            formatBps(bps),
+            Math.abs(bps) >= PREMIUM.WIDE_BPS ? "⚠️" : "",
+        ]),
+        ["left", "right", "right", "right", "left"]
+    );
+}
+
+// Rows with a premium, largest absolute premium first
+export function rankPremiums<T extends { price: Price }>(rows: T[]): Array<T & { bps: number }> {
+    return rows
+        .flatMap(row => {
+            const bps = premiumBps(row.price);
+            return bps === null ? [] : [{ ...row, bps }];
+        })
+        .sort((a, b) => Math.abs(b.bps) - Math.abs(a.bps));
+}
@@ -0,0 +1,82 @@
+import { type IAgentRuntime, Service, elizaLogger } from "@elizaos/core";
+
+import NodeCache from "node-cache";
+import { getReyaConfig } from "../environment.js";
+import { CACHE_TTL } from "../constants/index.js";
+import { ReyaHttpClient, createReyaHttpClient } from "./httpClient.js";
+import { ReyaMarketService } from "../providers/marketProvider.js";
+import { ReyaPriceService } from "../providers/priceProvider.js";
+import { ReyaAssetService } from "../providers/assetProvider.js";
+import { ReyaFeeService } from "../providers/feeProvider.js";
+import { SymbolResolver } from "./symbolResolver.js";
+
+/**
+ * Long-lived service that owns the HTTP client and cache for one runtime.
+ * Actions, providers and the dispatcher reach the Reya API through this
+ * service so CACHE_TTL actually applies across messages.
+ */
+export class ReyaService extends Service {
+    static serviceType = "reya";
+
+    capabilityDescription = "Reya Network DEX market, price, asset and fee data with shared caching";
+
+    readonly client: ReyaHttpClient;
+    readonly cache: NodeCache;
+    readonly markets: ReyaMarketService;
+    readonly prices: ReyaPriceService;
+    readonly assets: ReyaAssetService;
+    readonly fees: ReyaFeeService;
+    readonly symbols: SymbolResolver;
+    // Hours one markets/data fundingRate covers
+    readonly fundingRatePeriodHours: number;
+
+    constructor(runtime: IAgentRuntime) {
+        super(runtime);
+        const config = getReyaConfig(runtime);
+
+        this.client = createReyaHttpClient(runtime);
+        this.cache = new NodeCache({ stdTTL: CACHE_TTL.PRICES });
+        this.markets = new ReyaMarketService(config.REYA_API_BASE_URL, this.client, this.cache);
+        this.prices = new ReyaPriceService(config.REYA_API_BASE_URL, this.client, this.cache);
+        this.assets = new ReyaAssetService(config.REYA_API_BASE_URL, this.client, this.cache);
+        this.fees = new ReyaFeeService(config.REYA_API_BASE_URL, this.client, this.cache);
+        this.symbols = new SymbolResolver(this.markets, this.assets);
+        this.fundingRatePeriodHours = config.REYA_FUNDING_RATE_PERIOD_HOURS;
+    }
+
+    static async start(runtime: IAgentRuntime): Promise<ReyaService> {
+        elizaLogger.info("Starting Reya service");
+        return new ReyaService(runtime);
+    }
+
+    static async stop(runtime: IAgentRuntime): Promise<void> {
+        const service = runtime.getService<ReyaService>(ReyaService.serviceType);
+        if (service) {
+            await service.stop();
+        }
+    }
+
+    async stop(): Promise<void> {
+        this.cache.flushAll();
+        this.cache.close();
+    }
+}
+
+// Fallback instances for runtimes that did not register the plugin's services
+// (e.g. when an action is invoked directly). Keyed weakly so they die with the runtime.
+const fallbackServices = new WeakMap<IAgentRuntime, ReyaService>();
+
+export const getReyaService = (runtime: IAgentRuntime): ReyaService => {
+    const registered = runtime.getService<ReyaService>(ReyaService.serviceType);
+    if (registered) {
+        return registered;
+    }
+
+    let service = fallbackServices.get(runtime);
+    if (!service) {
+        elizaLogger.warn("Reya service is not registered on this runtime, using a standalone instance");
+        service = new ReyaService(runtime);
+        fallbackServices.set(runtime, service);
+    }
+    return service;
+};
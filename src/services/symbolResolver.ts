@@ -0,0 +1,307 @@
+import { elizaLogger } from "@elizaos/core";
+
+import { SYMBOL_ALIASES, SYMBOL_MATCH } from "../constants/index.js";
+import type { ReyaMarketService } from "../providers/marketProvider.js";
+import type { ReyaAssetService } from "../providers/assetProvider.js";
+import type {
+    Market,
+    MarketListResolution,
+    Asset,
+    SymbolMatch,
+    SymbolMatchType,
+    SymbolResolution,
+} from "../types/index.js";
+
+const SCORES: Record<SymbolMatchType, number> = {
+    exact: 1,
+    alias: 0.95,
+    prefix: 0.8,
+    fuzzy: 0.75,
+    contains: 0.55,
+};
+
+/**
+ * Levenshtein distance between two strings.
+ */
+export function editDistance(a: string, b: string): number {
+    if (a === b) return 0;
+    if (!a.length) return b.length;
+    if (!b.length) return a.length;
+
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+// Typos allowed for a query of this length; short symbols are too easy to collide
+const maxTypos = (length: number) => length <= 2 ? 0 : length <= 4 ? 1 : 2;
+
+// "$btc", "BTC-rUSD", "eth / usdc", "Bitcoin " → lowercase base name
+function normalizeQuery(query: string): string {
+    const cleaned = query
+        .toLowerCase()
+        .replace(/[$"'`]/g, "")
+        .replace(/\s+/g, " ")
+        .trim();
+    const withoutQuote = cleaned.replace(/\s*[-/ ]\s*(rusd|usdc|usdt|usd|perp)$/, "");
+    return withoutQuote.length >= 2 ? withoutQuote : cleaned;
+}
+
+interface Candidate {
+    // Symbols the item is listed under, e.g. ["BTC"]; the first one is shown to users
+    symbols: string[];
+    // Extra symbols that only count as an alias match, e.g. "ETH" for WETH
+    aliases?: string[];
+    // Full names compared case-insensitively, e.g. "usd coin"
+    names?: string[];
+}
+
+function scoreCandidate(normalized: string, canonical: string, viaAlias: boolean, candidate: Candidate): { score: number; matchType: SymbolMatchType } | null {
+    let best: { score: number; matchType: SymbolMatchType } | null = null;
+    const consider = (matchType: SymbolMatchType, score: number = SCORES[matchType]) => {
+        if (!best || score > best.score) {
+            best = { score, matchType };
+        }
+    };
+
+    for (const symbol of candidate.symbols) {
+        if (symbol === canonical) {
+            consider(viaAlias ? "alias" : "exact");
+            continue;
+        }
+        if (canonical.length >= 2 && symbol.startsWith(canonical)) {
+            consider("prefix");
+        }
+
+        const distance = editDistance(canonical, symbol);
+        if (distance > 0 && distance <= maxTypos(canonical.length)) {
+            consider("fuzzy", SCORES.fuzzy - 0.15 * (distance - 1));
+        }
+
+        if (canonical.length >= 2 && symbol.includes(canonical)) {
+            consider("contains");
+        }
+    }
+
+    if (candidate.aliases?.includes(canonical)) {
+        consider("alias", 0.9);
+    }
+    if (candidate.names?.some(name => name.toLowerCase() === normalized)) {
+        consider("exact");
+    }
+
+    return best;
+}
+
+// Names that are a typo away from a known alias, e.g. "etherium" → ETH
+function fuzzyAliases(normalized: string): Map<string, number> {
+    const matches = new Map<string, number>();
+    if (normalized.length < 5) {
+        return matches;
+    }
+    for (const [alias, symbol] of Object.entries(SYMBOL_ALIASES)) {
+        const distance = editDistance(normalized, alias);
+        if (distance > 0 && distance <= maxTypos(alias.length)) {
+            const score = 0.85 - 0.1 * (distance - 1);
+            matches.set(symbol, Math.max(matches.get(symbol) ?? 0, score));
+        }
+    }
+    return matches;
+}
+
+function rank<T>(
+    query: string,
+    items: T[],
+    describe: (item: T) => Candidate,
+    tieBreak: (a: T, b: T) => number = () => 0
+): SymbolResolution<T> {
+    const normalized = normalizeQuery(query);
+    const viaAlias = normalized in SYMBOL_ALIASES;
+    const canonical = viaAlias ? SYMBOL_ALIASES[normalized] : normalized.toUpperCase();
+    const aliasTypos = viaAlias ? new Map<string, number>() : fuzzyAliases(normalized);
+
+    const candidates: SymbolMatch<T>[] = [];
+    if (canonical) {
+        for (const item of items) {
+            const candidate = describe(item);
+            let match = scoreCandidate(normalized, canonical, viaAlias, candidate);
+
+            for (const symbol of candidate.symbols) {
+                const aliasScore = aliasTypos.get(symbol);
+                if (aliasScore !== undefined && (!match || aliasScore > match.score)) {
+                    match = { score: aliasScore, matchType: "fuzzy" };
+                }
+            }
+
+            if (match) {
+                candidates.push({ item, symbol: candidate.symbols[0], ...match });
+            }
+        }
+    }
+
+    candidates.sort((a, b) => b.score - a.score || tieBreak(a.item, b.item));
+
+    const best = candidates[0] ?? null;
+    const contenders = best
+        ? candidates.filter(c => c.score >= best.score - SYMBOL_MATCH.AMBIGUITY_MARGIN - 1e-9)
+        : [];
+    const ambiguous = best !== null && (
+        best.score < SCORES.alias
+            ? contenders.length > 1
+            // Two markets listed under the same symbol
+            : candidates.filter(c => c.score === best.score).length > 1
+    );
+
+    return {
+        query,
+        normalized: canonical,
+        candidates: candidates.slice(0, SYMBOL_MATCH.MAX_CANDIDATES),
+        best,
+        ambiguous,
+    };
+}
+
+export const marketBaseSymbol = (market: Market): string =>
+    market.ticker.split(/[-/]/)[0].toUpperCase();
+
+/**
+ * Ranks markets against a user-typed symbol or name. Active markets and
+ * higher-priority listings win ties.
+ */
+export function rankMarkets(query: string, markets: Market[]): SymbolResolution<Market> {
+    return rank(
+        query,
+        markets,
+        market => ({
+            symbols: [marketBaseSymbol(market)],
+            names: [market.name],
+        }),
+        (a, b) => Number(b.isActive) - Number(a.isActive) || a.priority - b.priority
+    );
+}
+
+/**
+ * Ranks assets against a user-typed symbol or name. Wrapped tokens also
+ * answer to their underlying symbol (WETH for "eth").
+ */
+export function rankAssets(query: string, assets: Asset[]): SymbolResolution<Asset> {
+    return rank(query, assets, asset => {
+        const symbol = asset.short.toUpperCase();
+        return {
+            symbols: [symbol],
+            aliases: /^W[A-Z]{3,}$/.test(symbol) ? [symbol.slice(1)] : [],
+            names: [asset.name],
+        };
+    });
+}
+
+/**
+ * Splits what an extractor returned ("BTC, ETH and SOL", ["btc", "BTC"])
+ * into distinct symbols in order. "ETH/USDC" stays one symbol.
+ */
+export function splitSymbolList(...lists: Array<string | string[] | null | undefined>): string[] {
+    const symbols: string[] = [];
+    for (const list of lists) {
+        for (const entry of Array.isArray(list) ? list : [list ?? ""]) {
+            for (const part of entry.split(/\s*[,;&+]\s*|\s+(?:and|и)\s+/i)) {
+                const symbol = part.trim();
+                if (symbol && !symbols.some(s => s.toLowerCase() === symbol.toLowerCase())) {
+                    symbols.push(symbol);
+                }
+            }
+        }
+    }
+    return symbols;
+}
+
+// Single words and word pairs ("usd coin") in order of appearance
+function mentionPhrases(text: string): string[] {
+    const words = text.match(/[\p{L}\p{N}$]+(?:-[\p{L}\p{N}]+)*/gu) ?? [];
+    const phrases: string[] = [];
+    words.forEach((word, i) => {
+        if (i + 1 < words.length) {
+            phrases.push(`${word} ${words[i + 1]}`);
+        }
+        phrases.push(word);
+    });
+    return phrases;
+}
+
+function findMentions<T>(text: string, resolve: (query: string) => SymbolResolution<T>): T[] {
+    const found: T[] = [];
+    for (const phrase of mentionPhrases(text)) {
+        const { best } = resolve(phrase);
+        if (best && best.score >= SYMBOL_MATCH.MIN_MENTION_SCORE && !found.includes(best.item)) {
+            found.push(best.item);
+        }
+    }
+    return found;
+}
+
+/**
+ * One place that turns what users type ("Bitcoin", "биткоин", "eth",
+ * "SOL-rUSD", "etherium") into Reya markets and assets.
+ */
+export class SymbolResolver {
+    constructor(
+        private marketService: ReyaMarketService,
+        private assetService: ReyaAssetService
+    ) {}
+
+    async resolveMarket(query: string): Promise<SymbolResolution<Market>> {
+        const resolution = rankMarkets(query, await this.marketService.getMarkets());
+        elizaLogger.info(`🔍 Resolved market "${query}" → ${resolution.candidates.map(c => `${c.item.ticker} (${c.matchType} ${c.score.toFixed(2)})`).join(", ") || "no match"}${resolution.ambiguous ? " [ambiguous]" : ""}`);
+        return resolution;
+    }
+
+    /**
+     * Resolves several symbols at once. Queries that land on the same market
+     * ("btc", "bitcoin") count once; ambiguous and unknown ones are returned
+     * separately so callers can mention them.
+     */
+    async resolveMarketList(queries: string[]): Promise<MarketListResolution> {
+        const markets = await this.marketService.getMarkets();
+        const result: MarketListResolution = { markets: [], ambiguous: [], unknown: [] };
+
+        for (const query of queries) {
+            const resolution = rankMarkets(query, markets);
+            if (!resolution.best) {
+                result.unknown.push(query);
+            } else if (resolution.ambiguous) {
+                result.ambiguous.push(resolution);
+            } else if (!result.markets.includes(resolution.best.item)) {
+                result.markets.push(resolution.best.item);
+            }
+        }
+
+        elizaLogger.info(`🔍 Resolved ${queries.length} market queries → ${result.markets.map(m => m.ticker).join(", ") || "none"}${result.ambiguous.length ? `, ${result.ambiguous.length} ambiguous` : ""}${result.unknown.length ? `, unknown: ${result.unknown.join(", ")}` : ""}`);
+        return result;
+    }
+
+    async resolveAsset(query: string): Promise<SymbolResolution<Asset>> {
+        const resolution = rankAssets(query, await this.assetService.getAssets());
+        elizaLogger.info(`🔍 Resolved asset "${query}" → ${resolution.candidates.map(c => `${c.item.short} (${c.matchType} ${c.score.toFixed(2)})`).join(", ") || "no match"}${resolution.ambiguous ? " [ambiguous]" : ""}`);
+        return resolution;
+    }
+
+    /**
+     * Markets named in free text, in the order they appear. Only confident
+     * matches count, so ordinary words don't turn into tickers.
+     */
+    async findMarketMentions(text: string): Promise<Market[]> {
+        const markets = await this.marketService.getMarkets();
+        return findMentions(text, phrase => rankMarkets(phrase, markets));
+    }
+
+    async findAssetMentions(text: string): Promise<Asset[]> {
+        const assets = await this.assetService.getAssets();
+        return findMentions(text, phrase => rankAssets(phrase, assets));
+    }
+}
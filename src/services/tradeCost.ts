@@ -0,0 +1,106 @@
+import { formatDuration } from "./historyService.js";
+import { formatTable, formatUsd } from "./marketTable.js";
+import { premiumBps, formatBps } from "./premium.js";
+import { annualizeFundingRate, estimateFundingPayment } from "./funding.js";
+import { marketBaseSymbol } from "./symbolResolver.js";
+import type { PositionSide } from "./position.js";
+import type { FeeTierCalculation, Market, MarketData, Price, TradeCostEstimate } from "../types/index.js";
+
+const TRADE_COST_KEYWORDS = /(?<!funding )\bcosts?\b|all-in|round[- ]trip|\bheld for|\bhold(?:ing)? (?:it |this |that )?for|издержк|обойд[её]тся|во сколько|стоимость сделки|держать/u;
+
+export const isTradeCostRequest = (text: string): boolean => TRADE_COST_KEYWORDS.test(text.toLowerCase());
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * What a trade is expected to cost over its holding period, in rUSD:
+ * - entry premium: the pool price's gap to the oracle, paid by a long
+ *   buying above it and received by a short selling above it
+ * - taker fees on opening and closing at the same notional
+ * - funding along the fundingRateVelocity projection (see estimateFundingPayment)
+ */
+export function estimateTradeCost(input: {
+    market: Market;
+    data: MarketData;
+    price: Price | undefined;
+    notional: number;
+    side: PositionSide;
+    holdHours: number;
+    leverage: number | null;
+    fees: FeeTierCalculation;
+    fundingPeriodHours: number;
+}): TradeCostEstimate {
+    const { market, data, price, notional, side, holdHours, leverage, fees, fundingPeriodHours } = input;
+    const markPrice = parseFloat(price?.price ?? "");
+    const mark = Number.isFinite(markPrice) ? markPrice : market.markPrice;
+    const bps = price ? premiumBps(price) : null;
+
+    const entryPremium = bps === null ? null : { bps, cost: notional * (bps / 10_000) * (side === "long" ? 1 : -1) };
+    const takerFee = { tierId: fees.tier.tier_id, rate: fees.effectiveTakerFee, cost: 2 * notional * fees.effectiveTakerFee };
+    const funding = {
+        cost: -estimateFundingPayment(data, notional, holdHours, side, fundingPeriodHours),
+        aprPercent: annualizeFundingRate(data.fundingRate, fundingPeriodHours),
+    };
+
+    return {
+        marketId: market.id,
+        ticker: market.ticker,
+        baseAsset: marketBaseSymbol(market),
+        side,
+        base: mark > 0 ? notional / mark : 0,
+        notional,
+        markPrice: mark,
+        leverage,
+        margin: leverage ? notional / leverage : null,
+        holdHours,
+        entryPremium,
+        takerFee,
+        funding,
+        total: (entryPremium?.cost ?? 0) + takerFee.cost + funding.cost,
+    };
+}
+
+const bpsOf = (cost: number, notional: number): string =>
+    notional > 0 ? ((cost / notional) * 10_000).toFixed(1) : "N/A";
+
+/**
+ * The estimate as a chat message: the trade, a table of each cost with its
+ * share of the notional in bps, and the total against the margin.
+ */
+export function formatTradeCost(estimate: TradeCostEstimate, formatPrice: (price: number) => string): string {
+    const { notional, leverage, margin, entryPremium, takerFee, funding } = estimate;
+    const hold = formatDuration(estimate.holdHours * HOUR_MS);
+    const base = estimate.base.toLocaleString("en-US", { maximumFractionDigits: estimate.base >= 1 ? 4 : 6 });
+
+    const rows = [
+        [
+            `Entry premium${entryPremium ? ` (pool ${formatBps(entryPremium.bps)} vs oracle)` : ""}`,
+            entryPremium ? formatUsd(entryPremium.cost) : "N/A",
+            entryPremium ? bpsOf(entryPremium.cost, notional) : "N/A",
+        ],
+        [
+            `Taker fees, open + close (tier ${takerFee.tierId}, ${(takerFee.rate * 100).toFixed(4)}%)`,
+            formatUsd(takerFee.cost),
+            bpsOf(takerFee.cost, notional),
+        ],
+        [
+            `Funding over ${hold} (${funding.aprPercent >= 0 ? "+" : ""}${funding.aprPercent.toFixed(2)}% APR now)`,
+            formatUsd(funding.cost),
+            bpsOf(funding.cost, notional),
+        ],
+        ["**Total**", `**${formatUsd(estimate.total)}**`, bpsOf(estimate.total, notional)],
+    ];
+
+    const lines = [
+        `**Trade cost estimate: ${leverage ? `${leverage}× ` : ""}${estimate.side} ${base} ${estimate.baseAsset} on ${estimate.ticker}, held ${hold}**`,
+        `Size: ${formatUsd(notional)} at $${formatPrice(estimate.markPrice)}${margin !== null ? `, ${formatUsd(margin)} margin at ${leverage}×` : ""}`,
+        "",
+        formatTable(["Cost", "rUSD", "bps"], rows, ["left", "right", "right"]),
+    ];
+    if (margin) {
+        lines.push("", estimate.total >= 0
+            ? `That's ${((estimate.total / margin) * 100).toFixed(2)}% of your margin.`
+            : `That's ${((-estimate.total / margin) * 100).toFixed(2)}% of your margin in your favour.`);
+    }
+    return lines.join("\n");
+}
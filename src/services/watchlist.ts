@@ -0,0 +1,122 @@
+import { type IAgentRuntime, elizaLogger } from "@elizaos/core";
+
+import { WATCHLIST } from "../constants/index.js";
+import { formatTable, formatCompact, formatSignedPercent } from "./marketTable.js";
+import { formatFundingRate } from "./funding.js";
+import type { ReyaPriceService } from "../providers/priceProvider.js";
+import type { Market, MarketData, Price, Watchlist } from "../types/index.js";
+
+export type WatchlistCommand = "add" | "remove" | "show";
+
+const WATCHLIST_WORDS = /watch\s?-?list|\bwatching\b|\bunwatch\b|favou?rites|избранн|вотчлист|спис\p{L}* наблюдени/u;
+const REMOVE_WORDS = /\b(remove|delete|drop|unwatch|clear|take|stop watching|unfavou?rite)\b|удали|убери|исключи|очисти/;
+const ADD_WORDS = /\b(add|put|include|track|follow)\b|\bwatch(?!\s?-?list)\b|добав|внеси|включи/;
+
+/**
+ * Whether a message adds to, removes from or shows the user's watchlist.
+ * Null when it doesn't talk about a watchlist at all.
+ */
+export function classifyWatchlistRequest(text: string): WatchlistCommand | null {
+    const lower = text.toLowerCase();
+    if (!WATCHLIST_WORDS.test(lower)) {
+        return null;
+    }
+    if (REMOVE_WORDS.test(lower)) return "remove";
+    if (ADD_WORDS.test(lower)) return "add";
+    return "show";
+}
+
+// Watchlists follow the user across rooms
+const cacheKey = (entityId: string) => `${WATCHLIST.CACHE_KEY_PREFIX}-${entityId}`;
+
+export async function getWatchlist(runtime: IAgentRuntime, entityId: string): Promise<Watchlist> {
+    return (await runtime.getCache<Watchlist>(cacheKey(entityId))) ?? { markets: [], updatedAt: 0 };
+}
+
+async function saveWatchlist(runtime: IAgentRuntime, entityId: string, watchlist: Watchlist): Promise<void> {
+    await runtime.setCache(cacheKey(entityId), { ...watchlist, updatedAt: Date.now() });
+    elizaLogger.info(`📝 Saved watchlist for ${entityId}: ${watchlist.markets.map(m => m.ticker).join(", ") || "empty"}`);
+}
+
+/**
+ * Adds `markets` to the end of the user's watchlist, skipping ones already
+ * on it and any beyond WATCHLIST.MAX_MARKETS.
+ */
+export async function addToWatchlist(
+    runtime: IAgentRuntime,
+    entityId: string,
+    markets: Market[]
+): Promise<{ watchlist: Watchlist; added: Market[]; already: Market[]; overLimit: Market[] }> {
+    const watchlist = await getWatchlist(runtime, entityId);
+    const added: Market[] = [];
+    const already: Market[] = [];
+    const overLimit: Market[] = [];
+
+    for (const market of markets) {
+        if (watchlist.markets.some(m => m.marketId === market.id)) {
+            already.push(market);
+        } else if (watchlist.markets.length >= WATCHLIST.MAX_MARKETS) {
+            overLimit.push(market);
+        } else {
+            watchlist.markets.push({ marketId: market.id, ticker: market.ticker });
+            added.push(market);
+        }
+    }
+
+    if (added.length > 0) {
+        await saveWatchlist(runtime, entityId, watchlist);
+    }
+    return { watchlist, added, already, overLimit };
+}
+
+/**
+ * Takes `markets` off the user's watchlist, or everything with "all".
+ * Returns the tickers removed and the markets that weren't on it.
+ */
+export async function removeFromWatchlist(
+    runtime: IAgentRuntime,
+    entityId: string,
+    markets: Market[] | "all"
+): Promise<{ watchlist: Watchlist; removed: string[]; missing: Market[] }> {
+    const watchlist = await getWatchlist(runtime, entityId);
+    const ids = markets === "all" ? null : new Set(markets.map(m => m.id));
+    const removed = watchlist.markets.filter(m => !ids || ids.has(m.marketId)).map(m => m.ticker);
+    const missing = markets === "all" ? [] : markets.filter(m => !watchlist.markets.some(w => w.marketId === m.id));
+
+    if (removed.length > 0) {
+        watchlist.markets = watchlist.markets.filter(m => ids && !ids.has(m.marketId));
+        await saveWatchlist(runtime, entityId, watchlist);
+    }
+    return { watchlist, removed, missing };
+}
+
+/**
+ * One row per watched market, in watchlist order: mark price, 24h change,
+ * funding rate and 24h volume. Everything comes from the batch prices and
+ * markets/data responses; markets no longer listed are left out.
+ */
+export function buildWatchlistTable(
+    watchlist: Watchlist,
+    markets: Market[],
+    prices: Price[],
+    marketsData: MarketData[],
+    priceService: ReyaPriceService,
+    fundingPeriodHours: number
+): string {
+    const rows = watchlist.markets.flatMap(({ marketId }) => {
+        const market = markets.find(m => m.id === marketId);
+        if (!market) {
+            return [];
+        }
+        const price = prices.find(p => String(p.marketId) === marketId);
+        const data = marketsData.find(d => d.marketId === marketId);
+        return [[
+            market.isActive ? market.ticker : `${market.ticker} (inactive)`,
+            price ? `$${priceService.formatPrice(price.price)}` : "N/A",
+            formatSignedPercent(data?.priceChange24HPercentage),
+            data ? formatFundingRate(data.fundingRate, fundingPeriodHours) : "N/A",
+            data ? `$${formatCompact(data.last24hVolume)}` : "N/A",
+        ]];
+    });
+    return formatTable(["Market", "Mark", "24h", "Funding", "24h Volume"], rows, ["left", "right", "right", "right", "right"]);
+}
@@ -0,0 +1,264 @@
+import { API_ENDPOINTS } from "../constants/index.js";
+import { reyaFeeProvider } from "../providers/feeProvider.js";
+import { getSmartDispatchData } from "../providers/dispatchProvider.js";
+import { IntentType } from "../services/intentAnalyzer.js";
+import { smartDispatchAction } from "../actions/smartDispatchAction.js";
+import { getPricesAction } from "../actions/priceAction.js";
+import { getMarketsAction } from "../actions/marketAction.js";
+import { calculateFeeTierAction } from "../actions/feeCalculatorAction.js";
+import { ReyaApiError } from "../services/httpClient.js";
+import type { ReyaProviderResponse } from "../types/index.js";
+import { priceFormat, type TestHarness } from "./harness.js";
+import { createMessage, runAction } from "./mockRuntime.js";
+import { scriptedIntent } from "./fixtures.js";
+
+export async function testActionsEndToEnd(harness: TestHarness): Promise<void> {
+    console.log("\n🤖 Testing Actions End-to-End...");
+
+    const priceResult = await harness.runTest("Price Query Through Dispatch", async () => {
+        return harness.withRuntime([
+            scriptedIntent("PRICE_QUERY"),
+            { match: "symbol extraction", response: "<response><symbol>BTC</symbol><type>specific</type></response>" },
+        ], async runtime => {
+            const run = await runAction(runtime, getPricesAction, createMessage("What's the BTC price on Reya?"));
+            if (!run.validated) throw new Error("GET_REYA_PRICES should validate for a price query");
+            if (run.state.values.smartDispatch?.intent !== "PRICE_QUERY") throw new Error("Provider should set the PRICE_QUERY intent");
+            if (!run.result?.success) throw new Error(`Handler failed: ${run.result?.text}`);
+            if (run.result.data?.actionName !== "GET_REYA_PRICES") throw new Error("Unexpected actionName");
+
+            const text = run.callbacks[0]?.text ?? "";
+            if (!text.includes("**BTC-rUSD**")) throw new Error(`Callback should name BTC-rUSD: ${text}`);
+            if (!text.includes(priceFormat(64250.5)) || !text.includes("-1.26%")) throw new Error(`Callback should show price and 24h change: ${text}`);
+            if (runtime.pendingModelResponses !== 0) throw new Error("Every scripted model response should be used");
+            return { text };
+        });
+    });
+    harness.results.push(priceResult);
+
+    const aliasPriceResult = await harness.runTest("Price Query Resolves Names", async () => {
+        return harness.withRuntime([
+            scriptedIntent("PRICE_QUERY"),
+            { match: "symbol extraction", response: "<response><symbol>биткоин</symbol><type>specific</type></response>" },
+        ], async runtime => {
+            const run = await runAction(runtime, getPricesAction, createMessage("сколько стоит биткоин?"));
+            const text = run.callbacks[0]?.text ?? "";
+            if (!text.startsWith("Current BTC price on Reya Network") || !text.includes("**BTC-rUSD**")) throw new Error(`Unexpected reply: ${text}`);
+            if (run.result?.data?.prices?.length !== 1 || run.result.data.prices[0].marketId !== 2) throw new Error("Only the BTC price should be returned");
+            return { text };
+        });
+    });
+    harness.results.push(aliasPriceResult);
+
+    const multiPriceResult = await harness.runTest("Price Query Answers Several Symbols", async () => {
+        return harness.withRuntime([
+            scriptedIntent("PRICE_QUERY"),
+            { match: "symbol extraction", response: "<response><symbol>BTC,ETH,SOL</symbol><type>specific</type></response>" },
+        ], async runtime => {
+            const run = await runAction(runtime, getPricesAction, createMessage("BTC, ETH and SOL prices"));
+            const text = run.callbacks[0]?.text ?? "";
+            const rows = text.split("\n").filter(line => line.startsWith("| "));
+            if (rows.length !== 5) throw new Error(`Expected a header, a divider and three rows: ${text}`);
+            if (!rows[2].startsWith("| BTC-rUSD") || !rows[3].startsWith("| ETH-rUSD") || !rows[4].startsWith("| SOL-rUSD")) throw new Error(`Rows should follow the question's order: ${text}`);
+            if (!rows[2].includes(priceFormat(64250.5)) || !rows[2].includes("-1.26%")) throw new Error(`BTC row should show price and 24h change: ${rows[2]}`);
+            if (run.result?.data?.prices?.length !== 3) throw new Error("All three prices should be returned");
+            if (harness.server.requestCount(API_ENDPOINTS.MARKET_DATA("2")) !== 0) throw new Error("The table should use the batch markets/data endpoint");
+            return { text };
+        });
+    });
+    harness.results.push(multiPriceResult);
+
+    const multiMarketResult = await harness.runTest("Market Query Uses Intent Asset List", async () => {
+        return harness.withRuntime([
+            scriptedIntent("MARKET_QUERY", ["BTC", "ETH", "XYZ"]),
+            // The extractor only kept the first symbol
+            { match: "extracting cryptocurrency trading and market information", response: "<response><symbol>BTC</symbol><type>volume</type></response>" },
+        ], async runtime => {
+            const run = await runAction(runtime, getMarketsAction, createMessage("24h volume for BTC, ETH and XYZ"));
+            const text = run.callbacks[0]?.text ?? "";
+            if (!text.includes("24h Trading Volume") || !/\| BTC-rUSD .*\| ETH-rUSD /s.test(text)) throw new Error(`Expected a BTC and ETH table: ${text}`);
+            if (!text.includes("$48.25M")) throw new Error(`ETH volume should be compact: ${text}`);
+            if (!text.includes("Not listed on Reya Network: XYZ")) throw new Error(`Unknown symbols should be mentioned: ${text}`);
+            return { text };
+        });
+    });
+    harness.results.push(multiMarketResult);
+
+    const ambiguousPriceResult = await harness.runTest("Price Query Asks Which Market", async () => {
+        return harness.withRuntime([
+            scriptedIntent("PRICE_QUERY"),
+            { match: "symbol extraction", response: "<response><symbol>SO</symbol><type>specific</type></response>" },
+        ], async runtime => {
+            const question = createMessage("SO price?");
+            const first = await runAction(runtime, getPricesAction, question);
+            const listText = first.callbacks[0]?.text ?? "";
+            if (!listText.includes("1. **SOL-rUSD**\n2. **JITOSOL-rUSD**")) throw new Error(`Reply should number both candidates: ${listText}`);
+
+            // "2" carries no price keyword and needs no LLM call to finish the request
+            const answer = await runAction(runtime, getPricesAction, createMessage("2", { roomId: question.roomId }));
+            if (!answer.validated) throw new Error("The numbered reply should validate GET_REYA_PRICES");
+            if (answer.state.values.smartDispatch?.usedSource !== "pending_choice") throw new Error("Provider should recognise the reply");
+            const text = answer.callbacks[0]?.text ?? "";
+            if (!text.startsWith("Current JITOSOL price") || !text.includes("**JITOSOL-rUSD**")) throw new Error(`Unexpected answer: ${text}`);
+            if (runtime.cache.size !== 0) throw new Error("The choice should be cleared once answered");
+            if (runtime.pendingModelResponses !== 0) throw new Error("Every scripted model response should be used");
+            return { text };
+        });
+    });
+    harness.results.push(ambiguousPriceResult);
+
+    const ambiguousMarketResult = await harness.runTest("Market Query Choice Keeps Query Type", async () => {
+        return harness.withRuntime([
+            scriptedIntent("MARKET_QUERY"),
+            { match: "extracting cryptocurrency trading and market information", response: "<response><symbol>so</symbol><type>volume</type></response>" },
+        ], async runtime => {
+            const question = createMessage("so trading volume?");
+            const first = await runAction(runtime, getMarketsAction, question);
+            if (!(first.callbacks[0]?.text ?? "").includes("Which one did you mean?")) throw new Error("Market action should ask which market");
+
+            // Another room's reply must not pick up this room's choice
+            const elsewhere = await runAction(runtime, getMarketsAction, createMessage("the first one"));
+            if (elsewhere.validated) throw new Error("A reply in another room should not validate");
+
+            const answer = await runAction(runtime, getMarketsAction, createMessage("the first one", { roomId: question.roomId }));
+            const text = answer.callbacks[0]?.text ?? "";
+            if (!text.startsWith("**SOL-rUSD - 24h Trading Volume:**") || !text.includes("$22,100,000")) throw new Error(`Unexpected answer: ${text}`);
+            return { text };
+        });
+    });
+    harness.results.push(ambiguousMarketResult);
+
+    const knowledgeResult = await harness.runTest("Knowledge Query Blocks API Actions", async () => {
+        return harness.withRuntime([scriptedIntent("KNOWLEDGE_QUERY")], async runtime => {
+            const message = createMessage("what is the price of a perpetual funding payment?");
+            const run = await runAction(runtime, getPricesAction, message);
+            if (run.validated) throw new Error("GET_REYA_PRICES should not validate for a knowledge query");
+            if (run.callbacks.length !== 0) throw new Error("Handler should not run");
+            if (harness.server.requestCount() !== 0) throw new Error("No API request should be made");
+            return { blocked: true };
+        });
+    });
+    harness.results.push(knowledgeResult);
+
+    // Nothing scripted for intent analysis, so the keyword fallback routes the fee question
+    const feeResult = await harness.runTest("Fee Calculator With Intent Fallback", async () => {
+        return harness.withRuntime([
+            { match: "fee calculator inputs", response: "<response><volume>3M</volume><og>false</og><referee>true</referee><referrer>false</referrer><affiliate>false</affiliate></response>" },
+        ], async runtime => {
+            const run = await runAction(runtime, calculateFeeTierAction, createMessage("I trade $3M a month as a referee, what fee do I pay?"));
+            if (!run.validated) throw new Error("CALCULATE_REYA_FEE_TIER should validate");
+            if (run.state.values.smartDispatch?.reasoning !== "Fallback: detected fee request") throw new Error("Intent should come from the fallback");
+            if (run.result?.values?.tierId !== "2") throw new Error(`Expected tier 2, got ${run.result?.values?.tierId}`);
+
+            const text = run.callbacks[0]?.text ?? "";
+            if (!text.includes("Taker: 0.0315%") || !text.includes("$2,000,000 more volume")) throw new Error(`Unexpected fee reply: ${text}`);
+            if (run.callbacks[0]?.action !== "CALCULATE_REYA_FEE_TIER") throw new Error("Callback should name the action");
+            return { text };
+        });
+    });
+    harness.results.push(feeResult);
+
+    const apiErrorResult = await harness.runTest("Price Action Reports API Errors", async () => {
+        harness.server.setMode(API_ENDPOINTS.PRICES, { kind: "error", status: 502 });
+        return harness.withRuntime([
+            scriptedIntent("PRICE_QUERY"),
+            { match: "symbol extraction", response: "<response><symbol>ETH</symbol><type>specific</type></response>" },
+        ], async runtime => {
+            const run = await runAction(runtime, getPricesAction, createMessage("ETH price?"));
+            if (run.result?.success !== false) throw new Error("Handler should fail when the API is down");
+            if (!(run.result.error instanceof ReyaApiError)) throw new Error(`Expected ReyaApiError, got ${run.result.error}`);
+            if (!run.callbacks[0]?.text?.startsWith("Sorry, I couldn't fetch the price data")) throw new Error("Callback should apologise");
+            return { error: run.result.error.message };
+        });
+    });
+    harness.results.push(apiErrorResult);
+
+    const comparisonResult = await harness.runTest("Comparison Query Through Dispatcher", async () => {
+        const comparison = scriptedIntent("COMPARISON_QUERY", ["BTC"]);
+        // Once for the provider, once for the dispatcher
+        return harness.withRuntime([comparison, comparison], async runtime => {
+            const run = await runAction(runtime, smartDispatchAction, createMessage("сравни BTC и ETH на Reya"));
+            const text = run.callbacks[0]?.text ?? "";
+            if (run.result?.data?.source !== "reya_api_comparison") throw new Error(`Dispatcher should answer the comparison: ${run.result?.data?.source}`);
+            if (!text.startsWith("**Reya Network Comparison: BTC-rUSD vs ETH-rUSD**")) throw new Error(`Unexpected title: ${text}`);
+            if (!text.includes("| Max Leverage") || !text.includes("**Notable differences:**")) throw new Error(`Table and summary expected: ${text}`);
+            if (!text.includes("ETH-rUSD outperformed BTC-rUSD over 24h (+1.56% vs -1.26%)")) throw new Error(`Missing 24h summary: ${text}`);
+            return { text };
+        });
+    });
+    harness.results.push(comparisonResult);
+
+    const priceDeferResult = await harness.runTest("Dispatcher Leaves Multi-Asset and Unknown Prices to GET_REYA_PRICES", async () => {
+        const priceIntent = (assets: string[]) => scriptedIntent("PRICE_QUERY", assets);
+        // Once for the provider, once for the dispatcher, per message
+        return harness.withRuntime([
+            priceIntent(["SOL"]), priceIntent(["SOL"]),
+            priceIntent(["BTC", "ETH"]), priceIntent(["BTC", "ETH"]),
+            priceIntent(["FOOBAR"]), priceIntent(["FOOBAR"]),
+        ], async runtime => {
+            const single = await runAction(runtime, smartDispatchAction, createMessage("SOL price on Reya"));
+            if (single.result?.data?.source !== "reya_api_price" || !single.callbacks[0]?.text?.includes("(SOL-rUSD)")) throw new Error(`A single known asset should be answered directly: ${single.callbacks[0]?.text}`);
+
+            for (const text of ["BTC and ETH prices on Reya", "FOOBAR price on Reya"]) {
+                const run = await runAction(runtime, smartDispatchAction, createMessage(text));
+                if (run.callbacks.length !== 0 || run.result?.values?.allow_reya_actions !== true) throw new Error(`"${text}" should be left to GET_REYA_PRICES: ${run.callbacks[0]?.text}`);
+            }
+            return { deferred: 2 };
+        });
+    });
+    harness.results.push(priceDeferResult);
+
+    const marketDeferResult = await harness.runTest("Dispatcher Leaves Named Markets to GET_REYA_MARKETS", async () => {
+        const marketIntent = scriptedIntent("MARKET_QUERY", ["BTC", "ETH"]);
+        // Once for the provider and once for the dispatcher, then once for the action's state
+        return harness.withRuntime([
+            marketIntent, marketIntent, marketIntent,
+            { match: "extracting cryptocurrency trading and market information", response: "<response><symbol>BTC</symbol><type>volume</type></response>" },
+        ], async runtime => {
+            const message = createMessage("24h volume for BTC and ETH");
+            const dispatch = await runAction(runtime, smartDispatchAction, message);
+            if (dispatch.callbacks.length !== 0 || dispatch.result?.values?.allow_reya_actions !== true) throw new Error(`Named markets should be left to GET_REYA_MARKETS: ${dispatch.callbacks[0]?.text}`);
+
+            const run = await runAction(runtime, getMarketsAction, message);
+            const text = run.callbacks[0]?.text ?? "";
+            if (!/\| BTC-rUSD .*\| ETH-rUSD /s.test(text)) throw new Error(`Expected a BTC and ETH table: ${text}`);
+            return { text };
+        });
+    });
+    harness.results.push(marketDeferResult);
+
+    const dispatchValidateResult = await harness.runTest("Smart Dispatch Validate", async () => {
+        return harness.withRuntime([], async runtime => {
+            const reya = await smartDispatchAction.validate(runtime.asRuntime, createMessage("сколько стоит SOL на Reya?"));
+            const chat = await smartDispatchAction.validate(runtime.asRuntime, createMessage("good morning!"));
+            if (!reya || chat) throw new Error(`Unexpected validate results: reya=${reya} chat=${chat}`);
+            return { reya, chat };
+        });
+    });
+    harness.results.push(dispatchValidateResult);
+
+    const dispatchDataResult = await harness.runTest("Read Smart Dispatch Flags From State", async () => {
+        const fromProvider = getSmartDispatchData({ values: { smartDispatch: { intent: IntentType.PRICE_QUERY, allowReyaActions: true } }, data: {}, text: "" });
+        const fromAction = getSmartDispatchData({
+            values: {},
+            data: {},
+            text: "",
+            recentActions: [{ actionName: "SMART_REYA_DISPATCH", data: { allowReyaActions: true } }],
+        });
+        if (fromProvider?.intent !== IntentType.PRICE_QUERY || !fromAction?.allowReyaActions) throw new Error("Flags should come from the provider or a prior dispatch action");
+        if (getSmartDispatchData(undefined) || getSmartDispatchData({ values: {}, data: {}, text: "" })) throw new Error("State without dispatch flags should give none");
+        return { fromProvider, fromAction };
+    });
+    harness.results.push(dispatchDataResult);
+
+    const providerResult = await harness.runTest("Fee Provider Summary", async () => {
+        return harness.withRuntime([], async runtime => {
+            // The plugin's providers answer with ReyaProviderResponse rather than core's ProviderResult
+            const skipped = await reyaFeeProvider.get(runtime.asRuntime, createMessage("hello there"), undefined) as ReyaProviderResponse;
+            const summary = await reyaFeeProvider.get(runtime.asRuntime, createMessage("what are the maker fees?"), undefined) as ReyaProviderResponse;
+            if (skipped.message !== "" || harness.server.requestCount() !== 2) throw new Error("Provider should only fetch for fee messages");
+            if (!summary.message.startsWith("Reya Network has 4 volume-based fee tiers.")) throw new Error(`Unexpected summary: ${summary.message}`);
+            return summary;
+        });
+    });
+    harness.results.push(providerResult);
+}
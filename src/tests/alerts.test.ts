@@ -0,0 +1,239 @@
+import { API_ENDPOINTS } from "../constants/index.js";
+import type { MarketAlert } from "../types/index.js";
+import {
+    ReyaAlertService,
+    getAlertService,
+    classifyAlertRequest,
+    parseAlertCondition,
+    parseFundingAlertCondition,
+    describeAlert,
+    evaluateAlert,
+    evaluateFundingAlert,
+    formatAlertTrigger,
+} from "../services/alertService.js";
+import { annualizeFundingRate, describeFunding } from "../services/funding.js";
+import { getReyaService } from "../services/reyaService.js";
+import { setPriceAlertAction } from "../actions/priceAlertAction.js";
+import { setFundingAlertAction } from "../actions/fundingAlertAction.js";
+import { listAlertsAction } from "../actions/listAlertsAction.js";
+import { cancelAlertAction } from "../actions/cancelAlertAction.js";
+import { priceFormat, type TestHarness } from "./harness.js";
+import { createMessage, runAction } from "./mockRuntime.js";
+import { marketsDataFixture, pricesFixture, scriptedIntent } from "./fixtures.js";
+
+export async function testAlerts(harness: TestHarness): Promise<void> {
+    console.log("\n🔔 Testing Price and Funding Alerts...");
+
+    const MINUTE = 60 * 1000;
+    const HOUR = 60 * MINUTE;
+
+    const parseResult = await harness.runTest("Parse Alert Requests", async () => {
+        const commands: Array<[string, string | null]> = [
+            ["tell me when ETH crosses 4000", "set"], ["alert me if SOL drops 5% in an hour", "set"],
+            ["show my alerts", "list"], ["какие у меня оповещения?", "list"],
+            ["cancel alert #3", "cancel"], ["удали все оповещения", "cancel"], ["what is the ETH price", null],
+        ];
+        for (const [text, expected] of commands) {
+            if (classifyAlertRequest(text) !== expected) throw new Error(`classifyAlertRequest("${text}") = ${classifyAlertRequest(text)}, expected ${expected}`);
+        }
+
+        const conditions: Array<[string, number, object | null]> = [
+            ["tell me when ETH crosses 4000", 3985.42, { kind: "cross", level: 4000, direction: "above" }],
+            ["alert me if ETH falls below 3,900", 3985.42, { kind: "cross", level: 3900, direction: "below" }],
+            ["ping me when BTC hits 70k", 64250.5, { kind: "cross", level: 70000, direction: "above" }],
+            ["alert me if SOL drops 5% in an hour", 148.37, { kind: "move", percent: 5, direction: "down", windowMs: HOUR }],
+            ["уведоми, если SOL вырастет на 2,5% за 30 минут", 148.37, { kind: "move", percent: 2.5, direction: "up", windowMs: 30 * MINUTE }],
+            ["notify me when SOL moves 3%", 148.37, { kind: "move", percent: 3, direction: "any", windowMs: HOUR }],
+            ["alert me on ETH", 3985.42, null],
+        ];
+        for (const [text, price, expected] of conditions) {
+            const condition = parseAlertCondition(text, price);
+            if (JSON.stringify(condition) !== JSON.stringify(expected)) throw new Error(`parseAlertCondition("${text}") = ${JSON.stringify(condition)}`);
+        }
+
+        const described = describeAlert({ ticker: "SOL-rUSD", condition: parseAlertCondition("alert me if SOL drops 5% in an hour", 148.37)! }, priceFormat);
+        if (described !== "**SOL-rUSD** drops 5% within 1h") throw new Error(`Unexpected description: ${described}`);
+        return { cases: commands.length + conditions.length };
+    });
+    harness.results.push(parseResult);
+
+    const evaluateResult = await harness.runTest("Evaluate Price Alerts", async () => {
+        const t0 = Date.parse("2026-10-18T10:00:00Z");
+        const alert = (condition: MarketAlert["condition"]): MarketAlert =>
+            ({ id: 1, marketId: "3", ticker: "SOL-rUSD", condition, entityId: "u", roomId: "r", source: "test", reference: 150, createdAt: t0 });
+
+        const cross = alert({ kind: "cross", level: 160, direction: "above" });
+        if (evaluateAlert(cross, 159.9, [], t0 + MINUTE)) throw new Error("Should not trigger below the level");
+        if (!evaluateAlert(cross, 160, [], t0 + MINUTE)) throw new Error("Should trigger at the level");
+
+        const drop = alert({ kind: "move", percent: 5, direction: "down", windowMs: HOUR });
+        const observed = [{ timestamp: t0 + 10 * MINUTE, value: 155 }, { timestamp: t0 + 30 * MINUTE, value: 152 }];
+        const trigger = evaluateAlert(drop, 147, observed, t0 + 40 * MINUTE);
+        if (trigger?.baseline?.value !== 155) throw new Error(`A 5% drop from the window high should trigger: ${JSON.stringify(trigger)}`);
+        if (evaluateAlert(drop, 148, observed, t0 + 40 * MINUTE)) throw new Error("A 4.5% drop should not trigger");
+        if (evaluateAlert(drop, 146, [...observed, { timestamp: t0 + 90 * MINUTE, value: 150 }], t0 + 2 * HOUR)) throw new Error("Prices older than the window should not count");
+        if (evaluateAlert(alert({ kind: "move", percent: 5, direction: "up", windowMs: HOUR }), 147, observed, t0 + 40 * MINUTE)) throw new Error("A drop should not trigger an up alert");
+
+        const text = formatAlertTrigger(trigger!, priceFormat, 1);
+        if (text !== `🔔 **SOL-rUSD** dropped 5.16% in 30m: $${priceFormat(155)} → $${priceFormat(147)}.`) throw new Error(`Unexpected notification: ${text}`);
+        return { text };
+    });
+    harness.results.push(evaluateResult);
+
+    const alertIntent = scriptedIntent("ALERT_REQUEST");
+
+    const triggerResult = await harness.runTest("Price Alert Triggers in Its Room", async () => {
+        return harness.withAlerts([
+            alertIntent,
+            { match: "price alert parameters", response: "<response><symbol>ETH</symbol><level>4000</level><percent></percent><direction></direction><window></window></response>" },
+        ], async (runtime, alerts) => {
+            runtime.registerSendHandler("discord");
+            const message = createMessage("tell me when ETH crosses 4000", { content: { source: "discord" } });
+
+            const run = await runAction(runtime, setPriceAlertAction, message);
+            if (!run.validated) throw new Error("SET_REYA_PRICE_ALERT should validate for an alert request");
+            const text = run.callbacks[0]?.text ?? "";
+            if (!text.startsWith(`🔔 Alert #1 set: **ETH-rUSD** crosses above $${priceFormat(4000)} (mark price now $${priceFormat(3985.42)})`)) throw new Error(`Unexpected reply: ${text}`);
+            if ((await alerts.check()).length !== 0) throw new Error("Should not trigger before the price crosses");
+
+            harness.server.setMode(API_ENDPOINTS.PRICES, {
+                kind: "malformed",
+                payload: { ...pricesFixture, "ETH-rUSD": { ...pricesFixture["ETH-rUSD"], price: "4012.5" } },
+            });
+            getReyaService(runtime.asRuntime).cache.del("reya-prices");
+
+            const triggers = await alerts.check();
+            if (triggers.length !== 1) throw new Error(`Expected one trigger, got ${triggers.length}`);
+            const [sent] = runtime.sentMessages;
+            if (sent?.target.roomId !== message.roomId || sent.target.source !== "discord") throw new Error(`Should post to the original room: ${JSON.stringify(sent?.target)}`);
+            if (!sent.content.text?.startsWith(`🔔 **ETH-rUSD** crossed above $${priceFormat(4000)}: mark price is now $${priceFormat(4012.5)}.`)) throw new Error(`Unexpected notification: ${sent.content.text}`);
+            if ((await alerts.listAlerts()).length !== 0) throw new Error("A triggered alert should be removed");
+            if (runtime.pendingModelResponses !== 0) throw new Error("Every scripted model response should be used");
+            return { notification: sent.content.text };
+        });
+    });
+    harness.results.push(triggerResult);
+
+    const manageResult = await harness.runTest("Alerts Survive Restart, List and Cancel", async () => {
+        return harness.withAlerts([alertIntent, alertIntent], async (runtime, alerts) => {
+            const user = createMessage("");
+            const other = createMessage("");
+            const base = { entityId: user.entityId, roomId: user.roomId, source: "test", reference: 100 };
+            await alerts.addAlert({ ...base, marketId: "1", ticker: "ETH-rUSD", condition: { kind: "cross", level: 4000, direction: "above" } });
+            await alerts.addAlert({ ...base, marketId: "3", ticker: "SOL-rUSD", condition: { kind: "move", percent: 5, direction: "down", windowMs: HOUR } });
+            await alerts.addAlert({ ...base, entityId: other.entityId, marketId: "2", ticker: "BTC-rUSD", condition: { kind: "cross", level: 70000, direction: "above" } });
+
+            // A restart: the old watcher stops and a new one loads from the runtime cache
+            await alerts.stop();
+            await runtime.registerService(ReyaAlertService);
+            const restarted = getAlertService(runtime.asRuntime)!;
+            if (restarted === alerts || (await restarted.listAlerts()).length !== 3) throw new Error("Alerts should be reloaded after a restart");
+
+            const asUser = (text: string) => createMessage(text, { entityId: user.entityId, roomId: user.roomId });
+            const list = await runAction(runtime, listAlertsAction, asUser("show my alerts"));
+            const listText = list.callbacks[0]?.text ?? "";
+            if (!listText.startsWith("**Your Reya alerts** (2)")) throw new Error(`Unexpected list: ${listText}`);
+            if (!listText.includes(`#1 **ETH-rUSD** crosses above $${priceFormat(4000)}`) || !listText.includes("#2 **SOL-rUSD** drops 5% within 1h")) throw new Error(`List should describe both alerts: ${listText}`);
+            if (listText.includes("BTC")) throw new Error("Other users' alerts should not be listed");
+
+            const cancel = await runAction(runtime, cancelAlertAction, asUser("cancel my SOL alert"));
+            const cancelText = cancel.callbacks[0]?.text ?? "";
+            if (!cancelText.startsWith("🗑️ Cancelled alert:\n#2 **SOL-rUSD**") || !cancelText.endsWith("1 alert still active.")) throw new Error(`Unexpected cancel reply: ${cancelText}`);
+
+            // No intent scripted: the keyword fallback still routes it, and #3 isn't theirs
+            const notTheirs = await runAction(runtime, cancelAlertAction, asUser("cancel alert #3"));
+            if (!notTheirs.callbacks[0]?.text?.startsWith("None of your alerts in this chat match that.")) throw new Error(`Unexpected reply: ${notTheirs.callbacks[0]?.text}`);
+            if ((await restarted.listAlerts()).map(a => a.id).join(",") !== "1,3") throw new Error("Only the SOL alert should be gone");
+            return { remaining: 2 };
+        });
+    });
+    harness.results.push(manageResult);
+
+    const fundingParseResult = await harness.runTest("Parse and Evaluate Funding Alerts", async () => {
+        const conditions: Array<[string, object | null]> = [
+            ["alert me when funding on BTC flips negative", { kind: "fundingFlip", to: "negative" }],
+            ["уведоми, когда фандинг ETH станет положительным", { kind: "fundingFlip", to: "positive" }],
+            ["tell me when SOL funding changes sign", { kind: "fundingFlip", to: "either" }],
+            ["notify me if any market's funding goes above 50% APR", { kind: "fundingApr", aprPercent: 50 }],
+            ["фандинг выше 30 годовых на любом рынке", { kind: "fundingApr", aprPercent: 30 }],
+            ["alert me on BTC funding", null],
+        ];
+        for (const [text, expected] of conditions) {
+            const condition = parseFundingAlertCondition(text);
+            if (JSON.stringify(condition) !== JSON.stringify(expected)) throw new Error(`parseFundingAlertCondition("${text}") = ${JSON.stringify(condition)}`);
+        }
+
+        const btc = marketsDataFixture.find(d => d.marketId === "2")!;
+        if (Math.abs(annualizeFundingRate(btc.fundingRate, 1) - 21.9) > 1e-9) throw new Error(`Unexpected APR: ${annualizeFundingRate(btc.fundingRate, 1)}`);
+        const described = describeFunding("BTC-rUSD", btc, 1);
+        if (described !== "**BTC-rUSD** +0.0025%/h (+21.90% APR), longs pay shorts, falling") throw new Error(`Unexpected description: ${described}`);
+
+        const t0 = Date.parse("2026-10-18T10:00:00Z");
+        const alert = (marketId: string | null, condition: MarketAlert["condition"], reference: number | null): MarketAlert =>
+            ({ id: 1, marketId, ticker: marketId ? "BTC-rUSD" : null, condition, entityId: "u", roomId: "r", source: "test", reference, createdAt: t0 });
+        const withRate = (marketId: string, fundingRate: number) =>
+            marketsDataFixture.map(d => d.marketId === marketId ? { ...d, fundingRate } : d);
+
+        const flip = alert("2", { kind: "fundingFlip", to: "negative" }, btc.fundingRate);
+        if (evaluateFundingAlert(flip, marketsDataFixture, new Map(), 1, t0)) throw new Error("Positive funding should not trigger a negative flip");
+        if (evaluateFundingAlert(flip, withRate("3", -0.0001), new Map(), 1, t0)) throw new Error("Other markets should not trigger a single-market alert");
+        const flipped = evaluateFundingAlert(flip, withRate("2", -0.00001), new Map(), 1, t0);
+        if (flipped?.funding?.[0]?.marketId !== "2") throw new Error(`BTC turning negative should trigger: ${JSON.stringify(flipped)}`);
+
+        // Every market: only markets that cross in since the last check count
+        const anyApr = alert(null, { kind: "fundingApr", aprPercent: 50 }, null);
+        const previous = new Map(marketsDataFixture.map(d => [d.marketId, d.fundingRate]));
+        if (evaluateFundingAlert(anyApr, marketsDataFixture, previous, 1, t0)) throw new Error("HYPE was already above 50% APR and should not trigger");
+        if (evaluateFundingAlert(anyApr, withRate("1", 0.00006), new Map(), 1, t0)) throw new Error("Markets without a previous rate should be skipped");
+        const crossed = evaluateFundingAlert(anyApr, withRate("1", -0.00006), previous, 1, t0);
+        if (crossed?.funding?.map(d => d.marketId).join(",") !== "1") throw new Error(`ETH crossing 50% APR either way should trigger: ${JSON.stringify(crossed)}`);
+
+        const text = formatAlertTrigger(crossed!, priceFormat, 1, id => id === "1" ? "ETH-rUSD" : id);
+        if (text !== "🔔 Funding above 50% APR:\n• **ETH-rUSD** -0.0060%/h (-52.56% APR), shorts pay longs, rising") throw new Error(`Unexpected notification: ${text}`);
+        return { cases: conditions.length, text };
+    });
+    harness.results.push(fundingParseResult);
+
+    const fundingTriggerResult = await harness.runTest("Funding Alerts Trigger with APR and Direction", async () => {
+        return harness.withAlerts([
+            alertIntent,
+            alertIntent,
+            { match: "funding alert parameters", response: "<response><symbol>BTC</symbol><trigger>negative</trigger><apr></apr></response>" },
+            alertIntent,
+            { match: "funding alert parameters", response: "<response><symbol>ANY</symbol><trigger>apr</trigger><apr>50</apr></response>" },
+        ], async (runtime, alerts) => {
+            const btcMessage = createMessage("alert me when funding on BTC flips negative");
+            const price = await runAction(runtime, setPriceAlertAction, btcMessage);
+            if (price.validated) throw new Error("SET_REYA_PRICE_ALERT should leave funding alerts alone");
+
+            const btc = await runAction(runtime, setFundingAlertAction, btcMessage);
+            if (!btc.validated) throw new Error("SET_REYA_FUNDING_ALERT should validate for a funding alert request");
+            const btcText = btc.callbacks[0]?.text ?? "";
+            if (!btcText.startsWith("🔔 Alert #1 set: **BTC-rUSD** funding flips negative. I'll post here when it triggers.\nNow: **BTC-rUSD** +0.0025%/h (+21.90% APR), longs pay shorts, falling.")) throw new Error(`Unexpected reply: ${btcText}`);
+
+            const any = await runAction(runtime, setFundingAlertAction, createMessage("notify me if any market's funding goes above 50% APR", { entityId: btcMessage.entityId, roomId: btcMessage.roomId }));
+            const anyText = any.callbacks[0]?.text ?? "";
+            if (!anyText.startsWith("🔔 Alert #2 set: Any market funding above 50% APR.") || !anyText.includes("• **HYPE-rUSD** +0.0091%/h (+79.72% APR)")) throw new Error(`Unexpected reply: ${anyText}`);
+
+            // The first check records every market's rate for the any-market alert
+            if ((await alerts.check()).length !== 0) throw new Error("Nothing should trigger before funding moves");
+
+            harness.server.setMode(API_ENDPOINTS.MARKETS_DATA, {
+                kind: "malformed",
+                payload: marketsDataFixture.map(d =>
+                    d.marketId === "2" ? { ...d, fundingRate: -0.00003 } : d.marketId === "1" ? { ...d, fundingRate: 0.00006 } : d),
+            });
+            getReyaService(runtime.asRuntime).cache.del("reya-markets-data");
+
+            const triggers = await alerts.check();
+            if (triggers.length !== 2) throw new Error(`Expected two triggers, got ${triggers.length}`);
+            const texts = runtime.memories.map(m => m.memory.content.text ?? "");
+            if (!texts.some(t => t.startsWith("🔔 Funding flipped negative:\n• **BTC-rUSD** -0.0030%/h (-26.28% APR), shorts pay longs, falling"))) throw new Error(`Missing BTC notification: ${JSON.stringify(texts)}`);
+            if (!texts.some(t => t.startsWith("🔔 Funding above 50% APR:\n• **ETH-rUSD** +0.0060%/h (+52.56% APR), longs pay shorts, rising\nAlert #2"))) throw new Error(`Missing any-market notification: ${JSON.stringify(texts)}`);
+            if ((await alerts.listAlerts()).length !== 0) throw new Error("Triggered alerts should be removed");
+            if (runtime.pendingModelResponses !== 0) throw new Error("Every scripted model response should be used");
+            return { notifications: texts.length };
+        });
+    });
+    harness.results.push(fundingTriggerResult);
+}
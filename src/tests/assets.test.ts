@@ -0,0 +1,35 @@
+import NodeCache from "node-cache";
+import { ReyaAssetService } from "../providers/assetProvider.js";
+import type { TestHarness } from "./harness.js";
+
+export async function testAssetService(harness: TestHarness): Promise<void> {
+    console.log("\n🪙 Testing Asset Service...");
+
+    const assetService = new ReyaAssetService(harness.server.baseUrl, harness.createClient(), new NodeCache());
+
+    // Test getAssets
+    const assetsResult = await harness.runTest("Get Assets", async () => {
+        const assets = await assetService.getAssets();
+        if (assets.length !== 5) throw new Error(`Expected 5 assets, got ${assets.length}`);
+        return { count: assets.length };
+    });
+    harness.results.push(assetsResult);
+
+    // Test getAssetsSummary
+    const assetSummaryResult = await harness.runTest("Get Assets Summary", async () => {
+        const summary = await assetService.getAssetsSummary();
+        if (summary.uniqueDecimals.join(",") !== "6,8,18") throw new Error(`Unexpected decimals ${summary.uniqueDecimals}`);
+        if (summary.newestAsset?.short !== "srUSD" || summary.oldestAsset?.short !== "rUSD") throw new Error("Unexpected newest/oldest asset");
+        return summary;
+    });
+    harness.results.push(assetSummaryResult);
+
+    // Test searchAssets
+    const searchResult = await harness.runTest("Search Assets", async () => {
+        const results = await assetService.searchAssets("rusd");
+        const symbols = results.map(a => a.short).join(",");
+        if (symbols !== "rUSD,srUSD") throw new Error(`Unexpected search results ${symbols}`);
+        return { symbols };
+    });
+    harness.results.push(searchResult);
+}
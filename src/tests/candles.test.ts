@@ -0,0 +1,81 @@
+import type { HistorySample, MarketData } from "../types/index.js";
+import { buildCandles, parseCandleInterval } from "../services/candles.js";
+import { getCandlesAction } from "../actions/candleAction.js";
+import { priceFormat, type TestHarness } from "./harness.js";
+import { createMessage, runAction } from "./mockRuntime.js";
+import { scriptedIntent, historySample } from "./fixtures.js";
+
+export async function testCandles(harness: TestHarness): Promise<void> {
+    console.log("\n🕯️ Testing Candles...");
+
+    const HOUR = 60 * 60 * 1000;
+    // A sample with a 24h volume reading, for volume deltas
+    const traded = (marketId: string, timestamp: number, price: number, last24hVolume: number): HistorySample =>
+        ({ ...historySample(marketId, timestamp, price), oraclePrice: price + 1, data: { last24hVolume } as MarketData });
+
+    const candleResult = await harness.runTest("Build Candles From Samples", async () => {
+        const start = Date.parse("2026-10-18T10:00:00Z");
+        const samples = [
+            traded("2", start + 5 * 60 * 1000, 100, 1000),
+            traded("2", start + 20 * 60 * 1000, 104, 1600),
+            traded("2", start + 40 * 60 * 1000, 98, 1500),   // old trades left the 24h window
+            traded("2", start + 55 * 60 * 1000, 101, 1900),
+            // 11:00 has no samples
+            traded("2", start + 2 * HOUR + 60 * 1000, 110, 2500),
+        ];
+
+        const hourly = buildCandles(samples, "1h");
+        if (hourly.length !== 2) throw new Error(`Gaps should be left out, got ${hourly.length} bars`);
+        const [first, second] = hourly;
+        if ([first.open, first.high, first.low, first.close].join(",") !== "100,104,98,101") throw new Error(`Unexpected OHLC ${JSON.stringify(first)}`);
+        if (first.volume !== 1000 || first.samples !== 4) throw new Error(`Expected 600 + 0 + 400 volume from 4 samples, got ${first.volume} from ${first.samples}`);
+        if (second.openTime !== start + 2 * HOUR || second.volume !== 600) throw new Error(`Unexpected second bar ${JSON.stringify(second)}`);
+
+        // A sample without a price still moves volume: it lands in the next bar with a price
+        const gap = { ...traded("2", start + 2 * HOUR + 30 * 1000, 0, 2200), price: null };
+        const withGap = buildCandles([...samples.slice(0, 4), gap, samples[4]], "1h");
+        if (withGap[1]?.volume !== 600 || withGap[1].samples !== 1) throw new Error(`Volume from a sample without a price should be kept: ${JSON.stringify(withGap[1])}`);
+
+        const fiveMinute = buildCandles(samples, "5m", "oraclePrice");
+        if (fiveMinute.length !== 5 || fiveMinute[0].open !== 101) throw new Error("5m bars should use oracle prices, one per sample here");
+
+        const intervals: Array<[string, string | null]> = [
+            ["give me BTC hourly candles", "1h"], ["SOL 5m candles", "5m"], ["5-minute candles", "5m"], ["1d", "1d"],
+            ["daily candles", "1d"], ["дневные свечи ETH", "1d"], ["часовые свечи", "1h"], ["покажи 5-минутные свечи", "5m"],
+            ["minute candles for the last 3 days", "1m"], ["15m candles", null], ["BTC candles", null],
+        ];
+        for (const [text, expected] of intervals) {
+            if (parseCandleInterval(text) !== expected) throw new Error(`parseCandleInterval("${text}") = ${parseCandleInterval(text)}, expected ${expected}`);
+        }
+        return { bars: hourly.length };
+    });
+    harness.results.push(candleResult);
+
+    const candleActionResult = await harness.runTest("Candle Action Builds Hourly Bars", async () => {
+        return harness.withHistory([
+            scriptedIntent("HISTORICAL_DATA_QUERY", ["BTC"]),
+            { match: "candle chart parameters", response: "<response><symbol>BTC</symbol><interval>1h</interval><count></count><source>mark</source></response>" },
+        ], async (runtime, history) => {
+            // Last bar opens in the previous hour so every sample is in the past
+            const hour = Math.floor(Date.now() / HOUR) * HOUR - HOUR;
+            await history.store.append([
+                traded("2", hour - 2 * HOUR + 60 * 1000, 64000, 90000000),
+                traded("2", hour - HOUR + 60 * 1000, 64100, 90400000),
+                traded("2", hour - HOUR + 30 * 60 * 1000, 64300, 91000000),
+                traded("2", hour + 1000, 64250.5, 91500000),
+            ]);
+
+            const run = await runAction(runtime, getCandlesAction, createMessage("give me BTC hourly candles"));
+            if (!run.validated) throw new Error("GET_REYA_CANDLES should validate for a history intent with candle keywords");
+            const text = run.callbacks[0]?.text ?? "";
+            if (!text.startsWith("**BTC-rUSD 1h candles** (mark price, last 3)")) throw new Error(`Unexpected title: ${text}`);
+            const rows = text.split("\n").filter(line => line.startsWith("| "));
+            if (rows.length !== 5) throw new Error(`Expected 3 bars: ${text}`);
+            const middle = rows[3].split("|").map(cell => cell.trim()).slice(2, 7);
+            if (middle.join(" ") !== `$${priceFormat(64100)} $${priceFormat(64300)} $${priceFormat(64100)} $${priceFormat(64300)} $1.00M`) throw new Error(`Unexpected middle bar: ${rows[3]}`);
+            if (run.result?.data?.candles?.length !== 3) throw new Error("Candles should be returned in data");
+            return { text };
+        });
+    });
+    harness.results.push(candleActionResult);
+}
@@ -0,0 +1,78 @@
+import { buildCapacities, checkCapacity, describeCapacityCheck, buildCapacityTable } from "../services/capacity.js";
+import { parsePositionSize, parsePositionSide } from "../services/position.js";
+import { getCapacityAction } from "../actions/capacityAction.js";
+import { priceFormat, type TestHarness } from "./harness.js";
+import { createMessage, runAction } from "./mockRuntime.js";
+import { marketsFixture, marketsDataFixture, pricesFixture, scriptedIntent } from "./fixtures.js";
+
+export async function testCapacity(harness: TestHarness): Promise<void> {
+    console.log("\n📏 Testing Position Capacity...");
+
+    const capacities = buildCapacities(marketsFixture, marketsDataFixture, Object.values(pricesFixture));
+
+    const checkResult = await harness.runTest("Check Position Capacity", async () => {
+        const sizes: Array<[string, number | null, "long" | "short" | null]> = [
+            ["can I open a $2M long on ETH right now?", 2000000, "long"],
+            ["max short for 500k rUSD", 500000, "short"],
+            ["могу ли я открыть шорт на 1.5 млн $", 1500000, "short"],
+            ["which market has the deepest capacity?", null, null],
+        ];
+        for (const [text, notional, side] of sizes) {
+            if ((parsePositionSize(text)?.notional ?? null) !== notional) throw new Error(`parsePositionSize("${text}") = ${JSON.stringify(parsePositionSize(text))}`);
+            if (parsePositionSide(text) !== side) throw new Error(`parsePositionSide("${text}") = ${parsePositionSide(text)}`);
+        }
+
+        // ETH: 820.5 ETH left long at $3,985.42 = $3.27M, 250 ETH ($996.36K) per order
+        const eth = capacities.find(c => c.ticker === "ETH-rUSD")!;
+        if (Math.abs(eth.long.notional - 3270037.11) > 0.01 || Math.abs(eth.long.orderNotional - 996355) > 0.01) throw new Error(`Unexpected ETH capacity: ${JSON.stringify(eth.long)}`);
+        const split = checkCapacity(eth, 2000000, "long");
+        if (!split.fits || split.orders !== 3) throw new Error(`$2M should fit in three orders: ${JSON.stringify(split)}`);
+        const tooBig = checkCapacity(eth, 5000000, "long");
+        if (tooBig.fits || Math.round(tooBig.percentAvailable) !== 65) throw new Error(`$5M should not fit: ${JSON.stringify(tooBig)}`);
+
+        const expected: Array<[number, string]> = [
+            [500000, "✅ Yes. A $500.00K long on **ETH-rUSD** is about 125.46 ETH at $3,985.42. 820.5 ETH ($3.27M) of long capacity is left, and a single order can be up to 250 ETH ($996.36K)."],
+            [2000000, "⚠️ It fits, but not in one order. A $2.00M long on **ETH-rUSD** is about 501.83 ETH at $3,985.42. 820.5 ETH ($3.27M) of long capacity is left, but a single order is capped at 250 ETH ($996.36K), so it takes at least 3 orders."],
+            [5000000, "❌ Not right now. A $5.00M long on **ETH-rUSD** is about 1,254.57 ETH at $3,985.42, but only 820.5 ETH ($3.27M) of long capacity is left, 65% of what you asked. That's the most you can open long there now."],
+        ];
+        for (const [notional, text] of expected) {
+            const described = describeCapacityCheck(eth, checkCapacity(eth, notional, "long"), priceFormat);
+            if (described !== text) throw new Error(`Unexpected answer for $${notional}: ${described}`);
+        }
+        const doge = capacities.find(c => c.ticker === "DOGE-rUSD")!;
+        if (checkCapacity(doge, 1000, "short").fits) throw new Error("A market without capacity should take nothing");
+
+        const table = buildCapacityTable(capacities, "long", 2000000);
+        const order = table.split("\n").slice(2).map(line => line.split("|")[1].trim());
+        if (order.join(",") !== "SOL-rUSD,ETH-rUSD,BTC-rUSD,JITOSOL-rUSD,HYPE-rUSD,DOGE-rUSD") throw new Error(`Markets should be ranked by long capacity: ${order.join(",")}`);
+        if (!table.split("\n").find(line => line.includes("SOL-rUSD"))!.includes("⚠️ 2 orders")) throw new Error(`SOL should take $2M in two orders: ${table}`);
+        return { table };
+    });
+    harness.results.push(checkResult);
+
+    const actionResult = await harness.runTest("Capacity Action Answers Can I Open", async () => {
+        return harness.withRuntime([
+            scriptedIntent("MARKET_QUERY"),
+            { match: "capacity query parameters", response: "<response><symbols>ETH</symbols><size>2m</size><side>long</side></response>" },
+        ], async runtime => {
+            const eth = await runAction(runtime, getCapacityAction, createMessage("can I open a $2M long on ETH right now?"));
+            if (!eth.validated) throw new Error("GET_REYA_CAPACITY should validate for a capacity question");
+            const text = eth.callbacks[0]?.text ?? "";
+            if (!text.startsWith("**Reya capacity for a $2.00M long**, deepest first")) throw new Error(`Unexpected header: ${text}`);
+            if (!text.includes("⚠️ It fits, but not in one order.")) throw new Error(`Should answer for ETH: ${text}`);
+            if (!text.includes("Deepest for a $2.00M long: **SOL-rUSD** ($5.34M left, 2 orders), **ETH-rUSD** ($3.27M left, 3 orders), **BTC-rUSD** ($2.72M left, 3 orders).")) throw new Error(`Should name the deepest markets: ${text}`);
+
+            // No scripted intent or extraction: the keyword fallbacks read it all from the message
+            const shorts = await runAction(runtime, getCapacityAction, createMessage("which markets have the deepest short capacity?"));
+            if (!shorts.validated) throw new Error("The fallback intent should still route capacity questions");
+            const shortsText = shorts.callbacks[0]?.text ?? "";
+            const order = shortsText.split("\n").filter(line => line.startsWith("| ") && line.includes("-rUSD")).map(line => line.split("|")[1].trim());
+            if (!shortsText.startsWith("**Reya capacity, all markets**, deepest short first") || order[0] !== "BTC-rUSD") throw new Error(`Unexpected reply: ${shortsText}`);
+
+            const funding = await runAction(runtime, getCapacityAction, createMessage("what will a $10k ETH short pay in funding over 24h?"));
+            if (funding.validated) throw new Error("Funding questions should be left to GET_REYA_FUNDING");
+            return { text, shortsText };
+        });
+    });
+    harness.results.push(actionResult);
+}
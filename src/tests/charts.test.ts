@@ -0,0 +1,74 @@
+import type { MarketData } from "../types/index.js";
+import { sparkline, renderSvgChart, svgDataUrl, metricSeries, parseChartMetric } from "../services/charts.js";
+import { getChartAction } from "../actions/chartAction.js";
+import { priceFormat, type TestHarness } from "./harness.js";
+import { createMessage, runAction } from "./mockRuntime.js";
+import { scriptedIntent, historySample } from "./fixtures.js";
+
+export async function testCharts(harness: TestHarness): Promise<void> {
+    console.log("\n📈 Testing Charts...");
+
+    const HOUR = 60 * 60 * 1000;
+    const historical = scriptedIntent("HISTORICAL_DATA_QUERY", ["SOL"]);
+
+    const chartResult = await harness.runTest("Render Sparklines and SVG Charts", async () => {
+        if (sparkline([1, 2, 3, 4, 5, 6, 7, 8]) !== "▁▂▃▄▅▆▇█") throw new Error(`Unexpected sparkline ${sparkline([1, 2, 3, 4, 5, 6, 7, 8])}`);
+        if (sparkline([5, 5, 5]) !== "▄▄▄") throw new Error("A flat series should be drawn mid-height");
+        if (sparkline(Array.from({ length: 100 }, (_, i) => i), 24).length !== 24) throw new Error("Long series should be averaged down to the width");
+
+        const start = Date.parse("2026-10-18T10:00:00Z");
+        const samples = [140, 145, 151, 148.37].map((price, i) =>
+            ({ ...historySample("3", start + i * HOUR, price), data: i === 1 ? null : { fundingRate: -0.000018, openInterest: 12000 + i } as MarketData }));
+        if (metricSeries(samples, "price").length !== 4) throw new Error("Every sample has a price");
+        const funding = metricSeries(samples, "funding");
+        if (funding.length !== 3 || Math.abs(funding[0].value + 0.0018) > 1e-12) throw new Error(`Funding should be in percent and skip samples without data: ${JSON.stringify(funding)}`);
+        if (metricSeries(samples, "openInterest")[2].value !== 12003) throw new Error("Open interest should come from market data");
+
+        const metrics: Array<[string, string]> = [
+            ["chart SOL", "price"], ["BTC funding chart", "funding"], ["график фандинга ETH", "funding"],
+            ["ETH open interest chart", "openInterest"], ["SOL OI graph", "openInterest"], ["открытый интерес BTC график", "openInterest"],
+        ];
+        for (const [text, expected] of metrics) {
+            if (parseChartMetric(text) !== expected) throw new Error(`parseChartMetric("${text}") = ${parseChartMetric(text)}, expected ${expected}`);
+        }
+
+        const svg = renderSvgChart(metricSeries(samples, "price"), { title: "SOL <price> & more" });
+        if (!svg.startsWith("<svg") || !svg.endsWith("</svg>")) throw new Error("Chart should be a standalone SVG");
+        if (!svg.includes("SOL &lt;price&gt; &amp; more")) throw new Error("Title should be escaped");
+        if (!svg.includes("<path d=\"M") || !svg.includes("10-18 10:00 UTC") || !svg.includes("151.00")) throw new Error(`Chart should have a line, times and labels: ${svg}`);
+        const url = svgDataUrl(svg);
+        if (!url.startsWith("data:image/svg+xml;base64,") || Buffer.from(url.split(",")[1], "base64").toString("utf8") !== svg) throw new Error("Data URL should round-trip");
+        return { svgLength: svg.length };
+    });
+    harness.results.push(chartResult);
+
+    const chartActionResult = await harness.runTest("Chart Action Draws Recorded Prices", async () => {
+        return harness.withHistory([
+            historical,
+            { match: "chart parameters", response: "<response><symbol>SOL</symbol><metric>price</metric><timeframe>6h</timeframe></response>" },
+        ], async (runtime, history) => {
+            const now = Date.now();
+            await history.store.append([
+                historySample("3", now - 7 * HOUR, 100),
+                historySample("3", now - 5 * HOUR, 145),
+                historySample("3", now - 3 * HOUR, 151),
+                historySample("3", now - HOUR, 146),
+                historySample("3", now - 1000, 148.37),
+            ]);
+
+            const run = await runAction(runtime, getChartAction, createMessage("chart SOL over the last 6 hours"));
+            if (!run.validated) throw new Error("GET_REYA_CHART should validate for a history intent with chart keywords");
+            const content = run.callbacks[0];
+            const lines = (content?.text ?? "").split("\n");
+            if (lines[0] !== "**SOL-rUSD price, last 6h**") throw new Error(`Unexpected title: ${content?.text}`);
+            if (lines[1] !== "`▁█▂▅`") throw new Error(`Unexpected sparkline: ${lines[1]}`);
+            if (!lines[2].startsWith(`$${priceFormat(145)} → $${priceFormat(148.37)} (+2.32%)`)) throw new Error(`Unexpected change line: ${lines[2]}`);
+
+            const [chart] = content?.attachments ?? [];
+            if (chart?.contentType !== "image" || !chart.url.startsWith("data:image/svg+xml;base64,")) throw new Error(`Expected an SVG image attachment: ${JSON.stringify(chart)}`);
+            if (run.result?.data?.points?.length !== 4) throw new Error("Points should be returned in data");
+            return { text: content?.text };
+        });
+    });
+    harness.results.push(chartActionResult);
+}
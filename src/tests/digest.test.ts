@@ -0,0 +1,80 @@
+import type { DigestState } from "../types/index.js";
+import { parseDigestRooms, digestPeriodStart } from "../services/digestService.js";
+import type { TestHarness } from "./harness.js";
+import { createMessage } from "./mockRuntime.js";
+
+export async function testDigest(harness: TestHarness): Promise<void> {
+    console.log("\n📰 Testing Scheduled Digests...");
+
+    const scheduleResult = await harness.runTest("Parse Digest Rooms and Schedules", async () => {
+        const rooms = parseDigestRooms(JSON.stringify([
+            { roomId: "a", source: "discord" },
+            { roomId: "b", source: "telegram", schedule: "hourly", sections: "movers, oi, funding", top: 2 },
+            { roomId: "c" },
+            { roomId: "d", source: "discord", hourUtc: 25 },
+            { roomId: "e", source: "discord", schedule: null, hourUtc: null, top: null },
+        ]));
+        if (rooms.map(r => r.roomId).join() !== "a,b,e") throw new Error(`Rooms without a source or with an invalid hour should be skipped: ${JSON.stringify(rooms)}`);
+        if (rooms[2].schedule !== "daily" || rooms[2].hourUtc !== 9 || rooms[2].top !== 3) throw new Error(`Null fields should take their defaults: ${JSON.stringify(rooms[2])}`);
+        if (rooms[0].schedule !== "daily" || rooms[0].hourUtc !== 9 || rooms[0].sections.length !== 5 || rooms[0].top !== 3) throw new Error(`Unexpected defaults: ${JSON.stringify(rooms[0])}`);
+        if (JSON.stringify(rooms[1].sections) !== '["movers","funding"]' || rooms[1].top !== 2) throw new Error(`Unknown sections should be dropped: ${JSON.stringify(rooms[1])}`);
+        if (parseDigestRooms("not json").length !== 0 || parseDigestRooms(undefined).length !== 0) throw new Error("Bad or missing settings should configure no rooms");
+
+        const now = Date.parse("2026-10-18T08:30:00Z");
+        const periods: Array<[object, string]> = [
+            [{ schedule: "hourly", hourUtc: 9 }, "2026-10-18T08:00:00.000Z"],
+            [{ schedule: "daily", hourUtc: 9 }, "2026-10-17T09:00:00.000Z"],
+            [{ schedule: "daily", hourUtc: 6 }, "2026-10-18T06:00:00.000Z"],
+        ];
+        for (const [room, expected] of periods) {
+            const start = new Date(digestPeriodStart(room as any, now)).toISOString();
+            if (start !== expected) throw new Error(`digestPeriodStart(${JSON.stringify(room)}) = ${start}`);
+        }
+        return { rooms };
+    });
+    harness.results.push(scheduleResult);
+
+    const postResult = await harness.runTest("Digest Posts Each Room Its Sections on Schedule", async () => {
+        const { roomId: dailyRoom } = createMessage("");
+        const { roomId: hourlyRoom } = createMessage("");
+        const rooms = [
+            { roomId: dailyRoom, source: "discord", schedule: "daily", hourUtc: 9 },
+            { roomId: hourlyRoom, source: "telegram", schedule: "hourly", sections: ["movers", "openInterest"], top: 1 },
+        ];
+        return harness.withDigest(rooms, async (runtime, digest) => {
+            runtime.registerSendHandler("discord");
+            const t0 = Date.parse("2025-01-19T09:01:00Z");
+            if ((await digest.check(t0)).length !== 0) throw new Error("The first check should only record a baseline");
+            if ((await digest.check(t0 + 30 * 60 * 1000)).length !== 0) throw new Error("Nothing should be due within the same period");
+
+            // Since the baseline DOGE-rUSD was listed and BTC's open interest grew 25%
+            const key = `reya-digest-${dailyRoom}`;
+            const baseline = runtime.cache.get(key) as DigestState;
+            baseline.marketIds = baseline.marketIds.filter(id => id !== "6");
+            baseline.openInterest.markets["2"].notional *= 0.8;
+            await runtime.setCache(key, baseline);
+
+            const posts = await digest.check(Date.parse("2025-01-20T09:05:00Z"));
+            if (posts.length !== 2) throw new Error(`Both rooms should be due: ${posts.length}`);
+            const [sent] = runtime.sentMessages;
+            if (sent?.target.roomId !== dailyRoom || sent.target.source !== "discord") throw new Error(`Should post to the configured room: ${JSON.stringify(sent?.target)}`);
+
+            const text = sent.content.text ?? "";
+            if (!text.startsWith("📰 **Reya Network daily digest**, 2025-01-20 09:05 UTC")) throw new Error(`Unexpected header: ${text}`);
+            const movers = text.split("\n").filter(line => line.startsWith("• **") && line.includes(" at $"));
+            if (!movers[0]?.startsWith("• **HYPE-rUSD** -5.93%") || !movers[1]?.startsWith("• **SOL-rUSD** +4.30%") || movers.length !== 3) throw new Error(`Movers should be ranked by the size of the 24h move: ${text}`);
+            if (!text.includes("💰 **Top volume (24h)**: $173.00M across 5 markets\n• **BTC-rUSD** $91.50M (52.9%)")) throw new Error(`Unexpected volume section: ${text}`);
+            if (!text.includes("💸 **Funding extremes**\n• **HYPE-rUSD** +0.0091%/h")) throw new Error(`Highest funding should come first: ${text}`);
+            if (!text.includes("• Market **DOGE-rUSD**, up to 10x (not active yet)") || !text.includes("• Asset **srUSD** (Staked Reya USD)")) throw new Error(`Should list new markets and assets: ${text}`);
+            if (!text.includes("• **BTC-rUSD** +$2.06M (+25.00%)")) throw new Error(`Should show the OI change since the last digest: ${text}`);
+
+            // No telegram client here, so the hourly digest is saved to its room
+            const saved = runtime.memories.map(m => m.memory);
+            const hourly = saved[0]?.content.text ?? "";
+            if (saved.length !== 1 || saved[0].roomId !== hourlyRoom) throw new Error(`The hourly digest should be saved to its room: ${JSON.stringify(saved)}`);
+            if (!hourly.includes("hourly digest") || !hourly.includes("• **HYPE-rUSD** -5.93%") || hourly.includes("SOL-rUSD") || hourly.includes("Top volume")) throw new Error(`Only the configured sections and top market should be included: ${hourly}`);
+            return { text, hourly };
+        });
+    });
+    harness.results.push(postResult);
+}
@@ -0,0 +1,77 @@
+import NodeCache from "node-cache";
+import { ReyaFeeService } from "../providers/feeProvider.js";
+import { parseVolumeAmount } from "../actions/feeCalculatorAction.js";
+import type { TestHarness } from "./harness.js";
+
+export async function testFeeService(harness: TestHarness): Promise<void> {
+    console.log("\n💸 Testing Fee Service...");
+
+    const feeService = new ReyaFeeService(harness.server.baseUrl, harness.createClient(), new NodeCache());
+
+    // Test getFeeTiers
+    const feeTiersResult = await harness.runTest("Get Fee Tiers", async () => {
+        const feeTiers = await feeService.getFeeTiers();
+        if (feeTiers.map(t => t.tier_id).join(",") !== "1,2,3,4") throw new Error("Fee tiers should be sorted by volume");
+        return { count: feeTiers.length };
+    });
+    harness.results.push(feeTiersResult);
+
+    // Test getGlobalFeeParameters
+    const globalFeesResult = await harness.runTest("Get Global Fee Parameters", async () => {
+        const globalFees = await feeService.getGlobalFeeParameters();
+        if (globalFees.referee_discount !== "0.1") throw new Error(`Unexpected referee_discount ${globalFees.referee_discount}`);
+        return globalFees;
+    });
+    harness.results.push(globalFeesResult);
+
+    // Test formatFeeRate
+    const formatResult = await harness.runTest("Format Fee Rate", async () => {
+        const formatted = feeService.formatFeeRate("0.0004");
+        if (formatted !== "0.0400%") throw new Error(`Unexpected format: ${formatted}`);
+        return { formatted };
+    });
+    harness.results.push(formatResult);
+
+    // calculateFeeTier is pure, so check it against fixed tiers
+    const tiers = [
+        { tier_id: "2", maker_fee: "0.0002", taker_fee: "0.0004", volume: "1000000" },
+        { tier_id: "1", maker_fee: "0.0003", taker_fee: "0.0005", volume: "0" },
+        { tier_id: "3", maker_fee: "-0.0001", taker_fee: "0.0003", volume: "5000000" },
+    ];
+    const globalFees = {
+        og_discount: "0.2",
+        referee_discount: "0.1",
+        referrer_rebate: "0.15",
+        affiliate_referrer_rebate: "0.25",
+    };
+
+    const calculatorResult = await harness.runTest("Calculate Fee Tier", async () => {
+        const referee = feeService.calculateFeeTier(tiers, globalFees, 3_000_000, { isReferee: true });
+        if (referee.tier.tier_id !== "2") throw new Error(`Expected tier 2, got ${referee.tier.tier_id}`);
+        if (Math.abs(referee.effectiveTakerFee - 0.00036) > 1e-12) throw new Error(`Unexpected taker fee ${referee.effectiveTakerFee}`);
+        if (referee.volumeToNextTier !== 2_000_000) throw new Error(`Unexpected volume to next tier ${referee.volumeToNextTier}`);
+
+        // Discounts don't stack and don't shrink maker rebates
+        const ogReferee = feeService.calculateFeeTier(tiers, globalFees, 6_000_000, { isOg: true, isReferee: true });
+        if (ogReferee.discountSource !== "og") throw new Error("OG discount should win over referee discount");
+        if (ogReferee.effectiveMakerFee !== -0.0001) throw new Error("Maker rebate should not be discounted");
+        if (ogReferee.nextTier !== null) throw new Error("Top tier should have no next tier");
+
+        const small = feeService.calculateFeeTier(tiers, globalFees, 10, { isReferrer: true });
+        if (small.tier.tier_id !== "1" || small.referrerRebate !== 0.15) throw new Error("Unexpected base tier result");
+        return { referee, ogReferee };
+    });
+    harness.results.push(calculatorResult);
+
+    const parseVolumeResult = await harness.runTest("Parse Volume Amount", async () => {
+        const cases: Array<[string, number | null]> = [
+            ["$3M", 3_000_000], ["500k", 500_000], ["1,200,000", 1_200_000], ["3 млн", 3_000_000], ["lots", null]
+        ];
+        for (const [input, expected] of cases) {
+            const parsed = parseVolumeAmount(input);
+            if (parsed !== expected) throw new Error(`parseVolumeAmount("${input}") = ${parsed}, expected ${expected}`);
+        }
+        return { cases: cases.length };
+    });
+    harness.results.push(parseVolumeResult);
+}
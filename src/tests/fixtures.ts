@@ -0,0 +1,348 @@
+import type {
+    Market,
+    MarketData,
+    Asset,
+    PricesResponse,
+    FeeTierParameter,
+    GlobalFeeParameters,
+    HistorySample,
+} from "../types/index.js";
+import type { ScriptedModelResponse } from "./mockRuntime.js";
+
+// Recorded Reya API responses trimmed to a handful of markets. Timestamps are
+// frozen so tests can assert on exact values.
+
+export const FIXTURE_TIMESTAMP = 1760000000000;
+
+export const marketsFixture: Market[] = [
+    {
+        id: "1",
+        assetPairId: "ETH-rUSD",
+        ticker: "ETH-rUSD",
+        markPrice: 3985.42,
+        isActive: true,
+        maxLeverage: 25,
+        description: "Ethereum perpetual",
+        name: "ETH",
+        tickSizeDecimals: 2,
+        priority: 2,
+    },
+    {
+        id: "2",
+        assetPairId: "BTC-rUSD",
+        ticker: "BTC-rUSD",
+        markPrice: 64250.5,
+        isActive: true,
+        maxLeverage: 25,
+        description: "Bitcoin perpetual",
+        name: "BTC",
+        tickSizeDecimals: 1,
+        priority: 1,
+    },
+    {
+        id: "3",
+        assetPairId: "SOL-rUSD",
+        ticker: "SOL-rUSD",
+        markPrice: 148.37,
+        isActive: true,
+        maxLeverage: 20,
+        description: "Solana perpetual",
+        name: "SOL",
+        tickSizeDecimals: 3,
+        priority: 3,
+    },
+    {
+        id: "4",
+        assetPairId: "JITOSOL-rUSD",
+        ticker: "JITOSOL-rUSD",
+        markPrice: 178.12,
+        isActive: true,
+        maxLeverage: 10,
+        description: "Jito staked SOL perpetual",
+        name: "JITOSOL",
+        tickSizeDecimals: 3,
+        priority: 9,
+    },
+    {
+        id: "5",
+        assetPairId: "HYPE-rUSD",
+        ticker: "HYPE-rUSD",
+        markPrice: 38.214,
+        isActive: true,
+        maxLeverage: 10,
+        description: "Hyperliquid perpetual",
+        name: "HYPE",
+        tickSizeDecimals: 3,
+        priority: 5,
+    },
+    {
+        id: "6",
+        assetPairId: "DOGE-rUSD",
+        ticker: "DOGE-rUSD",
+        markPrice: 0.12345,
+        isActive: false,
+        maxLeverage: 10,
+        description: "Dogecoin perpetual",
+        name: "DOGE",
+        tickSizeDecimals: 5,
+        priority: 12,
+    },
+];
+
+export const marketsDataFixture: MarketData[] = [
+    {
+        marketId: "1",
+        updatedAt: FIXTURE_TIMESTAMP,
+        longOI: 1450.2,
+        shortOI: 1210.8,
+        longSkewPercentage: 54.5,
+        shortSkewPercentage: 45.5,
+        openInterest: 2661,
+        fundingRate: 0.000012,
+        fundingRateVelocity: 0.0000004,
+        last24hVolume: 48250000,
+        maxAmountBaseLong: 820.5,
+        maxAmountBaseShort: 1060.25,
+        maxAmountSizeLong: 250,
+        maxAmountSizeShort: 250,
+        priceChange24H: 61.35,
+        priceChange24HPercentage: 1.56,
+        poolPrice: 3986.1,
+        oraclePrice: 3984.9,
+        pricesUpdatedAt: FIXTURE_TIMESTAMP,
+    },
+    {
+        marketId: "2",
+        updatedAt: FIXTURE_TIMESTAMP,
+        longOI: 98.4,
+        shortOI: 61.6,
+        longSkewPercentage: 61.5,
+        shortSkewPercentage: 38.5,
+        openInterest: 160,
+        fundingRate: 0.000025,
+        fundingRateVelocity: -0.0000011,
+        last24hVolume: 91500000,
+        maxAmountBaseLong: 42.3,
+        maxAmountBaseShort: 79.1,
+        maxAmountSizeLong: 15,
+        maxAmountSizeShort: 15,
+        priceChange24H: -820.4,
+        priceChange24HPercentage: -1.26,
+        poolPrice: 64270.2,
+        oraclePrice: 64241.8,
+        pricesUpdatedAt: FIXTURE_TIMESTAMP,
+    },
+    {
+        marketId: "3",
+        updatedAt: FIXTURE_TIMESTAMP,
+        longOI: 21500,
+        shortOI: 27800,
+        longSkewPercentage: 43.6,
+        shortSkewPercentage: 56.4,
+        openInterest: 49300,
+        fundingRate: -0.000018,
+        fundingRateVelocity: 0.0000007,
+        last24hVolume: 22100000,
+        maxAmountBaseLong: 36000,
+        maxAmountBaseShort: 23750,
+        maxAmountSizeLong: 10000,
+        maxAmountSizeShort: 10000,
+        priceChange24H: 6.12,
+        priceChange24HPercentage: 4.3,
+        poolPrice: 148.29,
+        oraclePrice: 148.41,
+        pricesUpdatedAt: FIXTURE_TIMESTAMP,
+    },
+    {
+        marketId: "4",
+        updatedAt: FIXTURE_TIMESTAMP,
+        longOI: 3200,
+        shortOI: 2900,
+        longSkewPercentage: 52.5,
+        shortSkewPercentage: 47.5,
+        openInterest: 6100,
+        fundingRate: 0.000004,
+        fundingRateVelocity: 0,
+        last24hVolume: 1350000,
+        maxAmountBaseLong: 4100,
+        maxAmountBaseShort: 4400,
+        maxAmountSizeLong: 2000,
+        maxAmountSizeShort: 2000,
+        priceChange24H: 7.05,
+        priceChange24HPercentage: 4.12,
+        poolPrice: 178.3,
+        oraclePrice: 178.05,
+        pricesUpdatedAt: FIXTURE_TIMESTAMP,
+    },
+    {
+        marketId: "5",
+        updatedAt: FIXTURE_TIMESTAMP,
+        longOI: 91000,
+        shortOI: 52000,
+        longSkewPercentage: 63.6,
+        shortSkewPercentage: 36.4,
+        openInterest: 143000,
+        fundingRate: 0.000091,
+        fundingRateVelocity: 0.0000032,
+        last24hVolume: 9800000,
+        maxAmountBaseLong: 18000,
+        maxAmountBaseShort: 57000,
+        maxAmountSizeLong: 20000,
+        maxAmountSizeShort: 20000,
+        priceChange24H: -2.41,
+        priceChange24HPercentage: -5.93,
+        poolPrice: 38.29,
+        oraclePrice: 38.18,
+        pricesUpdatedAt: FIXTURE_TIMESTAMP,
+    },
+    {
+        marketId: "6",
+        updatedAt: FIXTURE_TIMESTAMP,
+        longOI: 0,
+        shortOI: 0,
+        longSkewPercentage: 50,
+        shortSkewPercentage: 50,
+        openInterest: 0,
+        fundingRate: 0,
+        fundingRateVelocity: 0,
+        last24hVolume: 0,
+        maxAmountBaseLong: 0,
+        maxAmountBaseShort: 0,
+        maxAmountSizeLong: 0,
+        maxAmountSizeShort: 0,
+        priceChange24H: 0,
+        priceChange24HPercentage: 0,
+        poolPrice: 0.12345,
+        oraclePrice: 0.12345,
+        pricesUpdatedAt: FIXTURE_TIMESTAMP,
+    },
+];
+
+export const pricesFixture: PricesResponse = {
+    "ETH-rUSD": {
+        marketId: 1,
+        oraclePrice: "3984.9",
+        poolPrice: "3986.1",
+        price: "3985.42",
+        updatedAt: FIXTURE_TIMESTAMP,
+    },
+    "BTC-rUSD": {
+        marketId: 2,
+        oraclePrice: "64241.8",
+        poolPrice: "64270.2",
+        price: "64250.5",
+        updatedAt: FIXTURE_TIMESTAMP,
+    },
+    "SOL-rUSD": {
+        marketId: 3,
+        oraclePrice: "148.41",
+        poolPrice: "148.29",
+        price: "148.37",
+        updatedAt: FIXTURE_TIMESTAMP,
+    },
+    "JITOSOL-rUSD": {
+        marketId: 4,
+        oraclePrice: "178.05",
+        poolPrice: "178.3",
+        price: "178.12",
+        updatedAt: FIXTURE_TIMESTAMP,
+    },
+    "HYPE-rUSD": {
+        marketId: 5,
+        oraclePrice: "38.18",
+        poolPrice: "38.29",
+        price: "38.214",
+        updatedAt: FIXTURE_TIMESTAMP,
+    },
+    "DOGE-rUSD": {
+        marketId: 6,
+        oraclePrice: "0.12345",
+        poolPrice: "0.12345",
+        price: "0.12345",
+        updatedAt: FIXTURE_TIMESTAMP,
+    },
+};
+
+export const assetsFixture: Asset[] = [
+    {
+        address: "0xa9f32a851b1800742e47725da54a09a7ef2556a3",
+        name: "Reya USD",
+        short: "rUSD",
+        createdAt: "2024-03-01T00:00:00.000Z",
+        updatedAt: "2025-06-01T00:00:00.000Z",
+        asset_price_contract_id: "0",
+        asset_price_usdc_contract_id: "0",
+        decimals: 6,
+    },
+    {
+        address: "0x3b860c0b53f2e8bd5264aa7c3451d41263c933f2",
+        name: "USD Coin",
+        short: "USDC",
+        createdAt: "2024-03-01T00:00:00.000Z",
+        updatedAt: "2025-06-01T00:00:00.000Z",
+        asset_price_contract_id: "1",
+        asset_price_usdc_contract_id: "1",
+        decimals: 6,
+    },
+    {
+        address: "0x6b48c2e6a32077ec17e8ba0d98ffc676dfab1a30",
+        name: "Wrapped Ether",
+        short: "WETH",
+        createdAt: "2024-05-14T00:00:00.000Z",
+        updatedAt: "2025-06-01T00:00:00.000Z",
+        asset_price_contract_id: "2",
+        asset_price_usdc_contract_id: "3",
+        decimals: 18,
+    },
+    {
+        address: "0x2a1b9ad6b6b28e5d8b5e3e1b7d7e7d57a0f1c2d3",
+        name: "Wrapped Bitcoin",
+        short: "WBTC",
+        createdAt: "2024-07-02T00:00:00.000Z",
+        updatedAt: "2025-06-01T00:00:00.000Z",
+        asset_price_contract_id: "4",
+        asset_price_usdc_contract_id: "5",
+        decimals: 8,
+    },
+    {
+        address: "0x4e2c6c5e35b4e44e1c7d5a5f6e9c8b7a6d5e4f3a",
+        name: "Staked Reya USD",
+        short: "srUSD",
+        createdAt: "2025-01-20T00:00:00.000Z",
+        updatedAt: "2025-06-01T00:00:00.000Z",
+        asset_price_contract_id: "6",
+        asset_price_usdc_contract_id: "7",
+        decimals: 18,
+    },
+];
+
+export const feeTierParametersFixture: FeeTierParameter[] = [
+    { tier_id: "1", taker_fee: "0.0004", maker_fee: "0.0002", volume: "0" },
+    { tier_id: "2", taker_fee: "0.00035", maker_fee: "0.00015", volume: "1000000" },
+    { tier_id: "3", taker_fee: "0.0003", maker_fee: "0.0001", volume: "5000000" },
+    { tier_id: "4", taker_fee: "0.00025", maker_fee: "0", volume: "25000000" },
+];
+
+export const globalFeeParametersFixture: GlobalFeeParameters = {
+    og_discount: "0.2",
+    referee_discount: "0.1",
+    referrer_rebate: "0.15",
+    affiliate_referrer_rebate: "0.25",
+};
+
+// An intent analyzer reply for MockRuntime's scripted model responses
+export const scriptedIntent = (intent: string, assets?: string[]): ScriptedModelResponse => ({
+    match: "expert intent analyzer",
+    response: JSON.stringify({
+        intent,
+        confidence: 0.9,
+        reasoning: "scripted",
+        shouldUseAPI: true,
+        shouldUseKnowledge: false,
+        ...(assets ? { extractedEntities: { assets } } : {}),
+    }),
+});
+
+// A recorded sample with the same mark, oracle and pool price
+export const historySample = (marketId: string, timestamp: number, price: number, data: MarketData | null = null): HistorySample =>
+    ({ timestamp, marketId, price, oraclePrice: price, poolPrice: price, data });
@@ -0,0 +1,104 @@
+import {
+    annualizeFundingRate,
+    describeFunding,
+    formatFundingRate,
+    parseFundingQuery,
+    projectFundingRate,
+    estimateFundingPayment,
+    buildFundingTable,
+} from "../services/funding.js";
+import { ReyaService, getReyaService } from "../services/reyaService.js";
+import { getFundingAction } from "../actions/fundingAction.js";
+import type { TestHarness } from "./harness.js";
+import { createMessage, runAction } from "./mockRuntime.js";
+import { marketsFixture, marketsDataFixture, scriptedIntent } from "./fixtures.js";
+
+export async function testFunding(harness: TestHarness): Promise<void> {
+    console.log("\n💸 Testing Funding Analytics...");
+
+    const btc = marketsDataFixture.find(d => d.marketId === "2")!;
+    const eth = marketsDataFixture.find(d => d.marketId === "1")!;
+
+    const mathResult = await harness.runTest("Project and Estimate Funding", async () => {
+        const queries: Array<[string, object]> = [
+            ["rank markets by funding", { hours: null, position: null }],
+            ["funding on a $10k short over the next 24 hours", { hours: 24, position: { notional: 10000, side: "short" } }],
+            ["what does a $2m long pay in funding", { hours: null, position: { notional: 2000000, side: "long" } }],
+            ["фандинг для 5000 rUSD на 3 дня", { hours: 72, position: { notional: 5000, side: "long" } }],
+        ];
+        for (const [text, expected] of queries) {
+            const parsed = parseFundingQuery(text);
+            if (JSON.stringify(parsed) !== JSON.stringify(expected)) throw new Error(`parseFundingQuery("${text}") = ${JSON.stringify(parsed)}`);
+        }
+
+        // BTC: 0.0025%/h falling 0.00011%/h each hour
+        const projected = projectFundingRate(btc, 8, 1);
+        if (Math.abs(projected - 0.0000162) > 1e-12) throw new Error(`Unexpected projection: ${projected}`);
+        // $10k over 8h: 10000 × (0.000025 × 8 − 0.0000011 × 8² / 2) = $1.648, paid by longs
+        const longCost = estimateFundingPayment(btc, 10000, 8, "long", 1);
+        if (Math.abs(longCost + 1.648) > 1e-9) throw new Error(`Unexpected long funding: ${longCost}`);
+        if (Math.abs(estimateFundingPayment(btc, 10000, 8, "short", 1) - 1.648) > 1e-9) throw new Error("A short should receive what a long pays");
+
+        const rows = marketsFixture.flatMap(m => {
+            const data = marketsDataFixture.find(d => d.marketId === m.id);
+            return data ? [{ ticker: m.ticker, data }] : [];
+        });
+        const table = buildFundingTable(rows, 8, 1, { notional: 10000, side: "long" });
+        const order = table.split("\n").slice(2).map(line => line.split("|")[1].trim());
+        if (order.join(",") !== "HYPE-rUSD,BTC-rUSD,ETH-rUSD,JITOSOL-rUSD,DOGE-rUSD,SOL-rUSD") throw new Error(`Markets should be ranked by funding: ${order.join(",")}`);
+        const btcRow = table.split("\n").find(line => line.includes("BTC-rUSD"))!;
+        if (!btcRow.includes("+0.0025%") || !btcRow.includes("+0.060%") || !btcRow.includes("+21.90%") || !btcRow.includes("+14.19%") || !btcRow.includes("-$1.65")) throw new Error(`Unexpected BTC row: ${btcRow}`);
+
+        // The same rate read as an 8-hour rate is an eighth as much per hour
+        if (formatFundingRate(btc.fundingRate, 8) !== "+0.0025%/8h") throw new Error(`Unexpected 8h rate: ${formatFundingRate(btc.fundingRate, 8)}`);
+        if (Math.abs(annualizeFundingRate(btc.fundingRate, 8) - 2.7375) > 1e-9) throw new Error(`Unexpected 8h APR: ${annualizeFundingRate(btc.fundingRate, 8)}`);
+        if (Math.abs(estimateFundingPayment(btc, 10000, 8, "long", 8) + 0.2445) > 1e-9) throw new Error("An 8h position should pay one period of funding");
+        return { table };
+    });
+    harness.results.push(mathResult);
+
+    const actionResult = await harness.runTest("Funding Action Ranks and Prices a Position", async () => {
+        return harness.withRuntime([
+            scriptedIntent("MARKET_QUERY"),
+            { match: "funding query parameters", response: "<response><symbols></symbols><hours></hours><size></size><side></side></response>" },
+        ], async runtime => {
+            const ranked = await runAction(runtime, getFundingAction, createMessage("rank Reya markets by funding"));
+            if (!ranked.validated) throw new Error("GET_REYA_FUNDING should validate for a funding question");
+            const text = ranked.callbacks[0]?.text ?? "";
+            if (!text.startsWith("**Reya funding, all markets**, highest first")) throw new Error(`Unexpected reply: ${text}`);
+            if (!text.includes(`Longs pay the most on ${describeFunding("HYPE-rUSD", marketsDataFixture.find(d => d.marketId === "5")!, 1)}.`)) throw new Error(`Should name where longs pay most: ${text}`);
+            if (!text.includes("Shorts pay the most on **SOL-rUSD**")) throw new Error(`Should name where shorts pay most: ${text}`);
+
+            // No scripted intent or extraction: the keyword fallbacks read it all from the message
+            const position = await runAction(runtime, getFundingAction, createMessage("what will a $10k ETH short pay in funding over 24h?"));
+            if (!position.validated) throw new Error("The fallback intent should still route funding questions");
+            const positionText = position.callbacks[0]?.text ?? "";
+            // 10000 × (0.000012 × 24 + 0.0000004 × 24² / 2) = $4.032, paid by longs to shorts
+            if (!positionText.includes(`Now: ${describeFunding("ETH-rUSD", eth, 1)}.`) || !positionText.includes("A $10,000 short would receive about **$4.03** in funding over 24h.")) throw new Error(`Unexpected reply: ${positionText}`);
+
+            const alert = await runAction(runtime, getFundingAction, createMessage("alert me when funding on BTC flips negative"));
+            if (alert.validated) throw new Error("Funding alerts should be left to SET_REYA_FUNDING_ALERT");
+            return { text, positionText };
+        });
+    });
+    harness.results.push(actionResult);
+
+    const periodResult = await harness.runTest("Funding Action Reads the Rate Period From Settings", async () => {
+        return harness.withRuntime([
+            scriptedIntent("MARKET_QUERY"),
+            { match: "funding query parameters", response: "<response><symbols>BTC</symbols><hours></hours><size></size><side></side></response>" },
+        ], async runtime => {
+            // ReyaService reads the period when it starts
+            await getReyaService(runtime.asRuntime).stop();
+            runtime.setSetting("REYA_FUNDING_RATE_PERIOD_HOURS", 8);
+            await runtime.registerService(ReyaService);
+
+            const run = await runAction(runtime, getFundingAction, createMessage("BTC funding over the next 8 hours"));
+            const text = run.callbacks[0]?.text ?? "";
+            if (!text.includes("Now: **BTC-rUSD** +0.0025%/8h (+2.74% APR)")) throw new Error(`The rate should be read per 8h: ${text}`);
+            if (!text.includes("Reya rates are per 8h and the 1h column spreads them evenly; APR is the 8h rate × 3 × 365, not compounded.")) throw new Error(`The footnote should name the 8h period: ${text}`);
+            return { text };
+        });
+    });
+    harness.results.push(periodResult);
+}
@@ -0,0 +1,168 @@
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { smartDispatchProvider } from "../providers/dispatchProvider.js";
+import { ReyaService } from "../services/reyaService.js";
+import { ReyaHttpClient, type ReyaHttpClientOptions } from "../services/httpClient.js";
+import { ReyaHistoryService, getHistoryService } from "../services/historyService.js";
+import { ReyaAlertService, getAlertService } from "../services/alertService.js";
+import { ReyaDigestService, getDigestService } from "../services/digestService.js";
+import { MockReyaServer } from "./mockServer.js";
+import { MockRuntime, type ScriptedModelResponse } from "./mockRuntime.js";
+
+export const priceFormat = (value: number) =>
+    value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export interface TestResult {
+    name: string;
+    passed: boolean;
+    error?: string;
+    duration: number;
+    data?: any;
+}
+
+/**
+ * What every suite shares: one mock Reya API, the results so far, and
+ * clients and runtimes wired to that mock.
+ */
+export class TestHarness {
+    readonly server = new MockReyaServer();
+    readonly results: TestResult[] = [];
+
+    // Fast retries so error scenarios don't slow the suite down
+    createClient(options: Partial<ReyaHttpClientOptions> = {}): ReyaHttpClient {
+        return new ReyaHttpClient({
+            baseUrl: this.server.baseUrl,
+            timeoutMs: 1000,
+            retryBaseDelayMs: 5,
+            retryMaxDelayMs: 50,
+            ...options,
+        });
+    }
+
+    // Fresh runtime per scenario so no cached API data leaks between them
+    async withRuntime<T>(
+        modelResponses: Array<string | ScriptedModelResponse>,
+        fn: (runtime: MockRuntime) => Promise<T>
+    ): Promise<T> {
+        const runtime = new MockRuntime({
+            settings: { REYA_API_BASE_URL: this.server.baseUrl, REYA_MAX_RETRIES: 0 },
+            providers: [smartDispatchProvider],
+            modelResponses,
+        });
+        await runtime.registerService(ReyaService);
+        try {
+            return await fn(runtime);
+        } finally {
+            await runtime.stop();
+        }
+    }
+
+    async withTempDir<T>(fn: (dir: string) => Promise<T>): Promise<T> {
+        const dir = await fs.mkdtemp(path.join(os.tmpdir(), "reya-test-"));
+        try {
+            return await fn(dir);
+        } finally {
+            await fs.rm(dir, { recursive: true, force: true });
+        }
+    }
+
+    // withRuntime plus a history recorder on a temp dir; the background
+    // sampler stays off so tests decide when samples are taken
+    async withHistory<T>(
+        modelResponses: Array<string | ScriptedModelResponse>,
+        fn: (runtime: MockRuntime, history: ReyaHistoryService) => Promise<T>
+    ): Promise<T> {
+        return this.withTempDir(dir => this.withRuntime(modelResponses, async runtime => {
+            runtime.setSetting("REYA_HISTORY_DIR", dir);
+            runtime.setSetting("REYA_HISTORY_SAMPLE_INTERVAL_SEC", 0);
+            await runtime.registerService(ReyaHistoryService);
+            return fn(runtime, getHistoryService(runtime.asRuntime)!);
+        }));
+    }
+
+    // withRuntime plus the alert service with its watcher off, so tests
+    // decide when alerts are checked
+    async withAlerts<T>(
+        modelResponses: Array<string | ScriptedModelResponse>,
+        fn: (runtime: MockRuntime, alerts: ReyaAlertService) => Promise<T>
+    ): Promise<T> {
+        return this.withRuntime(modelResponses, async runtime => {
+            runtime.setSetting("REYA_ALERT_CHECK_INTERVAL_SEC", 0);
+            await runtime.registerService(ReyaAlertService);
+            return fn(runtime, getAlertService(runtime.asRuntime)!);
+        });
+    }
+
+    // withRuntime plus the digest service for `rooms` with its scheduler
+    // off, so tests decide when digests are checked
+    async withDigest<T>(
+        rooms: object[],
+        fn: (runtime: MockRuntime, digest: ReyaDigestService) => Promise<T>
+    ): Promise<T> {
+        return this.withRuntime([], async runtime => {
+            runtime.setSetting("REYA_DIGEST_CHECK_INTERVAL_SEC", 0);
+            runtime.setSetting("REYA_DIGEST_ROOMS", JSON.stringify(rooms));
+            await runtime.registerService(ReyaDigestService);
+            return fn(runtime, getDigestService(runtime.asRuntime)!);
+        });
+    }
+
+    async runTest(name: string, testFn: () => Promise<any>): Promise<TestResult> {
+        const startTime = Date.now();
+        this.server.reset();
+        try {
+            const data = await testFn();
+            const duration = Date.now() - startTime;
+            return {
+                name,
+                passed: true,
+                duration,
+                data
+            };
+        } catch (error) {
+            const duration = Date.now() - startTime;
+            return {
+                name,
+                passed: false,
+                error: error instanceof Error ? error.message : String(error),
+                duration
+            };
+        }
+    }
+
+    printResults(): void {
+        console.log("\n" + "=".repeat(60));
+        console.log("🧪 REYA PLUGIN TEST RESULTS");
+        console.log("=".repeat(60));
+
+        const passedTests = this.results.filter(r => r.passed);
+        const failedTests = this.results.filter(r => !r.passed);
+
+        console.log(`\n✅ Passed: ${passedTests.length}`);
+        console.log(`❌ Failed: ${failedTests.length}`);
+        console.log(`⏱️  Total Duration: ${this.results.reduce((sum, r) => sum + r.duration, 0)}ms`);
+
+        if (failedTests.length > 0) {
+            console.log("\n❌ FAILED TESTS:");
+            failedTests.forEach(test => {
+                console.log(`   • ${test.name}: ${test.error} (${test.duration}ms)`);
+            });
+        }
+
+        if (passedTests.length > 0) {
+            console.log("\n✅ PASSED TESTS:");
+            passedTests.forEach(test => {
+                console.log(`   • ${test.name} (${test.duration}ms)`);
+            });
+        }
+
+        console.log("\n" + "=".repeat(60));
+
+        if (failedTests.length === 0) {
+            console.log("🎉 All tests passed! Plugin is ready for integration.");
+        } else {
+            console.log("⚠️  Some tests failed. See the failures above.");
+        }
+    }
+}
@@ -0,0 +1,121 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { API_ENDPOINTS } from "../constants/index.js";
+import { smartDispatchAction } from "../actions/smartDispatchAction.js";
+import { PriceHistoryStore } from "../services/historyStore.js";
+import { parseTimeWindow } from "../services/historyService.js";
+import { reyaPlugin } from "../index.js";
+import { getReyaConfig } from "../environment.js";
+import { priceFormat, type TestHarness } from "./harness.js";
+import { createMessage, runAction } from "./mockRuntime.js";
+import { marketsDataFixture, FIXTURE_TIMESTAMP, scriptedIntent, historySample } from "./fixtures.js";
+
+export async function testHistory(harness: TestHarness): Promise<void> {
+    console.log("\n🕰️ Testing Price History...");
+
+    const HOUR = 60 * 60 * 1000;
+
+    const storeResult = await harness.runTest("History Store Appends, Queries and Prunes", async () => {
+        return harness.withTempDir(async dir => {
+            const store = new PriceHistoryStore(dir);
+            const day = Date.parse("2026-10-10T12:00:00Z");
+            await store.append([historySample("3", day - 24 * HOUR, 140), historySample("3", day, 150), historySample("1", day, 3900)]);
+            await store.append([historySample("3", day + HOUR, 151)]);
+            // A line cut short by a crash
+            await fs.appendFile(path.join(dir, "3", "2026-10-10.jsonl"), "{\"timestamp\": 17");
+
+            const all = await store.query("3", day - 48 * HOUR, day + 2 * HOUR);
+            if (all.map(s => s.price).join(",") !== "140,150,151") throw new Error(`Unexpected samples ${all.map(s => s.price)}`);
+            const window = await store.query("3", day - HOUR, day + 2 * HOUR);
+            if (window.length !== 2) throw new Error(`Expected 2 samples in range, got ${window.length}`);
+            if (await store.earliestDay("3") !== Date.parse("2026-10-09T00:00:00Z")) throw new Error("Earliest day should be 2026-10-09");
+            if ((await store.query("9", 0, day)).length !== 0) throw new Error("Unknown markets have no history");
+
+            const removed = await store.prune(1, Date.parse("2026-10-11T06:00:00Z"));
+            if (removed !== 1) throw new Error(`Expected the 2026-10-09 file to be pruned, removed ${removed}`);
+            if ((await store.query("3", 0, day + 2 * HOUR)).length !== 2) throw new Error("Pruning should keep newer days");
+            return { samples: all.length };
+        });
+    });
+    harness.results.push(storeResult);
+
+    const samplerResult = await harness.runTest("History Recorder Samples Every Market", async () => {
+        return harness.withHistory([], async (_runtime, history) => {
+            const written = await history.sample(FIXTURE_TIMESTAMP);
+            if (written !== marketsDataFixture.length) throw new Error(`Expected one sample per market, wrote ${written}`);
+            if (harness.server.requestCount(API_ENDPOINTS.MARKET_DATA("3")) !== 0) throw new Error("Sampling should use batch endpoints only");
+
+            const [sol] = await history.query("3", FIXTURE_TIMESTAMP - 1, FIXTURE_TIMESTAMP + 1);
+            if (sol?.price !== 148.37 || sol.data?.fundingRate !== -0.000018) throw new Error(`Unexpected SOL sample ${JSON.stringify(sol)}`);
+            return { written };
+        });
+    });
+    harness.results.push(samplerResult);
+
+    const windowResult = await harness.runTest("Parse Time Windows", async () => {
+        const cases: Array<[string, string | null]> = [
+            ["how did SOL move over the last 6 hours", "6h"], ["BTC за 3 дня", "3d"], ["eth 15m", "15m"],
+            ["за последние 12 часов", "12h"], ["last hour", "1h"], ["this week", "7d"], ["24h", "24h"],
+            ["SOL today", "24h"], ["how did SOL move", null],
+        ];
+        for (const [text, expected] of cases) {
+            const window = parseTimeWindow(text);
+            if ((window?.label ?? null) !== expected) throw new Error(`parseTimeWindow("${text}") = ${window?.label}, expected ${expected}`);
+        }
+        return { cases: cases.length };
+    });
+    harness.results.push(windowResult);
+
+    const historical = scriptedIntent("HISTORICAL_DATA_QUERY", ["SOL"]);
+
+    const queryResult = await harness.runTest("Historical Query From Local History", async () => {
+        // Once for the provider, once for the dispatcher
+        return harness.withHistory([historical, historical], async (runtime, history) => {
+            const now = Date.now();
+            await history.store.append([
+                historySample("3", now - 7 * HOUR, 100),
+                historySample("3", now - 5 * HOUR, 145),
+                historySample("3", now - 3 * HOUR, 151),
+                historySample("3", now - HOUR, 146),
+                historySample("3", now - 1000, 148.37),
+            ]);
+
+            const run = await runAction(runtime, smartDispatchAction, createMessage("how did SOL move over the last 6 hours on Reya?"));
+            const text = run.callbacks[0]?.text ?? "";
+            if (run.result?.data?.source !== "local_history") throw new Error(`Dispatcher should answer from history: ${run.result?.data?.source}`);
+            if (!text.startsWith("**SOL-rUSD over the last 6h** (4 samples recorded locally)")) throw new Error(`Unexpected title: ${text}`);
+            if (!text.includes(`$${priceFormat(145)} → $${priceFormat(148.37)} (+2.32%)`)) throw new Error(`Unexpected change line: ${text}`);
+            if (!text.includes(`$${priceFormat(145)} – $${priceFormat(151)}`)) throw new Error(`Unexpected range: ${text}`);
+            if (!text.includes("Recording only covers the last 5h")) throw new Error(`Partial coverage should be mentioned: ${text}`);
+            return { text };
+        });
+    });
+    harness.results.push(queryResult);
+
+    const emptyResult = await harness.runTest("Historical Query Without Samples", async () => {
+        return harness.withHistory([historical, historical], async runtime => {
+            const run = await runAction(runtime, smartDispatchAction, createMessage("SOL price history on Reya this week"));
+            const text = run.callbacks[0]?.text ?? "";
+            if (!text.startsWith("I don't have recorded history for **SOL-rUSD** in the last 7d yet")) throw new Error(`Unexpected reply: ${text}`);
+            return { text };
+        });
+    });
+    harness.results.push(emptyResult);
+
+    const settingsResult = await harness.runTest("Plugin Init Validates History Settings", async () => {
+        return harness.withRuntime([], async runtime => {
+            if (getReyaConfig(runtime.asRuntime).REYA_HISTORY_ENABLED) throw new Error("History recording should be opt-in");
+            await reyaPlugin.init!({}, runtime.asRuntime);
+
+            runtime.setSetting("REYA_HISTORY_RETENTION_DAYS", 0);
+            try {
+                await reyaPlugin.init!({}, runtime.asRuntime);
+            } catch (error) {
+                if (!String(error).includes("REYA_HISTORY_RETENTION_DAYS")) throw error;
+                return { rejected: String(error) };
+            }
+            throw new Error("A zero retention period should be rejected at init");
+        });
+    });
+    harness.results.push(settingsResult);
+}
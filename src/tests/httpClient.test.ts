@@ -0,0 +1,100 @@
+import { API_ENDPOINTS } from "../constants/index.js";
+import { ReyaApiError, ReyaTimeoutError, ReyaInvalidResponseError } from "../services/httpClient.js";
+import type { TestHarness } from "./harness.js";
+import { marketsFixture } from "./fixtures.js";
+
+export async function testHttpClient(harness: TestHarness): Promise<void> {
+    console.log("\n🔁 Testing HTTP Client...");
+
+    // 404 is not retryable and should surface as a typed error
+    const notFoundResult = await harness.runTest("HTTP Client 404 Error", async () => {
+        try {
+            await harness.createClient().get("/api/trading/this-endpoint-does-not-exist");
+        } catch (error) {
+            if (!(error instanceof ReyaApiError)) throw new Error(`Expected ReyaApiError, got ${error}`);
+            if (error.status !== 404) throw new Error(`Expected status 404, got ${error.status}`);
+            if (harness.server.requestCount() !== 1) throw new Error("404 should not be retried");
+            return { status: error.status };
+        }
+        throw new Error("Request to missing endpoint should fail");
+    });
+    harness.results.push(notFoundResult);
+
+    const retryResult = await harness.runTest("HTTP Client Retries 5xx", async () => {
+        harness.server.setMode(API_ENDPOINTS.MARKETS, { kind: "error", status: 503, times: 2 });
+        const markets = await harness.createClient().get<unknown[]>(API_ENDPOINTS.MARKETS);
+        if (markets.length !== marketsFixture.length) throw new Error("Expected markets after retries");
+        if (harness.server.requestCount() !== 3) throw new Error(`Expected 3 attempts, got ${harness.server.requestCount()}`);
+        return { attempts: harness.server.requestCount() };
+    });
+    harness.results.push(retryResult);
+
+    const exhaustedResult = await harness.runTest("HTTP Client Gives Up After Max Retries", async () => {
+        harness.server.setMode("*", { kind: "error", status: 500 });
+        try {
+            await harness.createClient({ maxRetries: 2 }).get(API_ENDPOINTS.ASSETS);
+        } catch (error) {
+            if (!(error instanceof ReyaApiError) || error.status !== 500) throw new Error(`Expected ReyaApiError 500, got ${error}`);
+            if (harness.server.requestCount() !== 3) throw new Error(`Expected 3 attempts, got ${harness.server.requestCount()}`);
+            return { attempts: harness.server.requestCount() };
+        }
+        throw new Error("Persistent 500 should fail");
+    });
+    harness.results.push(exhaustedResult);
+
+    const rateLimitResult = await harness.runTest("HTTP Client Honours Retry-After", async () => {
+        harness.server.setMode(API_ENDPOINTS.PRICES, { kind: "error", status: 429, times: 1, retryAfter: "0" });
+        await harness.createClient().get(API_ENDPOINTS.PRICES);
+        if (harness.server.requestCount() !== 2) throw new Error(`Expected 2 attempts, got ${harness.server.requestCount()}`);
+        return { attempts: harness.server.requestCount() };
+    });
+    harness.results.push(rateLimitResult);
+
+    const timeoutResult = await harness.runTest("HTTP Client Timeout", async () => {
+        harness.server.setMode(API_ENDPOINTS.MARKETS, { kind: "latency", delayMs: 200 });
+        try {
+            await harness.createClient({ timeoutMs: 50, maxRetries: 0 }).get(API_ENDPOINTS.MARKETS);
+        } catch (error) {
+            if (!(error instanceof ReyaTimeoutError)) throw new Error(`Expected ReyaTimeoutError, got ${error}`);
+            return { timeoutMs: error.timeoutMs };
+        }
+        throw new Error("Request slower than the timeout should fail");
+    });
+    harness.results.push(timeoutResult);
+
+    const stallResult = await harness.runTest("HTTP Client Times Out a Stalled Body", async () => {
+        // Headers arrive at once; the body only finishes long after the timeout
+        harness.server.setMode(API_ENDPOINTS.MARKETS, { kind: "stall", delayMs: 1000 });
+        const started = Date.now();
+        try {
+            await harness.createClient({ timeoutMs: 50, maxRetries: 1, retryBaseDelayMs: 10 }).get(API_ENDPOINTS.MARKETS);
+        } catch (error) {
+            if (!(error instanceof ReyaTimeoutError)) throw new Error(`Expected ReyaTimeoutError, got ${error}`);
+            if (Date.now() - started > 800) throw new Error("The timeout should cut the body read short");
+            if (harness.server.requestCount(API_ENDPOINTS.MARKETS) !== 2) throw new Error("A stalled body should be retried");
+            return { elapsedMs: Date.now() - started };
+        }
+        throw new Error("A body stalled past the timeout should fail");
+    });
+    harness.results.push(stallResult);
+
+    const slowResult = await harness.runTest("HTTP Client Tolerates Latency", async () => {
+        harness.server.setMode(API_ENDPOINTS.MARKETS, { kind: "latency", delayMs: 50 });
+        const markets = await harness.createClient({ timeoutMs: 500 }).get<unknown[]>(API_ENDPOINTS.MARKETS);
+        if (markets.length !== marketsFixture.length) throw new Error("Expected markets after delay");
+        return { count: markets.length };
+    });
+    harness.results.push(slowResult);
+
+    const malformedResult = await harness.runTest("HTTP Client Malformed JSON", async () => {
+        harness.server.setMode(API_ENDPOINTS.MARKETS, { kind: "malformed" });
+        try {
+            await harness.createClient().get(API_ENDPOINTS.MARKETS);
+        } catch (error) {
+            if (!(error instanceof ReyaInvalidResponseError)) throw new Error(`Expected ReyaInvalidResponseError, got ${error}`);
+            return { message: error.message };
+        }
+        throw new Error("Invalid JSON should fail");
+    });
+    harness.results.push(malformedResult);
+}
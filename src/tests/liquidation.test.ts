@@ -0,0 +1,84 @@
+import { parseEntryPrice } from "../services/position.js";
+import {
+    liquidationPrice,
+    maintenanceMarginRatio,
+    estimateLiquidation,
+    leverageLadder,
+    formatLiquidation,
+} from "../services/liquidation.js";
+import { calculateLiquidationAction } from "../actions/liquidationAction.js";
+import { priceFormat, type TestHarness } from "./harness.js";
+import { createMessage, runAction } from "./mockRuntime.js";
+import { marketsFixture, scriptedIntent } from "./fixtures.js";
+
+export async function testLiquidation(harness: TestHarness): Promise<void> {
+    console.log("\n🧮 Testing Liquidation Estimates...");
+
+    const eth = marketsFixture.find(m => m.ticker === "ETH-rUSD")!;
+    const sol = marketsFixture.find(m => m.ticker === "SOL-rUSD")!;
+    const close = (a: number, b: number) => Math.abs(a - b) < 0.005;
+
+    const estimateResult = await harness.runTest("Estimate Liquidation Price and Margin", async () => {
+        const entries: Array<[string, number | null]> = [
+            ["long 5 eth at 3800", 3800],
+            ["entry price of $3,800.5", 3800.5],
+            ["шорт SOL, вход 150", 150],
+            ["long ETH at 10x", null],
+            ["if I longed 2 BTC at 60k", 60_000],
+        ];
+        for (const [text, expected] of entries) {
+            if ((parseEntryPrice(text)?.price ?? null) !== expected) throw new Error(`parseEntryPrice("${text}") = ${JSON.stringify(parseEntryPrice(text))}`);
+        }
+
+        // Half the initial margin at the max: 1/(2 × 25) = 2% on ETH, 1/(2 × 20) = 2.5% on SOL
+        if (!close(maintenanceMarginRatio(25), 0.02) || !close(maintenanceMarginRatio(20), 0.025)) throw new Error("Unexpected maintenance margin ratios");
+        // 4000 × (1 − 1/10) / 0.98 = 3673.47 and 4000 × (1 + 1/10) / 1.02 = 4313.73
+        if (!close(liquidationPrice(4000, 10, "long", 0.02), 3673.47) || !close(liquidationPrice(4000, 10, "short", 0.02), 4313.73)) throw new Error("Unexpected ETH liquidation prices");
+        // 150 × (1 − 1/5) / 0.975 = 123.08 and 150 × (1 + 1/5) / 1.025 = 175.61
+        if (!close(liquidationPrice(150, 5, "long", 0.025), 123.08) || !close(liquidationPrice(150, 5, "short", 0.025), 175.61)) throw new Error("Unexpected SOL liquidation prices");
+        if (liquidationPrice(4000, 1, "long", 0.02) !== 0) throw new Error("An unlevered long can't be liquidated above zero");
+
+        // 5 ETH at $4,000 = $20,000: $2,000 initial margin at 10x, $400 maintenance at 2%
+        const estimate = estimateLiquidation({ market: eth, entryPrice: 4000, entryIsMark: false, side: "long", leverage: 10, notional: 20_000 });
+        if (!close(estimate.initialMargin!, 2000) || !close(estimate.maintenanceMargin!, 400) || !close(estimate.distancePercent, 8.16)) throw new Error(`Unexpected estimate: ${JSON.stringify(estimate)}`);
+
+        const ladder = leverageLadder(7, 25);
+        if (ladder.join(",") !== "1,2,3,5,7,10,15,20,25") throw new Error(`Unexpected ladder: ${ladder}`);
+        if (leverageLadder(4, sol.maxLeverage).includes(25)) throw new Error("The ladder should stop at the market's max");
+
+        const text = formatLiquidation(estimate, priceFormat);
+        if (!text.startsWith(`**Liquidation estimate: 10x long 5 ETH on ETH-rUSD**\nEntry: $${priceFormat(4000)}\nLiquidation price: **$${priceFormat(3673.47)}**, 8.16% below entry`)) throw new Error(`Unexpected header: ${text}`);
+        if (!text.includes("Initial margin: $2,000.00 (1/10 of the size)") || !text.includes("Maintenance margin: $400.00 (2.00% of the size)")) throw new Error(`Unexpected margin: ${text}`);
+        const rows = text.split("\n").filter(line => line.startsWith("| "));
+        if (rows.length !== 10 || !rows[6].includes("**10x**") || !rows[9].includes("25x")) throw new Error(`Expected a row per ladder step, 10x in bold: ${text}`);
+        return { text };
+    });
+    harness.results.push(estimateResult);
+
+    const actionResult = await harness.runTest("Liquidation Action Checks Leverage Against the Market", async () => {
+        return harness.withRuntime([
+            scriptedIntent("MARKET_QUERY"),
+            { match: "liquidation parameters", response: "<response><symbol>ETH</symbol><entry>4000</entry><base>5</base><size></size><side>short</side><leverage>10</leverage></response>" },
+        ], async runtime => {
+            const ethShort = await runAction(runtime, calculateLiquidationAction, createMessage("liquidation price for a 10x short 5 ETH at 4000?"));
+            if (!ethShort.validated) throw new Error("CALCULATE_REYA_LIQUIDATION should validate for a liquidation question");
+            const ethText = ethShort.callbacks[0]?.text ?? "";
+            if (!ethText.includes(`Liquidation price: **$${priceFormat(4313.73)}**, 7.84% above entry`) || !ethText.includes("Initial margin: $2,000.00")) throw new Error(`Unexpected reply: ${ethText}`);
+            if (!ethText.includes("Assumptions: an isolated position") || !ethText.includes("half the initial margin at ETH-rUSD's 25x max, 2.00% of the size")) throw new Error(`Should state the margin assumptions: ${ethText}`);
+
+            // No scripted intent or extraction: the entry defaults to the mark, 148.37 × 1.05 / 1.025 = 151.9888
+            const solShort = await runAction(runtime, calculateLiquidationAction, createMessage("where does a 20x SOL short get liquidated?"));
+            if (!solShort.validated) throw new Error("The fallback intent should route liquidation questions even though they say \"price\"");
+            const solText = solShort.callbacks[0]?.text ?? "";
+            if (!solText.includes(`Entry: $${priceFormat(148.37)} (the mark price now)`) || !solText.includes("**$151.9888**")) throw new Error(`Unexpected reply: ${solText}`);
+            if (!solText.includes("Give a size")) throw new Error(`Should ask for a size to show the margin: ${solText}`);
+
+            const tooMuch = await runAction(runtime, calculateLiquidationAction, createMessage("liquidation price for a 40x long ETH"));
+            const tooMuchText = tooMuch.callbacks[0]?.text ?? "";
+            if (!tooMuchText.startsWith("❌ **ETH-rUSD** allows at most 25x") || tooMuch.result?.data?.estimate !== null) throw new Error(`Should reject leverage above the maximum: ${tooMuchText}`);
+            if (runtime.pendingModelResponses !== 0) throw new Error("Every scripted model response should be used");
+            return { ethText, solText };
+        });
+    });
+    harness.results.push(actionResult);
+}
@@ -0,0 +1,38 @@
+import NodeCache from "node-cache";
+import { ReyaPriceService } from "../providers/priceProvider.js";
+import { compareMarkets } from "../services/marketComparison.js";
+import type { TestHarness } from "./harness.js";
+import { marketsFixture, marketsDataFixture, pricesFixture } from "./fixtures.js";
+
+export async function testMarketComparison(harness: TestHarness): Promise<void> {
+    console.log("\n⚖️ Testing Market Comparison...");
+
+    const highlightResult = await harness.runTest("Compare Markets Side By Side", async () => {
+        const priceService = new ReyaPriceService(harness.server.baseUrl, harness.createClient(), new NodeCache());
+        const entries = ["2", "1", "3"].map(id => ({
+            market: marketsFixture.find(m => m.id === id)!,
+            price: Object.values(pricesFixture).find(p => p.marketId === parseInt(id)) ?? null,
+            data: marketsDataFixture.find(md => md.marketId === id) ?? null,
+        }));
+        const { table, highlights } = compareMarkets(entries, priceService);
+
+        const header = table.split("\n")[0];
+        if (!/BTC-rUSD .*ETH-rUSD .*SOL-rUSD/.test(header)) throw new Error(`One column per market expected: ${header}`);
+        const expected = [
+            "📈 SOL-rUSD outperformed BTC-rUSD over 24h (+4.30% vs -1.26%)",
+            "💰 BTC-rUSD traded 4.1x the 24h volume of SOL-rUSD",
+            "🔀 Funding points opposite ways: longs pay on BTC-rUSD, ETH-rUSD, shorts pay on SOL-rUSD",
+            "🐂 BTC-rUSD is long-crowded (62% of OI long)",
+            "🐻 SOL-rUSD is short-crowded (56% of OI short)",
+            "🎯 Max leverage ranges from 20x on SOL-rUSD to 25x on BTC-rUSD",
+        ];
+        for (const line of expected) {
+            if (!highlights.includes(line)) throw new Error(`Missing highlight "${line}" in ${JSON.stringify(highlights)}`);
+        }
+
+        const partial = compareMarkets([entries[0], { ...entries[1], data: null }], priceService);
+        if (!partial.highlights.includes("⚠️ Live market data unavailable for ETH-rUSD")) throw new Error("Missing market data should be called out");
+        return { highlights: highlights.length };
+    });
+    harness.results.push(highlightResult);
+}
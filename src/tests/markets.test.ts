@@ -0,0 +1,46 @@
+import NodeCache from "node-cache";
+import { ReyaMarketService } from "../providers/marketProvider.js";
+import type { TestHarness } from "./harness.js";
+import { marketsFixture, FIXTURE_TIMESTAMP } from "./fixtures.js";
+
+export async function testMarketService(harness: TestHarness): Promise<void> {
+    console.log("\n🏪 Testing Market Service...");
+
+    const marketService = new ReyaMarketService(harness.server.baseUrl, harness.createClient(), new NodeCache());
+
+    // Test getMarkets
+    const marketsResult = await harness.runTest("Get Markets", async () => {
+        const markets = await marketService.getMarkets();
+        if (markets.length !== marketsFixture.length) throw new Error(`Expected ${marketsFixture.length} markets, got ${markets.length}`);
+        if (markets[0].ticker !== "ETH-rUSD") throw new Error(`Unexpected first market ${markets[0].ticker}`);
+        return { count: markets.length };
+    });
+    harness.results.push(marketsResult);
+
+    // Second call within the TTL must be served from cache
+    const cacheResult = await harness.runTest("Markets Served From Cache", async () => {
+        await marketService.getMarkets();
+        await marketService.getMarketByTicker("BTC-rUSD");
+        if (harness.server.requestCount() !== 0) throw new Error(`Expected no requests, got ${harness.server.requestCount()}`);
+        return { requests: harness.server.requestCount() };
+    });
+    harness.results.push(cacheResult);
+
+    // Test getMarketData
+    const marketDataResult = await harness.runTest("Get Market Data", async () => {
+        const marketData = await marketService.getMarketData("3");
+        if (marketData.fundingRate !== -0.000018) throw new Error(`Unexpected funding rate ${marketData.fundingRate}`);
+        if (marketData.updatedAt !== FIXTURE_TIMESTAMP) throw new Error("Unexpected updatedAt");
+        return marketData;
+    });
+    harness.results.push(marketDataResult);
+
+    // Test getTopMarketsByVolume
+    const topMarketsResult = await harness.runTest("Get Top Markets by Volume", async () => {
+        const topMarkets = await marketService.getTopMarketsByVolume(3);
+        const ids = topMarkets.map(m => m.marketId).join(",");
+        if (ids !== "2,1,3") throw new Error(`Expected markets 2,1,3 by volume, got ${ids}`);
+        return { ids };
+    });
+    harness.results.push(topMarketsResult);
+}
@@ -0,0 +1,212 @@
+import { randomUUID } from "node:crypto";
+import type {
+    Action,
+    ActionResult,
+    Content,
+    IAgentRuntime,
+    Memory,
+    Provider,
+    Service,
+    State,
+    TargetInfo,
+    UUID,
+} from "@elizaos/core";
+
+/**
+ * A canned LLM reply. When `match` is set the reply is only used for prompts
+ * containing that text (or matching that pattern); otherwise it answers the
+ * next prompt whatever it is. Each reply is used once.
+ */
+export interface ScriptedModelResponse {
+    match?: string | RegExp;
+    response: string;
+}
+
+export interface MockRuntimeOptions {
+    settings?: Record<string, string | number | boolean>;
+    providers?: Provider[];
+    actions?: Action[];
+    modelResponses?: Array<string | ScriptedModelResponse>;
+}
+
+export interface ModelCall {
+    modelType: string;
+    prompt: string;
+    response: string | null;
+}
+
+/**
+ * Just enough of IAgentRuntime to run this plugin's providers and actions
+ * outside an agent: settings, scripted useModel, composeState over the given
+ * providers, an in-memory cache and a service registry.
+ */
+export class MockRuntime {
+    readonly agentId = randomUUID() as UUID;
+    readonly character = { name: "Aira", bio: [] as string[] };
+    readonly settings: Record<string, string | number | boolean>;
+    readonly providers: Provider[];
+    readonly actions: Action[];
+    readonly modelCalls: ModelCall[] = [];
+    private modelResponses: ScriptedModelResponse[];
+    private services = new Map<string, Service>();
+    readonly cache = new Map<string, unknown>();
+    // What services posted on their own: through send handlers, or saved to a room
+    readonly sentMessages: Array<{ target: TargetInfo; content: Content }> = [];
+    readonly memories: Array<{ memory: Memory; tableName: string }> = [];
+    private sendHandlers = new Set<string>();
+
+    constructor(options: MockRuntimeOptions = {}) {
+        this.settings = { ...(options.settings ?? {}) };
+        this.providers = [...(options.providers ?? [])];
+        this.actions = [...(options.actions ?? [])];
+        this.modelResponses = (options.modelResponses ?? []).map(r =>
+            typeof r === "string" ? { response: r } : r
+        );
+    }
+
+    get asRuntime(): IAgentRuntime {
+        return this as unknown as IAgentRuntime;
+    }
+
+    scriptModel(...responses: Array<string | ScriptedModelResponse>): void {
+        this.modelResponses.push(...responses.map(r => typeof r === "string" ? { response: r } : r));
+    }
+
+    /** Scripted replies that were never asked for; a finished test should leave none. */
+    get pendingModelResponses(): number {
+        return this.modelResponses.length;
+    }
+
+    getSetting(key: string): string | number | boolean | null {
+        return this.settings[key] ?? null;
+    }
+
+    setSetting(key: string, value: string | number | boolean): void {
+        this.settings[key] = value;
+    }
+
+    // Throws like a failing model provider when nothing is scripted, which
+    // exercises the plugin's fallback paths.
+    async useModel(modelType: string, params: { prompt?: string }): Promise<string> {
+        const prompt = params?.prompt ?? "";
+        const index = this.modelResponses.findIndex(({ match }) =>
+            match === undefined ||
+            (typeof match === "string" ? prompt.includes(match) : match.test(prompt))
+        );
+
+        if (index === -1) {
+            this.modelCalls.push({ modelType, prompt, response: null });
+            throw new Error(`No scripted ${modelType} response for prompt: ${prompt.trim().slice(0, 80)}...`);
+        }
+
+        const [{ response }] = this.modelResponses.splice(index, 1);
+        this.modelCalls.push({ modelType, prompt, response });
+        return response;
+    }
+
+    // Mirrors AgentRuntime.composeState: providers run in `position` order and
+    // their values/data are merged into one state.
+    async composeState(message: Memory): Promise<State> {
+        const state: State = { values: {}, data: { providers: {} }, text: "" };
+        const texts: string[] = [];
+        const ordered = [...this.providers].sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
+
+        for (const provider of ordered) {
+            const result = await provider.get(this.asRuntime, message, state);
+            Object.assign(state.values, result?.values ?? {});
+            state.data.providers[provider.name] = result?.data ?? {};
+            if (result?.text) {
+                texts.push(result.text);
+            }
+        }
+
+        state.text = texts.join("\n\n");
+        return state;
+    }
+
+    async getCache<T>(key: string): Promise<T | undefined> {
+        return this.cache.get(key) as T | undefined;
+    }
+
+    async setCache<T>(key: string, value: T): Promise<boolean> {
+        // Round-trip through JSON like the database-backed cache does
+        this.cache.set(key, JSON.parse(JSON.stringify(value)));
+        return true;
+    }
+
+    async deleteCache(key: string): Promise<boolean> {
+        return this.cache.delete(key);
+    }
+
+    // Pretends a client for `source` is connected; other sources have no send handler
+    registerSendHandler(source: string): void {
+        this.sendHandlers.add(source);
+    }
+
+    async sendMessageToTarget(target: TargetInfo, content: Content): Promise<void> {
+        if (!this.sendHandlers.has(target.source)) {
+            throw new Error(`No send handler registered for source: ${target.source}`);
+        }
+        this.sentMessages.push({ target, content });
+    }
+
+    async createMemory(memory: Memory, tableName: string): Promise<UUID> {
+        this.memories.push({ memory, tableName });
+        return memory.id ?? (randomUUID() as UUID);
+    }
+
+    getService<T extends Service>(serviceType: string): T | null {
+        return (this.services.get(serviceType) as T) ?? null;
+    }
+
+    async registerService(serviceClass: { serviceType: string; start(runtime: IAgentRuntime): Promise<Service> }): Promise<void> {
+        this.services.set(serviceClass.serviceType, await serviceClass.start(this.asRuntime));
+    }
+
+    async stop(): Promise<void> {
+        for (const service of this.services.values()) {
+            await service.stop();
+        }
+        this.services.clear();
+    }
+}
+
+export function createMessage(text: string, overrides: Partial<Memory> = {}): Memory {
+    return {
+        id: randomUUID() as UUID,
+        entityId: randomUUID() as UUID,
+        roomId: randomUUID() as UUID,
+        createdAt: Date.now(),
+        ...overrides,
+        content: { text, source: "test", ...(overrides.content ?? {}) },
+    };
+}
+
+export interface ActionRun {
+    state: State;
+    validated: boolean;
+    result: ActionResult | null;
+    callbacks: Content[];
+}
+
+/**
+ * Drives one message the way the agent loop does: compose state from the
+ * providers, validate the action against it, then run its handler.
+ * The handler is skipped when validation fails.
+ */
+export async function runAction(runtime: MockRuntime, action: Action, message: Memory): Promise<ActionRun> {
+    const state = await runtime.composeState(message);
+    const validated = await action.validate(runtime.asRuntime, message, state);
+    const callbacks: Content[] = [];
+
+    if (!validated) {
+        return { state, validated, result: null, callbacks };
+    }
+
+    const result = await action.handler(runtime.asRuntime, message, state, {}, async (content: Content) => {
+        callbacks.push(content);
+        return [];
+    });
+
+    return { state, validated, result: (result as ActionResult) ?? null, callbacks };
+}
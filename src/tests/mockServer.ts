@@ -0,0 +1,167 @@
+#!/usr/bin/env node
+
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+
+import { API_ENDPOINTS } from "../constants/index.js";
+import {
+    marketsFixture,
+    marketsDataFixture,
+    pricesFixture,
+    assetsFixture,
+    feeTierParametersFixture,
+    globalFeeParametersFixture,
+} from "./fixtures.js";
+
+/**
+ * How the mock answers a path:
+ * - ok: serve the fixture
+ * - error: answer `status` for the next `times` requests (all of them if omitted)
+ * - latency: serve the fixture after `delayMs`
+ * - malformed: serve `payload` as JSON, or a body that is not JSON at all
+ * - stall: send the headers and half the fixture, then the rest after `delayMs`
+ */
+export type MockMode =
+    | { kind: "ok" }
+    | { kind: "error"; status: number; times?: number; retryAfter?: string }
+    | { kind: "latency"; delayMs: number }
+    | { kind: "malformed"; payload?: unknown }
+    | { kind: "stall"; delayMs: number };
+
+/**
+ * Local stand-in for https://api.reya.xyz serving the fixtures in
+ * ./fixtures.ts for every endpoint in API_ENDPOINTS.
+ */
+export class MockReyaServer {
+    private server: http.Server | null = null;
+    private modes = new Map<string, MockMode>();
+    readonly requests: string[] = [];
+    baseUrl = "";
+
+    async start(port: number = 0): Promise<string> {
+        this.server = http.createServer((req, res) => {
+            void this.handle(req, res);
+        });
+
+        await new Promise<void>(resolve => this.server!.listen(port, "127.0.0.1", resolve));
+        const address = this.server.address() as AddressInfo;
+        this.baseUrl = `http://127.0.0.1:${address.port}`;
+        return this.baseUrl;
+    }
+
+    async stop(): Promise<void> {
+        if (!this.server) {
+            return;
+        }
+        this.server.closeAllConnections();
+        await new Promise<void>(resolve => this.server!.close(() => resolve()));
+        this.server = null;
+    }
+
+    /**
+     * Sets the mode for one path, or for every path with "*".
+     */
+    setMode(path: string, mode: MockMode): void {
+        this.modes.set(path, mode);
+    }
+
+    reset(): void {
+        this.modes.clear();
+        this.requests.length = 0;
+    }
+
+    requestCount(path?: string): number {
+        return path ? this.requests.filter(p => p === path).length : this.requests.length;
+    }
+
+    private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const path = new URL(req.url || "/", "http://localhost").pathname;
+        this.requests.push(path);
+
+        const mode = this.modes.get(path) ?? this.modes.get("*") ?? { kind: "ok" };
+
+        if (mode.kind === "error" && (mode.times === undefined || mode.times > 0)) {
+            if (mode.times !== undefined) {
+                mode.times--;
+            }
+            const headers: http.OutgoingHttpHeaders = { "Content-Type": "application/json" };
+            if (mode.retryAfter !== undefined) {
+                headers["Retry-After"] = mode.retryAfter;
+            }
+            res.writeHead(mode.status, headers);
+            res.end(JSON.stringify({ error: `Mock error ${mode.status}` }));
+            return;
+        }
+
+        if (mode.kind === "latency") {
+            await new Promise(resolve => setTimeout(resolve, mode.delayMs));
+        }
+
+        if (mode.kind === "malformed") {
+            res.writeHead(200, { "Content-Type": "application/json" });
+            res.end(mode.payload === undefined ? "{\"markets\": [" : JSON.stringify(mode.payload));
+            return;
+        }
+
+        const body = this.route(path);
+        if (body === undefined) {
+            res.writeHead(404, { "Content-Type": "application/json" });
+            res.end(JSON.stringify({ error: "Not found" }));
+            return;
+        }
+
+        if (res.destroyed) {
+            return;
+        }
+        res.writeHead(200, { "Content-Type": "application/json" });
+        const json = JSON.stringify(body);
+        if (mode.kind === "stall") {
+            res.write(json.slice(0, json.length / 2));
+            await new Promise(resolve => setTimeout(resolve, mode.delayMs));
+            if (res.destroyed) {
+                return;
+            }
+            res.end(json.slice(json.length / 2));
+            return;
+        }
+        res.end(json);
+    }
+
+    private route(path: string): unknown {
+        switch (path) {
+            case API_ENDPOINTS.MARKETS:
+                return marketsFixture;
+            case API_ENDPOINTS.MARKETS_DATA:
+                return marketsDataFixture;
+            case API_ENDPOINTS.ASSETS:
+                return assetsFixture;
+            case API_ENDPOINTS.PRICES:
+                return pricesFixture;
+            case API_ENDPOINTS.FEE_TIER_PARAMETERS:
+                return feeTierParametersFixture;
+            case API_ENDPOINTS.GLOBAL_FEE_PARAMETERS:
+                return globalFeeParametersFixture;
+        }
+
+        const marketDataMatch = path.match(/^\/api\/trading\/market\/([^/]+)\/data$/);
+        if (marketDataMatch) {
+            return marketsDataFixture.find(md => md.marketId === decodeURIComponent(marketDataMatch[1]));
+        }
+
+        const priceMatch = path.match(/^\/api\/trading\/prices\/([^/]+)$/);
+        if (priceMatch) {
+            const assetPairId = decodeURIComponent(priceMatch[1]);
+            return pricesFixture[assetPairId] ? { ...pricesFixture[assetPairId], assetPairId } : undefined;
+        }
+
+        return undefined;
+    }
+}
+
+// Run standalone to point an agent at offline data:
+//   REYA_API_BASE_URL=http://127.0.0.1:4010 after `npm run mock:api`
+if (import.meta.url === `file://${process.argv[1]}`) {
+    const server = new MockReyaServer();
+    const baseUrl = await server.start(Number(process.env.REYA_MOCK_PORT) || 4010);
+    console.log(`🧪 Mock Reya API listening on ${baseUrl}`);
+}
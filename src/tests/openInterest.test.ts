@@ -0,0 +1,79 @@
+import { API_ENDPOINTS } from "../constants/index.js";
+import type { ReyaProviderResponse } from "../types/index.js";
+import { buildOpenInterestReport, formatOpenInterestReport, toOpenInterestSnapshot } from "../services/openInterest.js";
+import { getOpenInterestAction } from "../actions/openInterestAction.js";
+import { reyaOpenInterestProvider } from "../providers/openInterestProvider.js";
+import { getReyaService } from "../services/reyaService.js";
+import type { TestHarness } from "./harness.js";
+import { createMessage, runAction } from "./mockRuntime.js";
+import { marketsFixture, marketsDataFixture, pricesFixture } from "./fixtures.js";
+
+export async function testOpenInterest(harness: TestHarness): Promise<void> {
+    console.log("\n📊 Testing Open Interest Report...");
+
+    const prices = Object.values(pricesFixture);
+    const t0 = Date.parse("2026-10-18T10:00:00Z");
+
+    const reportResult = await harness.runTest("Build Open Interest Report", async () => {
+        const first = buildOpenInterestReport(marketsFixture, marketsDataFixture, prices, null, t0);
+        // 2661 ETH × 3985.42 + 160 BTC × 64250.5 + 49300 SOL × 148.37 + 6100 JITOSOL × 178.12 + 143000 HYPE × 38.214
+        if (Math.abs(first.totalNotional - 34751057.62) > 0.01) throw new Error(`Unexpected total: ${first.totalNotional}`);
+        if (first.entries.map(e => e.ticker).join(",") !== "ETH-rUSD,BTC-rUSD,SOL-rUSD,HYPE-rUSD,JITOSOL-rUSD,DOGE-rUSD") throw new Error("Markets should be ordered by notional");
+        if (Math.abs(first.entries[0].share - 30.517) > 0.001) throw new Error(`Unexpected ETH share: ${first.entries[0].share}`);
+        if (first.longCrowded.map(e => e.ticker).join(",") !== "HYPE-rUSD,BTC-rUSD,ETH-rUSD") throw new Error(`Unexpected long side: ${first.longCrowded.map(e => e.ticker)}`);
+        if (first.shortCrowded.map(e => e.ticker).join(",") !== "SOL-rUSD") throw new Error("DOGE has no OI and JITOSOL leans long; only SOL leans short");
+        if (first.previous !== null || first.entries.some(e => e.change)) throw new Error("A first report has nothing to compare with");
+
+        const firstText = formatOpenInterestReport(first);
+        if (!firstText.startsWith("**Reya open interest**: $34.75M across 6 markets\n")) throw new Error(`Unexpected header: ${firstText}`);
+        if (!firstText.includes("🐂 Most long-heavy: HYPE-rUSD 63.6% long (crowded), BTC-rUSD 61.5% long (crowded), ETH-rUSD 54.5% long") || !firstText.includes("🐻 Most short-heavy: SOL-rUSD 56.4% short (crowded)")) throw new Error(`Unexpected crowded lines: ${firstText}`);
+
+        // An hour later ETH OI is up 10% and SOL shorts have piled in
+        const later = marketsDataFixture.map(d =>
+            d.marketId === "1" ? { ...d, openInterest: 2927.1 }
+                : d.marketId === "3" ? { ...d, longSkewPercentage: 35, shortSkewPercentage: 65 }
+                    : d);
+        const second = buildOpenInterestReport(marketsFixture, later, prices, toOpenInterestSnapshot(first), t0 + 60 * 60 * 1000);
+        const eth = second.entries.find(e => e.ticker === "ETH-rUSD")!;
+        if (Math.abs(eth.change!.notionalPercent! - 10) > 1e-9) throw new Error(`Unexpected ETH change: ${JSON.stringify(eth.change)}`);
+        if (Math.abs(second.previous!.totalChangePercent! - (eth.change!.notional / first.totalNotional) * 100) > 1e-9) throw new Error("Total change should be ETH's added notional");
+
+        const secondText = formatOpenInterestReport(second);
+        if (!secondText.includes("Δ 1h")) throw new Error(`Table should show change over 1h: ${secondText}`);
+        if (!secondText.includes("📊 Biggest OI change: ETH-rUSD +$1.06M (+10.00%)")) throw new Error(`Should name the biggest OI change: ${secondText}`);
+        if (!secondText.includes("⚖️ Biggest skew shift: SOL-rUSD 44% → 35% long")) throw new Error(`Should name the biggest skew shift: ${secondText}`);
+        return { total: first.totalNotional };
+    });
+    harness.results.push(reportResult);
+
+    const actionResult = await harness.runTest("Open Interest Action and Provider", async () => {
+        return harness.withRuntime([], async runtime => {
+            const skipped = await reyaOpenInterestProvider.get(runtime.asRuntime, createMessage("hello there"), undefined) as ReyaProviderResponse;
+            if (skipped.message !== "" || harness.server.requestCount() !== 0) throw new Error("Provider should only fetch for open interest messages");
+
+            // No scripted intent: the keyword fallback routes it
+            const first = await runAction(runtime, getOpenInterestAction, createMessage("show me open interest across Reya markets"));
+            if (!first.validated) throw new Error("GET_REYA_OPEN_INTEREST should validate for an open interest question");
+            if (!first.callbacks[0]?.text?.includes("This is the first report")) throw new Error(`Unexpected first report: ${first.callbacks[0]?.text}`);
+            const chart = await runAction(runtime, getOpenInterestAction, createMessage("BTC open interest chart"));
+            if (chart.validated) throw new Error("OI charts should be left to GET_REYA_CHART");
+
+            harness.server.setMode(API_ENDPOINTS.MARKETS_DATA, {
+                kind: "malformed",
+                payload: marketsDataFixture.map(d => d.marketId === "1" ? { ...d, openInterest: 2927.1 } : d),
+            });
+            getReyaService(runtime.asRuntime).cache.del("reya-markets-data");
+
+            // The provider compares with the action's snapshot without replacing it
+            const provided = await reyaOpenInterestProvider.get(runtime.asRuntime, createMessage("which markets are most crowded?"), undefined) as ReyaProviderResponse;
+            if (!provided.message.startsWith("Reya Network open interest is $35.81M across 6 markets (+3.05% since the last report). Largest: ETH-rUSD with 32.6%.")) throw new Error(`Unexpected provider summary: ${provided.message}`);
+            if (provided.data?.entries?.length !== 6 || provided.data.longCrowded[0]?.ticker !== "HYPE-rUSD") throw new Error("Provider should return the structured report");
+
+            const second = await runAction(runtime, getOpenInterestAction, createMessage("any changes in OI?"));
+            const text = second.callbacks[0]?.text ?? "";
+            if (!text.includes("📊 Biggest OI change: ETH-rUSD +$1.06M (+10.00%)") || !text.includes("Changes are against the last report")) throw new Error(`Second report should compare with the first: ${text}`);
+            return { text };
+        });
+    });
+    harness.results.push(actionResult);
+}
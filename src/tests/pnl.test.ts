@@ -0,0 +1,96 @@
+import type { HistorySample } from "../types/index.js";
+import { parseSinceDate } from "../services/historyService.js";
+import { getFundingAction } from "../actions/fundingAction.js";
+import { estimateFundingSince, unrealizedPnl, simulatePnl, formatPnl } from "../services/pnl.js";
+import { simulatePnlAction } from "../actions/pnlAction.js";
+import { priceFormat, type TestHarness } from "./harness.js";
+import { createMessage, runAction } from "./mockRuntime.js";
+import { marketsFixture, marketsDataFixture, historySample } from "./fixtures.js";
+
+export async function testPnl(harness: TestHarness): Promise<void> {
+    console.log("\n📒 Testing PnL Simulations...");
+
+    const HOUR = 60 * 60 * 1000;
+    const btc = marketsFixture.find(m => m.ticker === "BTC-rUSD")!;
+    const solData = marketsDataFixture.find(d => d.marketId === "3")!;
+    const sample = (timestamp: number, price: number, fundingRate: number): HistorySample =>
+        historySample("3", timestamp, price, { ...solData, fundingRate });
+    const close = (a: number, b: number, within = 0.005) => Math.abs(a - b) < within;
+
+    const simulateResult = await harness.runTest("Simulate PnL and Funding Since a Date", async () => {
+        const now = Date.parse("2026-10-18T12:00:00Z");
+        const dates: Array<[string, string | null]> = [
+            ["since 2026-10-01", "2026-10-01T00:00:00.000Z"],
+            ["long since Oct 1st", "2026-10-01T00:00:00.000Z"],
+            ["с 1 октября", "2026-10-01T00:00:00.000Z"],
+            ["since December 5", "2025-12-05T00:00:00.000Z"],
+            ["opened 3 days ago", "2026-10-15T12:00:00.000Z"],
+            ["купил 3 дня назад", "2026-10-15T12:00:00.000Z"],
+            ["longed 2 btc at 60k", null],
+        ];
+        for (const [text, expected] of dates) {
+            const since = parseSinceDate(text, now);
+            if ((since ? new Date(since.timestamp).toISOString() : null) !== expected) throw new Error(`parseSinceDate("${text}") = ${JSON.stringify(since)}`);
+        }
+
+        // 2 BTC from $60,000 to $64,250.50: +$8,501.00, on $12,000 of margin at 10x = +70.84%
+        if (!close(unrealizedPnl(60_000, 64_250.5, 2, "long"), 8501) || !close(unrealizedPnl(60_000, 64_250.5, 2, "short"), -8501)) throw new Error("Unexpected price PnL");
+        const simulation = simulatePnl({ market: btc, side: "long", base: 2, entryPrice: 60_000, markPrice: 64_250.5, leverage: 10, funding: null });
+        if (!close(simulation.margin, 12_000) || !close(simulation.roePercent, 70.84)) throw new Error(`Unexpected simulation: ${JSON.stringify(simulation)}`);
+
+        // 10 units over 4h: 1h at $100 × 0.01%/h = $0.10, then $110 × 0.02%/h held at most 1h = $0.22,
+        // and the 2h without history at the $120 mark and the current 0.03%/h = $0.72
+        const from = now - 4 * HOUR;
+        const funding = estimateFundingSince(
+            [sample(from, 100, 0.0001), sample(from + HOUR, 110, 0.0002)],
+            { base: 10, side: "long", from, to: now, markPrice: 120, fundingRate: 0.0003 },
+            1
+        );
+        if (!close(funding.amount, -1.04) || funding.hours !== 4 || funding.historyHours !== 2 || funding.samples !== 2) throw new Error(`Unexpected funding: ${JSON.stringify(funding)}`);
+        const noHistory = estimateFundingSince([], { base: 10, side: "short", from, to: now, markPrice: 120, fundingRate: 0.0003 }, 1);
+        if (!close(noHistory.amount, 1.44) || noHistory.historyHours !== 0) throw new Error(`Unexpected funding without history: ${JSON.stringify(noHistory)}`);
+
+        const text = formatPnl(simulation, priceFormat);
+        if (!text.startsWith(`**Hypothetical PnL: 10x long 2 BTC on BTC-rUSD**\nEntry $${priceFormat(60_000)} → mark $${priceFormat(64_250.5)} (+7.08%)`)) throw new Error(`Unexpected header: ${text}`);
+        if (!/\| Price move \|\s+\+\$8,501\.00 \|/.test(text) || !text.includes("Return on margin at 10x: **+70.84%** on $12,000.00 margin")) throw new Error(`Unexpected PnL: ${text}`);
+        if (text.includes("liquidated")) throw new Error("A winning long shouldn't be flagged as liquidated");
+        const underwater = formatPnl(simulatePnl({ market: btc, side: "long", base: 2, entryPrice: 70_000, markPrice: 64_250.5, leverage: 20, funding: null }), priceFormat);
+        if (!underwater.includes("⚠️ At 20x the mark is past the estimated liquidation price")) throw new Error(`Should flag a position past its liquidation price: ${underwater}`);
+        return { text };
+    });
+    harness.results.push(simulateResult);
+
+    const actionResult = await harness.runTest("PnL Action Uses Local History for Funding", async () => {
+        return harness.withHistory([], async (runtime, history) => {
+            // No scripted intent or extraction: the keyword fallbacks read it all from the message
+            const btcRun = await runAction(runtime, simulatePnlAction, createMessage("if I longed 2 BTC at 60k, what's my PnL now?"));
+            if (!btcRun.validated) throw new Error("SIMULATE_REYA_PNL should validate for a PnL question");
+            const btcText = btcRun.callbacks[0]?.text ?? "";
+            if (!btcText.startsWith("**Hypothetical PnL: 1x long 2 BTC on BTC-rUSD**") || !btcText.includes("**+$8,501.00**") || !btcText.includes("Return on margin at 1x: **+7.08%**")) throw new Error(`Unexpected reply: ${btcText}`);
+            if (!btcText.includes("Funding isn't included") || !btcText.includes("No leverage was given")) throw new Error(`Should say what's left out: ${btcText}`);
+
+            // Entry from the first recorded price: 100 SOL short from $150 to $148.37 = +$163.00, and funding
+            // received 100 × ($150 × 0.01% × 59/60 + $145 × 0.01% + $146 × 0.02%) = +$5.85
+            const now = Date.now();
+            await history.store.append([
+                sample(now - 3 * HOUR + 60_000, 150, 0.0001),
+                sample(now - 2 * HOUR, 145, 0.0001),
+                sample(now - HOUR, 146, 0.0002),
+            ]);
+            const solRun = await runAction(runtime, simulatePnlAction, createMessage("PnL on a 5x short 100 SOL opened 3 hours ago?"));
+            const solText = solRun.callbacks[0]?.text ?? "";
+            const simulation = solRun.result?.data?.simulation;
+            if (!solText.startsWith("**Hypothetical PnL: 5x short 100 SOL on SOL-rUSD**") || !solText.includes("The entry is the locally recorded mark price")) throw new Error(`Unexpected reply: ${solText}`);
+            if (!close(simulation?.pricePnl, 163) || !close(simulation?.funding?.amount, 5.85, 0.01) || !close(simulation?.margin, 3000)) throw new Error(`Unexpected simulation: ${JSON.stringify(simulation)}`);
+            if (!solText.includes("Funding is summed from 3 locally recorded rates")) throw new Error(`Should say funding came from history: ${solText}`);
+
+            const tooMuch = await runAction(runtime, simulatePnlAction, createMessage("PnL if I longed 1 SOL at 100 with 30x"));
+            if (!tooMuch.callbacks[0]?.text?.startsWith("❌ **SOL-rUSD** allows at most 20x")) throw new Error(`Should reject leverage above the maximum: ${tooMuch.callbacks[0]?.text}`);
+
+            const funding = await runAction(runtime, getFundingAction, createMessage("what's my PnL with funding if I longed 2 BTC at 60k since Oct 1?"));
+            if (funding.validated) throw new Error("PnL questions should be left to SIMULATE_REYA_PNL");
+            return { btcText, solText };
+        });
+    });
+    harness.results.push(actionResult);
+}
@@ -0,0 +1,128 @@
+import { API_ENDPOINTS } from "../constants/index.js";
+import type { MarketAlert } from "../types/index.js";
+import { evaluatePremiumAlert, formatAlertTrigger } from "../services/alertService.js";
+import {
+    isPremiumRequest,
+    premiumBps,
+    parsePremiumThreshold,
+    rankPremiums,
+    buildPremiumTable,
+} from "../services/premium.js";
+import { getPremiumAction } from "../actions/premiumAction.js";
+import { setPremiumAlertAction } from "../actions/premiumAlertAction.js";
+import { getReyaService } from "../services/reyaService.js";
+import { setPriceAlertAction } from "../actions/priceAlertAction.js";
+import { priceFormat, type TestHarness } from "./harness.js";
+import { createMessage, runAction } from "./mockRuntime.js";
+import { marketsFixture, pricesFixture, scriptedIntent } from "./fixtures.js";
+
+export async function testPremium(harness: TestHarness): Promise<void> {
+    console.log("\n⚖️ Testing Pool Premiums...");
+
+    const prices = Object.values(pricesFixture);
+    const tickerOf = (marketId: string) => marketsFixture.find(m => m.id === marketId)?.ticker ?? marketId;
+
+    const rankResult = await harness.runTest("Rank Premiums and Evaluate Premium Alerts", async () => {
+        const requests: Array<[string, boolean]> = [
+            ["which pools trade furthest from the oracle?", true],
+            ["BTC basis", true],
+            ["премия пула к оракулу", true],
+            ["what's the taker fee in bps?", false],
+            ["oracle price of ETH", false],
+        ];
+        for (const [text, expected] of requests) {
+            if (isPremiumRequest(text) !== expected) throw new Error(`isPremiumRequest("${text}") should be ${expected}`);
+        }
+        const thresholds: Array<[string, number | null]> = [
+            ["alert me when BTC pool is 30 bps from oracle", 30],
+            ["premium over 0.5%", 50],
+            ["расхождение больше 12,5 б.п.", 12.5],
+            ["any market premium", null],
+        ];
+        for (const [text, expected] of thresholds) {
+            if (parsePremiumThreshold(text) !== expected) throw new Error(`parsePremiumThreshold("${text}") = ${parsePremiumThreshold(text)}`);
+        }
+
+        // HYPE: (38.29 − 38.18) / 38.18 × 10000 = 28.81 bps
+        const hype = prices.find(p => p.marketId === 5)!;
+        if (Math.abs(premiumBps(hype)! - 28.811) > 0.001) throw new Error(`Unexpected HYPE premium: ${premiumBps(hype)}`);
+        if (premiumBps({ oraclePrice: "", poolPrice: "1" }) !== null) throw new Error("A missing oracle price has no premium");
+
+        const rows = prices.map(price => ({ ticker: tickerOf(String(price.marketId)), price }));
+        const ranked = rankPremiums(rows);
+        if (ranked.map(r => r.ticker).join(",") !== "HYPE-rUSD,JITOSOL-rUSD,SOL-rUSD,BTC-rUSD,ETH-rUSD,DOGE-rUSD") throw new Error(`Markets should be ranked by distance from oracle: ${ranked.map(r => r.ticker)}`);
+        const table = buildPremiumTable(rows, priceFormat);
+        const solRow = table.split("\n").find(line => line.includes("| SOL-rUSD"))!;
+        if (!solRow.includes("-8.1 bps") || solRow.includes("⚠️")) throw new Error(`Unexpected SOL row: ${solRow}`);
+        if (!table.split("\n").find(line => line.includes("HYPE-rUSD"))!.includes("⚠️")) throw new Error("HYPE should be flagged as wide");
+
+        const t0 = Date.parse("2026-10-18T10:00:00Z");
+        const alert = (marketId: string | null, bps: number, reference: number | null): MarketAlert =>
+            ({ id: 1, marketId, ticker: marketId ? tickerOf(marketId) : null, condition: { kind: "premium", bps }, entityId: "u", roomId: "r", source: "test", reference, createdAt: t0 });
+        const withPool = (marketId: number, poolPrice: string) =>
+            prices.map(p => p.marketId === marketId ? { ...p, poolPrice } : p);
+
+        const btc = alert("2", 30, 4.421);
+        if (evaluatePremiumAlert(btc, prices, new Map(), t0)) throw new Error("BTC at 4.4 bps should not trigger a 30 bps alert");
+        if (evaluatePremiumAlert(btc, withPool(1, "4100"), new Map(), t0)) throw new Error("Other markets should not trigger a single-market alert");
+        // 64000 vs 64241.8 is 37.6 bps below the oracle; either side counts
+        const below = evaluatePremiumAlert(btc, withPool(2, "64000"), new Map(), t0);
+        if (below?.premium?.[0]?.marketId !== 2) throw new Error(`BTC pool 37.6 bps below oracle should trigger: ${JSON.stringify(below)}`);
+        const text = formatAlertTrigger(below!, priceFormat, 1, tickerOf);
+        if (text !== "🔔 Pool 30 bps or more from oracle:\n• **BTC-rUSD** -37.6 bps, pool below oracle ($64,000.00 vs $64,241.80)") throw new Error(`Unexpected notification: ${text}`);
+
+        // Every market: HYPE was already past 25 bps, only ETH crossing in counts
+        const any = alert(null, 25, null);
+        const previous = new Map(ranked.map(r => [String(r.price.marketId), r.bps]));
+        if (evaluatePremiumAlert(any, prices, previous, t0)) throw new Error("HYPE was already past 25 bps and should not trigger");
+        const crossed = evaluatePremiumAlert(any, withPool(1, "3970"), previous, t0);
+        if (crossed?.premium?.map(p => p.marketId).join(",") !== "1") throw new Error(`ETH crossing 25 bps should trigger: ${JSON.stringify(crossed)}`);
+        return { table };
+    });
+    harness.results.push(rankResult);
+
+    const alertIntent = scriptedIntent("ALERT_REQUEST");
+
+    const actionResult = await harness.runTest("Premium Action and Premium Alerts", async () => {
+        return harness.withAlerts([
+            alertIntent,
+            alertIntent,
+            { match: "premium alert parameters", response: "<response><symbol>BTC</symbol><bps>30</bps></response>" },
+        ], async (runtime, alerts) => {
+            const btcMessage = createMessage("alert me when BTC pool diverges more than 30 bps from oracle");
+            const price = await runAction(runtime, setPriceAlertAction, btcMessage);
+            if (price.validated) throw new Error("SET_REYA_PRICE_ALERT should leave premium alerts alone");
+
+            const btc = await runAction(runtime, setPremiumAlertAction, btcMessage);
+            if (!btc.validated) throw new Error("SET_REYA_PREMIUM_ALERT should validate for a premium alert request");
+            const btcText = btc.callbacks[0]?.text ?? "";
+            if (!btcText.startsWith("🔔 Alert #1 set: **BTC-rUSD** pool 30 bps or more from oracle. I'll post here when it triggers.\nNow: **BTC-rUSD** +4.4 bps, pool above oracle")) throw new Error(`Unexpected reply: ${btcText}`);
+
+            // No scripted intent or extraction: HYPE is already 28.8 bps out
+            const hype = await runAction(runtime, setPremiumAlertAction, createMessage("notify me if HYPE premium goes over 20 bps", { entityId: btcMessage.entityId, roomId: btcMessage.roomId }));
+            if (!hype.callbacks[0]?.text?.includes("That's already 20 bps or more, so the alert would fire straight away.")) throw new Error(`Met alerts should be refused: ${hype.callbacks[0]?.text}`);
+
+            const ranked = await runAction(runtime, getPremiumAction, createMessage("which Reya pools trade furthest from the oracle?"));
+            if (!ranked.validated) throw new Error("GET_REYA_PREMIUM should validate for a premium question");
+            const rankedText = ranked.callbacks[0]?.text ?? "";
+            if (!rankedText.startsWith("**Reya pool vs oracle, all markets**, widest gap first") || !rankedText.includes("Widest gap: **HYPE-rUSD** +28.8 bps, pool above oracle") || !rankedText.includes("⚠️ 1 pool is 25 bps or more from the oracle.")) throw new Error(`Unexpected reply: ${rankedText}`);
+            const premiumAlert = await runAction(runtime, getPremiumAction, btcMessage);
+            if (premiumAlert.validated) throw new Error("Premium alerts should be left to SET_REYA_PREMIUM_ALERT");
+
+            if ((await alerts.check()).length !== 0) throw new Error("Nothing should trigger before the pool moves");
+            harness.server.setMode(API_ENDPOINTS.PRICES, {
+                kind: "malformed",
+                payload: { ...pricesFixture, "BTC-rUSD": { ...pricesFixture["BTC-rUSD"], poolPrice: "64500" } },
+            });
+            getReyaService(runtime.asRuntime).cache.del("reya-prices");
+
+            const triggers = await alerts.check();
+            if (triggers.length !== 1) throw new Error(`Expected one trigger, got ${triggers.length}`);
+            const texts = runtime.memories.map(m => m.memory.content.text ?? "");
+            if (!texts.some(t => t.startsWith("🔔 Pool 30 bps or more from oracle:\n• **BTC-rUSD** +40.2 bps, pool above oracle"))) throw new Error(`Missing BTC notification: ${JSON.stringify(texts)}`);
+            if (runtime.pendingModelResponses !== 0) throw new Error("Every scripted model response should be used");
+            return { rankedText };
+        });
+    });
+    harness.results.push(actionResult);
+}
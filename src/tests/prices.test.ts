@@ -0,0 +1,56 @@
+import NodeCache from "node-cache";
+import { API_ENDPOINTS } from "../constants/index.js";
+import { ReyaPriceService } from "../providers/priceProvider.js";
+import type { TestHarness } from "./harness.js";
+import { FIXTURE_TIMESTAMP } from "./fixtures.js";
+
+export async function testPriceService(harness: TestHarness): Promise<void> {
+    console.log("\n💰 Testing Price Service...");
+
+    const priceService = new ReyaPriceService(harness.server.baseUrl, harness.createClient(), new NodeCache());
+
+    // Test getPrices
+    const pricesResult = await harness.runTest("Get Prices", async () => {
+        const prices = await priceService.getPrices();
+        const btc = prices.find(p => p.assetPairId === "BTC-rUSD");
+        if (prices.length !== 6) throw new Error(`Expected 6 prices, got ${prices.length}`);
+        if (btc?.price !== "64250.5") throw new Error(`Unexpected BTC price ${btc?.price}`);
+        return { count: prices.length };
+    });
+    harness.results.push(pricesResult);
+
+    // Test getPrice
+    const pairResult = await harness.runTest("Get Price By Pair", async () => {
+        const price = await priceService.getPrice("SOL-rUSD");
+        if (price.marketId !== 3 || price.oraclePrice !== "148.41") throw new Error("Unexpected SOL price");
+        if (harness.server.requestCount(API_ENDPOINTS.PRICE_BY_PAIR("SOL-rUSD")) !== 1) throw new Error("Expected one pair request");
+        return price;
+    });
+    harness.results.push(pairResult);
+
+    // Test getPricesSummary
+    const summaryResult = await harness.runTest("Get Prices Summary", async () => {
+        const summary = await priceService.getPricesSummary();
+        if (summary.totalMarkets !== 6) throw new Error(`Unexpected market count ${summary.totalMarkets}`);
+        if (summary.priceRange.min !== 0.12345 || summary.priceRange.max !== 64250.5) throw new Error("Unexpected price range");
+        if (summary.lastUpdate !== FIXTURE_TIMESTAMP) throw new Error("Unexpected lastUpdate");
+        return summary;
+    });
+    harness.results.push(summaryResult);
+
+    // Test formatPrice
+    const formatResult = await harness.runTest("Format Price", async () => {
+        const cases: Array<[string | null, string]> = [
+            ["64250.5", (64250.5).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })],
+            ["3985420000000000000000", (3985.42).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })],
+            ["abc", "N/A"],
+            [null, "N/A"],
+        ];
+        for (const [input, expected] of cases) {
+            const formatted = priceService.formatPrice(input);
+            if (formatted !== expected) throw new Error(`formatPrice(${input}) = ${formatted}, expected ${expected}`);
+        }
+        return { cases: cases.length };
+    });
+    harness.results.push(formatResult);
+}
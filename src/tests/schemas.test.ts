@@ -0,0 +1,61 @@
+import { API_ENDPOINTS } from "../constants/index.js";
+import { ReyaValidationError } from "../services/httpClient.js";
+import { MarketSchema, PriceSchema } from "../types/schemas.js";
+import type { TestHarness } from "./harness.js";
+import { marketsFixture } from "./fixtures.js";
+
+export async function testSchemaValidation(harness: TestHarness): Promise<void> {
+    console.log("\n🧾 Testing Schema Validation...");
+
+    const [market] = marketsFixture;
+
+    const dropResult = await harness.runTest("Drop Malformed List Entries", async () => {
+        harness.server.setMode(API_ENDPOINTS.MARKETS, {
+            kind: "malformed",
+            payload: [market, { ...market, id: "2", markPrice: "3000" }],
+        });
+        const markets = await harness.createClient().getList(API_ENDPOINTS.MARKETS, MarketSchema);
+        if (markets.length !== 1 || markets[0].id !== "1") throw new Error("Malformed market should be dropped");
+        return { kept: markets.length };
+    });
+    harness.results.push(dropResult);
+
+    const driftResult = await harness.runTest("Name Drifted Field", async () => {
+        harness.server.setMode(API_ENDPOINTS.MARKETS, { kind: "malformed", payload: [{ ...market, markPrice: "3000" }] });
+        try {
+            await harness.createClient().getList(API_ENDPOINTS.MARKETS, MarketSchema);
+        } catch (error) {
+            if (!(error instanceof ReyaValidationError)) throw new Error(`Expected ReyaValidationError, got ${error}`);
+            if (!error.issues.some(issue => issue.startsWith("0.markPrice"))) {
+                throw new Error(`Issues should name 0.markPrice: ${error.issues.join("; ")}`);
+            }
+            return { issues: error.issues };
+        }
+        throw new Error("A list where every entry is malformed should fail");
+    });
+    harness.results.push(driftResult);
+
+    const wrongRootResult = await harness.runTest("Reject Wrong Root Type", async () => {
+        harness.server.setMode(API_ENDPOINTS.MARKETS, { kind: "malformed", payload: { markets: [market] } });
+        try {
+            await harness.createClient().getList(API_ENDPOINTS.MARKETS, MarketSchema);
+        } catch (error) {
+            if (!(error instanceof ReyaValidationError)) throw new Error(`Expected ReyaValidationError, got ${error}`);
+            return { issues: error.issues };
+        }
+        throw new Error("An object where a list is expected should fail");
+    });
+    harness.results.push(wrongRootResult);
+
+    const recordResult = await harness.runTest("Validate Price Record", async () => {
+        const price = { marketId: 1, oraclePrice: "3000.1", poolPrice: "3000.2", price: "3000.15", updatedAt: 1 };
+        harness.server.setMode(API_ENDPOINTS.PRICES, {
+            kind: "malformed",
+            payload: { "ETH-rUSD": price, "BTC-rUSD": { ...price, price: "abc" } },
+        });
+        const prices = await harness.createClient().getRecord(API_ENDPOINTS.PRICES, PriceSchema);
+        if (Object.keys(prices).join(",") !== "ETH-rUSD") throw new Error("Non-numeric price should be dropped");
+        return prices;
+    });
+    harness.results.push(recordResult);
+}
@@ -0,0 +1,116 @@
+import NodeCache from "node-cache";
+import { ReyaMarketService } from "../providers/marketProvider.js";
+import { ReyaAssetService } from "../providers/assetProvider.js";
+import type { PendingMarketChoice } from "../types/index.js";
+import { rankMarkets, rankAssets, editDistance, splitSymbolList, SymbolResolver } from "../services/symbolResolver.js";
+import { parseChoiceReply } from "../services/pendingChoice.js";
+import type { TestHarness } from "./harness.js";
+import { marketsFixture, assetsFixture } from "./fixtures.js";
+
+export async function testSymbolResolver(harness: TestHarness): Promise<void> {
+    console.log("\n🔤 Testing Symbol Resolver...");
+
+    const resolvedTicker = (query: string) => {
+        const resolution = rankMarkets(query, marketsFixture);
+        return resolution.best && !resolution.ambiguous ? resolution.best.item.ticker : null;
+    };
+
+    const aliasResult = await harness.runTest("Resolve Names, Aliases and Typos", async () => {
+        const cases: Array<[string, string | null]> = [
+            ["BTC", "BTC-rUSD"], ["eth", "ETH-rUSD"], ["Bitcoin", "BTC-rUSD"], ["биткоин", "BTC-rUSD"],
+            ["эфир", "ETH-rUSD"], ["etherium", "ETH-rUSD"], ["solana", "SOL-rUSD"], ["BTC-rUSD", "BTC-rUSD"],
+            ["$hype", "HYPE-rUSD"], ["eth/usdc", "ETH-rUSD"], ["jito", "JITOSOL-rUSD"], ["doge", "DOGE-rUSD"],
+            ["HYPR", "HYPE-rUSD"], ["xyz", null],
+        ];
+        for (const [query, expected] of cases) {
+            const ticker = resolvedTicker(query);
+            if (ticker !== expected) throw new Error(`"${query}" resolved to ${ticker}, expected ${expected}`);
+        }
+        if (editDistance("etherium", "ethereum") !== 1) throw new Error("Unexpected edit distance");
+        return { cases: cases.length };
+    });
+    harness.results.push(aliasResult);
+
+    const ambiguityResult = await harness.runTest("Rank Ambiguous Candidates", async () => {
+        // An exact ticker wins, but the overlapping market is still offered
+        const sol = rankMarkets("SOL", marketsFixture);
+        const solTickers = sol.candidates.map(c => c.item.ticker).join(",");
+        if (sol.ambiguous || solTickers !== "SOL-rUSD,JITOSOL-rUSD") throw new Error(`Unexpected SOL candidates ${solTickers}`);
+
+        const so = rankMarkets("so", marketsFixture);
+        const soTickers = so.candidates.map(c => c.item.ticker).join(",");
+        if (!so.ambiguous || soTickers !== "SOL-rUSD,JITOSOL-rUSD") throw new Error(`"so" should be ambiguous between SOL and JITOSOL, got ${soTickers}`);
+
+        const duplicate = rankMarkets("BTC", [...marketsFixture, { ...marketsFixture[1], id: "7", ticker: "BTC-USDC", priority: 4 }]);
+        if (!duplicate.ambiguous || duplicate.best?.item.id !== "2") throw new Error("Two BTC markets should be ambiguous, higher priority first");
+        return { sol: solTickers, so: soTickers };
+    });
+    harness.results.push(ambiguityResult);
+
+    const assetResult = await harness.runTest("Resolve Assets", async () => {
+        const cases: Array<[string, string | null]> = [
+            ["usdc", "USDC"], ["USD Coin", "USDC"], ["eth", "WETH"], ["bitcoin", "WBTC"], ["rusd", "rUSD"], ["srUSD", "srUSD"],
+        ];
+        for (const [query, expected] of cases) {
+            const best = rankAssets(query, assetsFixture).best?.item.short ?? null;
+            if (best !== expected) throw new Error(`"${query}" resolved to ${best}, expected ${expected}`);
+        }
+        return { cases: cases.length };
+    });
+    harness.results.push(assetResult);
+
+    const mentionsResult = await harness.runTest("Find Mentions In Text", async () => {
+        const client = harness.createClient();
+        const resolver = new SymbolResolver(
+            new ReyaMarketService(harness.server.baseUrl, client, new NodeCache()),
+            new ReyaAssetService(harness.server.baseUrl, client, new NodeCache())
+        );
+        const markets = await resolver.findMarketMentions("compare Bitcoin, $ETH and solana please");
+        const assets = await resolver.findAssetMentions("what is the usd coin contract?");
+        const none = await resolver.findMarketMentions("what are the trading hours?");
+        if (markets.map(m => m.ticker).join(",") !== "BTC-rUSD,ETH-rUSD,SOL-rUSD") throw new Error(`Unexpected market mentions ${markets.map(m => m.ticker)}`);
+        if (assets.map(a => a.short).join(",") !== "USDC") throw new Error(`Unexpected asset mentions ${assets.map(a => a.short)}`);
+        if (none.length !== 0) throw new Error(`Ordinary words should not match: ${none.map(m => m.ticker)}`);
+        return { markets: markets.length };
+    });
+    harness.results.push(mentionsResult);
+
+    const listResult = await harness.runTest("Resolve Symbol Lists", async () => {
+        const split = splitSymbolList("BTC, ETH and SOL");
+        if (split.join("|") !== "BTC|ETH|SOL") throw new Error(`Unexpected split ${split}`);
+        const merged = splitSymbolList("btc & eth", ["BTC", "ETH/USDC", "биткоин и эфир"]);
+        if (merged.join("|") !== "btc|eth|ETH/USDC|биткоин|эфир") throw new Error(`Unexpected merge ${merged}`);
+
+        const client = harness.createClient();
+        const resolver = new SymbolResolver(
+            new ReyaMarketService(harness.server.baseUrl, client, new NodeCache()),
+            new ReyaAssetService(harness.server.baseUrl, client, new NodeCache())
+        );
+        const resolution = await resolver.resolveMarketList(["btc", "bitcoin", "so", "xyz", "eth"]);
+        if (resolution.markets.map(m => m.ticker).join(",") !== "BTC-rUSD,ETH-rUSD") throw new Error(`Unexpected markets ${resolution.markets.map(m => m.ticker)}`);
+        if (resolution.ambiguous.length !== 1 || resolution.ambiguous[0].query !== "so") throw new Error("\"so\" should be reported as ambiguous");
+        if (resolution.unknown.join(",") !== "xyz") throw new Error(`Unexpected unknown ${resolution.unknown}`);
+        return { markets: resolution.markets.length };
+    });
+    harness.results.push(listResult);
+
+    const choiceReplyResult = await harness.runTest("Parse Choice Replies", async () => {
+        const choice: PendingMarketChoice = {
+            actionName: "GET_REYA_PRICES",
+            query: "so",
+            candidates: [{ marketId: "3", ticker: "SOL-rUSD" }, { marketId: "4", ticker: "JITOSOL-rUSD" }],
+            createdAt: Date.now(),
+        };
+        const cases: Array<[string, number | null]> = [
+            ["2", 1], ["#1", 0], ["option 2", 1], ["the second one", 1], ["второй", 1], ["первый!", 0],
+            ["last", 1], ["jitosol", 1], ["SOL-rUSD", 0], ["3", null], ["third", null],
+            ["what is the second largest market?", null], ["thanks", null],
+        ];
+        for (const [reply, expected] of cases) {
+            const index = parseChoiceReply(reply, choice);
+            if (index !== expected) throw new Error(`parseChoiceReply("${reply}") = ${index}, expected ${expected}`);
+        }
+        return { cases: cases.length };
+    });
+    harness.results.push(choiceReplyResult);
+}
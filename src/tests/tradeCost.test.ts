@@ -0,0 +1,82 @@
+import { ReyaFeeService } from "../providers/feeProvider.js";
+import { getFundingAction } from "../actions/fundingAction.js";
+import { parseLeverage, parseBaseSize } from "../services/position.js";
+import { estimateTradeCost, formatTradeCost } from "../services/tradeCost.js";
+import { estimateTradeCostAction } from "../actions/tradeCostAction.js";
+import { priceFormat, type TestHarness } from "./harness.js";
+import { createMessage, runAction } from "./mockRuntime.js";
+import {
+    marketsFixture,
+    marketsDataFixture,
+    pricesFixture,
+    feeTierParametersFixture,
+    globalFeeParametersFixture,
+    scriptedIntent,
+} from "./fixtures.js";
+
+export async function testTradeCost(harness: TestHarness): Promise<void> {
+    console.log("\n🧾 Testing Trade Cost Estimates...");
+
+    const eth = marketsFixture.find(m => m.ticker === "ETH-rUSD")!;
+    const ethData = marketsDataFixture.find(d => d.marketId === eth.id)!;
+
+    const estimateResult = await harness.runTest("Estimate Trade Cost", async () => {
+        const leverages: Array<[string, number | null]> = [
+            ["10x long 5 ETH", 10],
+            ["short BTC x20", 20],
+            ["шорт SOL с плечом 3", 3],
+            ["long 5 ETH for 3 days", null],
+        ];
+        for (const [text, expected] of leverages) {
+            if ((parseLeverage(text)?.leverage ?? null) !== expected) throw new Error(`parseLeverage("${text}") = ${JSON.stringify(parseLeverage(text))}`);
+        }
+        if (parseBaseSize("10x long 5 ETH held for 3 days", "ETH")?.base !== 5 || parseBaseSize("$5k ETH", "ETH") !== null) throw new Error("Base sizes should be read only when given in the coin");
+
+        const fees = new ReyaFeeService("http://localhost").calculateFeeTier(feeTierParametersFixture, globalFeeParametersFixture, 0);
+        // 5 ETH at $3,985.42 = $19,927.10 held 72h at 10x:
+        // premium 19927.10 × 1.2 / 3984.9 = $6.00, fees 2 × 19927.10 × 0.04% = $15.94,
+        // funding 19927.10 × (0.000012 × 72 + 0.0000004 × 72² / 2) = $37.88
+        const estimate = estimateTradeCost({ market: eth, data: ethData, price: pricesFixture["ETH-rUSD"], notional: 5 * 3985.42, side: "long", holdHours: 72, leverage: 10, fees, fundingPeriodHours: 1 });
+        const close = (a: number, b: number) => Math.abs(a - b) < 0.005;
+        if (!close(estimate.entryPremium!.cost, 6.0) || !close(estimate.takerFee.cost, 15.94) || !close(estimate.funding.cost, 37.88) || !close(estimate.total, 59.82)) throw new Error(`Unexpected estimate: ${JSON.stringify(estimate)}`);
+        if (!close(estimate.margin!, 1992.71)) throw new Error(`Unexpected margin: ${estimate.margin}`);
+
+        // A short receives the premium when the pool is above the oracle, and funding while it's positive
+        const short = estimateTradeCost({ market: eth, data: ethData, price: pricesFixture["ETH-rUSD"], notional: 5 * 3985.42, side: "short", holdHours: 72, leverage: null, fees, fundingPeriodHours: 1 });
+        if (!close(short.entryPremium!.cost, -6.0) || !close(short.funding.cost, -37.88) || short.margin !== null) throw new Error(`Unexpected short estimate: ${JSON.stringify(short)}`);
+
+        const text = formatTradeCost(estimate, priceFormat);
+        if (!text.startsWith("**Trade cost estimate: 10× long 5 ETH on ETH-rUSD, held 3d**\nSize: $19,927.10 at $3,985.42, $1,992.71 margin at 10×")) throw new Error(`Unexpected header: ${text}`);
+        if (!text.includes("| **Total**") || !text.includes("**$59.82**") || !text.includes("That's 3.00% of your margin.")) throw new Error(`Unexpected total: ${text}`);
+        return { text };
+    });
+    harness.results.push(estimateResult);
+
+    const actionResult = await harness.runTest("Trade Cost Action Estimates a Described Trade", async () => {
+        return harness.withRuntime([
+            scriptedIntent("MARKET_QUERY"),
+            { match: "trade cost parameters", response: "<response><symbol>BTC</symbol><base></base><size>50000</size><side>short</side><leverage></leverage><hold>1w</hold><volume>2M</volume><og>true</og><referee>false</referee></response>" },
+        ], async runtime => {
+            const btc = await runAction(runtime, estimateTradeCostAction, createMessage("all-in cost of a $50k BTC short for a week? I'm an OG trading 2M a month"));
+            if (!btc.validated) throw new Error("ESTIMATE_REYA_TRADE_COST should validate for a trade cost question");
+            const btcText = btc.callbacks[0]?.text ?? "";
+            // Tier 2 taker 0.035% less the 20% OG discount = 0.028%, on $50k both ways = $28.00
+            if (!btcText.includes("**Trade cost estimate: short") || !btcText.includes("held 7d**") || !/\(tier 2, 0\.0280%\) \|\s+\$28\.00 \|/.test(btcText)) throw new Error(`Unexpected reply: ${btcText}`);
+            if (!btcText.includes("with the OG discount")) throw new Error(`Should say which discount applied: ${btcText}`);
+
+            // No scripted intent or extraction: the keyword fallbacks read it all from the message
+            const eth = await runAction(runtime, estimateTradeCostAction, createMessage("what would a 10x long 5 ETH held for 3 days cost?"));
+            if (!eth.validated) throw new Error("The fallback intent should still route trade cost questions");
+            const ethText = eth.callbacks[0]?.text ?? "";
+            if (!ethText.startsWith("**Trade cost estimate: 10× long 5 ETH on ETH-rUSD, held 3d**") || !ethText.includes("**$59.82**")) throw new Error(`Unexpected reply: ${ethText}`);
+
+            const tooMuch = await runAction(runtime, estimateTradeCostAction, createMessage("cost of a 40x long 1 ETH held for 8 hours"));
+            if (!tooMuch.callbacks[0]?.text?.includes("⚠️ **ETH-rUSD** allows at most 25×")) throw new Error(`Should warn about leverage above the maximum: ${tooMuch.callbacks[0]?.text}`);
+
+            const funding = await runAction(runtime, getFundingAction, createMessage("what would a 10x long 5 ETH held for 3 days cost?"));
+            if (funding.validated) throw new Error("Whole-trade costs should be left to ESTIMATE_REYA_TRADE_COST");
+            return { btcText, ethText };
+        });
+    });
+    harness.results.push(actionResult);
+}
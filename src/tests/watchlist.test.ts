@@ -0,0 +1,77 @@
+import { API_ENDPOINTS } from "../constants/index.js";
+import { getMarketsAction } from "../actions/marketAction.js";
+import { classifyWatchlistRequest } from "../services/watchlist.js";
+import { addToWatchlistAction } from "../actions/addToWatchlistAction.js";
+import { removeFromWatchlistAction } from "../actions/removeFromWatchlistAction.js";
+import { showWatchlistAction } from "../actions/showWatchlistAction.js";
+import { priceFormat, type TestHarness } from "./harness.js";
+import { createMessage, runAction } from "./mockRuntime.js";
+
+export async function testWatchlist(harness: TestHarness): Promise<void> {
+    console.log("\n⭐ Testing Watchlists...");
+
+    const classifyResult = await harness.runTest("Classify Watchlist Requests", async () => {
+        const cases: Array<[string, string | null]> = [
+            ["add SOL, ETH and HYPE to my watchlist", "add"],
+            ["watch DOGE for me, put it on my watch list", "add"],
+            ["добавь биткоин в избранное", "add"],
+            ["remove ETH from my watchlist", "remove"],
+            ["clear my watchlist", "remove"],
+            ["очисти мой список наблюдения", "remove"],
+            ["show my watchlist", "show"],
+            ["what's on my watch-list?", "show"],
+            ["покажи моё избранное", "show"],
+            ["list all markets", null],
+            ["watch out, BTC is dumping", null],
+        ];
+        for (const [text, expected] of cases) {
+            const command = classifyWatchlistRequest(text);
+            if (command !== expected) throw new Error(`classifyWatchlistRequest("${text}") = ${command}`);
+        }
+    });
+    harness.results.push(classifyResult);
+
+    const actionsResult = await harness.runTest("Watchlist Actions Keep a List Per User", async () => {
+        return harness.withRuntime([], async runtime => {
+            const { entityId } = createMessage("");
+            const as = (text: string) => createMessage(text, { entityId });
+
+            // No scripted intent or extraction: the keyword fallbacks read it all from the message
+            const add = await runAction(runtime, addToWatchlistAction, as("add SOL, ETH and HYPE to my watchlist"));
+            if (!add.validated) throw new Error("ADD_TO_REYA_WATCHLIST should validate for an add request");
+            const addText = add.callbacks[0]?.text ?? "";
+            if (!addText.startsWith("⭐ Added **SOL-rUSD**, **ETH-rUSD**, **HYPE-rUSD** to your watchlist (3 markets)")) throw new Error(`Unexpected reply: ${addText}`);
+
+            const again = await runAction(runtime, addToWatchlistAction, as("add ETH and BTC to my watchlist"));
+            const againText = again.callbacks[0]?.text ?? "";
+            if (!againText.includes("Added **BTC-rUSD**") || !againText.includes("Already watching: **ETH-rUSD**.")) throw new Error(`Should skip markets already on the list: ${againText}`);
+
+            const remove = await runAction(runtime, removeFromWatchlistAction, as("remove ETH from my watchlist"));
+            if (!remove.validated) throw new Error("REMOVE_FROM_REYA_WATCHLIST should validate for a remove request");
+            if (remove.callbacks[0]?.text !== "🗑️ Removed **ETH-rUSD** from your watchlist (3 markets left).") throw new Error(`Unexpected reply: ${remove.callbacks[0]?.text}`);
+
+            const show = await runAction(runtime, showWatchlistAction, as("show my watchlist"));
+            if (!show.validated) throw new Error("SHOW_REYA_WATCHLIST should validate for a show request");
+            const showText = show.callbacks[0]?.text ?? "";
+            const rows = showText.split("\n").filter(line => line.startsWith("| "));
+            if (!showText.startsWith("**Your Reya watchlist** (3 markets)") || rows.length !== 5) throw new Error(`Expected a header, a divider and three rows: ${showText}`);
+            if (!rows[2].startsWith("| SOL-rUSD") || !rows[3].startsWith("| HYPE-rUSD") || !rows[4].startsWith("| BTC-rUSD")) throw new Error(`Rows should follow the watchlist's order: ${showText}`);
+            if (!rows[4].includes(priceFormat(64250.5)) || !rows[4].includes("-1.26%")) throw new Error(`BTC row should show price and 24h change: ${rows[4]}`);
+            if (harness.server.requestCount(API_ENDPOINTS.MARKET_DATA("2")) !== 0) throw new Error("The table should use the batch markets/data endpoint");
+
+            // Another user starts with an empty list
+            const other = await runAction(runtime, showWatchlistAction, createMessage("show my watchlist"));
+            if (!other.callbacks[0]?.text?.startsWith("Your watchlist is empty.")) throw new Error(`Watchlists should be per user: ${other.callbacks[0]?.text}`);
+
+            const clear = await runAction(runtime, removeFromWatchlistAction, as("clear my watchlist"));
+            if (clear.callbacks[0]?.text !== "🗑️ Cleared your watchlist (3 markets).") throw new Error(`Unexpected reply: ${clear.callbacks[0]?.text}`);
+            const empty = await runAction(runtime, showWatchlistAction, as("show my watchlist"));
+            if (empty.result?.values?.watchlistCount !== 0) throw new Error("The watchlist should be empty after clearing it");
+
+            const markets = await runAction(runtime, getMarketsAction, as("show my watchlist"));
+            if (markets.validated) throw new Error("Watchlist requests should be left to the watchlist actions");
+            return { showText };
+        });
+    });
+    harness.results.push(actionsResult);
+}
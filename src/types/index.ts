@@ -57,7 +57,60 @@ export interface PricesResponse {
     [assetPairId: string]: Price;
 }
 
-// CandleData interface removed - endpoint returns 404
+// The candle endpoint returns 404; candles are built from recorded samples
+// instead, see services/candles.ts
+
+// One recorded snapshot of a market, see services/historyStore.ts
+export interface HistorySample {
+    timestamp: number;
+    marketId: string;
+    price: number | null;
+    oraclePrice: number | null;
+    poolPrice: number | null;
+    // Full markets/data entry at sampling time, null when that call failed
+    data: MarketData | null;
+}
+
+export type CandleInterval = "1m" | "5m" | "1h" | "1d";
+
+// Which sampled price a candle is built from
+export type CandleSource = "price" | "oraclePrice" | "poolPrice";
+
+export interface Candle {
+    marketId: string;
+    interval: CandleInterval;
+    source: CandleSource;
+    openTime: number;
+    closeTime: number;
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    // rUSD traded during the bar, estimated from last24hVolume deltas
+    volume: number;
+    // Samples the bar was built from
+    samples: number;
+}
+
+export type ChartMetric = "price" | "funding" | "openInterest";
+
+export interface ChartPoint {
+    timestamp: number;
+    value: number;
+}
+
+export interface HistorySummary {
+    marketId: string;
+    from: number;
+    to: number;
+    samples: number;
+    first: HistorySample;
+    last: HistorySample;
+    high: { price: number; timestamp: number };
+    low: { price: number; timestamp: number };
+    // Percent change of the mark price between first and last sample
+    changePercentage: number;
+}
 
 export interface FeeTierParameter {
     tier_id: string;
@@ -73,6 +126,262 @@ export interface GlobalFeeParameters {
     affiliate_referrer_rebate: string;
 }
 
+export interface FeeTierOptions {
+    isOg?: boolean;
+    isReferee?: boolean;
+    isReferrer?: boolean;
+    isAffiliate?: boolean;
+}
+
+export interface FeeTierCalculation {
+    volume: number;
+    tier: FeeTierParameter;
+    nextTier: FeeTierParameter | null;
+    volumeToNextTier: number | null;
+    baseMakerFee: number;
+    baseTakerFee: number;
+    discount: number;
+    discountSource: "og" | "referee" | null;
+    effectiveMakerFee: number;
+    effectiveTakerFee: number;
+    referrerRebate: number;
+}
+
+export type SymbolMatchType = "exact" | "alias" | "prefix" | "fuzzy" | "contains";
+
+export interface SymbolMatch<T> {
+    item: T;
+    symbol: string;
+    score: number;
+    matchType: SymbolMatchType;
+}
+
+export interface SymbolResolution<T> {
+    query: string;
+    // Canonical base symbol the query was read as, after aliases
+    normalized: string;
+    // Ranked best first
+    candidates: SymbolMatch<T>[];
+    best: SymbolMatch<T> | null;
+    // True when several candidates are close and none matched exactly
+    ambiguous: boolean;
+}
+
+export interface MarketListResolution {
+    // Distinct markets in the order they were asked for
+    markets: Market[];
+    ambiguous: SymbolResolution<Market>[];
+    // Queries with no candidate at all
+    unknown: string[];
+}
+
+// A numbered list of markets the agent asked the user to choose from
+export interface PendingMarketChoice {
+    actionName: string;
+    query: string;
+    // Extra inputs the original request needs to finish, e.g. the market query type
+    params?: Record<string, string>;
+    candidates: Array<{ marketId: string; ticker: string }>;
+    createdAt: number;
+}
+
+// A user's watched markets, in the order they were added
+export interface Watchlist {
+    markets: Array<{ marketId: string; ticker: string }>;
+    updatedAt: number;
+}
+
+export type DigestSection = "movers" | "volume" | "funding" | "listings" | "openInterest";
+export type DigestSchedule = "hourly" | "daily";
+
+// One room's entry in REYA_DIGEST_ROOMS as configured; anything left out
+// or null takes its default
+export interface DigestRoomEntry {
+    roomId: string;
+    source: string;
+    schedule?: DigestSchedule | null;
+    hourUtc?: number | null;
+    // An array or a comma-separated list
+    sections?: string[] | string | null;
+    top?: number | null;
+}
+
+// A DigestRoomEntry with defaults filled in
+export interface DigestRoomConfig {
+    roomId: string;
+    // Message source ("discord", "telegram"...) used to route the digest
+    source: string;
+    schedule: DigestSchedule;
+    // UTC hour daily digests go out at; unused for hourly ones
+    hourUtc: number;
+    sections: DigestSection[];
+    // Markets listed per section
+    top: number;
+}
+
+// What a room's last digest saw, so the next one can report listings and OI changes
+export interface DigestState {
+    lastRunAt: number;
+    marketIds: string[];
+    openInterest: OpenInterestSnapshot;
+}
+
+// "crosses 4000", or "moves 5% within an hour" (percent is positive)
+export type PriceAlertCondition =
+    | { kind: "cross"; level: number; direction: "above" | "below" }
+    | { kind: "move"; percent: number; direction: "up" | "down" | "any"; windowMs: number };
+
+// "funding flips negative", or "funding above 50% APR" (either side)
+export type FundingAlertCondition =
+    | { kind: "fundingFlip"; to: "negative" | "positive" | "either" }
+    | { kind: "fundingApr"; aprPercent: number };
+
+// "pool more than 30 bps from oracle" (either side)
+export type PremiumAlertCondition = { kind: "premium"; bps: number };
+
+export type AlertCondition = PriceAlertCondition | FundingAlertCondition | PremiumAlertCondition;
+
+// One user's alert, posted back to the room it was set in
+export interface MarketAlert {
+    id: number;
+    // Null for alerts that watch every market
+    marketId: string | null;
+    ticker: string | null;
+    condition: AlertCondition;
+    entityId: string;
+    roomId: string;
+    // Message source ("discord", "telegram"...) used to route the notification
+    source: string;
+    // Mark price (price alerts), funding rate (funding alerts) or premium
+    // in bps (premium alerts) when the alert was set; null for every-market
+    // alerts
+    reference: number | null;
+    createdAt: number;
+}
+
+// What the open interest report keeps of each market to compare with next time
+export interface OpenInterestSnapshot {
+    timestamp: number;
+    markets: Record<string, { openInterest: number; notional: number; longSkewPercentage: number }>;
+}
+
+export interface OpenInterestEntry {
+    marketId: string;
+    ticker: string;
+    // Base units, both sides together, as markets/data reports it
+    openInterest: number;
+    longOI: number;
+    shortOI: number;
+    // Open interest at the mark price, in rUSD
+    notional: number;
+    // Percent of the platform's total notional
+    share: number;
+    longSkewPercentage: number;
+    shortSkewPercentage: number;
+    // Against the previous snapshot; null for markets it didn't have
+    change: {
+        notional: number;
+        notionalPercent: number | null;
+        longSkewPoints: number;
+    } | null;
+}
+
+export interface OpenInterestReport {
+    timestamp: number;
+    totalNotional: number;
+    // Biggest first
+    entries: OpenInterestEntry[];
+    // Most long-heavy and short-heavy markets first, only those leaning that way
+    longCrowded: OpenInterestEntry[];
+    shortCrowded: OpenInterestEntry[];
+    previous: {
+        timestamp: number;
+        totalNotional: number;
+        totalChangePercent: number | null;
+    } | null;
+}
+
+// Room left on one side of a market, from markets/data maxAmountBase*/maxAmountSize*
+export interface CapacitySide {
+    base: number;           // base units that can still be opened
+    notional: number;       // base at the mark price, in rUSD
+    orderBase: number;      // largest single order, in base units
+    orderNotional: number;
+}
+
+export interface MarketCapacity {
+    marketId: string;
+    ticker: string;
+    baseAsset: string;
+    markPrice: number;
+    long: CapacitySide;
+    short: CapacitySide;
+}
+
+export interface TradeCostEstimate {
+    marketId: string;
+    ticker: string;
+    baseAsset: string;
+    side: "long" | "short";
+    base: number;
+    notional: number;
+    markPrice: number;
+    leverage: number | null;
+    margin: number | null;
+    holdHours: number;
+    // Costs in rUSD: positive is paid, negative is received
+    entryPremium: { bps: number; cost: number } | null;
+    takerFee: { tierId: string; rate: number; cost: number };     // opening and closing
+    funding: { cost: number; aprPercent: number };
+    total: number;
+}
+
+export interface LiquidationEstimate {
+    marketId: string;
+    ticker: string;
+    baseAsset: string;
+    side: "long" | "short";
+    entryPrice: number;
+    entryIsMark: boolean;                // no entry price given, so the mark is used
+    leverage: number;
+    maxLeverage: number;
+    maintenanceMarginRatio: number;
+    liquidationPrice: number;
+    distancePercent: number;             // from the entry price
+    // Only with a size
+    notional: number | null;
+    base: number | null;
+    initialMargin: number | null;
+    maintenanceMargin: number | null;
+}
+
+export interface FundingAccrual {
+    amount: number;             // rUSD, positive when received
+    from: number;
+    to: number;
+    hours: number;
+    historyHours: number;       // the part covered by recorded history
+    samples: number;
+    currentRate: number;        // per-period rate used for the part without history
+}
+
+export interface PnlSimulation {
+    marketId: string;
+    ticker: string;
+    baseAsset: string;
+    side: "long" | "short";
+    base: number;
+    entryPrice: number;
+    markPrice: number;
+    leverage: number;
+    margin: number;             // entry notional / leverage
+    pricePnl: number;           // unrealized, at the mark price
+    funding: FundingAccrual | null;
+    totalPnl: number;
+    roePercent: number;         // total PnL as a share of the margin
+    liquidationPrice: number;
+}
+
 export interface ReyaApiResponse<T = any> {
     success?: boolean;
     data?: T;
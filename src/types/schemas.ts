@@ -0,0 +1,112 @@
+import { z } from "zod";
+
+import type {
+    Market,
+    MarketData,
+    Asset,
+    Price,
+    FeeTierParameter,
+    GlobalFeeParameters,
+    DigestRoomEntry,
+} from "./index.js";
+
+// Runtime counterparts of the interfaces in ./index.ts, applied by
+// ReyaHttpClient so API drift surfaces as a named field instead of NaN.
+
+// zod only infers required keys under strictNullChecks, which this package
+// does not enable, so a schema can't `satisfies z.ZodType<T>` directly.
+// typed<T>() checks field types against Partial<T> and the key sets both
+// ways, so the schema and its interface can't drift apart silently.
+type SameKeys<S extends z.ZodTypeAny, T> =
+    [Exclude<keyof T, keyof z.output<S>> | Exclude<keyof z.output<S>, keyof T>] extends [never] ? unknown : never;
+
+const typed = <T>() =>
+    <S extends z.ZodType<Partial<T>, z.ZodTypeDef, unknown>>(schema: S & SameKeys<S, T>): z.ZodType<T> =>
+        schema as z.ZodType<T>;
+
+const finiteNumber = z.number().finite();
+
+// Reya sends prices and fee parameters as decimal strings
+const numericString = z.string().refine(
+    value => value.trim() !== "" && Number.isFinite(Number(value)),
+    { message: "Expected a numeric string" }
+);
+
+export const MarketSchema = typed<Market>()(z.object({
+    id: z.string(),
+    assetPairId: z.string(),
+    ticker: z.string().min(1),
+    markPrice: finiteNumber,
+    isActive: z.boolean(),
+    maxLeverage: finiteNumber,
+    description: z.string(),
+    name: z.string(),
+    tickSizeDecimals: finiteNumber,
+    priority: finiteNumber,
+}));
+
+export const MarketDataSchema = typed<MarketData>()(z.object({
+    marketId: z.string(),
+    updatedAt: finiteNumber,
+    longOI: finiteNumber,
+    shortOI: finiteNumber,
+    longSkewPercentage: finiteNumber,
+    shortSkewPercentage: finiteNumber,
+    openInterest: finiteNumber,
+    fundingRate: finiteNumber,
+    fundingRateVelocity: finiteNumber,
+    last24hVolume: finiteNumber,
+    maxAmountBaseLong: finiteNumber,
+    maxAmountBaseShort: finiteNumber,
+    maxAmountSizeLong: finiteNumber,
+    maxAmountSizeShort: finiteNumber,
+    priceChange24H: finiteNumber,
+    priceChange24HPercentage: finiteNumber,
+    poolPrice: finiteNumber,
+    oraclePrice: finiteNumber,
+    pricesUpdatedAt: finiteNumber,
+}));
+
+export const AssetSchema = typed<Asset>()(z.object({
+    address: z.string(),
+    name: z.string(),
+    short: z.string().min(1),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+    asset_price_contract_id: z.string(),
+    asset_price_usdc_contract_id: z.string(),
+    decimals: z.number().int().nonnegative(),
+}));
+
+export const PriceSchema = typed<Price>()(z.object({
+    marketId: finiteNumber,
+    oraclePrice: numericString,
+    poolPrice: numericString,
+    price: numericString,
+    updatedAt: finiteNumber,
+    assetPairId: z.string().optional(),
+}));
+
+export const FeeTierParameterSchema = typed<FeeTierParameter>()(z.object({
+    tier_id: z.string(),
+    taker_fee: numericString,
+    maker_fee: numericString,
+    volume: numericString,
+}));
+
+export const GlobalFeeParametersSchema = typed<GlobalFeeParameters>()(z.object({
+    og_discount: numericString,
+    referee_discount: numericString,
+    referrer_rebate: numericString,
+    affiliate_referrer_rebate: numericString,
+}));
+
+// Operator settings are checked the same way; see parseDigestRooms
+export const DigestRoomEntrySchema = typed<DigestRoomEntry>()(z.object({
+    roomId: z.string().min(1),
+    source: z.string().min(1),
+    schedule: z.enum(["hourly", "daily"]).nullish(),
+    hourUtc: z.number().int().min(0).max(23).nullish(),
+    sections: z.union([z.array(z.string()), z.string()]).nullish(),
+    top: z.number().int().positive().nullish(),
+}));